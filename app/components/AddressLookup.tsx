@@ -1,5 +1,6 @@
 import { useState } from 'react'
 import { toast } from 'sonner'
+import { SITE } from '~/utils/site'
 
 interface AddressLookupProps {
   defaultAddress?: string
@@ -85,7 +86,7 @@ export function AddressLookup({
             value={city}
             onChange={(e) => setCity(e.target.value)}
             className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none capitalize"
-            placeholder="Raleigh"
+            placeholder={SITE.exampleCity}
           />
         </div>
         <div>
@@ -135,7 +136,7 @@ export function AddressLookup({
               value={latitude}
               onChange={(e) => setLatitude(e.target.value)}
               className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
-              placeholder="e.g., 35.7796"
+              placeholder={`e.g., ${SITE.map.latitude}`}
             />
           </div>
           <div className="flex-1">
@@ -150,7 +151,7 @@ export function AddressLookup({
               value={longitude}
               onChange={(e) => setLongitude(e.target.value)}
               className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
-              placeholder="e.g., -78.6382"
+              placeholder={`e.g., ${SITE.map.longitude}`}
             />
           </div>
           <button
@@ -0,0 +1,657 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router'
+import { toast } from 'sonner'
+import type { ImportFormat, ImportPreviewRow } from '~/types/ingestion'
+import { ACTIVE_JOB_STATUSES, type Job } from '~/types/jobs'
+import { CSV_FIELDS, guessCsvMapping, parseCsvRecords, type CsvField, type CsvMapping } from '~/utils/csv'
+
+const UPLOAD_BATCH_SIZE = 500 // Rows per upload request; the jobs worker does the importing
+const PREVIEW_CHUNK_SIZE = 100 // Rows per dry-run request
+const JOB_POLL_INTERVAL_MS = 2000
+
+// CSV fields an event can't be imported without
+const REQUIRED_CSV_FIELDS: CsvField[] = ['title', 'date', 'location']
+
+interface UploadCounts {
+  created: number
+  updated: number
+  unchanged: number
+  skipped: number
+  failed: number
+  delisted: number
+}
+
+const EMPTY_UPLOAD_COUNTS: UploadCounts = { created: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0, delisted: 0 }
+
+interface ImportFile {
+  name: string
+  format: ImportFormat
+  records: Record<string, unknown>[]
+  headers: string[] // CSV only
+}
+
+type PreviewFilter = 'all' | 'errors' | 'warnings' | 'changes'
+
+const ACTION_BADGES: Record<NonNullable<ImportPreviewRow['action']>, { label: string; className: string }> = {
+  created: { label: 'New', className: 'bg-green-600/30 text-green-300 border-green-600/50' },
+  updated: { label: 'Update', className: 'bg-blue-600/30 text-blue-300 border-blue-600/50' },
+  unchanged: { label: 'Unchanged', className: 'bg-slate-600/30 text-slate-300 border-slate-600/50' },
+  skipped: { label: 'In trash', className: 'bg-slate-600/30 text-slate-400 border-slate-600/50' },
+}
+
+// Rows rendered in the preview table at once
+const MAX_PREVIEW_TABLE_ROWS = 500
+
+function UploadCountsLine({ counts }: { counts: UploadCounts }) {
+  return (
+    <>
+      <span className="text-green-400">New: {counts.created}</span>
+      <span className="text-blue-300">Updated: {counts.updated}</span>
+      <span className="text-slate-400">Unchanged: {counts.unchanged}</span>
+      {counts.skipped > 0 && (
+        <span className="text-slate-400">In trash: {counts.skipped}</span>
+      )}
+      {counts.failed > 0 && (
+        <span className="text-red-400">Failed: {counts.failed}</span>
+      )}
+    </>
+  )
+}
+
+/**
+ * Two-step bulk import of a vendor JSON export or a CSV file. The file is
+ * read in the browser and dry-run against /api/bulk-upload/preview, which
+ * shows what each row would become, what's wrong with it and which existing
+ * events it may duplicate; CSV columns can be mapped to fields first. Only
+ * the rows the admin accepts are then sent to /api/bulk-upload, which queues
+ * them as a background import job; this only polls the job for progress.
+ */
+export function BulkImport() {
+  const [sourceName, setSourceName] = useState('Vendor export')
+  const [flagDelisted, setFlagDelisted] = useState(false)
+  const [file, setFile] = useState<ImportFile | null>(null)
+  const [mapping, setMapping] = useState<CsvMapping>({})
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null)
+  const [previewProgress, setPreviewProgress] = useState<{ current: number; total: number } | null>(null)
+  const [accepted, setAccepted] = useState<Set<number>>(new Set())
+  const [filter, setFilter] = useState<PreviewFilter>('all')
+  const [uploadProgress, setUploadProgress] = useState<{ current: number; total: number } | null>(null)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [job, setJob] = useState<Job | null>(null)
+
+  const isBusy = uploadProgress !== null || previewProgress !== null
+
+  const resetResults = () => {
+    setJobId(null)
+    setJob(null)
+  }
+
+  // Follow the import job until it finishes; it carries on if the page is closed
+  useEffect(() => {
+    if (!jobId) return
+
+    let stopped = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/jobs?id=${encodeURIComponent(jobId)}`)
+        const result = await response.json()
+        if (stopped) return
+
+        if (result.job) {
+          const current: Job = result.job
+          setJob(current)
+
+          if (!ACTIVE_JOB_STATUSES.includes(current.status)) {
+            const counts = { ...EMPTY_UPLOAD_COUNTS, ...current.result }
+            const summary = `${counts.created} new, ${counts.updated} updated, ${counts.unchanged} unchanged`
+            if (current.status === 'failed') {
+              toast.error(`Import failed: ${current.error ?? 'Unknown error'}`)
+            } else if (current.status === 'cancelled') {
+              toast.warning(`Import cancelled after ${summary}`)
+            } else if (counts.failed === 0) {
+              toast.success(`Import complete: ${summary}`)
+            } else {
+              toast.warning(`Import complete: ${summary}. ${counts.failed} failed.`)
+            }
+            return
+          }
+        }
+      } catch {
+        // Try again on the next poll
+      }
+      if (!stopped) timer = setTimeout(poll, JOB_POLL_INTERVAL_MS)
+    }
+
+    poll()
+    return () => {
+      stopped = true
+      clearTimeout(timer)
+    }
+  }, [jobId])
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    e.target.value = ''
+    if (!selected) return
+
+    setPreview(null)
+    resetResults()
+
+    try {
+      const text = await selected.text()
+
+      if (selected.name.toLowerCase().endsWith('.csv') || selected.type === 'text/csv') {
+        const records = parseCsvRecords(text)
+        if (records.length === 0) {
+          toast.error('The CSV file has no rows')
+          return
+        }
+        const headers = Object.keys(records[0])
+        setFile({ name: selected.name, format: 'csv', records, headers })
+        setMapping(guessCsvMapping(headers))
+        return
+      }
+
+      const jsonData: unknown = JSON.parse(text)
+      if (!Array.isArray(jsonData) || jsonData.some((item) => typeof item !== 'object' || item === null || Array.isArray(item))) {
+        toast.error('Invalid JSON format: Expected an array of events')
+        return
+      }
+      setFile({ name: selected.name, format: 'vendor-json', records: jsonData, headers: [] })
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      toast.error(`Failed to read file: ${errorMessage}`)
+    }
+  }
+
+  const handleMappingChange = (field: CsvField, column: string) => {
+    setMapping((current) => ({ ...current, [field]: column || undefined }))
+    // The preview no longer matches the mapping
+    setPreview(null)
+  }
+
+  const runPreview = async () => {
+    if (!file) return
+    if (!sourceName.trim()) {
+      toast.error('Enter a source name first')
+      return
+    }
+
+    const totalChunks = Math.ceil(file.records.length / PREVIEW_CHUNK_SIZE)
+    const rows: ImportPreviewRow[] = []
+    resetResults()
+    setPreviewProgress({ current: 0, total: totalChunks })
+
+    try {
+      for (let i = 0; i < totalChunks; i++) {
+        const response = await fetch('/api/bulk-upload/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            records: file.records.slice(i * PREVIEW_CHUNK_SIZE, (i + 1) * PREVIEW_CHUNK_SIZE),
+            format: file.format,
+            mapping: file.format === 'csv' ? mapping : undefined,
+            source: sourceName,
+            startIndex: i * PREVIEW_CHUNK_SIZE,
+          }),
+        })
+        const result = await response.json()
+        if (result.error) {
+          toast.error(result.error)
+          return
+        }
+        rows.push(...result.rows)
+        setPreviewProgress({ current: i + 1, total: totalChunks })
+      }
+
+      // Rows repeating an earlier row's ID would overwrite it
+      const firstRowById = new Map<string, number>()
+      for (const row of rows) {
+        if (!row.event) continue
+        const first = firstRowById.get(row.event.externalId)
+        if (first === undefined) {
+          firstRowById.set(row.event.externalId, row.index)
+        } else {
+          row.errors.push(`Same ID as row ${first + 1}`)
+        }
+      }
+
+      setPreview(rows)
+      setFilter('all')
+      // Possible duplicates have to be accepted one by one
+      setAccepted(new Set(rows.filter((row) => row.errors.length === 0 && row.duplicates.length === 0).map((row) => row.index)))
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      toast.error(`Failed to preview file: ${errorMessage}`)
+    } finally {
+      setPreviewProgress(null)
+    }
+  }
+
+  const toggleRow = (index: number) => {
+    setAccepted((current) => {
+      const next = new Set(current)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const acceptAll = (accept: boolean) => {
+    setAccepted(new Set(accept ? (preview ?? []).filter((row) => row.errors.length === 0).map((row) => row.index) : []))
+  }
+
+  const handleImport = async () => {
+    if (!file || !preview) return
+
+    const indexes = preview.filter((row) => accepted.has(row.index) && row.errors.length === 0).map((row) => row.index)
+    if (indexes.length === 0) {
+      toast.error('No rows are selected')
+      return
+    }
+
+    resetResults()
+    setUploadProgress({ current: 0, total: indexes.length })
+
+    let uploadedJobId: string | undefined
+    try {
+      for (let start = 0; start < indexes.length; start += UPLOAD_BATCH_SIZE) {
+        const rows = indexes.slice(start, start + UPLOAD_BATCH_SIZE)
+        const response = await fetch('/api/bulk-upload', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            jobId: uploadedJobId,
+            final: start + UPLOAD_BATCH_SIZE >= indexes.length,
+            records: rows.map((index) => file.records[index]),
+            rows,
+            format: file.format,
+            mapping: file.format === 'csv' ? mapping : undefined,
+            source: sourceName,
+            label: file.name,
+            // With a full export, anything upcoming from this source that isn't in the file has been dropped.
+            // Rejected rows are still in the file, so they count as listed.
+            listedExternalIds: flagDelisted && !uploadedJobId
+              ? preview.flatMap((row) => (row.event ? [row.event.externalId] : []))
+              : undefined,
+          }),
+        })
+
+        const result = await response.json()
+        if (result.error) throw new Error(result.error)
+        uploadedJobId = result.jobId
+        setUploadProgress({ current: start + rows.length, total: indexes.length })
+      }
+
+      setJobId(uploadedJobId ?? null)
+      setFile(null)
+      setPreview(null)
+      toast.success('Import queued. It keeps running if you leave this page.')
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Network error'
+      toast.error(
+        uploadedJobId
+          ? `Upload failed: ${errorMessage}. Cancel the unfinished import on the Jobs tab and try again.`
+          : `Upload failed: ${errorMessage}`
+      )
+    } finally {
+      setUploadProgress(null)
+    }
+  }
+
+  const summary = useMemo(() => {
+    const rows = preview ?? []
+    return {
+      total: rows.length,
+      errors: rows.filter((row) => row.errors.length > 0).length,
+      warnings: rows.filter((row) => row.errors.length === 0 && row.warnings.length > 0).length,
+      created: rows.filter((row) => row.errors.length === 0 && row.action === 'created').length,
+      updated: rows.filter((row) => row.errors.length === 0 && row.action === 'updated').length,
+      unchanged: rows.filter((row) => row.errors.length === 0 && row.action === 'unchanged').length,
+    }
+  }, [preview])
+
+  const visibleRows = useMemo(() => (preview ?? []).filter((row) => {
+    if (filter === 'errors') return row.errors.length > 0
+    if (filter === 'warnings') return row.errors.length === 0 && row.warnings.length > 0
+    if (filter === 'changes') return row.errors.length === 0 && (row.action === 'created' || row.action === 'updated')
+    return true
+  }), [preview, filter])
+
+  const jobCounts = { ...EMPTY_UPLOAD_COUNTS, ...job?.result }
+  const jobPercent = job?.total ? Math.round((job.progress / job.total) * 100) : 0
+  const missingRequired = file?.format === 'csv' ? REQUIRED_CSV_FIELDS.filter((field) => !mapping[field]) : []
+
+  return (
+    <div className="p-6">
+      <h2 className="text-2xl font-semibold text-white mb-4">Bulk Event Upload</h2>
+      <p className="text-slate-300 text-sm mb-6">
+        Upload a JSON file of events in the API format, or a CSV file with a header row, and preview it before
+        anything is saved. Events already uploaded from the same source (matched by recId or the ID column) are
+        updated instead of duplicated. Accepted rows are imported in the background; follow them here or on the Jobs tab.
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="uploadSource" className="block text-sm font-medium text-white mb-2">
+            Source name
+          </label>
+          <input
+            id="uploadSource"
+            value={sourceName}
+            onChange={(e) => {
+              setSourceName(e.target.value)
+              setPreview(null)
+            }}
+            disabled={isBusy}
+            className="w-full px-4 py-2 rounded bg-slate-700 border border-slate-600 text-white disabled:opacity-50"
+          />
+          <p className="text-slate-400 text-xs mt-1">
+            Use the same name for every upload of the same export. It matches a source on the Sources tab with that name.
+          </p>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={flagDelisted}
+            onChange={(e) => setFlagDelisted(e.target.checked)}
+            disabled={isBusy}
+          />
+          This file is the source's full export: flag upcoming events from it that are missing from the file
+        </label>
+
+        <div>
+          <label htmlFor="eventsFile" className="block text-sm font-medium text-white mb-2">
+            Select JSON or CSV File
+          </label>
+          <input
+            id="eventsFile"
+            type="file"
+            accept=".json,application/json,.csv,text/csv"
+            onChange={handleFileSelect}
+            disabled={isBusy}
+            className="w-full px-4 py-2 rounded bg-slate-700 border border-slate-600 text-white file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-blue-600 file:text-white hover:file:bg-blue-700 disabled:opacity-50"
+          />
+          <p className="text-slate-400 text-xs mt-1">
+            JSON: an array of ApiEvent objects (see transformApiData.ts). CSV: one event per row; save spreadsheets as CSV first.
+          </p>
+        </div>
+
+        {file && (
+          <div className="p-4 bg-slate-900/50 border border-slate-600 rounded space-y-4">
+            <p className="text-sm text-white">
+              {file.name}: {file.records.length} row(s), {file.format === 'csv' ? 'CSV' : 'vendor JSON'}
+            </p>
+
+            {/* Column mapping */}
+            {file.format === 'csv' && (
+              <div>
+                <h3 className="text-sm font-medium text-white mb-2">Columns</h3>
+                <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                  {(Object.keys(CSV_FIELDS) as CsvField[]).map((field) => (
+                    <label key={field} className="text-xs text-slate-300">
+                      {CSV_FIELDS[field].label}
+                      {REQUIRED_CSV_FIELDS.includes(field) && <span className="text-red-400"> *</span>}
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        disabled={isBusy}
+                        className="mt-1 w-full px-2 py-1 rounded bg-slate-700 border border-slate-600 text-white text-sm"
+                      >
+                        <option value="">(not in file)</option>
+                        {file.headers.map((header) => (
+                          <option key={header} value={header}>{header}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-slate-400 text-xs mt-2">
+                  Without an ID column, rows are matched to earlier uploads by title, date and location.
+                </p>
+              </div>
+            )}
+
+            <button
+              type="button"
+              onClick={runPreview}
+              disabled={isBusy || missingRequired.length > 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {previewProgress
+                ? `Checking ${previewProgress.current} of ${previewProgress.total}...`
+                : preview ? 'Preview again' : 'Preview import'}
+            </button>
+            {missingRequired.length > 0 && (
+              <p className="text-xs text-red-300">
+                Choose columns for: {missingRequired.map((field) => CSV_FIELDS[field].label).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Dry run */}
+        {preview && (
+          <div className="p-4 bg-slate-900/50 border border-slate-600 rounded space-y-4">
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span className="text-white">{summary.total} rows</span>
+              <span className="text-green-400">New: {summary.created}</span>
+              <span className="text-blue-300">Updates: {summary.updated}</span>
+              <span className="text-slate-400">Unchanged: {summary.unchanged}</span>
+              <span className="text-yellow-300">With warnings: {summary.warnings}</span>
+              <span className="text-red-400">With errors: {summary.errors}</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as PreviewFilter)}
+                className="px-3 py-1 rounded bg-slate-700 border border-slate-600 text-white text-sm"
+              >
+                <option value="all">All rows</option>
+                <option value="changes">New and updated</option>
+                <option value="warnings">Warnings</option>
+                <option value="errors">Errors</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => acceptAll(true)}
+                disabled={isBusy}
+                className="px-3 py-1 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm disabled:opacity-50"
+              >
+                Select all valid
+              </button>
+              <button
+                type="button"
+                onClick={() => acceptAll(false)}
+                disabled={isBusy}
+                className="px-3 py-1 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm disabled:opacity-50"
+              >
+                Select none
+              </button>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-slate-400 border-b border-slate-700">
+                  <tr>
+                    <th className="p-2">Import</th>
+                    <th className="p-2">Row</th>
+                    <th className="p-2">Event</th>
+                    <th className="p-2">Result</th>
+                    <th className="p-2">Issues</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.slice(0, MAX_PREVIEW_TABLE_ROWS).map((row) => (
+                    <tr key={row.index} className="border-b border-slate-800 align-top">
+                      <td className="p-2">
+                        <input
+                          type="checkbox"
+                          checked={accepted.has(row.index)}
+                          onChange={() => toggleRow(row.index)}
+                          disabled={isBusy || row.errors.length > 0}
+                          aria-label={`Import row ${row.index + 1}`}
+                        />
+                      </td>
+                      <td className="p-2 text-slate-400">{row.index + 1}</td>
+                      <td className="p-2">
+                        {row.event ? (
+                          <>
+                            <div className="text-white">{row.event.title}</div>
+                            <div className="text-xs text-slate-400">
+                              {row.event.date}{row.event.times && ` · ${row.event.times}`} · {row.event.location}
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-slate-500">Unreadable row</span>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {row.errors.length > 0 ? (
+                          <span className="px-2 py-0.5 border rounded-full text-xs bg-red-600/30 text-red-300 border-red-600/50">Error</span>
+                        ) : row.action && (
+                          <>
+                            <span className={`px-2 py-0.5 border rounded-full text-xs ${ACTION_BADGES[row.action].className}`}>
+                              {ACTION_BADGES[row.action].label}
+                            </span>
+                            {row.changedFields.length > 0 && (
+                              <div className="text-xs text-slate-400 mt-1">{row.changedFields.join(', ')}</div>
+                            )}
+                          </>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <ul className="space-y-1 text-xs">
+                          {row.errors.map((error, i) => (
+                            <li key={`e${i}`} className="text-red-300">{error}</li>
+                          ))}
+                          {row.warnings.map((warning, i) => (
+                            <li key={`w${i}`} className="text-yellow-300">{warning}</li>
+                          ))}
+                          {row.duplicates.map((duplicate) => (
+                            <li key={duplicate.id} className="text-slate-300">
+                              Existing:{' '}
+                              <Link to={`/events/${duplicate.id}`} target="_blank" className="text-blue-300 hover:underline">
+                                {duplicate.title}
+                              </Link>{' '}
+                              at {duplicate.location}
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {visibleRows.length > MAX_PREVIEW_TABLE_ROWS && (
+                <p className="text-xs text-slate-400 mt-2">
+                  Showing the first {MAX_PREVIEW_TABLE_ROWS} of {visibleRows.length} rows
+                </p>
+              )}
+            </div>
+
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isBusy || accepted.size === 0}
+              className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              Import {accepted.size} selected row(s)
+            </button>
+          </div>
+        )}
+
+        {/* Upload progress */}
+        {uploadProgress && (
+          <div className="p-4 bg-slate-900/50 border border-slate-600 rounded text-sm text-slate-300">
+            Uploading rows {uploadProgress.current} of {uploadProgress.total}...
+          </div>
+        )}
+
+        {/* Import job progress */}
+        {job && (
+          <div className="p-4 bg-slate-900/50 border border-slate-600 rounded">
+            <div className="flex justify-between text-sm text-slate-300 mb-2">
+              <span>
+                {job.status === 'queued' && 'Waiting for the worker to pick up the import...'}
+                {job.status === 'running' && `Importing row ${job.progress} of ${job.total ?? '?'}...`}
+                {job.status === 'succeeded' && 'Import complete'}
+                {job.status === 'failed' && <span className="text-red-300">Import failed: {job.error}</span>}
+                {job.status === 'cancelled' && 'Import cancelled'}
+              </span>
+              <span>{jobPercent}%</span>
+            </div>
+            <div className="w-full bg-slate-700 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${jobPercent}%` }}
+              />
+            </div>
+            <div className="flex gap-4 mt-2 text-xs">
+              <UploadCountsLine counts={jobCounts} />
+            </div>
+            {jobCounts.delisted > 0 && (
+              <p className="text-sm text-yellow-300 mt-2">
+                {jobCounts.delisted} upcoming event(s) from this source are no longer in it and were flagged on the Sources tab
+              </p>
+            )}
+            {ACTIVE_JOB_STATUSES.includes(job.status) && (
+              <p className="text-xs text-slate-400 mt-2">
+                You can close this page; the import carries on and shows up on the Jobs tab.
+              </p>
+            )}
+            {job.logs.length > 0 && (
+              <details className="mt-3">
+                <summary className="cursor-pointer text-xs text-slate-400 hover:text-slate-300">
+                  Log ({job.logs.length} lines)
+                </summary>
+                <ul className="mt-2 space-y-1 text-xs text-slate-300 max-h-64 overflow-y-auto font-mono">
+                  {job.logs.map((line, i) => (
+                    <li key={i}>{line}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        )}
+      </div>
+
+      <details className="mt-6">
+        <summary className="cursor-pointer text-sm text-slate-400 hover:text-slate-300 font-medium">
+          Show expected JSON format
+        </summary>
+        <pre className="mt-3 p-4 bg-slate-900/50 border border-slate-600 rounded text-xs text-slate-300 overflow-x-auto">
+{`[
+  {
+    "recId": "100768",
+    "name": "Event Name",
+    "teaser": "Event description",
+    "location": "Venue Name",
+    "coordinates": [35.7796, -78.6382],
+    "date": "2025-12-23T04:59:59.000Z",
+    "times": "6:00 PM - 8:00 PM",
+    "cost": "Free",
+    "categories": [
+      { "catName": "Music", "catId": "1" }
+    ],
+    "media_raw": [
+      { "mediaurl": "https://...", "sortorder": 1, "mediatype": "Image" }
+    ],
+    "listing": {
+      "address1": "123 Main St",
+      "region": "Downtown"
+    },
+    "recurrence": "Weekly",
+    "endDate": "2026-01-01T00:00:00.000Z",
+    "city": "Raleigh"
+  }
+]`}
+        </pre>
+      </details>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+interface CalendarSubscribeProps {
+  origin: string
+  category?: string
+  favoritesToken?: string | null
+}
+
+interface Feed {
+  label: string
+  path: string
+}
+
+export function CalendarSubscribe({ origin, category, favoritesToken }: CalendarSubscribeProps) {
+  const feeds: Feed[] = [{ label: 'All events', path: '/calendar/events.ics' }]
+  if (category) {
+    feeds.push({ label: `${category} events`, path: `/calendar/category/${encodeURIComponent(category)}/events.ics` })
+  }
+  if (favoritesToken) {
+    feeds.push({ label: 'My favorites', path: `/calendar/favorites/${favoritesToken}/events.ics` })
+  }
+
+  const webcalOrigin = origin.replace(/^https?:/, 'webcal:')
+
+  return (
+    <details className="relative inline-block">
+      <summary className="cursor-pointer list-none px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm">
+        📅 Subscribe to Calendar
+      </summary>
+      <div className="absolute right-0 z-20 mt-2 w-80 bg-slate-800 border border-slate-600 rounded-lg p-4 space-y-4 shadow-lg">
+        {feeds.map((feed) => (
+          <div key={feed.path}>
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <span className="text-sm font-medium text-white">{feed.label}</span>
+              <a
+                href={`${webcalOrigin}${feed.path}`}
+                className="text-sm text-blue-400 hover:text-blue-300"
+              >
+                Subscribe
+              </a>
+            </div>
+            <input
+              type="text"
+              readOnly
+              value={`${origin}${feed.path}`}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-2 py-1 rounded bg-slate-900 border border-slate-700 text-xs text-slate-300"
+            />
+          </div>
+        ))}
+        <p className="text-slate-400 text-xs">
+          Paste a link into Google Calendar's "From URL" option, or use Subscribe to open your calendar app.
+          {favoritesToken && ' Keep your favorites link private.'}
+        </p>
+      </div>
+    </details>
+  )
+}
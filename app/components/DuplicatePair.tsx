@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { Form, Link } from 'react-router'
+import { MERGE_FIELDS, type DuplicateCandidate, type DuplicateEvent, type MergeField } from '~/types/duplicates'
+import { formatDate, formatDateTime } from '~/utils/datetime'
+
+type Side = 'a' | 'b'
+
+interface DuplicatePairProps {
+  candidate: DuplicateCandidate
+  isSubmitting?: boolean
+}
+
+// What each merge choice shows for one side; empty when the event has nothing there
+function fieldText(event: DuplicateEvent, field: MergeField): string {
+  switch (field) {
+    case 'date':
+      return [
+        formatDate(event.date),
+        event.endDate && `until ${formatDate(event.endDate)}`,
+        event.recurrence,
+      ].filter(Boolean).join(' · ')
+    case 'location':
+      return [event.location, event.address, event.city].filter(Boolean).join(', ')
+    case 'categories':
+      return (event.categories ?? []).join(', ')
+    default:
+      return event[field] ?? ''
+  }
+}
+
+function FieldValue({ event, field }: { event: DuplicateEvent; field: MergeField }) {
+  const text = fieldText(event, field)
+  if (!text) return <span className="text-slate-500">—</span>
+  if (field === 'imageUrl') {
+    return <img src={text} alt="" className="h-20 rounded object-cover" />
+  }
+  if (field === 'url') {
+    return <a href={text} target="_blank" rel="noreferrer" className="text-blue-300 hover:underline break-all">{text}</a>
+  }
+  return <span className={field === 'description' ? 'line-clamp-4 whitespace-pre-line' : ''}>{text}</span>
+}
+
+/**
+ * Side-by-side comparison of two events that look like duplicates. The
+ * admin picks which event survives and, per field, which side's value it
+ * keeps; differing fields are highlighted. Posts `intent` ('merge' |
+ * 'dismiss') with both event ids to the current route's action.
+ */
+export function DuplicatePair({ candidate, isSubmitting = false }: DuplicatePairProps) {
+  const [a, b] = candidate.events
+  const events: Record<Side, DuplicateEvent> = { a, b }
+
+  // The older event survives unless the newer one has more votes; fields it
+  // leaves empty are filled from the other
+  const [keep, setKeep] = useState<Side>(b.votes > a.votes ? 'b' : 'a')
+  const [picks, setPicks] = useState<Record<MergeField, Side>>(() => {
+    const other: Side = keep === 'a' ? 'b' : 'a'
+    return Object.fromEntries(MERGE_FIELDS.map(({ field }) => [
+      field,
+      fieldText(events[keep], field) ? keep : other,
+    ])) as Record<MergeField, Side>
+  })
+
+  const reasons = [
+    `${Math.round(candidate.titleSimilarity * 100)}% title match`,
+    candidate.sameVenue && 'same venue',
+    candidate.distanceMiles !== undefined &&
+      (candidate.distanceMiles < 0.1 ? 'under 0.1 mi apart' : `${candidate.distanceMiles.toFixed(1)} mi apart`),
+  ].filter(Boolean)
+
+  return (
+    <li className="p-4 bg-slate-900/50 border border-slate-600 rounded">
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <span className="px-2 py-0.5 border rounded-full text-xs bg-yellow-600/30 text-yellow-300 border-yellow-600/50">
+          {Math.round(candidate.score * 100)}% likely
+        </span>
+        <span className="text-xs text-slate-400">{reasons.join(' · ')}</span>
+      </div>
+
+      <Form method="post">
+        <input type="hidden" name="eventId" value={a.id} />
+        <input type="hidden" name="otherId" value={b.id} />
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-700">
+                <th className="py-2 pr-3 w-40 font-medium">Keep</th>
+                {(['a', 'b'] as const).map((side) => (
+                  <th key={side} className="py-2 pr-3 font-medium">
+                    <label className="flex items-start gap-2 text-white cursor-pointer">
+                      <input
+                        type="radio"
+                        name="keep"
+                        value={side}
+                        checked={keep === side}
+                        onChange={() => setKeep(side)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <Link to={`/events/${events[side].id}`} target="_blank" className="hover:text-blue-300">
+                          {events[side].title}
+                        </Link>
+                        <span className="block text-xs text-slate-400 font-normal">
+                          {events[side].votes} vote(s) · {events[side].createdByName || events[side].createdBy}
+                          {events[side].source && ` · from ${events[side].source}`}
+                          {events[side].createdAt && ` · added ${formatDateTime(events[side].createdAt)}`}
+                        </span>
+                      </span>
+                    </label>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {MERGE_FIELDS.map(({ field, label }) => {
+                const differs = fieldText(a, field) !== fieldText(b, field)
+                return (
+                  <tr key={field} className={`border-b border-slate-800 align-top ${differs ? 'bg-yellow-900/10' : ''}`}>
+                    <td className="py-2 pr-3 text-slate-400">{label}</td>
+                    {(['a', 'b'] as const).map((side) => (
+                      <td key={side} className="py-2 pr-3 text-slate-200">
+                        <label className={`flex items-start gap-2 ${differs ? 'cursor-pointer' : ''}`}>
+                          {differs && (
+                            <input
+                              type="radio"
+                              name={`pick-${field}`}
+                              value={side}
+                              checked={picks[field] === side}
+                              disabled={!fieldText(events[side], field)}
+                              onChange={() => setPicks((current) => ({ ...current, [field]: side }))}
+                              className="mt-1"
+                            />
+                          )}
+                          <FieldValue event={events[side]} field={field} />
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-3 mt-4">
+          <button
+            type="submit"
+            name="intent"
+            value="merge"
+            disabled={isSubmitting}
+            onClick={(e) => {
+              const other = events[keep === 'a' ? 'b' : 'a']
+              if (!confirm(`Merge into "${events[keep].title}"? "${other.title}" moves to the trash and its votes move over.`)) {
+                e.preventDefault()
+              }
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Merge
+          </button>
+          <button
+            type="submit"
+            name="intent"
+            value="dismiss"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors disabled:opacity-50"
+          >
+            Not duplicates
+          </button>
+        </div>
+      </Form>
+    </li>
+  )
+}
@@ -0,0 +1,247 @@
+import type { ReactNode } from 'react'
+import { formatDate, formatDateTime } from '~/utils/datetime'
+import { formatTimeRange, type TimeStatus } from '~/utils/times'
+import { splitHighlights } from '~/utils/highlight'
+import { formatDistance } from '~/utils/geo'
+import { EVENT_STATUS_LABELS, type EventStatus } from '~/types/moderation'
+
+export interface EventCardData {
+  id: string
+  title: string
+  description: string
+  location: string
+  address?: string
+  city?: string
+  date: string
+  occurrenceDate?: string
+  searchHighlight?: { title: string; snippet: string }
+  distanceMiles?: number
+  times?: string
+  startTime?: string
+  endTime?: string
+  timeStatus?: TimeStatus
+  cost?: string
+  isFree?: boolean
+  rsvpRequired?: boolean
+  imageUrl?: string
+  categories?: string[]
+  recurrence?: string
+  endDate?: string
+  createdByName?: string
+  status?: EventStatus
+  publishAt?: string
+  originalDate?: string
+}
+
+export type EventCardTheme = 'light' | 'dark'
+
+const THEME_CLASSES: Record<EventCardTheme, {
+  card: string
+  title: string
+  location: string
+  muted: string
+  description: string
+  chip: { none: string; free: string; paid: string; info: string }
+}> = {
+  dark: {
+    card: 'border-gray-200 dark:border-gray-700 dark:bg-slate-800/80 backdrop-blur-sm',
+    title: 'text-white',
+    location: 'text-gray-300',
+    muted: 'text-gray-400',
+    description: 'text-gray-200',
+    chip: {
+      none: 'bg-slate-600/30 text-slate-300',
+      free: 'bg-green-600/30 text-green-300',
+      paid: 'bg-yellow-600/30 text-yellow-300',
+      info: 'bg-blue-600/30 text-blue-300',
+    },
+  },
+  light: {
+    card: 'border-gray-200 bg-white',
+    title: 'text-gray-900',
+    location: 'text-gray-700',
+    muted: 'text-gray-500',
+    description: 'text-gray-700',
+    chip: {
+      none: 'bg-slate-100 text-slate-600',
+      free: 'bg-green-100 text-green-800',
+      paid: 'bg-yellow-100 text-yellow-800',
+      info: 'bg-blue-100 text-blue-800',
+    },
+  },
+}
+
+/**
+ * Render text with search-match markers as <mark> elements
+ */
+export function HighlightedText({ value }: { value: string }) {
+  return (
+    <>
+      {splitHighlights(value).map((part, idx) =>
+        part.highlighted ? (
+          <mark key={idx} className="bg-yellow-400/30 text-inherit rounded px-0.5">{part.text}</mark>
+        ) : (
+          <span key={idx}>{part.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
+const STATUS_BADGE_CLASSES: Record<EventStatus, string> = {
+  draft: 'bg-slate-600/30 text-slate-300',
+  pending: 'bg-yellow-600/30 text-yellow-300',
+  published: 'bg-green-600/30 text-green-300',
+  rejected: 'bg-red-600/30 text-red-300',
+  cancelled: 'bg-red-600/30 text-red-300',
+  postponed: 'bg-orange-600/30 text-orange-300',
+}
+
+function statusBadgeLabel(status: EventStatus, publishAt?: string, originalDate?: string): string {
+  if (status === 'draft' && publishAt) return `Scheduled ${formatDateTime(publishAt)}`
+  if (status === 'postponed') return originalDate ? `Moved from ${formatDate(originalDate)}` : 'Postponed · date TBA'
+  return EVENT_STATUS_LABELS[status]
+}
+
+/**
+ * Status chip for events that aren't simply published: cancelled and
+ * postponed events in listings, and drafts or pending events for authors
+ */
+export function EventStatusBadge({ status, publishAt, originalDate }: {
+  status?: EventStatus
+  publishAt?: string
+  originalDate?: string
+}) {
+  if (!status || status === 'published') return null
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${STATUS_BADGE_CLASSES[status]}`}>
+      {statusBadgeLabel(status, publishAt, originalDate)}
+    </span>
+  )
+}
+
+interface EventCardProps {
+  event: EventCardData
+  theme?: EventCardTheme
+  accentColor?: string // Hex color for category chips, replacing the theme's blue
+  compact?: boolean // Stacked, shorter layout for narrow embeds
+  titleAction?: ReactNode // Shown beside the title, e.g. a favorite button
+  onClick?: () => void
+  children?: ReactNode // Action buttons along the bottom of the card
+}
+
+export function EventCard({
+  event,
+  theme = 'dark',
+  accentColor,
+  compact = false,
+  titleAction,
+  onClick,
+  children,
+}: EventCardProps) {
+  const classes = THEME_CLASSES[theme]
+  const timeRange = formatTimeRange(event) || event.times
+  const chipSize = compact ? 'px-2 py-0.5 text-xs' : 'px-3 py-1 text-sm'
+  // 26 hex = ~15% alpha, matching the /30 tint of the theme chips on a light card
+  const accentChipStyle = accentColor ? { backgroundColor: `${accentColor}26`, color: accentColor } : undefined
+
+  return (
+    <article
+      className={`border rounded-lg overflow-hidden hover:shadow-lg transition-shadow ${onClick ? 'cursor-pointer' : ''} ${classes.card}`}
+      onClick={onClick}
+    >
+      <div className={`flex ${event.imageUrl ? (compact ? 'flex-col sm:flex-row' : 'flex-col md:flex-row') : ''}`}>
+        {event.imageUrl && (
+          <div className={compact
+            ? 'w-full sm:w-40 sm:min-w-40 h-32 sm:h-auto overflow-hidden flex-shrink-0'
+            : 'w-full md:w-80 md:min-w-80 h-48 md:h-auto overflow-hidden flex-shrink-0'
+          }>
+            <img
+              src={event.imageUrl}
+              alt={event.title}
+              className="w-full h-full object-cover"
+            />
+          </div>
+        )}
+        <div className={`${compact ? 'p-4' : 'p-6'} flex-1 min-w-0`}>
+          <div className={`flex justify-between items-start ${compact ? 'mb-2' : 'mb-4'}`}>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-start gap-3">
+                <h3 className={`${compact ? 'text-lg' : 'text-2xl'} font-semibold mb-2 ${classes.title} ${event.status === 'cancelled' ? 'line-through' : ''}`}>
+                  {event.searchHighlight ? <HighlightedText value={event.searchHighlight.title} /> : event.title}
+                </h3>
+                {titleAction && <div onClick={(e) => e.stopPropagation()}>{titleAction}</div>}
+                {event.status && event.status !== 'published' && (
+                  <div className="mt-1.5"><EventStatusBadge status={event.status} publishAt={event.publishAt} originalDate={event.originalDate} /></div>
+                )}
+              </div>
+              <p className={`${compact ? 'text-sm' : ''} ${classes.location}`}>
+                {event.location}
+                {event.distanceMiles !== undefined && (
+                  <span className="text-sm text-teal-300 ml-2">{formatDistance(event.distanceMiles)}</span>
+                )}
+              </p>
+              {event.address && !compact && (
+                <p className={`text-sm ${classes.muted}`}>
+                  {event.address}
+                  {event.city && `, ${event.city}`}
+                </p>
+              )}
+            </div>
+            <div className={`text-right text-sm ml-4 ${classes.muted}`}>
+              <p className="font-semibold">{formatDate(event.occurrenceDate || event.date)}</p>
+              {timeRange && <p className="text-xs mt-1">{timeRange}</p>}
+            </div>
+          </div>
+
+          {event.description && (
+            <p className={`mb-3 ${compact ? 'text-sm line-clamp-2' : ''} ${classes.description}`}>
+              {event.searchHighlight ? <HighlightedText value={event.searchHighlight.snippet} /> : event.description}
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2 mb-3">
+            <span className={`${chipSize} rounded-full ${
+              !event.cost
+                ? classes.chip.none
+                : event.isFree
+                ? classes.chip.free
+                : classes.chip.paid
+            }`}>
+              {event.cost || 'N/A'}
+            </span>
+            {event.rsvpRequired && (
+              <span className={`${chipSize} rounded-full ${classes.chip.info}`}>
+                RSVP required
+              </span>
+            )}
+            {event.categories?.slice(0, 3).map((category, idx) => (
+              <span
+                key={idx}
+                className={`${chipSize} rounded-full ${accentChipStyle ? '' : classes.chip.info}`}
+                style={accentChipStyle}
+              >
+                {category}
+              </span>
+            ))}
+          </div>
+
+          {event.recurrence && !compact && (
+            <p className={`text-sm mb-3 ${classes.muted}`}>
+              🔁 {event.recurrence}
+              {event.endDate && ` (until ${formatDate(event.endDate)})`}
+            </p>
+          )}
+
+          {event.createdByName && !compact && (
+            <p className={`text-sm mb-3 ${classes.muted}`}>
+              Submitted by: {event.createdByName}
+            </p>
+          )}
+
+          {children && <div className={`flex gap-3 ${compact ? 'mt-2' : 'mt-4'}`}>{children}</div>}
+        </div>
+      </div>
+    </article>
+  )
+}
@@ -1,5 +1,7 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react'
 import type { TransportMode, DirectionsResponse, RouteGeoJSON } from '~/types/directions'
+import { distanceInMiles, MAX_RADIUS_MILES } from '~/utils/geo'
+import { SITE } from '~/utils/site'
 
 interface EventWithCoords {
   id: string
@@ -9,6 +11,7 @@ interface EventWithCoords {
   latitude: number
   longitude: number
   date: string
+  occurrences: string[]
   times?: string
   cost?: string
   categories: string[]
@@ -25,7 +28,7 @@ interface RouteSummary {
 interface EventRoutePanelProps {
   isOpen: boolean
   onClose: () => void
-  events: EventWithCoords[]
+  date: string // YYYY-MM-DD; the route is planned from events on this day
   userLocation: { longitude: number; latitude: number } | null
   currentRouteEvents: EventWithCoords[]
   currentRouteSummary: RouteSummary | null
@@ -45,7 +48,7 @@ type Step = 'location' | 'events' | 'transport' | 'route'
 export default function EventRoutePanel({
   isOpen,
   onClose,
-  events,
+  date,
   userLocation,
   currentRouteEvents,
   currentRouteSummary,
@@ -65,6 +68,7 @@ export default function EventRoutePanel({
   const [addressInput, setAddressInput] = useState('')
   const [cityInput, setCityInput] = useState('')
   const [isGeocodingAddress, setIsGeocodingAddress] = useState(false)
+  const [candidateEvents, setCandidateEvents] = useState<(EventWithCoords & { distance: number })[]>([])
   const [nearbyEvents, setNearbyEvents] = useState<(EventWithCoords & { distance: number })[]>([])
   const [selectedEventIds, setSelectedEventIds] = useState<Set<string>>(new Set())
   const [eventCount, setEventCount] = useState(10)
@@ -86,47 +90,51 @@ export default function EventRoutePanel({
     }
   }, [isOpen, currentRouteEvents.length, currentRouteSummary])
 
-  // Track previous events to detect date changes
-  const prevEventsRef = useRef<string>('')
+  // Track previous date to detect date filter changes
+  const prevDateRef = useRef(date)
 
-  // Reset panel state when events change (e.g., date filter changed)
+  // Reset panel state when the date filter changes
   useEffect(() => {
-    // Create a simple hash of event IDs to detect changes
-    const eventsHash = events.map(e => e.id).sort().join(',')
-
-    if (prevEventsRef.current && prevEventsRef.current !== eventsHash) {
-      // Events actually changed - reset to location step
+    if (prevDateRef.current !== date) {
       setStep('location')
+      setCandidateEvents([])
       setNearbyEvents([])
       setSelectedEventIds(new Set())
       setEventCount(10)
       setRouteSummary(null)
     }
 
-    prevEventsRef.current = eventsHash
-  }, [events])
-
-  // Haversine distance calculation
-  const getDistance = useCallback((lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371 // Earth's radius in km
-    const dLat = (lat2 - lat1) * Math.PI / 180
-    const dLon = (lon2 - lon1) * Math.PI / 180
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    return R * c
-  }, [])
+    prevDateRef.current = date
+  }, [date])
+
+  // Find events nearest the start point, sorted by distance by the server
+  const findNearestEvents = useCallback(async (start: { lng: number; lat: number }) => {
+    const params = new URLSearchParams({
+      lat: start.lat.toString(),
+      lng: start.lng.toString(),
+      radius: MAX_RADIUS_MILES.toString(),
+      from: date,
+      to: date,
+    })
+    const response = await fetch(`/api/events/geo?${params.toString()}`)
+    if (!response.ok) {
+      throw new Error('Failed to find nearby events')
+    }
 
-  // Find nearest events using greedy nearest-neighbor
-  const findNearestEvents = useCallback((start: { lng: number; lat: number }, count: number = 10) => {
-    const eventsWithDistance = events.map(event => ({
-      ...event,
-      distance: getDistance(start.lat, start.lng, event.latitude, event.longitude)
-    }))
-    return eventsWithDistance.sort((a, b) => a.distance - b.distance).slice(0, count)
-  }, [events, getDistance])
+    const data: { events: (EventWithCoords & { distanceMiles: number })[] } = await response.json()
+    return data.events.map(event => ({ ...event, distance: event.distanceMiles }))
+  }, [date])
+
+  // Show the nearest events to a newly chosen start point, all preselected
+  const showNearestEvents = useCallback(async (start: { lng: number; lat: number }) => {
+    const candidates = await findNearestEvents(start)
+    const nearby = candidates.slice(0, 10)
+    setCandidateEvents(candidates)
+    setNearbyEvents(nearby)
+    setSelectedEventIds(new Set(nearby.map(e => e.id)))
+    setEventCount(10)
+    setStep('events')
+  }, [findNearestEvents])
 
   // Order selected events by proximity (greedy nearest-neighbor)
   const orderEventsByProximity = useCallback((
@@ -144,7 +152,7 @@ export default function EventRoutePanel({
       let nearestDist = Infinity
 
       for (let i = 0; i < remaining.length; i++) {
-        const dist = getDistance(currentPos.lat, currentPos.lng, remaining[i].latitude, remaining[i].longitude)
+        const dist = distanceInMiles(currentPos, { lat: remaining[i].latitude, lng: remaining[i].longitude })
         if (dist < nearestDist) {
           nearestDist = dist
           nearestIdx = i
@@ -157,7 +165,7 @@ export default function EventRoutePanel({
     }
 
     return ordered
-  }, [getDistance])
+  }, [])
 
   // Handle geolocation request
   const handleUseMyLocation = useCallback(() => {
@@ -171,19 +179,20 @@ export default function EventRoutePanel({
     }
 
     navigator.geolocation.getCurrentPosition(
-      (position) => {
+      async (position) => {
         const loc = { lng: position.coords.longitude, lat: position.coords.latitude }
         setStartLocation(loc)
-        setIsGettingLocation(false)
 
         // Notify parent of obtained location
         onUserLocationObtained?.({ longitude: loc.lng, latitude: loc.lat })
 
         // Find nearby events
-        const nearby = findNearestEvents(loc)
-        setNearbyEvents(nearby)
-        setSelectedEventIds(new Set(nearby.map(e => e.id)))
-        setStep('events')
+        try {
+          await showNearestEvents(loc)
+        } catch (error) {
+          setLocationError('Failed to find nearby events')
+        }
+        setIsGettingLocation(false)
       },
       (error) => {
         setIsGettingLocation(false)
@@ -203,7 +212,7 @@ export default function EventRoutePanel({
       },
       { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
     )
-  }, [findNearestEvents, onUserLocationObtained])
+  }, [showNearestEvents, onUserLocationObtained])
 
   // Handle address geocoding
   const handleLookupAddress = useCallback(async () => {
@@ -237,18 +246,15 @@ export default function EventRoutePanel({
 
       const loc = { lng: data.longitude, lat: data.latitude }
       setStartLocation(loc)
-      setIsGeocodingAddress(false)
 
       // Find nearby events
-      const nearby = findNearestEvents(loc)
-      setNearbyEvents(nearby)
-      setSelectedEventIds(new Set(nearby.map(e => e.id)))
-      setStep('events')
+      await showNearestEvents(loc)
+      setIsGeocodingAddress(false)
     } catch (error) {
       setLocationError('Failed to lookup address')
       setIsGeocodingAddress(false)
     }
-  }, [addressInput, cityInput, findNearestEvents])
+  }, [addressInput, cityInput, showNearestEvents])
 
   // Handle event selection toggle
   const handleToggleEvent = useCallback((eventId: string) => {
@@ -268,10 +274,9 @@ export default function EventRoutePanel({
     if (!startLocation) return
     const newCount = eventCount + 5
     setEventCount(newCount)
-    const moreEvents = findNearestEvents(startLocation, newCount)
     // Keep existing selections, only add new events as unselected
-    setNearbyEvents(moreEvents)
-  }, [startLocation, eventCount, findNearestEvents])
+    setNearbyEvents(candidateEvents.slice(0, newCount))
+  }, [startLocation, eventCount, candidateEvents])
 
   // Generate route
   const handleGenerateRoute = useCallback(async () => {
@@ -341,6 +346,7 @@ export default function EventRoutePanel({
     setLocationError(null)
     setAddressInput('')
     setCityInput('')
+    setCandidateEvents([])
     setNearbyEvents([])
     setSelectedEventIds(new Set())
     setEventCount(10)
@@ -461,7 +467,7 @@ export default function EventRoutePanel({
                   type="text"
                   value={cityInput}
                   onChange={(e) => setCityInput(e.target.value)}
-                  placeholder="Raleigh"
+                  placeholder={SITE.exampleCity}
                   className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:border-blue-500"
                 />
               </div>
@@ -519,7 +525,7 @@ export default function EventRoutePanel({
                         <p className="text-slate-400 text-xs truncate">{event.location}</p>
                         <div className="flex items-center gap-2 text-slate-500 text-xs">
                           {event.times && <span>{event.times}</span>}
-                          <span>{(event.distance * 0.621371).toFixed(1)} mi away</span>
+                          <span>{event.distance.toFixed(1)} mi away</span>
                         </div>
                       </div>
                     </div>
@@ -527,7 +533,7 @@ export default function EventRoutePanel({
                 ))}
 
                 {/* Load More Events button */}
-                {nearbyEvents.length < events.length && (
+                {nearbyEvents.length < candidateEvents.length && (
                   <button
                     onClick={handleLoadMoreEvents}
                     className="w-full px-3 py-2 text-sm text-blue-400 hover:text-blue-300 border border-dashed border-slate-600 hover:border-slate-500 rounded-lg transition-colors flex items-center justify-center gap-2"
@@ -1,6 +1,12 @@
 import { useState, useEffect } from 'react'
-import { formatDate } from '~/utils/dateFormatter'
+import { formatDate } from '~/utils/datetime'
+import { formatTime, formatTimeRange, TIME_OF_DAY_RANGES, type TimeOfDay, type TimeStatus } from '~/utils/times'
 import FavoriteButton from './FavoriteButton'
+import { PriceRangeSlider } from './PriceRangeSlider'
+import { EventCard, EventStatusBadge, HighlightedText } from './EventCard'
+import { DEFAULT_RADIUS_MILES, formatDistance, RADIUS_OPTIONS_MILES } from '~/utils/geo'
+import type { EventSort } from '~/types/search'
+import type { EventStatus } from '~/types/moderation'
 
 interface Event {
   id: string
@@ -10,8 +16,16 @@ interface Event {
   address?: string
   city?: string
   date: string
+  occurrenceDate?: string
+  searchHighlight?: { title: string; snippet: string }
+  distanceMiles?: number
   times?: string
+  startTime?: string
+  endTime?: string
+  timeStatus?: TimeStatus
   cost?: string
+  isFree?: boolean
+  rsvpRequired?: boolean
   imageUrl?: string
   url?: string
   categories?: string[]
@@ -19,8 +33,31 @@ interface Event {
   endDate?: string
   createdBy?: string
   createdByName?: string
+  status?: EventStatus
+  publishAt?: string
+  originalDate?: string
 }
 
+export interface EventListFilters {
+  search?: string
+  category?: string
+  minPrice?: number
+  maxPrice?: number
+  startDate?: string
+  endDate?: string
+  timeOfDay?: TimeOfDay
+  startsAfter?: string // HH:MM
+  favorites?: boolean
+  near?: string // Address or place to search around
+  lat?: number // Browser location, used instead of `near`
+  lng?: number
+  radius?: number // Miles
+  sort?: EventSort
+}
+
+// Hours offered by the "Starts after" filter
+const STARTS_AFTER_OPTIONS = ['08:00', '10:00', '12:00', '14:00', '16:00', '17:00', '18:00', '19:00', '20:00', '21:00']
+
 interface EventsListProps {
   events: Event[]
   totalCount: number
@@ -29,31 +66,35 @@ interface EventsListProps {
   allCategories?: string[]
   searchQuery?: string
   category?: string
-  priceFilter?: 'free' | 'paid' | 'all'
+  minPrice?: number | null
+  maxPrice?: number | null
   startDate?: string
   endDate?: string
+  timeOfDay?: TimeOfDay | ''
+  startsAfter?: string
+  near?: string
+  nearLat?: number | null
+  nearLng?: number | null
+  radius?: number
+  locationError?: string | null
+  sort?: EventSort
   showFavorites?: boolean
   isLoading?: boolean
   canEditEvent?: (event: Event) => boolean
   onSearch?: (query: string) => void
-  onFilterChange?: (filters: {
-    search?: string
-    category?: string
-    price?: 'free' | 'paid' | 'all'
-    startDate?: string
-    endDate?: string
-    favorites?: boolean
-  }) => void
+  onFilterChange?: (filters: EventListFilters) => void
   onPageChange?: (page: number) => void
   onPerPageChange?: (perPage: number) => void
   onSelectEvent?: (event: Event) => void
   showFilters?: boolean
   showCreateButton?: boolean
   createButtonHref?: string
+  widgetHref?: string // Link to the embed widget configurator
   emptyStateMessage?: string
   emptyStateActionLabel?: string
   emptyStateActionHref?: string
   enableBulkDelete?: boolean
+  enableLocationFilter?: boolean
   voteCounts?: Record<string, number>
   userVotes?: string[]
   isAuthenticated?: boolean
@@ -67,9 +108,18 @@ export default function EventsList({
   allCategories = [],
   searchQuery = '',
   category = '',
-  priceFilter = 'all',
+  minPrice = null,
+  maxPrice = null,
   startDate = '',
   endDate = '',
+  timeOfDay = '',
+  startsAfter = '',
+  near = '',
+  nearLat = null,
+  nearLng = null,
+  radius = DEFAULT_RADIUS_MILES,
+  locationError = null,
+  sort = 'relevance',
   showFavorites = false,
   isLoading = false,
   canEditEvent,
@@ -81,20 +131,29 @@ export default function EventsList({
   showFilters = true,
   showCreateButton = false,
   createButtonHref = '/submit',
+  widgetHref,
   emptyStateMessage = 'No events found',
   emptyStateActionLabel,
   emptyStateActionHref,
   enableBulkDelete = false,
+  enableLocationFilter = false,
   voteCounts = {},
   userVotes = [],
   isAuthenticated = false,
 }: EventsListProps) {
   const [searchInput, setSearchInput] = useState(searchQuery)
   const [selectedCategory, setSelectedCategory] = useState(category)
-  const [selectedPrice, setSelectedPrice] = useState(priceFilter)
+  const [selectedMinPrice, setSelectedMinPrice] = useState(minPrice)
+  const [selectedMaxPrice, setSelectedMaxPrice] = useState(maxPrice)
   const [selectedStartDate, setSelectedStartDate] = useState(startDate)
   const [selectedEndDate, setSelectedEndDate] = useState(endDate)
+  const [selectedTimeOfDay, setSelectedTimeOfDay] = useState(timeOfDay)
+  const [selectedStartsAfter, setSelectedStartsAfter] = useState(startsAfter)
   const [selectedShowFavorites, setSelectedShowFavorites] = useState(showFavorites)
+  const [nearInput, setNearInput] = useState(near)
+  const [selectedRadius, setSelectedRadius] = useState(radius)
+  const [isLocating, setIsLocating] = useState(false)
+  const [geolocationError, setGeolocationError] = useState<string | null>(null)
   const [viewMode, setViewMode] = useState<'card' | 'table'>('card')
   const [selectedEventIds, setSelectedEventIds] = useState<Set<string>>(new Set())
   const [filtersExpanded, setFiltersExpanded] = useState(false)
@@ -105,60 +164,104 @@ export default function EventsList({
   const startIndex = (currentPage - 1) * eventsPerPage
   const endIndex = startIndex + eventsPerPage
 
-  const hasActiveFilters = searchQuery || category || (priceFilter && priceFilter !== 'all') || startDate || endDate || showFavorites
+  const hasLocation = !!near || (nearLat !== null && nearLng !== null)
+  const hasActiveFilters = searchQuery || category || minPrice !== null || maxPrice !== null || startDate || endDate || timeOfDay || startsAfter || showFavorites || hasLocation
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault()
+  // What the sort select shows: relevance only means something for searches
+  // and distance only for location filters; otherwise results are by date
+  const effectiveSort: EventSort =
+    (sort === 'relevance' && searchQuery) || (sort === 'distance' && hasLocation) ? sort : 'date'
+
+  // Report the current selections, with the value that just changed passed in
+  // as an override since the state update isn't visible until the next render
+  const applyFilters = (overrides: EventListFilters = {}) => {
     if (onFilterChange) {
       onFilterChange({
         search: searchInput.trim() || undefined,
         category: selectedCategory || undefined,
-        price: selectedPrice !== 'all' ? selectedPrice : undefined,
+        minPrice: selectedMinPrice ?? undefined,
+        maxPrice: selectedMaxPrice ?? undefined,
         startDate: selectedStartDate || undefined,
         endDate: selectedEndDate || undefined,
+        timeOfDay: selectedTimeOfDay || undefined,
+        startsAfter: selectedStartsAfter || undefined,
         favorites: selectedShowFavorites || undefined,
+        near: near || undefined,
+        lat: nearLat ?? undefined,
+        lng: nearLng ?? undefined,
+        radius: hasLocation ? selectedRadius : undefined,
+        sort: sort !== 'relevance' ? sort : undefined,
+        ...overrides,
       })
     }
   }
 
-  const handleFilterChange = () => {
-    if (onFilterChange) {
-      onFilterChange({
-        search: searchInput.trim() || undefined,
-        category: selectedCategory || undefined,
-        price: selectedPrice !== 'all' ? selectedPrice : undefined,
-        startDate: selectedStartDate || undefined,
-        endDate: selectedEndDate || undefined,
-        favorites: selectedShowFavorites || undefined,
-      })
-    }
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    applyFilters()
   }
 
   const handleClearFilters = () => {
     setSearchInput('')
     setSelectedCategory('')
-    setSelectedPrice('all')
+    setSelectedMinPrice(null)
+    setSelectedMaxPrice(null)
     setSelectedStartDate('')
     setSelectedEndDate('')
+    setSelectedTimeOfDay('')
+    setSelectedStartsAfter('')
     setSelectedShowFavorites(false)
+    setNearInput('')
+    setSelectedRadius(DEFAULT_RADIUS_MILES)
+    setGeolocationError(null)
     if (onFilterChange) {
       onFilterChange({})
     }
   }
 
+  const handleNearSubmit = () => {
+    const value = nearInput.trim()
+    setGeolocationError(null)
+    applyFilters({
+      near: value || undefined,
+      lat: undefined,
+      lng: undefined,
+      radius: value ? selectedRadius : undefined,
+    })
+  }
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      setGeolocationError('Geolocation is not supported by your browser')
+      return
+    }
+
+    setIsLocating(true)
+    setGeolocationError(null)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false)
+        setNearInput('')
+        applyFilters({
+          near: undefined,
+          // ~100m precision is plenty and keeps URLs short
+          lat: Number(position.coords.latitude.toFixed(3)),
+          lng: Number(position.coords.longitude.toFixed(3)),
+          radius: selectedRadius,
+        })
+      },
+      () => {
+        setIsLocating(false)
+        setGeolocationError('Unable to get your location. Enter an address instead.')
+      },
+      { timeout: 10000 }
+    )
+  }
+
   const handleToggleFavorites = () => {
     const newValue = !selectedShowFavorites
     setSelectedShowFavorites(newValue)
-    if (onFilterChange) {
-      onFilterChange({
-        search: searchInput.trim() || undefined,
-        category: selectedCategory || undefined,
-        price: selectedPrice !== 'all' ? selectedPrice : undefined,
-        startDate: selectedStartDate || undefined,
-        endDate: selectedEndDate || undefined,
-        favorites: newValue || undefined,
-      })
-    }
+    applyFilters({ favorites: newValue || undefined })
   }
 
   const handlePageChange = (page: number) => {
@@ -190,7 +293,7 @@ export default function EventsList({
     if (selectedEventIds.size === 0) return
 
     const count = selectedEventIds.size
-    if (!confirm(`Are you sure you want to delete ${count} event${count > 1 ? 's' : ''}?`)) {
+    if (!confirm(`Move ${count} event${count > 1 ? 's' : ''} to the trash? You can restore them from the Trash tab.`)) {
       return
     }
 
@@ -264,6 +367,14 @@ export default function EventsList({
               New Event
             </a>
           )}
+          {widgetHref && (
+            <a
+              href={widgetHref}
+              className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors"
+            >
+              Embed Widget
+            </a>
+          )}
           {isAuthenticated && (
             <button
               onClick={handleToggleFavorites}
@@ -358,6 +469,22 @@ export default function EventsList({
               >
                 Search
               </button>
+              {(searchQuery || hasLocation) && (
+                <select
+                  aria-label="Sort results"
+                  value={effectiveSort}
+                  disabled={isLoading}
+                  onChange={(e) => {
+                    const newValue = e.target.value as EventSort
+                    applyFilters({ sort: newValue !== 'relevance' ? newValue : undefined })
+                  }}
+                  className="px-3 py-3 bg-slate-800/80 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {searchQuery && <option value="relevance">Most relevant</option>}
+                  <option value="date">Soonest</option>
+                  {hasLocation && <option value="distance">Nearest</option>}
+                </select>
+              )}
             </div>
           </form>
 
@@ -391,7 +518,7 @@ export default function EventsList({
 
             {filtersExpanded && (
               <div className="px-4 pb-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {allCategories.length > 0 && (
                 <div>
                   <label htmlFor="category" className="block text-sm font-medium text-slate-300 mb-2">
@@ -404,16 +531,7 @@ export default function EventsList({
                     onChange={(e) => {
                       const newValue = e.target.value
                       setSelectedCategory(newValue)
-                      if (onFilterChange) {
-                        onFilterChange({
-                          search: searchInput.trim() || undefined,
-                          category: newValue || undefined,
-                          price: selectedPrice !== 'all' ? selectedPrice : undefined,
-                          startDate: selectedStartDate || undefined,
-                          endDate: selectedEndDate || undefined,
-                          favorites: selectedShowFavorites || undefined,
-                        })
-                      }
+                      applyFilters({ category: newValue || undefined })
                     }}
                     className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
@@ -428,33 +546,19 @@ export default function EventsList({
               )}
 
               <div>
-                <label htmlFor="price" className="block text-sm font-medium text-slate-300 mb-2">
+                <span className="block text-sm font-medium text-slate-300 mb-2">
                   Price
-                </label>
-                <select
-                  id="price"
-                  value={selectedPrice}
+                </span>
+                <PriceRangeSlider
+                  minPrice={selectedMinPrice}
+                  maxPrice={selectedMaxPrice}
                   disabled={isLoading}
-                  onChange={(e) => {
-                    const newValue = e.target.value as 'free' | 'paid' | 'all'
-                    setSelectedPrice(newValue)
-                    if (onFilterChange) {
-                      onFilterChange({
-                        search: searchInput.trim() || undefined,
-                        category: selectedCategory || undefined,
-                        price: newValue !== 'all' ? newValue : undefined,
-                        startDate: selectedStartDate || undefined,
-                        endDate: selectedEndDate || undefined,
-                        favorites: selectedShowFavorites || undefined,
-                      })
-                    }
+                  onChange={(newMin, newMax) => {
+                    setSelectedMinPrice(newMin ?? null)
+                    setSelectedMaxPrice(newMax ?? null)
+                    applyFilters({ minPrice: newMin, maxPrice: newMax })
                   }}
-                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  <option value="all">All Prices</option>
-                  <option value="free">Free</option>
-                  <option value="paid">Paid</option>
-                </select>
+                />
               </div>
 
               <div>
@@ -469,16 +573,7 @@ export default function EventsList({
                   onChange={(e) => {
                     const newValue = e.target.value
                     setSelectedStartDate(newValue)
-                    if (onFilterChange) {
-                      onFilterChange({
-                        search: searchInput.trim() || undefined,
-                        category: selectedCategory || undefined,
-                        price: selectedPrice !== 'all' ? selectedPrice : undefined,
-                        startDate: newValue || undefined,
-                        endDate: selectedEndDate || undefined,
-                        favorites: selectedShowFavorites || undefined,
-                      })
-                    }
+                    applyFilters({ startDate: newValue || undefined })
                   }}
                   className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                 />
@@ -496,20 +591,123 @@ export default function EventsList({
                   onChange={(e) => {
                     const newValue = e.target.value
                     setSelectedEndDate(newValue)
-                    if (onFilterChange) {
-                      onFilterChange({
-                        search: searchInput.trim() || undefined,
-                        category: selectedCategory || undefined,
-                        price: selectedPrice !== 'all' ? selectedPrice : undefined,
-                        startDate: selectedStartDate || undefined,
-                        endDate: newValue || undefined,
-                        favorites: selectedShowFavorites || undefined,
-                      })
-                    }
+                    applyFilters({ endDate: newValue || undefined })
                   }}
                   className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                 />
               </div>
+
+              <div>
+                <label htmlFor="timeOfDay" className="block text-sm font-medium text-slate-300 mb-2">
+                  Time of Day
+                </label>
+                <select
+                  id="timeOfDay"
+                  value={selectedTimeOfDay}
+                  disabled={isLoading}
+                  onChange={(e) => {
+                    const newValue = e.target.value as TimeOfDay | ''
+                    setSelectedTimeOfDay(newValue)
+                    applyFilters({ timeOfDay: newValue || undefined })
+                  }}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <option value="">Any Time</option>
+                  {(Object.keys(TIME_OF_DAY_RANGES) as TimeOfDay[]).map((key) => (
+                    <option key={key} value={key}>
+                      {TIME_OF_DAY_RANGES[key].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="startsAfter" className="block text-sm font-medium text-slate-300 mb-2">
+                  Starts After
+                </label>
+                <select
+                  id="startsAfter"
+                  value={selectedStartsAfter}
+                  disabled={isLoading}
+                  onChange={(e) => {
+                    const newValue = e.target.value
+                    setSelectedStartsAfter(newValue)
+                    applyFilters({ startsAfter: newValue || undefined })
+                  }}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <option value="">Any Time</option>
+                  {STARTS_AFTER_OPTIONS.map((time) => (
+                    <option key={time} value={time}>
+                      {formatTime(time)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {enableLocationFilter && (
+                <div className="md:col-span-2 lg:col-span-3">
+                  <label htmlFor="near" className="block text-sm font-medium text-slate-300 mb-2">
+                    Location
+                  </label>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <select
+                      aria-label="Distance"
+                      value={selectedRadius}
+                      disabled={isLoading}
+                      onChange={(e) => {
+                        const newValue = Number(e.target.value)
+                        setSelectedRadius(newValue)
+                        if (hasLocation) applyFilters({ radius: newValue })
+                      }}
+                      className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {RADIUS_OPTIONS_MILES.map((miles) => (
+                        <option key={miles} value={miles}>
+                          Within {miles} mi of
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      id="near"
+                      type="text"
+                      value={nearInput}
+                      disabled={isLoading}
+                      onChange={(e) => setNearInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault()
+                          handleNearSubmit()
+                        }
+                      }}
+                      placeholder={nearLat !== null ? 'Your location' : 'Address, city, or place'}
+                      className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleNearSubmit}
+                      disabled={isLoading}
+                      className="px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-500 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Go
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleUseMyLocation}
+                      disabled={isLoading || isLocating}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z"/>
+                      </svg>
+                      {isLocating ? 'Locating...' : 'Near me'}
+                    </button>
+                  </div>
+                  {(geolocationError || locationError) && (
+                    <p className="text-red-400 text-xs mt-2">{geolocationError || locationError}</p>
+                  )}
+                </div>
+              )}
             </div>
 
             {hasActiveFilters && (
@@ -525,19 +723,36 @@ export default function EventsList({
                       Category: {category}
                     </span>
                   )}
-                  {priceFilter && priceFilter !== 'all' && (
+                  {(minPrice !== null || maxPrice !== null) && (
                     <span className="px-3 py-1 bg-green-600/30 text-green-300 border border-green-600/50 rounded-full text-sm">
-                      Price: {priceFilter === 'free' ? 'Free' : 'Paid'}
+                      Price: {maxPrice === 0
+                        ? 'Free'
+                        : `${minPrice ? `$${minPrice}` : 'Free'} - ${maxPrice !== null ? `$${maxPrice}` : 'any'}`}
                     </span>
                   )}
                   {startDate && (
                     <span className="px-3 py-1 bg-orange-600/30 text-orange-300 border border-orange-600/50 rounded-full text-sm">
-                      From: {new Date(startDate + 'T00:00:00').toLocaleDateString()}
+                      From: {formatDate(startDate)}
                     </span>
                   )}
                   {endDate && (
                     <span className="px-3 py-1 bg-orange-600/30 text-orange-300 border border-orange-600/50 rounded-full text-sm">
-                      To: {new Date(endDate + 'T00:00:00').toLocaleDateString()}
+                      To: {formatDate(endDate)}
+                    </span>
+                  )}
+                  {timeOfDay && (
+                    <span className="px-3 py-1 bg-indigo-600/30 text-indigo-300 border border-indigo-600/50 rounded-full text-sm">
+                      Time: {TIME_OF_DAY_RANGES[timeOfDay].label}
+                    </span>
+                  )}
+                  {startsAfter && (
+                    <span className="px-3 py-1 bg-indigo-600/30 text-indigo-300 border border-indigo-600/50 rounded-full text-sm">
+                      After: {formatTime(startsAfter)}
+                    </span>
+                  )}
+                  {hasLocation && (
+                    <span className="px-3 py-1 bg-teal-600/30 text-teal-300 border border-teal-600/50 rounded-full text-sm">
+                      Within {radius} mi of {near || 'your location'}
                     </span>
                   )}
                 </div>
@@ -652,28 +867,36 @@ export default function EventsList({
                               className="w-10 h-10 object-cover rounded"
                             />
                           )}
-                          <span className="line-clamp-2">{event.title}</span>
+                          <span className={`line-clamp-2 ${event.status === 'cancelled' ? 'line-through' : ''}`}>
+                            {event.searchHighlight ? <HighlightedText value={event.searchHighlight.title} /> : event.title}
+                          </span>
+                          <EventStatusBadge status={event.status} publishAt={event.publishAt} originalDate={event.originalDate} />
                         </div>
                       </td>
                       <td className="px-4 py-3 text-sm text-slate-300">
-                        <div className="line-clamp-2 max-w-xs">{event.description}</div>
+                        <div className="line-clamp-2 max-w-xs">
+                          {event.searchHighlight ? <HighlightedText value={event.searchHighlight.snippet} /> : event.description}
+                        </div>
                       </td>
                       <td className="px-4 py-3 text-sm text-slate-300 whitespace-nowrap">
                         {event.city || '-'}
+                        {event.distanceMiles !== undefined && (
+                          <div className="text-xs text-teal-300">{formatDistance(event.distanceMiles)}</div>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-sm text-slate-300 whitespace-nowrap">
-                        {formatDate(event.date)}
+                        {formatDate(event.occurrenceDate || event.date)}
                       </td>
                       <td className="px-4 py-3 text-sm text-slate-300">
-                        <div className="max-w-[120px] truncate" title={event.times || '-'}>
-                          {event.times || '-'}
+                        <div className="max-w-[120px] truncate" title={formatTimeRange(event) || event.times || '-'}>
+                          {formatTimeRange(event) || event.times || '-'}
                         </div>
                       </td>
                       <td className="px-4 py-3 text-sm">
                         <span className={`px-2 py-1 rounded text-xs max-w-[100px] truncate inline-block ${
                           !event.cost
                             ? 'bg-slate-600/30 text-slate-300'
-                            : event.cost.toLowerCase().includes('free')
+                            : event.isFree
                             ? 'bg-green-600/30 text-green-300'
                             : 'bg-yellow-600/30 text-yellow-300'
                         }`} title={event.cost || 'N/A'}>
@@ -753,143 +976,70 @@ export default function EventsList({
             {events.map((event) => {
               const canEdit = canEditEvent ? canEditEvent(event) : false
               return (
-                <article
+                <EventCard
                   key={event.id}
-                  className="border border-gray-200 rounded-lg overflow-hidden hover:shadow-lg transition-shadow cursor-pointer dark:border-gray-700 dark:bg-slate-800/80 backdrop-blur-sm"
+                  event={event}
                   onClick={() => onSelectEvent?.(event)}
+                  titleAction={
+                    <FavoriteButton
+                      eventId={event.id}
+                      initialVoted={userVotesSet.has(event.id)}
+                      initialCount={voteCounts[event.id] || 0}
+                      isAuthenticated={isAuthenticated}
+                      size="md"
+                      showCount={true}
+                    />
+                  }
                 >
-                  <div className={`flex ${event.imageUrl ? 'flex-col md:flex-row' : ''}`}>
-                    {event.imageUrl && (
-                      <div className="w-full md:w-80 md:min-w-80 h-48 md:h-auto overflow-hidden flex-shrink-0">
-                        <img
-                          src={event.imageUrl}
-                          alt={event.title}
-                          className="w-full h-full object-cover"
-                        />
-                      </div>
-                    )}
-                    <div className="p-6 flex-1">
-                      <div className="flex justify-between items-start mb-4">
-                        <div className="flex-1">
-                          <div className="flex items-start gap-3">
-                            <h3 className="text-2xl font-semibold mb-2 text-white">{event.title}</h3>
-                            <div onClick={(e) => e.stopPropagation()}>
-                              <FavoriteButton
-                                eventId={event.id}
-                                initialVoted={userVotesSet.has(event.id)}
-                                initialCount={voteCounts[event.id] || 0}
-                                isAuthenticated={isAuthenticated}
-                                size="md"
-                                showCount={true}
-                              />
-                            </div>
-                          </div>
-                          <p className="text-gray-300">
-                            {event.location}
-                          </p>
-                          {event.address && (
-                            <p className="text-sm text-gray-400">
-                              {event.address}
-                              {event.city && `, ${event.city}`}
-                            </p>
-                          )}
-                        </div>
-                        <div className="text-right text-sm text-gray-400 ml-4">
-                          <p className="font-semibold">{formatDate(event.date)}</p>
-                          {event.times && <p className="text-xs mt-1">{event.times}</p>}
-                        </div>
-                      </div>
-
-                      {event.description && (
-                        <p className="text-gray-200 mb-3">{event.description}</p>
-                      )}
-
-                      <div className="flex flex-wrap gap-2 mb-3">
-                        <span className={`px-3 py-1 rounded-full text-sm ${
-                          !event.cost
-                            ? 'bg-slate-600/30 text-slate-300'
-                            : event.cost.toLowerCase().includes('free')
-                            ? 'bg-green-600/30 text-green-300'
-                            : 'bg-yellow-600/30 text-yellow-300'
-                        }`}>
-                          {event.cost || 'N/A'}
-                        </span>
-                        {event.categories?.slice(0, 3).map((category, idx) => (
-                          <span
-                            key={idx}
-                            className="px-3 py-1 bg-blue-600/30 text-blue-300 rounded-full text-sm"
-                          >
-                            {category}
-                          </span>
-                        ))}
-                      </div>
-
-                      {event.recurrence && (
-                        <p className="text-sm text-gray-400 mb-3">
-                          🔁 {event.recurrence}
-                          {event.endDate && ` (until ${formatDate(event.endDate)})`}
-                        </p>
-                      )}
-
-                      {event.createdByName && (
-                        <p className="text-sm text-gray-400 mb-3">
-                          Submitted by: {event.createdByName}
-                        </p>
-                      )}
-
-                      <div className="flex gap-3 mt-4">
-                        <a
-                          href={`/events/${event.id}`}
-                          onClick={(e) => e.stopPropagation()}
-                          className="px-4 py-2 bg-slate-600 text-white rounded hover:bg-slate-500 transition-colors inline-block"
+                  <a
+                    href={`/events/${event.id}`}
+                    onClick={(e) => e.stopPropagation()}
+                    className="px-4 py-2 bg-slate-600 text-white rounded hover:bg-slate-500 transition-colors inline-block"
+                  >
+                    View Details
+                  </a>
+                  {event.url && (
+                    <a
+                      href={event.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors inline-block"
+                    >
+                      Visit Website
+                    </a>
+                  )}
+                  {canEdit && (
+                    <>
+                      <a
+                        href={`/events/${event.id}/edit`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+                      >
+                        Edit
+                      </a>
+                      <form
+                        method="post"
+                        action={`/events/${event.id}/delete`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="inline"
+                      >
+                        <button
+                          type="submit"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            if (!confirm('Are you sure you want to delete this event?')) {
+                              e.preventDefault()
+                            }
+                          }}
+                          className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
                         >
-                          View Details
-                        </a>
-                        {event.url && (
-                          <a
-                            href={event.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            onClick={(e) => e.stopPropagation()}
-                            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors inline-block"
-                          >
-                            Visit Website
-                          </a>
-                        )}
-                        {canEdit && (
-                          <>
-                            <a
-                              href={`/events/${event.id}/edit`}
-                              onClick={(e) => e.stopPropagation()}
-                              className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
-                            >
-                              Edit
-                            </a>
-                            <form
-                              method="post"
-                              action={`/events/${event.id}/delete`}
-                              onClick={(e) => e.stopPropagation()}
-                              className="inline"
-                            >
-                              <button
-                                type="submit"
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  if (!confirm('Are you sure you want to delete this event?')) {
-                                    e.preventDefault()
-                                  }
-                                }}
-                                className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
-                              >
-                                Delete
-                              </button>
-                            </form>
-                          </>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </article>
+                          Delete
+                        </button>
+                      </form>
+                    </>
+                  )}
+                </EventCard>
               )
             })}
           </div>
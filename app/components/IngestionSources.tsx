@@ -0,0 +1,262 @@
+import { Form, Link } from 'react-router'
+import type { Event } from '~/stores/useEventStore'
+import type { ConnectorType, IngestionRun, IngestionSource } from '~/types/ingestion'
+import { formatDateTime } from '~/utils/datetime'
+
+export interface ConnectorOption {
+  type: ConnectorType
+  label: string
+  description: string
+}
+
+interface IngestionSourcesProps {
+  sources: IngestionSource[]
+  runs: IngestionRun[]
+  delistedEvents: Event[]
+  connectors: ConnectorOption[]
+  isSubmitting?: boolean
+}
+
+const RUN_STATUS_STYLES: Record<IngestionRun['status'], string> = {
+  running: 'bg-blue-600/30 text-blue-300 border-blue-600/50',
+  succeeded: 'bg-green-600/30 text-green-300 border-green-600/50',
+  failed: 'bg-red-600/30 text-red-300 border-red-600/50',
+}
+
+function RunSummary({ run }: { run: IngestionRun }) {
+  return (
+    <span className="text-xs text-slate-400">
+      {run.fetched} fetched · {run.created} new · {run.updated} updated · {run.unchanged} unchanged
+      {run.skipped > 0 && ` · ${run.skipped} skipped`}
+      {run.delisted > 0 && <span className="text-yellow-300"> · {run.delisted} delisted</span>}
+      {run.failed > 0 && <span className="text-red-400"> · {run.failed} failed</span>}
+    </span>
+  )
+}
+
+/**
+ * External event feeds pulled in on a schedule, with a form to add one, a
+ * log of recent runs and the upcoming events sources have stopped listing.
+ * Buttons post `intent` ('create-source' | 'toggle-source' | 'run-source' |
+ * 'delete-source') to the current route's action.
+ */
+export function IngestionSources({ sources, runs, delistedEvents, connectors, isSubmitting = false }: IngestionSourcesProps) {
+  const connectorLabels = Object.fromEntries(connectors.map((connector) => [connector.type, connector.label]))
+
+  return (
+    <div className="space-y-8">
+      <Form method="post" className="p-4 bg-slate-900/50 border border-slate-600 rounded space-y-4">
+        <input type="hidden" name="intent" value="create-source" />
+        <h3 className="text-lg font-semibold text-white">Add a source</h3>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="sourceName" className="block text-sm font-medium text-white mb-2">Name</label>
+            <input
+              id="sourceName"
+              name="name"
+              required
+              placeholder="City Parks Calendar"
+              className="w-full px-4 py-2 rounded bg-slate-700 border border-slate-600 text-white"
+            />
+          </div>
+          <div>
+            <label htmlFor="sourceType" className="block text-sm font-medium text-white mb-2">Format</label>
+            <select
+              id="sourceType"
+              name="type"
+              className="w-full px-4 py-2 rounded bg-slate-700 border border-slate-600 text-white"
+            >
+              {connectors.map((connector) => (
+                <option key={connector.type} value={connector.type}>{connector.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="sourceUrl" className="block text-sm font-medium text-white mb-2">URL</label>
+            <input
+              id="sourceUrl"
+              name="url"
+              type="url"
+              required
+              placeholder="https://example.com/events.ics"
+              className="w-full px-4 py-2 rounded bg-slate-700 border border-slate-600 text-white"
+            />
+          </div>
+          <div>
+            <label htmlFor="sourceSchedule" className="block text-sm font-medium text-white mb-2">Pull</label>
+            <select
+              id="sourceSchedule"
+              name="schedule"
+              defaultValue="daily"
+              className="w-full px-4 py-2 rounded bg-slate-700 border border-slate-600 text-white"
+            >
+              <option value="hourly">Hourly</option>
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-300 md:mt-8">
+            <input type="checkbox" name="autoPublish" />
+            Publish new events right away instead of sending them for review
+          </label>
+        </div>
+
+        <ul className="text-xs text-slate-400 space-y-1">
+          {connectors.map((connector) => (
+            <li key={connector.type}>
+              <span className="text-slate-300">{connector.label}:</span> {connector.description}
+            </li>
+          ))}
+        </ul>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Add source
+        </button>
+      </Form>
+
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-4">Sources ({sources.length})</h3>
+        {sources.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-slate-300">No sources yet</p>
+          </div>
+        ) : (
+          <ul className="grid gap-4">
+            {sources.map((source) => (
+              <li
+                key={source.id}
+                className="p-4 bg-slate-900/50 border border-slate-600 rounded flex flex-col md:flex-row md:items-center gap-4"
+              >
+                <div className="flex-1 min-w-0">
+                  <h4 className="text-lg font-semibold text-white truncate">
+                    {source.name}
+                    {!source.enabled && <span className="ml-2 text-xs text-slate-400 font-normal">(paused)</span>}
+                  </h4>
+                  <p className="text-slate-400 text-sm truncate">
+                    {connectorLabels[source.type] ?? source.type} · {source.schedule}
+                    {source.autoPublish ? ' · auto-publish' : ' · review first'} · {source.url}
+                  </p>
+                  <p className="mt-1">
+                    {source.lastRun ? (
+                      <>
+                        <span className="text-xs text-slate-500">Last run {formatDateTime(source.lastRun.startedAt)}: </span>
+                        <RunSummary run={source.lastRun} />
+                      </>
+                    ) : (
+                      <span className="text-xs text-slate-500">Never run</span>
+                    )}
+                  </p>
+                </div>
+
+                <div className="flex gap-3">
+                  <Form method="post" className="inline">
+                    <input type="hidden" name="intent" value="run-source" />
+                    <input type="hidden" name="sourceId" value={source.id} />
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      Run now
+                    </button>
+                  </Form>
+
+                  <Form method="post" className="inline">
+                    <input type="hidden" name="intent" value="toggle-source" />
+                    <input type="hidden" name="sourceId" value={source.id} />
+                    <input type="hidden" name="enabled" value={source.enabled ? 'false' : 'true'} />
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors disabled:opacity-50"
+                    >
+                      {source.enabled ? 'Pause' : 'Resume'}
+                    </button>
+                  </Form>
+
+                  <Form method="post" className="inline">
+                    <input type="hidden" name="intent" value="delete-source" />
+                    <input type="hidden" name="sourceId" value={source.id} />
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      onClick={(e) => {
+                        if (!confirm(`Remove "${source.name}"? Events it already imported are kept.`)) {
+                          e.preventDefault()
+                        }
+                      }}
+                      className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </Form>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {delistedEvents.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-2">No longer listed ({delistedEvents.length})</h3>
+          <p className="text-slate-400 text-sm mb-4">
+            Upcoming events their source stopped listing. They stay up until you cancel or delete them, and are unflagged if the source lists them again.
+          </p>
+          <ul className="space-y-2">
+            {delistedEvents.map((event) => (
+              <li key={event.id} className="p-3 bg-slate-900/50 border border-yellow-700/50 rounded flex flex-wrap items-center gap-3">
+                <Link to={`/events/${event.id}`} className="text-white hover:text-blue-300 font-medium">
+                  {event.title}
+                </Link>
+                <span className="text-xs text-slate-400">{event.date} · {event.source}</span>
+                {event.delistedAt && (
+                  <span className="text-xs text-slate-500">missing since {formatDateTime(event.delistedAt)}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-4">Recent runs</h3>
+        {runs.length === 0 ? (
+          <p className="text-slate-400 text-sm">No runs yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {runs.map((run) => (
+              <li key={run.id} className="p-3 bg-slate-900/50 border border-slate-600 rounded">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className={`px-2 py-0.5 border rounded-full text-xs ${RUN_STATUS_STYLES[run.status]}`}>
+                    {run.status}
+                  </span>
+                  <span className="text-sm text-white">{run.sourceName}</span>
+                  <span className="text-xs text-slate-500">{formatDateTime(run.startedAt)}</span>
+                  <RunSummary run={run} />
+                </div>
+                {run.errors.length > 0 && (
+                  <details className="mt-2">
+                    <summary className="cursor-pointer text-xs text-red-300">
+                      {run.errors.length} error(s)
+                    </summary>
+                    <ul className="mt-1 space-y-1 text-xs text-red-300">
+                      {run.errors.map((error, i) => (
+                        <li key={i}>{error}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+import { Form } from 'react-router'
+import { ACTIVE_JOB_STATUSES, JOB_TYPE_LABELS, type Job, type JobStatus } from '~/types/jobs'
+import { formatDateTime } from '~/utils/datetime'
+
+interface JobsListProps {
+  jobs: Job[]
+  isSubmitting?: boolean
+}
+
+const JOB_STATUS_STYLES: Record<JobStatus, string> = {
+  uploading: 'bg-slate-600/30 text-slate-300 border-slate-600/50',
+  queued: 'bg-slate-600/30 text-slate-300 border-slate-600/50',
+  running: 'bg-blue-600/30 text-blue-300 border-blue-600/50',
+  succeeded: 'bg-green-600/30 text-green-300 border-green-600/50',
+  failed: 'bg-red-600/30 text-red-300 border-red-600/50',
+  cancelled: 'bg-yellow-600/30 text-yellow-300 border-yellow-600/50',
+}
+
+// Maintenance jobs an admin can start by hand; imports start from the Bulk Upload tab
+const STARTABLE_JOBS = [
+  { type: 'dedupe', description: 'Merge exact copies of an event (same title, date, description, venue and times) into the oldest, moving their votes over. Near-duplicates are on the Duplicates page.' },
+  { type: 'geocode-backfill', description: 'Look up map coordinates for events that have none.' },
+  { type: 'cleanup', description: 'Move past events to the trash and purge old trash and rate-limit data. Also runs nightly.' },
+] as const
+
+function JobProgress({ job }: { job: Job }) {
+  if (job.total === undefined || job.total === 0) return null
+  const percent = Math.min(100, Math.round((job.progress / job.total) * 100))
+
+  return (
+    <div className="mt-2">
+      <div className="flex justify-between text-xs text-slate-400 mb-1">
+        <span>{job.progress} of {job.total}</span>
+        <span>{percent}%</span>
+      </div>
+      <div className="w-full bg-slate-700 rounded-full h-1.5">
+        <div className="bg-blue-600 h-1.5 rounded-full transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Background jobs with their progress, result counts and logs, and buttons
+ * to start maintenance jobs. Buttons post `intent` ('start-job' |
+ * 'cancel-job' | 'retry-job') to the current route's action.
+ */
+export function JobsList({ jobs, isSubmitting = false }: JobsListProps) {
+  return (
+    <div className="space-y-8">
+      <div className="grid md:grid-cols-3 gap-4">
+        {STARTABLE_JOBS.map(({ type, description }) => (
+          <Form key={type} method="post" className="p-4 bg-slate-900/50 border border-slate-600 rounded flex flex-col gap-3">
+            <input type="hidden" name="intent" value="start-job" />
+            <input type="hidden" name="jobType" value={type} />
+            <h3 className="text-lg font-semibold text-white">{JOB_TYPE_LABELS[type]}</h3>
+            <p className="text-xs text-slate-400 flex-1">{description}</p>
+            {type === 'dedupe' && (
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input type="checkbox" name="dryRun" defaultChecked />
+                Dry run: only list what would be merged
+              </label>
+            )}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Start
+            </button>
+          </Form>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold text-white mb-4">Recent jobs</h3>
+        {jobs.length === 0 ? (
+          <p className="text-slate-400 text-sm">No jobs yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {jobs.map((job) => {
+              const isActive = ACTIVE_JOB_STATUSES.includes(job.status)
+              const results = Object.entries(job.result).filter(([, count]) => count > 0)
+
+              return (
+                <li key={job.id} className="p-3 bg-slate-900/50 border border-slate-600 rounded">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className={`px-2 py-0.5 border rounded-full text-xs ${JOB_STATUS_STYLES[job.status]}`}>
+                      {job.status}
+                    </span>
+                    <span className="text-sm text-white">
+                      {JOB_TYPE_LABELS[job.type] ?? job.type}
+                      {job.label && <span className="text-slate-400"> · {job.label}</span>}
+                    </span>
+                    <span className="text-xs text-slate-500">
+                      {formatDateTime(job.createdAt)}
+                      {job.finishedAt && ` · finished ${formatDateTime(job.finishedAt)}`}
+                    </span>
+
+                    <div className="ml-auto flex gap-2">
+                      {isActive && (
+                        <Form method="post" className="inline">
+                          <input type="hidden" name="intent" value="cancel-job" />
+                          <input type="hidden" name="jobId" value={job.id} />
+                          <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="px-3 py-1 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
+                        </Form>
+                      )}
+                      {(job.status === 'failed' || job.status === 'cancelled') && (
+                        <Form method="post" className="inline">
+                          <input type="hidden" name="intent" value="retry-job" />
+                          <input type="hidden" name="jobId" value={job.id} />
+                          <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+                          >
+                            Retry
+                          </button>
+                        </Form>
+                      )}
+                    </div>
+                  </div>
+
+                  {isActive && <JobProgress job={job} />}
+
+                  {results.length > 0 && (
+                    <p className="mt-1 text-xs text-slate-400">
+                      {results.map(([key, count]) => `${count} ${key}`).join(' · ')}
+                    </p>
+                  )}
+                  {job.error && (
+                    <p className="mt-1 text-xs text-red-300">
+                      {job.error}
+                      {job.attempts > 0 && ` (attempt ${job.attempts} of ${job.maxAttempts})`}
+                    </p>
+                  )}
+                  {job.logs.length > 0 && (
+                    <details className="mt-2">
+                      <summary className="cursor-pointer text-xs text-slate-400 hover:text-slate-300">
+                        Log ({job.logs.length} lines)
+                      </summary>
+                      <ul className="mt-1 space-y-1 text-xs text-slate-300 max-h-64 overflow-y-auto font-mono">
+                        {job.logs.map((line, i) => (
+                          <li key={i}>{line}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useFetcher, useLocation } from 'react-router'
+import type { Notification } from '~/types/notification'
+
+interface NotificationsResponse {
+  notifications: Notification[]
+  unreadCount: number
+}
+
+/**
+ * Header bell with an unread count and a dropdown of recent notifications
+ */
+export default function NotificationBell() {
+  const fetcher = useFetcher<NotificationsResponse>()
+  const markRead = useFetcher()
+  const location = useLocation()
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Refresh on navigation so the count catches up without polling
+  useEffect(() => {
+    fetcher.load('/api/notifications')
+    setIsOpen(false)
+  }, [location.pathname])
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  const notifications = fetcher.data?.notifications ?? []
+  // Opening the dropdown marks everything read
+  const unreadCount = markRead.formData ? 0 : fetcher.data?.unreadCount ?? 0
+
+  const toggle = () => {
+    const opening = !isOpen
+    setIsOpen(opening)
+    if (opening && unreadCount > 0) {
+      markRead.submit({}, { method: 'post', action: '/api/notifications' })
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={toggle}
+        className="relative p-2 rounded hover:bg-slate-800 focus:outline-none focus:ring"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={isOpen}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-slate-900 border border-slate-700 rounded-lg shadow-xl overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700">
+            <span className="font-semibold text-sm">Notifications</span>
+            <Link to="/notifications" className="text-xs text-blue-400 hover:text-blue-300">
+              See all &amp; settings
+            </Link>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-slate-400 text-center">
+              Favorite events to get reminders and updates about them.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-slate-800">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <Link
+                    to={notification.url ?? '/notifications'}
+                    className={`block px-4 py-3 hover:bg-slate-800 ${notification.read ? '' : 'bg-blue-900/20'}`}
+                  >
+                    <p className="text-sm font-medium text-white">{notification.title}</p>
+                    {notification.body && <p className="text-xs text-slate-400 mt-0.5 whitespace-pre-line line-clamp-3">{notification.body}</p>}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
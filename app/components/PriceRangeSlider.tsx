@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react'
+import { PRICE_FILTER_MAX, PRICE_FILTER_STEP } from '~/utils/cost'
+
+interface PriceRangeSliderProps {
+  minPrice?: number | null
+  maxPrice?: number | null
+  disabled?: boolean
+  // Called when the user lets go of a handle; undefined means no limit
+  onChange: (minPrice?: number, maxPrice?: number) => void
+}
+
+// Two range inputs stacked on one track; only the thumbs take pointer events
+const thumbClassName = 'absolute inset-0 w-full appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-blue-500 [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-blue-500 [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer disabled:opacity-50'
+
+export function PriceRangeSlider({ minPrice, maxPrice, disabled = false, onChange }: PriceRangeSliderProps) {
+  const [low, setLow] = useState(minPrice ?? 0)
+  const [high, setHigh] = useState(maxPrice ?? PRICE_FILTER_MAX)
+
+  // Follow the URL when filters are cleared or changed elsewhere
+  useEffect(() => {
+    setLow(minPrice ?? 0)
+    setHigh(maxPrice ?? PRICE_FILTER_MAX)
+  }, [minPrice, maxPrice])
+
+  const commit = (nextLow: number, nextHigh: number) => {
+    onChange(
+      nextLow > 0 ? nextLow : undefined,
+      nextHigh < PRICE_FILTER_MAX ? nextHigh : undefined
+    )
+  }
+
+  const label = high === 0
+    ? 'Free only'
+    : `${low === 0 ? 'Free' : `$${low}`} - $${high}${high >= PRICE_FILTER_MAX ? '+' : ''}`
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-slate-300">{label}</span>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => {
+            setLow(0)
+            setHigh(0)
+            commit(0, 0)
+          }}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+        >
+          Free only
+        </button>
+      </div>
+      <div className="relative h-5">
+        <div className="absolute top-1/2 -translate-y-1/2 w-full h-1 rounded bg-slate-600" />
+        <div
+          className="absolute top-1/2 -translate-y-1/2 h-1 rounded bg-blue-500"
+          style={{
+            left: `${(low / PRICE_FILTER_MAX) * 100}%`,
+            right: `${100 - (high / PRICE_FILTER_MAX) * 100}%`,
+          }}
+        />
+        <input
+          type="range"
+          aria-label="Minimum price"
+          min={0}
+          max={PRICE_FILTER_MAX}
+          step={PRICE_FILTER_STEP}
+          value={low}
+          disabled={disabled}
+          onChange={(e) => setLow(Math.min(Number(e.target.value), high))}
+          onPointerUp={() => commit(low, high)}
+          onKeyUp={() => commit(low, high)}
+          className={thumbClassName}
+        />
+        <input
+          type="range"
+          aria-label="Maximum price"
+          min={0}
+          max={PRICE_FILTER_MAX}
+          step={PRICE_FILTER_STEP}
+          value={high}
+          disabled={disabled}
+          onChange={(e) => setHigh(Math.max(Number(e.target.value), low))}
+          onPointerUp={() => commit(low, high)}
+          onKeyUp={() => commit(low, high)}
+          className={thumbClassName}
+        />
+      </div>
+    </div>
+  )
+}
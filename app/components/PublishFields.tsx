@@ -0,0 +1,33 @@
+import { SITE_TIMEZONE, toSiteDateTimeInput } from '~/utils/datetime'
+
+interface PublishFieldsProps {
+  defaultPublishAt?: string // ISO timestamp
+}
+
+/**
+ * Optional "publish at" time for the submit and edit forms. Submitting with a
+ * time saves the event as a scheduled draft.
+ */
+export function PublishFields({ defaultPublishAt }: PublishFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold text-white border-b border-slate-700 pb-2">Publishing</h2>
+
+      <div>
+        <label htmlFor="publishAt" className="block text-sm font-medium mb-2">
+          Publish At ({SITE_TIMEZONE})
+        </label>
+        <input
+          id="publishAt"
+          name="publishAt"
+          type="datetime-local"
+          defaultValue={defaultPublishAt ? toSiteDateTimeInput(defaultPublishAt) : undefined}
+          className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
+        />
+        <p className="text-slate-400 text-xs mt-1">
+          Leave blank to publish when you submit. Save Draft keeps the event private without a schedule.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+import { useState } from 'react'
+import type { RecurrenceFrequency, RecurrenceRule, Weekday } from '~/types/recurrence'
+import { WEEKDAY_NAMES } from '~/utils/recurrence'
+
+interface RecurrenceFieldsProps {
+  defaultRule?: RecurrenceRule | null
+  defaultExceptionDates?: string[]
+  minDate?: string
+}
+
+const WEEK_ORDER: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+
+const inputClassName = 'w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none'
+
+export function RecurrenceFields({ defaultRule, defaultExceptionDates = [], minDate }: RecurrenceFieldsProps) {
+  const monthlyWeekday = defaultRule?.frequency === 'MONTHLY' ? defaultRule.byDay?.[0] : undefined
+
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | ''>(defaultRule?.frequency ?? '')
+  const [monthlyMode, setMonthlyMode] = useState<'day' | 'weekday'>(monthlyWeekday?.ordinal ? 'weekday' : 'day')
+  const [ends, setEnds] = useState<'never' | 'until' | 'count'>(
+    defaultRule?.until ? 'until' : defaultRule?.count ? 'count' : 'never'
+  )
+  const [exceptionDates, setExceptionDates] = useState<string[]>(defaultExceptionDates)
+
+  const unit = { DAILY: 'day(s)', WEEKLY: 'week(s)', MONTHLY: 'month(s)', YEARLY: 'year(s)' }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="recurrenceFrequency" className="block text-sm font-medium mb-2">
+            Repeats
+          </label>
+          <select
+            id="recurrenceFrequency"
+            name="recurrenceFrequency"
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency | '')}
+            className={inputClassName}
+          >
+            <option value="">Does not repeat</option>
+            <option value="DAILY">Daily</option>
+            <option value="WEEKLY">Weekly</option>
+            <option value="MONTHLY">Monthly</option>
+            <option value="YEARLY">Yearly</option>
+          </select>
+        </div>
+
+        {frequency && (
+          <div>
+            <label htmlFor="recurrenceInterval" className="block text-sm font-medium mb-2">
+              Every
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                id="recurrenceInterval"
+                name="recurrenceInterval"
+                type="number"
+                min={1}
+                defaultValue={defaultRule?.interval ?? 1}
+                className={inputClassName}
+              />
+              <span className="text-sm text-slate-400 whitespace-nowrap">{unit[frequency]}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {frequency === 'WEEKLY' && (
+        <div>
+          <span className="block text-sm font-medium mb-2">On</span>
+          <div className="flex flex-wrap gap-2">
+            {WEEK_ORDER.map((weekday) => (
+              <label
+                key={weekday}
+                className="flex items-center gap-1 px-3 py-1 rounded bg-slate-800 border border-slate-700 text-sm cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  name="recurrenceByDay"
+                  value={weekday}
+                  defaultChecked={defaultRule?.byDay?.some((d) => d.weekday === weekday)}
+                />
+                {WEEKDAY_NAMES[weekday].slice(0, 3)}
+              </label>
+            ))}
+          </div>
+          <p className="text-slate-400 text-xs mt-1">Leave empty to repeat on the event date's weekday.</p>
+        </div>
+      )}
+
+      {frequency === 'MONTHLY' && (
+        <div className="space-y-2">
+          <select
+            name="recurrenceMonthlyMode"
+            value={monthlyMode}
+            onChange={(e) => setMonthlyMode(e.target.value as 'day' | 'weekday')}
+            className={inputClassName}
+          >
+            <option value="day">On the same day of the month</option>
+            <option value="weekday">On a specific weekday of the month</option>
+          </select>
+          {monthlyMode === 'weekday' && (
+            <div className="grid grid-cols-2 gap-4">
+              <select
+                name="recurrenceOrdinal"
+                defaultValue={monthlyWeekday?.ordinal ?? 1}
+                className={inputClassName}
+              >
+                <option value={1}>First</option>
+                <option value={2}>Second</option>
+                <option value={3}>Third</option>
+                <option value={4}>Fourth</option>
+                <option value={-1}>Last</option>
+              </select>
+              <select
+                name="recurrenceWeekday"
+                defaultValue={monthlyWeekday?.weekday ?? 'FR'}
+                className={inputClassName}
+              >
+                {WEEK_ORDER.map((weekday) => (
+                  <option key={weekday} value={weekday}>{WEEKDAY_NAMES[weekday]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {frequency && (
+        <>
+          <div>
+            <label htmlFor="recurrenceEnds" className="block text-sm font-medium mb-2">
+              Ends
+            </label>
+            <select
+              id="recurrenceEnds"
+              name="recurrenceEnds"
+              value={ends}
+              onChange={(e) => setEnds(e.target.value as 'never' | 'until' | 'count')}
+              className={inputClassName}
+            >
+              <option value="never">Never</option>
+              <option value="until">On a date</option>
+              <option value="count">After a number of occurrences</option>
+            </select>
+          </div>
+
+          {ends === 'until' && (
+            <div>
+              <label htmlFor="endDate" className="block text-sm font-medium mb-2">
+                End Date *
+              </label>
+              <input
+                id="endDate"
+                name="endDate"
+                type="date"
+                min={minDate}
+                required
+                defaultValue={defaultRule?.until}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          {ends === 'count' && (
+            <div>
+              <label htmlFor="recurrenceCount" className="block text-sm font-medium mb-2">
+                Occurrences *
+              </label>
+              <input
+                id="recurrenceCount"
+                name="recurrenceCount"
+                type="number"
+                min={1}
+                required
+                defaultValue={defaultRule?.count ?? 10}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Skipped Dates
+            </label>
+            <div className="space-y-2">
+              {exceptionDates.map((date, index) => (
+                <div key={index} className="flex gap-2 max-w-md">
+                  <input
+                    type="date"
+                    name={`exceptionDate-${index}`}
+                    value={date}
+                    onChange={(e) => {
+                      const next = [...exceptionDates]
+                      next[index] = e.target.value
+                      setExceptionDates(next)
+                    }}
+                    className={inputClassName}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setExceptionDates(exceptionDates.filter((_, i) => i !== index))}
+                    className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setExceptionDates([...exceptionDates, ''])}
+                className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors"
+              >
+                + Skip a Date
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import { Form, useNavigation } from 'react-router'
+
+interface SaveSearchButtonProps {
+  suggestedName: string
+}
+
+/**
+ * Saves the current /events filters as a named search with new-event alerts
+ */
+export function SaveSearchButton({ suggestedName }: SaveSearchButtonProps) {
+  const navigation = useNavigation()
+  const isSaving = navigation.state === 'submitting' && navigation.formData?.get('intent') === 'saveSearch'
+
+  return (
+    <details className="relative inline-block">
+      <summary className="cursor-pointer list-none px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm">
+        🔔 Save Search
+      </summary>
+      <div className="absolute right-0 z-20 mt-2 w-80 bg-slate-800 border border-slate-600 rounded-lg p-4 shadow-lg">
+        <Form method="post" className="space-y-3">
+          <input type="hidden" name="intent" value="saveSearch" />
+          <div>
+            <label htmlFor="savedSearchName" className="block text-sm font-medium text-white mb-1">Name</label>
+            <input
+              id="savedSearchName"
+              name="name"
+              defaultValue={suggestedName}
+              required
+              maxLength={100}
+              className="w-full px-3 py-2 rounded bg-slate-900 border border-slate-700 text-sm focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+          <p className="text-slate-400 text-xs">
+            We'll let you know when new events match these filters. Manage saved searches on your profile.
+          </p>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </Form>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react'
+
+interface TimeFieldsProps {
+  defaultStartTime?: string
+  defaultEndTime?: string
+  defaultAllDay?: boolean
+  // Free-text times the parser couldn't understand, kept until replaced
+  legacyTimes?: string
+}
+
+const inputClassName = 'w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none disabled:opacity-50'
+
+export function TimeFields({ defaultStartTime, defaultEndTime, defaultAllDay = false, legacyTimes }: TimeFieldsProps) {
+  const [allDay, setAllDay] = useState(defaultAllDay)
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="startTime" className="block text-sm font-medium mb-2">
+            Start Time
+          </label>
+          <input
+            id="startTime"
+            name="startTime"
+            type="time"
+            disabled={allDay}
+            defaultValue={defaultStartTime}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="endTime" className="block text-sm font-medium mb-2">
+            End Time
+          </label>
+          <input
+            id="endTime"
+            name="endTime"
+            type="time"
+            disabled={allDay}
+            defaultValue={defaultEndTime}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          name="allDay"
+          checked={allDay}
+          onChange={(e) => setAllDay(e.target.checked)}
+        />
+        All day
+      </label>
+
+      {legacyTimes && (
+        <>
+          <input type="hidden" name="legacyTimes" value={legacyTimes} />
+          <p className="text-yellow-400 text-xs">
+            Current times "{legacyTimes}" couldn't be read automatically. Set a start time to replace them.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import { Form } from 'react-router'
+import type { TrashedEvent } from '~/types/trash'
+import { SITE_TIMEZONE } from '~/utils/datetime'
+
+interface TrashListProps {
+  events: TrashedEvent[]
+  retentionDays: number
+  showAuthor?: boolean
+  isSubmitting?: boolean
+}
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    timeZone: SITE_TIMEZONE,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+/**
+ * Deleted events with Restore and Delete forever buttons. Each button posts
+ * `intent` ('restore' | 'purge') and `eventId` to the current route's action.
+ */
+export function TrashList({ events, retentionDays, showAuthor = false, isSubmitting = false }: TrashListProps) {
+  return (
+    <div>
+      <p className="text-slate-400 text-sm mb-6">
+        Deleted events stay here for {retentionDays} days before they are removed for good.
+      </p>
+
+      {events.length === 0 ? (
+        <div className="p-8 text-center">
+          <p className="text-slate-300">The trash is empty</p>
+        </div>
+      ) : (
+        <ul className="grid gap-4">
+          {events.map((event) => (
+            <li
+              key={event.id}
+              className="p-4 bg-slate-900/50 border border-slate-600 rounded flex flex-col md:flex-row md:items-center gap-4"
+            >
+              <div className="flex-1 min-w-0">
+                <h3 className="text-lg font-semibold text-white truncate">{event.title}</h3>
+                <p className="text-slate-400 text-sm">
+                  {event.date} · {event.location}
+                  {showAuthor && event.createdByName && ` · by ${event.createdByName}`}
+                </p>
+                <p className="text-slate-500 text-xs mt-1">
+                  Deleted {formatDay(event.deletedAt)} · removed for good on {formatDay(event.purgeDate)}
+                </p>
+              </div>
+
+              <div className="flex gap-3">
+                <Form method="post" className="inline">
+                  <input type="hidden" name="intent" value="restore" />
+                  <input type="hidden" name="eventId" value={event.id} />
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                </Form>
+
+                <Form method="post" className="inline">
+                  <input type="hidden" name="intent" value="purge" />
+                  <input type="hidden" name="eventId" value={event.id} />
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    onClick={(e) => {
+                      if (!confirm(`Permanently delete "${event.title}"? This cannot be undone.`)) {
+                        e.preventDefault()
+                      }
+                    }}
+                    className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    Delete forever
+                  </button>
+                </Form>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
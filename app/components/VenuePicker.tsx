@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react'
+import { useFetcher } from 'react-router'
+import type { Venue } from '~/types/venue'
+import { AddressLookup } from './AddressLookup'
+
+// Wait this long after typing stops before searching
+const SEARCH_DELAY_MS = 250
+
+interface VenuePickerProps {
+  defaultVenue?: Venue | null
+  // Location typed on an event not linked to a venue
+  defaultLocation?: string
+  defaultAddress?: string
+  defaultCity?: string
+  defaultRegion?: string
+  defaultLatitude?: number
+  defaultLongitude?: number
+  placeholder?: string
+}
+
+/**
+ * Venue name input with autocomplete from saved venues. Picking a venue reuses
+ * its address and coordinates; a new name shows the address fields so the
+ * venue can be created on save.
+ */
+export function VenuePicker({
+  defaultVenue = null,
+  defaultLocation = '',
+  defaultAddress,
+  defaultCity,
+  defaultRegion,
+  defaultLatitude,
+  defaultLongitude,
+  placeholder = 'Community Center',
+}: VenuePickerProps) {
+  const [name, setName] = useState(defaultVenue?.name ?? defaultLocation)
+  const [selectedVenue, setSelectedVenue] = useState<Venue | null>(defaultVenue)
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  const venuesFetcher = useFetcher<{ venues: Venue[] }>()
+
+  useEffect(() => {
+    if (selectedVenue || !showSuggestions || name.trim().length < 2) return
+    const timer = setTimeout(() => {
+      venuesFetcher.load(`/api/venues?q=${encodeURIComponent(name.trim())}`)
+    }, SEARCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [name, selectedVenue, showSuggestions, venuesFetcher.load])
+
+  const suggestions = showSuggestions && !selectedVenue && name.trim().length >= 2
+    ? venuesFetcher.data?.venues ?? []
+    : []
+
+  const pickVenue = (venue: Venue) => {
+    setSelectedVenue(venue)
+    setName(venue.name)
+    setShowSuggestions(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <label htmlFor="location" className="block text-sm font-medium mb-2">
+          Venue Name *
+        </label>
+        <input
+          id="location"
+          name="location"
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value)
+            setSelectedVenue(null)
+            setShowSuggestions(true)
+          }}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
+          required
+          autoComplete="off"
+          className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none capitalize"
+          placeholder={placeholder}
+        />
+        <input type="hidden" name="venueId" value={selectedVenue?.id ?? ''} />
+
+        {suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto rounded bg-slate-800 border border-slate-700 shadow-lg">
+            {suggestions.map((venue) => (
+              <li key={venue.id}>
+                <button
+                  type="button"
+                  // Keep focus in the input so the list doesn't close before the click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => pickVenue(venue)}
+                  className="w-full text-left px-4 py-2 hover:bg-slate-700 transition-colors"
+                >
+                  <span className="block text-white">{venue.name}</span>
+                  <span className="block text-xs text-slate-400">
+                    {[venue.address, venue.city].filter(Boolean).join(', ') || 'No address'}
+                    {venue.eventCount ? ` · ${venue.eventCount} event${venue.eventCount === 1 ? '' : 's'}` : ''}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {selectedVenue ? (
+        <div className="flex items-start justify-between gap-4 p-4 rounded bg-slate-800/60 border border-slate-700">
+          <div className="text-sm">
+            <p className="text-slate-300">
+              {[selectedVenue.address, selectedVenue.city, selectedVenue.region].filter(Boolean).join(', ') || 'No address saved'}
+            </p>
+            <p className="text-slate-400 mt-1">
+              {selectedVenue.coordinates ? '📍 On the map' : 'No coordinates saved'}
+              {' · '}
+              <a href={`/venues/${selectedVenue.id}`} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                View venue
+              </a>
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => {
+              setSelectedVenue(null)
+              setName('')
+            }}
+            className="px-3 py-1 text-sm bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors whitespace-nowrap"
+          >
+            Different venue
+          </button>
+        </div>
+      ) : (
+        <AddressLookup
+          defaultAddress={defaultAddress}
+          defaultCity={defaultCity}
+          defaultRegion={defaultRegion}
+          defaultLatitude={defaultLatitude}
+          defaultLongitude={defaultLongitude}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { isRouteErrorResponse, Links, Meta, Outlet, Scripts, ScrollRestoration, Link } from 'react-router'
+import { isRouteErrorResponse, Links, Meta, Outlet, Scripts, ScrollRestoration, Link, useMatches } from 'react-router'
 import { clerkMiddleware, rootAuthLoader } from '@clerk/react-router/server'
 import { ClerkProvider, SignedIn, SignedOut, UserButton, SignInButton } from '@clerk/react-router'
 import { Toaster } from 'sonner'
@@ -7,6 +7,9 @@ import { SpeedInsights } from "@vercel/speed-insights/react"
 import { IoAddCircleSharp } from "react-icons/io5";
 import { useUIStore } from './stores'
 import { useUserRole } from './hooks/useUserRole'
+import NotificationBell from './components/NotificationBell'
+import { feedAutodiscoveryLinks } from './utils/feeds'
+import { SITE } from './utils/site'
 
 import type { Route } from './+types/root'
 import stylesheet from './app.css?url'
@@ -26,6 +29,7 @@ export const links: Route.LinksFunction = () => [
     href: 'https://fonts.googleapis.com/css2?family=Inter:ital,opsz,wght@0,14..32,100..900;1,14..32,100..900&display=swap',
   },
   { rel: 'stylesheet', href: stylesheet },
+  ...feedAutodiscoveryLinks(),
 ]
 export function Layout({ children }: { children: React.ReactNode }) {
   return (
@@ -58,7 +62,7 @@ function ResponsiveHeader() {
   return (
     <header className="fixed top-0 left-0 right-0 z-50 bg-slate-950 border-b border-slate-800">
       <div className="flex items-center justify-between py-4 px-4">
-        <Link to="/" className="font-bold text-xl hover:text-slate-300">919 Events</Link>
+        <Link to="/" className="font-bold text-xl hover:text-slate-300">{SITE.name}</Link>
 
         {/* Desktop Navigation */}
         <nav className="hidden md:flex gap-6">
@@ -69,6 +73,7 @@ function ResponsiveHeader() {
             {canCreateEvents && (
               <Link to="/my-events" className="hover:text-slate-300 transition-colors">My Events</Link>
             )}
+            <Link to="/profile" className="hover:text-slate-300 transition-colors">Profile</Link>
             {canApplyForAuthor && (
               <Link to="/apply-author" className="hover:text-slate-300 transition-colors">Become an Author</Link>
             )}
@@ -97,6 +102,7 @@ function ResponsiveHeader() {
               <IoAddCircleSharp className="w-5 h-5" />
               <span className="hidden sm:inline">Create Event</span>
             </Link>
+            <NotificationBell />
           </SignedIn>
 
           {/* Desktop Auth */}
@@ -140,6 +146,7 @@ function ResponsiveHeader() {
               {canCreateEvents && (
                 <Link to="/my-events" onClick={closeMobileMenu} className="block py-2 hover:text-slate-300 transition-colors">My Events</Link>
               )}
+              <Link to="/profile" onClick={closeMobileMenu} className="block py-2 hover:text-slate-300 transition-colors">Profile</Link>
               {canApplyForAuthor && (
                 <Link to="/apply-author" onClick={closeMobileMenu} className="block py-2 hover:text-slate-300 transition-colors">Become an Author</Link>
               )}
@@ -165,13 +172,23 @@ function ResponsiveHeader() {
 
 // Pull in the `loaderData` from the `rootAuthLoader()` function
 export default function App({ loaderData }: Route.ComponentProps) {
+  // Routes rendered inside partner sites' iframes opt out of the site chrome
+  const matches = useMatches()
+  const isEmbed = matches.some((match) => (match.handle as { embed?: boolean } | undefined)?.embed)
+
   return (
     // Pass the `loaderData` to the `<ClerkProvider>` component
     <ClerkProvider loaderData={loaderData}>
-      <ResponsiveHeader />
-      <main className="pt-16">
+      {isEmbed ? (
         <Outlet />
-      </main>
+      ) : (
+        <>
+          <ResponsiveHeader />
+          <main className="pt-16">
+            <Outlet />
+          </main>
+        </>
+      )}
     </ClerkProvider>
   )
 }
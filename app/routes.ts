@@ -7,17 +7,49 @@ export default [
   route("events/:id", "routes/events.$id.tsx"),
   route("events/:id/edit", "routes/events.$id.edit.tsx"),
   route("events/:id/delete", "routes/events.$id.delete.tsx"),
+  route("events/:id/calendar.ics", "routes/events.$id.calendar.tsx"),
+  route("calendar/events.ics", "routes/calendar.events.tsx"),
+  route("calendar/category/:category/events.ics", "routes/calendar.category.$category.tsx"),
+  route("calendar/city/:city/events.ics", "routes/calendar.city.$city.tsx"),
+  route("calendar/favorites/:token/events.ics", "routes/calendar.favorites.$token.tsx"),
+  route("feeds/upcoming.rss", "routes/feeds.upcoming.rss.tsx"),
+  route("feeds/upcoming.atom", "routes/feeds.upcoming.atom.tsx"),
+  route("feeds/new.rss", "routes/feeds.new.rss.tsx"),
+  route("feeds/new.atom", "routes/feeds.new.atom.tsx"),
+  route("venues/:id", "routes/venues.$id.tsx"),
+  route("notifications", "routes/notifications.tsx"),
+  route("profile", "routes/profile.tsx"),
+  route("unsubscribe/:token", "routes/unsubscribe.$token.tsx"),
   route("submit", "routes/submit.tsx"),
   route("my-events", "routes/my-events.tsx"),
+  route("my-events/widget", "routes/my-events.widget.tsx"),
   route("apply-author", "routes/apply-author.tsx"),
   route("become-author", "routes/become-author.tsx"),
   route("admin", "routes/admin.tsx"),
+  route("admin/history", "routes/admin.history.tsx"),
+  route("admin/digest", "routes/admin.digest.tsx"),
+  route("admin/duplicates", "routes/admin.duplicates.tsx"),
   route("api/vote", "routes/api.vote.tsx"),
+  route("api/notifications", "routes/api.notifications.tsx"),
   route("api/cron/cleanup", "routes/api.cron.cleanup.tsx"),
+  route("api/cron/publish", "routes/api.cron.publish.tsx"),
+  route("api/cron/reminders", "routes/api.cron.reminders.tsx"),
+  route("api/cron/saved-searches", "routes/api.cron.saved-searches.tsx"),
+  route("api/cron/digest", "routes/api.cron.digest.tsx"),
+  route("api/cron/ingest", "routes/api.cron.ingest.tsx"),
+  route("api/cron/jobs", "routes/api.cron.jobs.tsx"),
   route("api/upload", "routes/api.upload.tsx"),
   route("api/delete-image", "routes/api.delete-image.tsx"),
   route("api/geocode", "routes/api.geocode.tsx"),
   route("api/directions", "routes/api.directions.tsx"),
+  route("api/events/geo", "routes/api.events.geo.tsx"),
+  route("api/venues", "routes/api.venues.tsx"),
+  route("api/v1/events", "routes/api.v1.events.tsx"),
+  route("api/v1/events/:id", "routes/api.v1.events.$id.tsx"),
+  route("embed/events", "routes/embed.events.tsx"),
+  route("embed.js", "routes/embed.js.tsx"),
   route("api/list-images", "routes/api.list-images.tsx"),
   route("api/bulk-upload", "routes/api.bulk-upload.tsx"),
+  route("api/bulk-upload/preview", "routes/api.bulk-upload.preview.tsx"),
+  route("api/jobs", "routes/api.jobs.tsx"),
 ] satisfies RouteConfig;
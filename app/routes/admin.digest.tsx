@@ -0,0 +1,103 @@
+import { Link, redirect, useLoaderData } from 'react-router'
+import { getAuth } from '@clerk/react-router/server'
+import type { Route } from './+types/admin.digest'
+import { canUserPreviewDigest } from '~/utils/permissions.server'
+import { buildDigest, renderDigestEmail } from '~/utils/digest.server'
+import { siteUrl } from '~/utils/email.server'
+import ShaderBackground from '~/components/ShaderBackground'
+import { pageTitle } from '~/utils/site'
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const canPreview = await canUserPreviewDigest(userId, args.request.headers.get('Cookie'))
+  if (!canPreview) {
+    throw new Response('Unauthorized - Admin access required', { status: 403 })
+  }
+
+  // Ranked as for a reader with no favorites unless the admin asks for their own
+  const personalized = new URL(args.request.url).searchParams.get('for') === 'me'
+  const digest = await buildDigest(personalized ? userId : undefined)
+  const email = renderDigestEmail(digest, siteUrl('/unsubscribe/preview'))
+
+  return { email, eventCount: digest.entries.length, personalized }
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: pageTitle('Digest Preview') },
+    { name: 'description', content: 'Preview of the weekly digest email' },
+  ]
+}
+
+export default function AdminDigestPage() {
+  const { email, eventCount, personalized } = useLoaderData<typeof loader>()
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <ShaderBackground variant="aurora" />
+      <div className="absolute inset-0 bg-black/70 z-0" />
+
+      <div className="relative z-10 pt-20 pb-8">
+        <div className="container mx-auto px-4">
+          <Link
+            to="/admin"
+            className="inline-flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-6"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Admin Dashboard
+          </Link>
+
+          <h1 className="text-3xl font-bold text-white mb-2">Weekly Digest Preview</h1>
+          <p className="text-slate-400 mb-6">
+            Sent Thursdays to users who opted in, each ranked by votes and the categories they favorite.
+            {eventCount === 0 && ' No events fall in this weekend yet, so this week\'s digest would not be sent.'}
+          </p>
+
+          <div className="flex gap-2 mb-6 text-sm">
+            <Link
+              to="/admin/digest"
+              className={`px-4 py-2 rounded transition-colors ${personalized ? 'bg-slate-700 text-white hover:bg-slate-600' : 'bg-blue-600 text-white'}`}
+            >
+              Without favorites
+            </Link>
+            <Link
+              to="/admin/digest?for=me"
+              className={`px-4 py-2 rounded transition-colors ${personalized ? 'bg-blue-600 text-white' : 'bg-slate-700 text-white hover:bg-slate-600'}`}
+            >
+              Ranked for me
+            </Link>
+          </div>
+
+          <p className="text-white mb-2">
+            <span className="text-slate-400">Subject:</span> {email.subject}
+          </p>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <section>
+              <h2 className="text-lg font-semibold text-white mb-2">HTML</h2>
+              <iframe
+                title="Digest HTML preview"
+                srcDoc={email.html}
+                sandbox=""
+                className="w-full h-[700px] rounded border border-slate-700 bg-white"
+              />
+            </section>
+            <section>
+              <h2 className="text-lg font-semibold text-white mb-2">Plain text</h2>
+              <pre className="h-[700px] overflow-auto p-4 rounded border border-slate-700 bg-slate-900 text-slate-300 text-sm whitespace-pre-wrap">
+                {email.text}
+              </pre>
+            </section>
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
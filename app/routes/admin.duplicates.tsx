@@ -0,0 +1,140 @@
+import { useEffect } from 'react'
+import { Link, redirect, useActionData, useLoaderData, useNavigation } from 'react-router'
+import { getAuth } from '@clerk/react-router/server'
+import { toast } from 'sonner'
+import type { Route } from './+types/admin.duplicates'
+import { canUserMergeEvents } from '~/utils/permissions.server'
+import { dismissDuplicate, findDuplicateCandidates, mergeEvents } from '~/utils/duplicates.server'
+import ShaderBackground from '~/components/ShaderBackground'
+import { DuplicatePair } from '~/components/DuplicatePair'
+import { MERGE_FIELDS } from '~/types/duplicates'
+import { pageTitle } from '~/utils/site'
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const canMerge = await canUserMergeEvents(userId, args.request.headers.get('Cookie'))
+  if (!canMerge) {
+    throw new Response('Unauthorized - Admin access required', { status: 403 })
+  }
+
+  const candidates = await findDuplicateCandidates()
+
+  return { candidates }
+}
+
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const canMerge = await canUserMergeEvents(userId, args.request.headers.get('Cookie'))
+  if (!canMerge) {
+    return { error: 'Unauthorized - Admin access required' }
+  }
+
+  const formData = await args.request.formData()
+  const intent = formData.get('intent') as string
+  const eventId = formData.get('eventId') as string
+  const otherId = formData.get('otherId') as string
+
+  if (!eventId || !otherId) {
+    return { error: 'Both event IDs are required' }
+  }
+
+  if (intent === 'dismiss') {
+    await dismissDuplicate(eventId, otherId, userId)
+    return { success: 'Marked as not duplicates' }
+  }
+
+  if (intent === 'merge') {
+    // Form sides 'a' and 'b' are eventId and otherId, in that order
+    const keepSide = formData.get('keep') === 'b' ? 'b' : 'a'
+    const [keepId, removeId] = keepSide === 'a' ? [eventId, otherId] : [otherId, eventId]
+    const fromOther = MERGE_FIELDS
+      .map(({ field }) => field)
+      .filter((field) => {
+        const pick = formData.get(`pick-${field}`)
+        return pick !== null && pick !== keepSide
+      })
+
+    const merged = await mergeEvents(keepId, removeId, fromOther, userId)
+    return merged
+      ? { success: `Merged into ${merged.title}` }
+      : { error: 'One of the events no longer exists or is already in the trash' }
+  }
+
+  return { error: 'Unknown action' }
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: pageTitle('Duplicate Events') },
+    { name: 'description', content: 'Review and merge events that look like duplicates' },
+  ]
+}
+
+export default function AdminDuplicatesPage() {
+  const { candidates } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+  const navigation = useNavigation()
+
+  useEffect(() => {
+    if (actionData?.error) {
+      toast.error(actionData.error)
+    }
+
+    if (actionData?.success) {
+      toast.success(actionData.success)
+    }
+  }, [actionData])
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <ShaderBackground variant="aurora" />
+      <div className="absolute inset-0 bg-black/70 z-0" />
+
+      <div className="relative z-10 pt-20 pb-8">
+        <div className="container mx-auto px-4">
+          <Link
+            to="/admin"
+            className="inline-flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-6"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Admin Dashboard
+          </Link>
+
+          <h1 className="text-3xl font-bold text-white mb-2">Duplicate Events ({candidates.length})</h1>
+          <p className="text-slate-400 mb-6">
+            Upcoming events on the same day with similar titles at the same or a nearby venue. Merging keeps one event
+            with the fields you pick, moves the other's votes to it and moves the other to the trash.
+          </p>
+
+          {candidates.length === 0 ? (
+            <div className="p-8 text-center">
+              <p className="text-slate-300">No likely duplicates</p>
+            </div>
+          ) : (
+            <ul className="space-y-6">
+              {candidates.map((candidate) => (
+                <DuplicatePair
+                  key={`${candidate.events[0].id}-${candidate.events[1].id}`}
+                  candidate={candidate}
+                  isSubmitting={navigation.state !== 'idle'}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
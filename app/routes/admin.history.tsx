@@ -0,0 +1,245 @@
+import { Form, Link, redirect, useLoaderData, useNavigation } from 'react-router'
+import { getAuth } from '@clerk/react-router/server'
+import type { Route } from './+types/admin.history'
+import { canUserViewAuditLog } from '~/utils/permissions.server'
+import { AUDIT_PAGE_SIZE, getAuditLog } from '~/utils/audit.server'
+import ShaderBackground from '~/components/ShaderBackground'
+import type { AuditAction, AuditEntityType, AuditEntry } from '~/types/audit'
+import { formatDateTime } from '~/utils/datetime'
+import { pageTitle } from '~/utils/site'
+
+const ENTITY_TYPES: { value: AuditEntityType; label: string }[] = [
+  { value: 'event', label: 'Events' },
+  { value: 'user', label: 'User roles' },
+  { value: 'application', label: 'Author applications' },
+]
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-600/30 text-green-300',
+  update: 'bg-blue-600/30 text-blue-300',
+  delete: 'bg-red-600/30 text-red-300',
+  restore: 'bg-green-600/30 text-green-300',
+  purge: 'bg-red-600/30 text-red-300',
+  merge: 'bg-yellow-600/30 text-yellow-300',
+  role_change: 'bg-purple-600/30 text-purple-300',
+  approve: 'bg-green-600/30 text-green-300',
+  reject: 'bg-red-600/30 text-red-300',
+}
+
+// Long values (e.g. descriptions) are cut down in the table
+const MAX_VALUE_LENGTH = 120
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const canView = await canUserViewAuditLog(userId, args.request.headers.get('Cookie'))
+  if (!canView) {
+    throw new Response('Unauthorized - Admin access required', { status: 403 })
+  }
+
+  const url = new URL(args.request.url)
+  const entityTypeParam = url.searchParams.get('entityType')
+  const entityType = ENTITY_TYPES.some((type) => type.value === entityTypeParam)
+    ? (entityTypeParam as AuditEntityType)
+    : undefined
+  const entityId = url.searchParams.get('entityId')?.trim() || undefined
+  const actorId = url.searchParams.get('actor')?.trim() || undefined
+  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10) || 1)
+
+  const { entries, totalCount } = await getAuditLog({ entityType, entityId, actorId }, page)
+
+  return {
+    entries,
+    totalPages: Math.max(1, Math.ceil(totalCount / AUDIT_PAGE_SIZE)),
+    page,
+    filters: { entityType: entityType || '', entityId: entityId || '', actorId: actorId || '' },
+  }
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: pageTitle('History') },
+    { name: 'description', content: 'Audit log of changes to events, roles and applications' },
+  ]
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text
+}
+
+function entityHref(entry: AuditEntry): string | null {
+  if (entry.entityType === 'event' && entry.action !== 'purge') return `/events/${entry.entityId}`
+  return null
+}
+
+export default function AdminHistoryPage() {
+  const { entries, totalPages, page, filters } = useLoaderData<typeof loader>()
+  const navigation = useNavigation()
+
+  const pageHref = (target: number) => {
+    const params = new URLSearchParams()
+    if (filters.entityType) params.set('entityType', filters.entityType)
+    if (filters.entityId) params.set('entityId', filters.entityId)
+    if (filters.actorId) params.set('actor', filters.actorId)
+    params.set('page', target.toString())
+    return `/admin/history?${params.toString()}`
+  }
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <ShaderBackground variant="aurora" />
+      <div className="absolute inset-0 bg-black/70 z-0" />
+
+      <div className="relative z-10 pt-20 pb-8">
+        <div className="container mx-auto px-4">
+          <Link
+            to="/admin"
+            className="inline-flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-6"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Admin Dashboard
+          </Link>
+
+          <h1 className="text-3xl font-bold text-white mb-6">History</h1>
+
+          <Form method="get" className="flex flex-wrap items-end gap-3 mb-6">
+            <div>
+              <label htmlFor="entityType" className="block text-sm font-medium text-slate-300 mb-1">Type</label>
+              <select
+                id="entityType"
+                name="entityType"
+                defaultValue={filters.entityType}
+                className="px-3 py-2 rounded bg-slate-800 border border-slate-700 text-white focus:border-blue-500 focus:outline-none"
+              >
+                <option value="">Everything</option>
+                {ENTITY_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="entityId" className="block text-sm font-medium text-slate-300 mb-1">Entity ID</label>
+              <input
+                id="entityId"
+                name="entityId"
+                defaultValue={filters.entityId}
+                className="px-3 py-2 rounded bg-slate-800 border border-slate-700 text-white focus:border-blue-500 focus:outline-none font-mono text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="actor" className="block text-sm font-medium text-slate-300 mb-1">Actor ID</label>
+              <input
+                id="actor"
+                name="actor"
+                defaultValue={filters.actorId}
+                className="px-3 py-2 rounded bg-slate-800 border border-slate-700 text-white focus:border-blue-500 focus:outline-none font-mono text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              Filter
+            </button>
+            {(filters.entityType || filters.entityId || filters.actorId) && (
+              <Link to="/admin/history" className="px-4 py-2 text-slate-400 hover:text-white transition-colors">
+                Clear
+              </Link>
+            )}
+          </Form>
+
+          <div className={`bg-slate-800/80 border border-slate-700 rounded backdrop-blur-sm ${navigation.state === 'loading' ? 'opacity-60' : ''}`}>
+            {entries.length === 0 ? (
+              <p className="p-8 text-center text-slate-300">No changes recorded</p>
+            ) : (
+              <ul className="divide-y divide-slate-700">
+                {entries.map((entry) => {
+                  const href = entityHref(entry)
+                  return (
+                    <li key={entry.id} className="p-4">
+                      <div className="flex flex-wrap items-center gap-3 mb-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                          {entry.action.replace('_', ' ')}
+                        </span>
+                        <span className="text-slate-400 text-sm">{entry.entityType}</span>
+                        {href ? (
+                          <Link to={href} className="text-white font-medium hover:underline">
+                            {entry.summary || entry.entityId}
+                          </Link>
+                        ) : (
+                          <span className="text-white font-medium">{entry.summary || entry.entityId}</span>
+                        )}
+                        <Link
+                          to={`/admin/history?entityType=${entry.entityType}&entityId=${encodeURIComponent(entry.entityId)}`}
+                          className="text-xs text-blue-400 hover:text-blue-300"
+                        >
+                          All changes
+                        </Link>
+                        <span className="ml-auto text-slate-500 text-xs">
+                          {formatDateTime(entry.createdAt)}
+                        </span>
+                      </div>
+
+                      <p className="text-xs text-slate-500 mb-2">
+                        By{' '}
+                        {entry.actorId ? (
+                          <Link
+                            to={`/admin/history?actor=${encodeURIComponent(entry.actorId)}`}
+                            className="font-mono text-slate-400 hover:text-white"
+                          >
+                            {entry.actorId}
+                          </Link>
+                        ) : (
+                          'system'
+                        )}
+                      </p>
+
+                      {Object.keys(entry.changes).length > 0 && (
+                        <table className="w-full text-sm">
+                          <tbody>
+                            {Object.entries(entry.changes).map(([field, change]) => (
+                              <tr key={field} className="align-top">
+                                <td className="py-0.5 pr-4 text-slate-400 font-mono whitespace-nowrap">{field}</td>
+                                <td className="py-0.5 pr-2 text-red-300/80 break-all">{formatValue(change.from)}</td>
+                                <td className="py-0.5 pr-2 text-slate-500">→</td>
+                                <td className="py-0.5 text-green-300/80 break-all">{formatValue(change.to)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+
+          {totalPages > 1 && (
+            <div className="mt-6 flex items-center justify-center gap-4 text-sm">
+              {page > 1 ? (
+                <Link to={pageHref(page - 1)} className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors">
+                  Newer
+                </Link>
+              ) : null}
+              <span className="text-slate-400">Page {page} of {totalPages}</span>
+              {page < totalPages ? (
+                <Link to={pageHref(page + 1)} className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors">
+                  Older
+                </Link>
+              ) : null}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
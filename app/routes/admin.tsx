@@ -1,14 +1,35 @@
 import { useState, useEffect } from 'react'
-import { Form, redirect, useLoaderData, useActionData } from 'react-router'
+import { Form, Link, redirect, useLoaderData, useActionData, useNavigation, useRevalidator } from 'react-router'
 import { getAuth } from '@clerk/react-router/server'
 import { toast } from 'sonner'
 import type { Route } from './+types/admin'
 import { canUserManageAuthors } from '~/utils/permissions.server'
 import { getPendingApplications, getAllApplications, approveApplication, rejectApplication } from '~/utils/author-applications.server'
+import { getDelistedEvents, getTrashedEvents, purgeEvent, restoreEvent, TRASH_RETENTION_DAYS } from '~/utils/events.server'
+import { getPendingEvents, approveEvent, rejectEvent } from '~/utils/moderation.server'
+import {
+  createIngestionSource,
+  deleteIngestionSource,
+  getIngestionSources,
+  getRecentIngestionRuns,
+  runIngestionSource,
+  setIngestionSourceEnabled,
+} from '~/utils/ingestion.server'
+import { CONNECTORS } from '~/utils/connectors.server'
+import { cancelJob, enqueueJob, getRecentJobs, hasActiveJob, retryJob } from '~/utils/jobs.server'
 import ShaderBackground from '~/components/ShaderBackground'
+import { TrashList } from '~/components/TrashList'
+import { IngestionSources } from '~/components/IngestionSources'
+import { BulkImport } from '~/components/BulkImport'
+import { JobsList } from '~/components/JobsList'
 import { useRoleSimulationStore } from '~/stores'
 import { useUserRole } from '~/hooks/useUserRole'
 import type { AuthorApplication } from '../../prisma/generated/client.js'
+import type { Event } from '~/stores/useEventStore'
+import type { ConnectorType, IngestionSchedule } from '~/types/ingestion'
+import { ACTIVE_JOB_STATUSES, JOB_TYPE_LABELS, type JobType } from '~/types/jobs'
+import { formatDate, toSiteDate } from '~/utils/datetime'
+import { pageTitle } from '~/utils/site'
 
 export async function loader(args: Route.LoaderArgs) {
   const { userId } = await getAuth(args)
@@ -24,10 +45,24 @@ export async function loader(args: Route.LoaderArgs) {
 
   const pendingApplications = await getPendingApplications()
   const allApplications = await getAllApplications()
+  const pendingEvents = await getPendingEvents()
+  const trashedEvents = await getTrashedEvents()
+  const ingestionSources = await getIngestionSources()
+  const ingestionRuns = await getRecentIngestionRuns()
+  const delistedEvents = await getDelistedEvents()
+  const jobs = await getRecentJobs()
 
   return {
     pendingApplications,
-    recentApplications: allApplications.filter(app => app.status !== 'pending').slice(0, 10)
+    pendingEvents,
+    recentApplications: allApplications.filter(app => app.status !== 'pending').slice(0, 10),
+    trashedEvents,
+    trashRetentionDays: TRASH_RETENTION_DAYS,
+    ingestionSources,
+    ingestionRuns,
+    delistedEvents,
+    connectors: Object.values(CONNECTORS).map(({ type, label, description }) => ({ type, label, description })),
+    jobs,
   }
 }
 
@@ -46,6 +81,134 @@ export async function action(args: Route.ActionArgs) {
   const formData = await args.request.formData()
   const action = formData.get('action') as string
 
+  // Handle trash actions
+  const intent = formData.get('intent') as string
+  if (intent === 'restore' || intent === 'purge') {
+    const eventId = formData.get('eventId') as string
+    if (!eventId) {
+      return { error: 'Event ID is required' }
+    }
+
+    if (intent === 'restore') {
+      return await restoreEvent(eventId, userId)
+        ? { success: 'Event restored' }
+        : { error: 'Failed to restore event' }
+    }
+    return await purgeEvent(eventId, userId)
+      ? { success: 'Event permanently deleted' }
+      : { error: 'Failed to delete event' }
+  }
+
+  // Handle ingestion source actions
+  if (intent === 'create-source') {
+    const name = ((formData.get('name') as string) || '').trim()
+    const type = formData.get('type') as ConnectorType
+    const url = ((formData.get('url') as string) || '').trim()
+    const schedule = formData.get('schedule') as IngestionSchedule
+
+    if (!name || !url) {
+      return { error: 'Name and URL are required' }
+    }
+    if (!(type in CONNECTORS)) {
+      return { error: 'Unknown source format' }
+    }
+    if (!['hourly', 'daily', 'weekly'].includes(schedule)) {
+      return { error: 'Invalid schedule' }
+    }
+    if (!/^https?:\/\//i.test(url)) {
+      return { error: 'URL must start with http:// or https://' }
+    }
+
+    const source = await createIngestionSource(
+      { name, type, url, schedule, autoPublish: formData.get('autoPublish') === 'on' },
+      userId
+    )
+    return source
+      ? { success: `Added ${source.name}` }
+      : { error: 'A source with that name already exists' }
+  }
+
+  if (intent === 'toggle-source' || intent === 'run-source' || intent === 'delete-source') {
+    const sourceId = formData.get('sourceId') as string
+    if (!sourceId) {
+      return { error: 'Source ID is required' }
+    }
+
+    if (intent === 'toggle-source') {
+      const enabled = formData.get('enabled') === 'true'
+      return await setIngestionSourceEnabled(sourceId, enabled)
+        ? { success: enabled ? 'Source resumed' : 'Source paused' }
+        : { error: 'Source not found' }
+    }
+    if (intent === 'delete-source') {
+      return await deleteIngestionSource(sourceId)
+        ? { success: 'Source removed' }
+        : { error: 'Source not found' }
+    }
+
+    const run = await runIngestionSource(sourceId)
+    if (!run) {
+      return { error: 'Source not found' }
+    }
+    return run.status === 'failed'
+      ? { error: `Run failed: ${run.errors[0] ?? 'Unknown error'}` }
+      : { success: `${run.sourceName}: ${run.created} new, ${run.updated} updated, ${run.unchanged} unchanged, ${run.failed} failed` }
+  }
+
+  // Handle background job actions
+  if (intent === 'start-job') {
+    const jobType = formData.get('jobType') as JobType
+    if (!['dedupe', 'geocode-backfill', 'cleanup'].includes(jobType)) {
+      return { error: 'Unknown job type' }
+    }
+    if (await hasActiveJob(jobType)) {
+      return { error: `A ${JOB_TYPE_LABELS[jobType].toLowerCase()} job is already queued or running` }
+    }
+
+    const dryRun = jobType === 'dedupe' && formData.get('dryRun') === 'on'
+    await enqueueJob(jobType, {
+      label: dryRun ? 'Dry run' : '',
+      payload: jobType === 'dedupe' ? { dryRun } : {},
+      createdBy: userId,
+    })
+    return { success: `${JOB_TYPE_LABELS[jobType]} queued` }
+  }
+
+  if (intent === 'cancel-job' || intent === 'retry-job') {
+    const jobId = formData.get('jobId') as string
+    if (!jobId) {
+      return { error: 'Job ID is required' }
+    }
+
+    if (intent === 'cancel-job') {
+      return await cancelJob(jobId)
+        ? { success: 'Job cancelled' }
+        : { error: 'Job has already finished' }
+    }
+    return await retryJob(jobId)
+      ? { success: 'Job queued again' }
+      : { error: 'This job can no longer be retried' }
+  }
+
+  // Handle event review actions
+  const eventId = formData.get('eventId') as string
+  if (eventId) {
+    try {
+      if (action === 'approve') {
+        await approveEvent(eventId, userId, { trustAuthor: formData.get('trustAuthor') === 'on' })
+        return { success: 'Event approved and published' }
+      } else if (action === 'reject') {
+        await rejectEvent(eventId, userId, (formData.get('notes') as string) || undefined)
+        return { success: 'Event rejected' }
+      }
+
+      return { error: 'Invalid action' }
+    } catch (error) {
+      console.error('Error reviewing event:', error)
+      return { error: 'Failed to review event' }
+    }
+  }
+
   // Handle author application actions
   const applicationId = formData.get('applicationId') as string
   const notes = formData.get('notes') as string
@@ -72,223 +235,40 @@ export async function action(args: Route.ActionArgs) {
 
 export function meta({}: Route.MetaArgs) {
   return [
-    { title: '919 Events - Admin Dashboard' },
-    { name: 'description', content: 'Manage author applications' },
+    { title: pageTitle('Admin Dashboard') },
+    { name: 'description', content: 'Manage author applications and review events' },
   ]
 }
 
-const CHUNK_SIZE = 10 // Events per chunk to avoid Vercel timeout
-
-function BulkUploadTab() {
-  const [isUploading, setIsUploading] = useState(false)
-  const [progress, setProgress] = useState({ current: 0, total: 0, success: 0, failed: 0 })
-  const [errors, setErrors] = useState<string[]>([])
-
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-
-    setIsUploading(true)
-    setProgress({ current: 0, total: 0, success: 0, failed: 0 })
-    setErrors([])
-
-    try {
-      const text = await file.text()
-      const jsonData = JSON.parse(text)
-
-      if (!Array.isArray(jsonData)) {
-        toast.error('Invalid JSON format: Expected an array of events')
-        setIsUploading(false)
-        return
-      }
-
-      const totalEvents = jsonData.length
-      const totalChunks = Math.ceil(totalEvents / CHUNK_SIZE)
-      let totalSuccess = 0
-      let totalFailed = 0
-      const allErrors: string[] = []
-
-      setProgress({ current: 0, total: totalChunks, success: 0, failed: 0 })
-
-      for (let i = 0; i < totalChunks; i++) {
-        const chunk = jsonData.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE)
-
-        try {
-          const response = await fetch('/api/bulk-upload', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              events: chunk,
-              chunkIndex: i,
-              totalChunks,
-            }),
-          })
-
-          const result = await response.json()
-
-          if (result.error) {
-            allErrors.push(`Chunk ${i + 1}: ${result.error}`)
-            totalFailed += chunk.length
-          } else {
-            totalSuccess += result.success
-            totalFailed += result.failed
-            if (result.errors) {
-              allErrors.push(...result.errors)
-            }
-          }
-        } catch {
-          allErrors.push(`Chunk ${i + 1}: Network error`)
-          totalFailed += chunk.length
-        }
-
-        setProgress({
-          current: i + 1,
-          total: totalChunks,
-          success: totalSuccess,
-          failed: totalFailed,
-        })
-      }
-
-      setErrors(allErrors)
-
-      if (totalFailed === 0) {
-        toast.success(`Successfully uploaded ${totalSuccess} events!`)
-      } else {
-        toast.warning(`Uploaded ${totalSuccess} events. ${totalFailed} failed.`)
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      toast.error(`Failed to process file: ${errorMessage}`)
-    } finally {
-      setIsUploading(false)
-      // Reset the file input
-      e.target.value = ''
-    }
-  }
-
-  const progressPercent = progress.total > 0 ? Math.round((progress.current / progress.total) * 100) : 0
-
-  return (
-    <div className="p-6">
-      <h2 className="text-2xl font-semibold text-white mb-4">Bulk Event Upload</h2>
-      <p className="text-slate-300 text-sm mb-6">
-        Upload a JSON file containing an array of events from the API format.
-        Events will be uploaded in chunks of {CHUNK_SIZE} to avoid timeouts.
-      </p>
-
-      <div className="space-y-4">
-        <div>
-          <label htmlFor="eventsFile" className="block text-sm font-medium text-white mb-2">
-            Select JSON File
-          </label>
-          <input
-            id="eventsFile"
-            type="file"
-            accept=".json,application/json"
-            onChange={handleFileUpload}
-            disabled={isUploading}
-            className="w-full px-4 py-2 rounded bg-slate-700 border border-slate-600 text-white file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-blue-600 file:text-white hover:file:bg-blue-700 disabled:opacity-50"
-          />
-          <p className="text-slate-400 text-xs mt-1">
-            Expected format: Array of ApiEvent objects (see transformApiData.ts)
-          </p>
-        </div>
-
-        {/* Progress indicator */}
-        {isUploading && (
-          <div className="p-4 bg-slate-900/50 border border-slate-600 rounded">
-            <div className="flex justify-between text-sm text-slate-300 mb-2">
-              <span>Uploading chunk {progress.current} of {progress.total}...</span>
-              <span>{progressPercent}%</span>
-            </div>
-            <div className="w-full bg-slate-700 rounded-full h-2">
-              <div
-                className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                style={{ width: `${progressPercent}%` }}
-              />
-            </div>
-            <div className="flex gap-4 mt-2 text-xs">
-              <span className="text-green-400">Success: {progress.success}</span>
-              {progress.failed > 0 && (
-                <span className="text-red-400">Failed: {progress.failed}</span>
-              )}
-            </div>
-          </div>
-        )}
-
-        {/* Results summary */}
-        {!isUploading && progress.total > 0 && (
-          <div className="p-4 bg-slate-900/50 border border-slate-600 rounded">
-            <h3 className="text-sm font-medium text-white mb-2">Upload Complete</h3>
-            <div className="flex gap-4 text-sm">
-              <span className="text-green-400">Success: {progress.success}</span>
-              {progress.failed > 0 && (
-                <span className="text-red-400">Failed: {progress.failed}</span>
-              )}
-            </div>
-          </div>
-        )}
-
-        {/* Error list */}
-        {errors.length > 0 && (
-          <details className="p-4 bg-red-900/20 border border-red-700/50 rounded">
-            <summary className="cursor-pointer text-sm text-red-300 font-medium">
-              {errors.length} error(s) occurred
-            </summary>
-            <ul className="mt-2 space-y-1 text-xs text-red-300">
-              {errors.slice(0, 20).map((error, i) => (
-                <li key={i}>{error}</li>
-              ))}
-              {errors.length > 20 && (
-                <li className="text-red-400">...and {errors.length - 20} more</li>
-              )}
-            </ul>
-          </details>
-        )}
-      </div>
-
-      <details className="mt-6">
-        <summary className="cursor-pointer text-sm text-slate-400 hover:text-slate-300 font-medium">
-          Show expected JSON format
-        </summary>
-        <pre className="mt-3 p-4 bg-slate-900/50 border border-slate-600 rounded text-xs text-slate-300 overflow-x-auto">
-{`[
-  {
-    "recId": "100768",
-    "name": "Event Name",
-    "teaser": "Event description",
-    "location": "Venue Name",
-    "coordinates": [35.7796, -78.6382],
-    "date": "2025-12-23T04:59:59.000Z",
-    "times": "6:00 PM - 8:00 PM",
-    "cost": "Free",
-    "categories": [
-      { "catName": "Music", "catId": "1" }
-    ],
-    "media_raw": [
-      { "mediaurl": "https://...", "sortorder": 1, "mediatype": "Image" }
-    ],
-    "listing": {
-      "address1": "123 Main St",
-      "region": "Downtown"
-    },
-    "recurrence": "Weekly",
-    "endDate": "2026-01-01T00:00:00.000Z",
-    "city": "Raleigh"
-  }
-]`}
-        </pre>
-      </details>
-    </div>
-  )
-}
-
 export default function AdminPage() {
-  const { pendingApplications, recentApplications } = useLoaderData<typeof loader>()
+  const {
+    pendingApplications,
+    pendingEvents,
+    recentApplications,
+    trashedEvents,
+    trashRetentionDays,
+    ingestionSources,
+    ingestionRuns,
+    delistedEvents,
+    connectors,
+    jobs,
+  } = useLoaderData<typeof loader>()
   const actionData = useActionData<typeof action>()
+  const navigation = useNavigation()
+  const revalidator = useRevalidator()
   const { setSimulatedRole, clearSimulation } = useRoleSimulationStore()
   const { role, isSimulating } = useUserRole()
-  const [activeTab, setActiveTab] = useState<'applications' | 'upload' | 'simulation' | 'history'>('applications')
+  const [activeTab, setActiveTab] = useState<'applications' | 'review' | 'upload' | 'sources' | 'jobs' | 'simulation' | 'history' | 'trash'>('applications')
+  const activeJobs = jobs.filter((job) => ACTIVE_JOB_STATUSES.includes(job.status)).length
+
+  // Refresh job progress while the worker has something to do
+  useEffect(() => {
+    if (activeTab !== 'jobs' || activeJobs === 0) return
+    const timer = setInterval(() => {
+      if (revalidator.state === 'idle') revalidator.revalidate()
+    }, 3000)
+    return () => clearInterval(timer)
+  }, [activeTab, activeJobs, revalidator])
 
   // Show toast notifications based on action results
   useEffect(() => {
@@ -319,9 +299,13 @@ export default function AdminPage() {
 
   const tabs = [
     { id: 'applications' as const, label: 'Pending Applications', count: pendingApplications.length },
+    { id: 'review' as const, label: 'Event Review', count: pendingEvents.length },
     { id: 'upload' as const, label: 'Bulk Upload', count: null },
+    { id: 'sources' as const, label: 'Sources', count: delistedEvents.length },
+    { id: 'jobs' as const, label: 'Jobs', count: activeJobs },
     { id: 'simulation' as const, label: 'Role Simulation', count: null },
     { id: 'history' as const, label: 'Recent Decisions', count: recentApplications.length },
+    { id: 'trash' as const, label: 'Trash', count: trashedEvents.length },
   ]
 
   return (
@@ -337,6 +321,24 @@ export default function AdminPage() {
             <span className="px-3 py-1 bg-yellow-600/30 text-yellow-300 border border-yellow-600/50 rounded-full text-sm font-medium">
               ADMIN
             </span>
+            <Link
+              to="/admin/digest"
+              className="ml-auto px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm"
+            >
+              Digest Preview
+            </Link>
+            <Link
+              to="/admin/duplicates"
+              className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm"
+            >
+              Duplicates
+            </Link>
+            <Link
+              to="/admin/history"
+              className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm"
+            >
+              History
+            </Link>
           </div>
 
           {/* Tab Navigation */}
@@ -388,7 +390,7 @@ export default function AdminPage() {
                             <h3 className="text-xl font-semibold text-white mb-1">{app.fullName}</h3>
                             <p className="text-slate-400 text-sm">{app.email}</p>
                             <p className="text-slate-500 text-xs mt-1">
-                              Submitted: {new Date(app.submittedAt).toLocaleDateString()}
+                              Submitted: {formatDate(toSiteDate(app.submittedAt))}
                             </p>
                           </div>
                           <span className="px-3 py-1 bg-blue-600/30 text-blue-300 border border-blue-600/50 rounded-full text-sm">
@@ -455,9 +457,129 @@ export default function AdminPage() {
               </div>
             )}
 
+            {/* Event Review Tab */}
+            {activeTab === 'review' && (
+              <div className="p-6">
+                <h2 className="text-2xl font-semibold text-white mb-2">
+                  Events Awaiting Review ({pendingEvents.length})
+                </h2>
+                <p className="text-slate-400 text-sm mb-6">
+                  Events from new authors are held here until approved. Trusted authors publish immediately.
+                </p>
+
+                {pendingEvents.length === 0 ? (
+                  <div className="p-8 text-center">
+                    <p className="text-slate-300">No events awaiting review</p>
+                  </div>
+                ) : (
+                  <div className="grid gap-6">
+                    {pendingEvents.map((event: Event) => (
+                      <article
+                        key={event.id}
+                        className="p-6 bg-slate-900/50 border border-slate-600 rounded"
+                      >
+                        <div className="flex justify-between items-start mb-4">
+                          <div>
+                            <h3 className="text-xl font-semibold text-white mb-1">
+                              <Link to={`/events/${event.id}`} className="hover:underline">{event.title}</Link>
+                            </h3>
+                            <p className="text-slate-400 text-sm">
+                              {formatDate(event.date)} · {event.location}
+                              {event.city && `, ${event.city}`}
+                            </p>
+                            <p className="text-slate-500 text-xs mt-1">
+                              Submitted by {event.createdByName || event.createdBy}
+                            </p>
+                          </div>
+                          <span className="px-3 py-1 bg-yellow-600/30 text-yellow-300 border border-yellow-600/50 rounded-full text-sm">
+                            Pending
+                          </span>
+                        </div>
+
+                        <p className="text-slate-300 whitespace-pre-wrap mb-4 line-clamp-6">{event.description}</p>
+
+                        <div className="flex flex-wrap items-center gap-3">
+                          <Form method="post" className="inline-flex items-center gap-3">
+                            <input type="hidden" name="eventId" value={event.id} />
+                            <input type="hidden" name="action" value="approve" />
+                            <button
+                              type="submit"
+                              className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+                            >
+                              Approve
+                            </button>
+                            <label className="flex items-center gap-2 text-sm text-slate-300">
+                              <input
+                                type="checkbox"
+                                name="trustAuthor"
+                                className="w-4 h-4 text-blue-600 bg-slate-700 border-slate-600 rounded"
+                              />
+                              Trust this author
+                            </label>
+                          </Form>
+
+                          <Form method="post" className="inline">
+                            <input type="hidden" name="eventId" value={event.id} />
+                            <input type="hidden" name="action" value="reject" />
+                            <button
+                              type="submit"
+                              onClick={(e) => {
+                                const notes = prompt(`Reject "${event.title}"?\n\nOptional notes for the author:`)
+                                if (notes === null) {
+                                  e.preventDefault()
+                                } else if (notes) {
+                                  const notesInput = document.createElement('input')
+                                  notesInput.type = 'hidden'
+                                  notesInput.name = 'notes'
+                                  notesInput.value = notes
+                                  e.currentTarget.appendChild(notesInput)
+                                }
+                              }}
+                              className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                            >
+                              Reject
+                            </button>
+                          </Form>
+                        </div>
+                      </article>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Bulk Upload Tab */}
             {activeTab === 'upload' && (
-              <BulkUploadTab />
+              <BulkImport />
+            )}
+
+            {/* Ingestion Sources Tab */}
+            {activeTab === 'sources' && (
+              <div className="p-6">
+                <h2 className="text-2xl font-semibold text-white mb-2">Sources</h2>
+                <p className="text-slate-300 text-sm mb-6">
+                  Feeds pulled in automatically. Pulling a source again updates the events it imported before instead of duplicating them.
+                </p>
+                <IngestionSources
+                  sources={ingestionSources}
+                  runs={ingestionRuns}
+                  delistedEvents={delistedEvents}
+                  connectors={connectors}
+                  isSubmitting={navigation.state !== 'idle'}
+                />
+              </div>
+            )}
+
+            {/* Background Jobs Tab */}
+            {activeTab === 'jobs' && (
+              <div className="p-6">
+                <h2 className="text-2xl font-semibold text-white mb-2">Jobs</h2>
+                <p className="text-slate-300 text-sm mb-6">
+                  Long-running work runs in the background, a step at a time, so it survives timeouts and can be followed here.
+                  Failed steps are retried a few times before the job fails.
+                </p>
+                <JobsList jobs={jobs} isSubmitting={navigation.state !== 'idle'} />
+              </div>
             )}
 
             {/* Role Simulation Tab */}
@@ -535,7 +657,7 @@ export default function AdminPage() {
                             <h3 className="text-lg font-semibold text-white">{app.fullName}</h3>
                             <p className="text-slate-400 text-sm">{app.email}</p>
                             <p className="text-slate-500 text-xs mt-1">
-                              Reviewed: {app.reviewedAt ? new Date(app.reviewedAt).toLocaleDateString() : 'N/A'}
+                              Reviewed: {app.reviewedAt ? formatDate(toSiteDate(app.reviewedAt)) : 'N/A'}
                             </p>
                           </div>
                           <span
@@ -559,6 +681,21 @@ export default function AdminPage() {
                 )}
               </div>
             )}
+
+            {/* Trash Tab */}
+            {activeTab === 'trash' && (
+              <div className="p-6">
+                <h2 className="text-2xl font-semibold text-white mb-2">
+                  Trash ({trashedEvents.length})
+                </h2>
+                <TrashList
+                  events={trashedEvents}
+                  retentionDays={trashRetentionDays}
+                  showAuthor={true}
+                  isSubmitting={navigation.state !== 'idle'}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
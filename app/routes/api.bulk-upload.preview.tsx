@@ -0,0 +1,54 @@
+import { getAuth } from '@clerk/react-router/server'
+import type { Route } from './+types/api.bulk-upload.preview'
+import { canUserManageAuthors } from '~/utils/permissions.server'
+import { slugifySourceName } from '~/utils/ingestion.server'
+import { MAX_PREVIEW_ROWS, previewImport } from '~/utils/import.server'
+import type { ImportFormat } from '~/types/ingestion'
+import type { CsvMapping } from '~/utils/csv'
+
+/**
+ * Dry run of a bulk upload chunk: returns how each row would be imported,
+ * with validation errors and duplicate warnings. Nothing is saved.
+ */
+export async function action(args: Route.ActionArgs): Promise<Response> {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const canManage = await canUserManageAuthors(userId)
+  if (!canManage) {
+    return Response.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  try {
+    const body = await args.request.json()
+    const { records, format, mapping, source, startIndex } = body as {
+      records: unknown[]
+      format: ImportFormat
+      mapping?: CsvMapping
+      source: string
+      startIndex?: number
+    }
+
+    if (!Array.isArray(records) || records.length > MAX_PREVIEW_ROWS) {
+      return Response.json({ error: `Records must be an array of at most ${MAX_PREVIEW_ROWS} rows` }, { status: 400 })
+    }
+    if (format !== 'vendor-json' && format !== 'csv') {
+      return Response.json({ error: 'Unsupported file format' }, { status: 400 })
+    }
+
+    const sourceSlug = typeof source === 'string' ? slugifySourceName(source) : ''
+    if (!sourceSlug) {
+      return Response.json({ error: 'Source name is required' }, { status: 400 })
+    }
+
+    const rows = await previewImport(sourceSlug, format, records, { mapping, startIndex: Number(startIndex) || 0 })
+    return Response.json({ rows })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Bulk upload preview error:', error)
+    return Response.json({ error: `Failed to preview: ${errorMessage}` }, { status: 500 })
+  }
+}
@@ -1,9 +1,17 @@
 import { getAuth } from '@clerk/react-router/server'
 import type { Route } from './+types/api.bulk-upload'
 import { canUserManageAuthors } from '~/utils/permissions.server'
-import { bulkCreateEvents } from '~/utils/events.server'
-import { transformApiEvents } from '~/utils/transformApiData'
+import { slugifySourceName } from '~/utils/ingestion.server'
+import { appendImportRows, enqueueJob, MAX_IMPORT_UPLOAD_ROWS } from '~/utils/jobs.server'
+import type { ImportFormat } from '~/types/ingestion'
+import { isCsvMapping, type CsvMapping } from '~/utils/csv'
 
+/**
+ * Hand an import to the jobs worker. Large files arrive over several
+ * requests: the first creates the job and returns its id, later ones add
+ * their rows to it, and the one marked `final` queues it. The browser then
+ * polls /api/jobs for progress.
+ */
 export async function action(args: Route.ActionArgs): Promise<Response> {
   const { userId } = await getAuth(args)
 
@@ -18,38 +26,77 @@ export async function action(args: Route.ActionArgs): Promise<Response> {
 
   try {
     const body = await args.request.json()
-    const { events, chunkIndex, totalChunks } = body as {
-      events: unknown[]
-      chunkIndex: number
-      totalChunks: number
+    const { jobId, final = false, records, rows, format = 'vendor-json', mapping, source, listedExternalIds, label } = body as {
+      jobId?: string // Set on every request after the first
+      final?: boolean
+      records?: unknown[]
+      rows?: number[] // Each record's position in the file, for error messages
+      format?: ImportFormat
+      mapping?: CsvMapping // For CSV files
+      source?: string
+      listedExternalIds?: string[] // Full exports: flag upcoming events missing from them
+      label?: string
     }
 
-    if (!Array.isArray(events)) {
-      return Response.json({ error: 'Events must be an array' }, { status: 400 })
+    if (!Array.isArray(records) || !Array.isArray(rows) || records.length !== rows.length) {
+      return Response.json({ error: 'Records must be an array' }, { status: 400 })
+    }
+    if (records.length > MAX_IMPORT_UPLOAD_ROWS) {
+      return Response.json({ error: `Send at most ${MAX_IMPORT_UPLOAD_ROWS} rows per request` }, { status: 400 })
+    }
+    // Rows are stored as sent and only read by the worker, so check their shape here
+    if (records.some((record) => typeof record !== 'object' || record === null || Array.isArray(record))) {
+      return Response.json({ error: 'Each record must be an object' }, { status: 400 })
+    }
+    if (rows.some((row) => !Number.isInteger(row) || row < 0)) {
+      return Response.json({ error: 'Row numbers must be whole numbers' }, { status: 400 })
+    }
+    if ((jobId !== undefined && typeof jobId !== 'string') || typeof final !== 'boolean') {
+      return Response.json({ error: 'Invalid upload request' }, { status: 400 })
     }
 
-    // Transform API events to app format
-    const transformedEvents = transformApiEvents(events)
+    let id = jobId
+    if (!id) {
+      if (format !== 'vendor-json' && format !== 'csv') {
+        return Response.json({ error: 'Unsupported file format' }, { status: 400 })
+      }
+      if (mapping !== undefined && !isCsvMapping(mapping)) {
+        return Response.json({ error: 'Invalid column mapping' }, { status: 400 })
+      }
+      if (listedExternalIds !== undefined && !Array.isArray(listedExternalIds)) {
+        return Response.json({ error: 'Listed IDs must be an array' }, { status: 400 })
+      }
 
-    // Set createdBy to the admin's userId and remove id field
-    const eventsToCreate = transformedEvents.map(({ id, ...rest }) => ({
-      ...rest,
-      createdBy: userId
-    }))
+      // Events are matched to earlier uploads by source and external id
+      const sourceSlug = typeof source === 'string' ? slugifySourceName(source) : ''
+      if (!sourceSlug) {
+        return Response.json({ error: 'Source name is required' }, { status: 400 })
+      }
 
-    // Create events in this chunk
-    const result = await bulkCreateEvents(eventsToCreate)
+      const job = await enqueueJob('import', {
+        label: typeof label === 'string' && label ? label : source,
+        payload: {
+          source: sourceSlug,
+          format,
+          mapping,
+          records: [],
+          rows: [],
+          ...(listedExternalIds && { listedExternalIds: listedExternalIds.map(String) }),
+        },
+        createdBy: userId,
+      })
+      id = job.id
+    }
+
+    const job = await appendImportRows(id, { records, rows }, final)
+    if (!job) {
+      return Response.json({ error: 'This import is no longer taking rows' }, { status: 409 })
+    }
 
-    return Response.json({
-      success: result.success,
-      failed: result.failed,
-      errors: result.errors,
-      chunkIndex,
-      totalChunks,
-    })
+    return Response.json({ jobId: job.id, status: job.status })
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.error('Bulk upload chunk error:', error)
-    return Response.json({ error: `Failed to process chunk: ${errorMessage}` }, { status: 500 })
+    console.error('Bulk upload error:', error)
+    return Response.json({ error: `Failed to upload rows: ${errorMessage}` }, { status: 500 })
   }
 }
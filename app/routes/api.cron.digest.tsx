@@ -0,0 +1,19 @@
+import { sendWeeklyDigest } from '~/utils/digest.server'
+
+export async function loader({ request }: { request: Request }) {
+  // Verify the request is from Vercel Cron
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const digestsSent = await sendWeeklyDigest()
+
+  console.log(`[Cron] Sent ${digestsSent} weekly digests`)
+
+  return Response.json({
+    success: true,
+    digestsSent,
+    timestamp: new Date().toISOString(),
+  })
+}
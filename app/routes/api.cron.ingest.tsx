@@ -0,0 +1,25 @@
+import { runDueIngestionSources } from '~/utils/ingestion.server'
+
+export async function loader({ request }: { request: Request }) {
+  // Verify the request is from Vercel Cron
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const runs = await runDueIngestionSources()
+
+  for (const run of runs) {
+    console.log(`[Cron] Ingested ${run.sourceName} (${run.status}): ${run.created} new, ${run.updated} updated, ${run.unchanged} unchanged, ${run.delisted} delisted, ${run.failed} failed`)
+  }
+
+  return Response.json({
+    success: true,
+    sources: runs.length,
+    created: runs.reduce((sum, run) => sum + run.created, 0),
+    updated: runs.reduce((sum, run) => sum + run.updated, 0),
+    delisted: runs.reduce((sum, run) => sum + run.delisted, 0),
+    failed: runs.filter((run) => run.status === 'failed').length,
+    timestamp: new Date().toISOString(),
+  })
+}
@@ -0,0 +1,21 @@
+import { runJobWorker } from '~/utils/jobs.server'
+
+export async function loader({ request }: { request: Request }) {
+  // Verify the request is from Vercel Cron
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const worked = await runJobWorker()
+
+  if (worked > 0) {
+    console.log(`[Cron] Worked on ${worked} background jobs`)
+  }
+
+  return Response.json({
+    success: true,
+    jobs: worked,
+    timestamp: new Date().toISOString(),
+  })
+}
@@ -0,0 +1,20 @@
+import { publishScheduledEvents } from '~/utils/moderation.server'
+
+export async function loader({ request }: { request: Request }) {
+  // Verify the request is from Vercel Cron
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { published, pending } = await publishScheduledEvents()
+
+  console.log(`[Cron] Published ${published} scheduled events, ${pending} sent for review`)
+
+  return Response.json({
+    success: true,
+    published,
+    pending,
+    timestamp: new Date().toISOString(),
+  })
+}
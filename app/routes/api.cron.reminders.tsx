@@ -0,0 +1,19 @@
+import { sendEventReminders } from '~/utils/events.server'
+
+export async function loader({ request }: { request: Request }) {
+  // Verify the request is from Vercel Cron
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const remindersSent = await sendEventReminders()
+
+  console.log(`[Cron] Sent ${remindersSent} reminders for tomorrow's events`)
+
+  return Response.json({
+    success: true,
+    remindersSent,
+    timestamp: new Date().toISOString(),
+  })
+}
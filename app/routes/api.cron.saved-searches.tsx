@@ -0,0 +1,19 @@
+import { sendSavedSearchAlerts } from '~/utils/saved-searches.server'
+
+export async function loader({ request }: { request: Request }) {
+  // Verify the request is from Vercel Cron
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const alertsSent = await sendSavedSearchAlerts()
+
+  console.log(`[Cron] Sent ${alertsSent} saved search alerts`)
+
+  return Response.json({
+    success: true,
+    alertsSent,
+    timestamp: new Date().toISOString(),
+  })
+}
@@ -0,0 +1,69 @@
+import type { Route } from './+types/api.events.geo'
+import { getEventsWithOccurrences, OCCURRENCE_HORIZON_DAYS } from '~/utils/events.server'
+import { addDays, getToday } from '~/utils/datetime'
+import { parseBoundingBoxParam, parseCoordinateParams, parseRadiusParam } from '~/utils/geo'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Events inside a map bounding box (`bbox=west,south,east,north`) or within
+ * `radius` miles of `lat`/`lng`, occurring between `from` and `to`
+ * (default: today through the recurrence horizon).
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  const url = new URL(request.url)
+  const bounds = parseBoundingBoxParam(url.searchParams.get('bbox'))
+  const center = parseCoordinateParams(url.searchParams.get('lat'), url.searchParams.get('lng'))
+
+  if (!bounds && !center) {
+    return Response.json(
+      { error: 'Provide bbox=west,south,east,north or lat and lng' },
+      { status: 400 }
+    )
+  }
+
+  const today = getToday()
+  const fromParam = url.searchParams.get('from')
+  const toParam = url.searchParams.get('to')
+  const from = fromParam && DATE_PATTERN.test(fromParam) ? fromParam : today
+  const to = toParam && DATE_PATTERN.test(toParam) ? toParam : addDays(from, OCCURRENCE_HORIZON_DAYS)
+
+  if (to < from) {
+    return Response.json({ error: '`to` must not be before `from`' }, { status: 400 })
+  }
+
+  const near = center && { ...center, radiusMiles: parseRadiusParam(url.searchParams.get('radius')) }
+  const events = await getEventsWithOccurrences(from, to, { bounds, near })
+
+  return Response.json(
+    {
+      events: events
+        .filter((e): e is typeof e & { coordinates: { lat: number; lng: number } } =>
+          e.coordinates !== undefined
+        )
+        .map(e => ({
+          id: e.id,
+          title: e.title,
+          description: e.description,
+          location: e.location,
+          latitude: e.coordinates.lat,
+          longitude: e.coordinates.lng,
+          date: e.date,
+          occurrences: e.occurrences,
+          times: e.times,
+          cost: e.cost,
+          categories: e.categories || [],
+          city: e.city,
+          imageUrl: e.imageUrl,
+          distanceMiles: e.distanceMiles,
+          status: e.status,
+          originalDate: e.originalDate,
+        })),
+    },
+    {
+      headers: {
+        'Cache-Control': 'public, max-age=30',
+      },
+    }
+  )
+}
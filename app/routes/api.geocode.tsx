@@ -1,6 +1,8 @@
 import { getAuth } from '@clerk/react-router/server'
 import type { Route } from './+types/api.geocode'
 import { canUserCreateEvent } from '~/utils/permissions.server'
+import { geocodeAddress } from '~/utils/geocode.server'
+import { SITE } from '~/utils/site'
 
 export async function action(args: Route.ActionArgs) {
   const { userId } = await getAuth(args)
@@ -29,46 +31,22 @@ export async function action(args: Route.ActionArgs) {
   const queryParts = [address]
   if (city) queryParts.push(city)
   if (region) queryParts.push(region)
-  // Add NC as default state for the 919 area
-  queryParts.push('NC')
+  // Addresses are entered without a state, so add the site's
+  queryParts.push(SITE.geocoding.state)
   const searchQuery = queryParts.join(', ')
 
-  const mapboxToken = process.env.VITE_MAPBOX_TOKEN
-  if (!mapboxToken) {
+  if (!process.env.VITE_MAPBOX_TOKEN) {
     return Response.json({ error: 'Mapbox token not configured' }, { status: 500 })
   }
 
   try {
-    const url = new URL('https://api.mapbox.com/search/geocode/v6/forward')
-    url.searchParams.set('q', searchQuery)
-    url.searchParams.set('access_token', mapboxToken)
-    url.searchParams.set('limit', '1')
-    // Bias towards North Carolina
-    url.searchParams.set('proximity', '-78.6382,35.7796')
-    url.searchParams.set('country', 'US')
+    const result = await geocodeAddress(searchQuery)
 
-    const response = await fetch(url.toString())
-
-    if (!response.ok) {
-      console.error('Mapbox API error:', response.status, response.statusText)
-      return Response.json({ error: 'Geocoding service error' }, { status: 500 })
-    }
-
-    const data = await response.json()
-
-    if (!data.features || data.features.length === 0) {
+    if (!result) {
       return Response.json({ error: 'Address not found' }, { status: 404 })
     }
 
-    const feature = data.features[0]
-    const [longitude, latitude] = feature.geometry.coordinates
-    const fullAddress = feature.properties.full_address || feature.properties.name
-
-    return Response.json({
-      latitude,
-      longitude,
-      fullAddress,
-    })
+    return Response.json(result)
   } catch (error) {
     console.error('Geocoding error:', error)
     return Response.json({ error: 'Failed to geocode address' }, { status: 500 })
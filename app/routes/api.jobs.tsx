@@ -0,0 +1,30 @@
+import { getAuth } from '@clerk/react-router/server'
+import type { Route } from './+types/api.jobs'
+import { canUserManageAuthors } from '~/utils/permissions.server'
+import { getJob, getRecentJobs } from '~/utils/jobs.server'
+
+// Polled while a job runs: `?id=` returns that job, otherwise the recent ones
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const canManage = await canUserManageAuthors(userId)
+  if (!canManage) {
+    return Response.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const id = new URL(args.request.url).searchParams.get('id')
+  if (id) {
+    const job = await getJob(id)
+    if (!job) {
+      return Response.json({ error: 'Job not found' }, { status: 404 })
+    }
+    return Response.json({ job })
+  }
+
+  const jobs = await getRecentJobs()
+  return Response.json({ jobs })
+}
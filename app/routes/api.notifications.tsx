@@ -0,0 +1,33 @@
+import { getAuth } from '@clerk/react-router/server'
+import type { Route } from './+types/api.notifications'
+import { getNotifications, getUnreadNotificationCount, markNotificationsRead } from '~/utils/notifications.server'
+
+// Notifications shown in the header dropdown; the rest are on /notifications
+const RECENT_NOTIFICATIONS_LIMIT = 8
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const [notifications, unreadCount] = await Promise.all([
+    getNotifications(userId, RECENT_NOTIFICATIONS_LIMIT),
+    getUnreadNotificationCount(userId),
+  ])
+
+  return Response.json({ notifications, unreadCount })
+}
+
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  await markNotificationsRead(userId)
+
+  return Response.json({ success: true })
+}
@@ -0,0 +1,54 @@
+import type { Route } from './+types/api.v1.events.$id'
+import { getEventById, OCCURRENCE_HORIZON_DAYS } from '~/utils/events.server'
+import { consumeRateLimit } from '~/utils/rate-limit.server'
+import { apiError, apiJsonResponse, apiOptionsResponse, latestUpdate, toApiEvent } from '~/utils/api.server'
+import { getEventOccurrences } from '~/utils/recurrence'
+import { addDays, getToday } from '~/utils/datetime'
+
+// Upcoming dates listed for a recurring event
+const MAX_UPCOMING_DATES = 10
+
+/**
+ * GET /api/v1/events/:id
+ *
+ * A single event. `date` is its next occurrence (or its own date once past),
+ * and `upcomingDates` lists the next few occurrences of a recurring series.
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  // CORS preflights are answered before any key check: browsers send them without one
+  if (request.method === 'OPTIONS') {
+    return apiOptionsResponse()
+  }
+
+  const rateLimit = await consumeRateLimit(request)
+  if (!rateLimit) {
+    return apiError(401, 'Invalid API key')
+  }
+  if (!rateLimit.allowed) {
+    return apiError(429, 'Rate limit exceeded', rateLimit)
+  }
+
+  const event = await getEventById(params.id, { publicOnly: true })
+  if (!event) {
+    return apiError(404, 'Event not found', rateLimit)
+  }
+
+  const today = getToday()
+  const upcomingDates = getEventOccurrences(event, today, addDays(today, OCCURRENCE_HORIZON_DAYS), MAX_UPCOMING_DATES)
+
+  return apiJsonResponse(
+    request,
+    {
+      data: {
+        ...toApiEvent({ ...event, occurrenceDate: upcomingDates[0] }, new URL(request.url).origin),
+        upcomingDates,
+      },
+    },
+    { lastModified: latestUpdate([event]), rateLimit }
+  )
+}
+
+// The API is read-only; preflights go to the loader
+export async function action() {
+  return apiError(405, 'Method not allowed')
+}
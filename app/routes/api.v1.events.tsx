@@ -0,0 +1,116 @@
+import type { Route } from './+types/api.v1.events'
+import { getEventsAfterCursor } from '~/utils/events.server'
+import { consumeRateLimit } from '~/utils/rate-limit.server'
+import {
+  API_DEFAULT_LIMIT,
+  API_MAX_LIMIT,
+  apiError,
+  apiJsonResponse,
+  apiOptionsResponse,
+  decodeCursor,
+  encodeCursor,
+  latestUpdate,
+  toApiEvent,
+} from '~/utils/api.server'
+import { parsePriceParam } from '~/utils/cost'
+import { parseBoundingBoxParam, parseCoordinateParams, parseRadiusParam } from '~/utils/geo'
+import { TIME_OF_DAY_RANGES, type TimeOfDay } from '~/utils/times'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * GET /api/v1/events
+ *
+ * Upcoming events in date order. Filters: search, category, minPrice,
+ * maxPrice, startDate, endDate, time (morning|afternoon|evening), after
+ * (HH:MM), lat + lng (+ radius in miles), bbox=west,south,east,north.
+ * Paginate with limit and the cursor from the previous page's nextCursor.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  // CORS preflights are answered before any key check: browsers send them without one
+  if (request.method === 'OPTIONS') {
+    return apiOptionsResponse()
+  }
+
+  const rateLimit = await consumeRateLimit(request)
+  if (!rateLimit) {
+    return apiError(401, 'Invalid API key')
+  }
+  if (!rateLimit.allowed) {
+    return apiError(429, 'Rate limit exceeded', rateLimit)
+  }
+
+  const url = new URL(request.url)
+  const params = url.searchParams
+
+  const limitParam = parseInt(params.get('limit') || '', 10)
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), API_MAX_LIMIT) : API_DEFAULT_LIMIT
+
+  const cursorParam = params.get('cursor')
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null
+  if (cursorParam && !cursor) {
+    return apiError(400, 'Invalid cursor', rateLimit)
+  }
+
+  const startDate = params.get('startDate') || undefined
+  const endDate = params.get('endDate') || undefined
+  if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+    return apiError(400, 'Dates must be YYYY-MM-DD', rateLimit)
+  }
+
+  const timeOfDay = params.get('time') || undefined
+  if (timeOfDay && !(timeOfDay in TIME_OF_DAY_RANGES)) {
+    return apiError(400, 'time must be morning, afternoon or evening', rateLimit)
+  }
+
+  const bboxParam = params.get('bbox')
+  const bounds = parseBoundingBoxParam(bboxParam)
+  if (bboxParam && !bounds) {
+    return apiError(400, 'bbox must be west,south,east,north', rateLimit)
+  }
+
+  const center = parseCoordinateParams(params.get('lat'), params.get('lng'))
+  if ((params.has('lat') || params.has('lng')) && !center) {
+    return apiError(400, 'lat and lng must both be valid coordinates', rateLimit)
+  }
+
+  const { events, nextCursor, totalCount } = await getEventsAfterCursor(cursor, limit, {
+    searchQuery: params.get('search') || undefined,
+    category: params.get('category') || undefined,
+    minPrice: parsePriceParam(params.get('minPrice')),
+    maxPrice: parsePriceParam(params.get('maxPrice')),
+    startDate,
+    endDate,
+    timeOfDay: timeOfDay as TimeOfDay | undefined,
+    startsAfter: params.get('after') || undefined,
+    near: center && { ...center, radiusMiles: parseRadiusParam(params.get('radius')) },
+    bounds,
+  })
+
+  let next: string | null = null
+  if (nextCursor) {
+    const nextUrl = new URL(url)
+    nextUrl.searchParams.set('cursor', encodeCursor(nextCursor))
+    nextUrl.searchParams.delete('api_key')
+    next = nextUrl.toString()
+  }
+
+  return apiJsonResponse(
+    request,
+    {
+      data: events.map((event) => toApiEvent(event, url.origin)),
+      pagination: {
+        limit,
+        totalCount,
+        nextCursor: nextCursor && encodeCursor(nextCursor),
+        next,
+      },
+    },
+    { lastModified: latestUpdate(events), rateLimit }
+  )
+}
+
+// The API is read-only; preflights go to the loader
+export async function action() {
+  return apiError(405, 'Method not allowed')
+}
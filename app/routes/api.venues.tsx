@@ -0,0 +1,12 @@
+import type { Route } from './+types/api.venues'
+import { searchVenues } from '~/utils/venues.server'
+
+/**
+ * Venues matching `q` by name or address, for the venue picker
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  const query = new URL(request.url).searchParams.get('q') || ''
+  const venues = await searchVenues(query)
+
+  return Response.json({ venues }, { headers: { 'Cache-Control': 'public, max-age=30' } })
+}
@@ -4,6 +4,7 @@ import type { Route } from './+types/apply-author'
 import { getUserRole } from '~/utils/roles.server'
 import { createAuthorApplication, getApplicationByUserId } from '~/utils/author-applications.server'
 import ShaderBackground from '~/components/ShaderBackground'
+import { pageTitle, SITE } from '~/utils/site'
 
 export async function loader(args: Route.LoaderArgs) {
   const { userId } = await getAuth(args)
@@ -77,7 +78,7 @@ export async function action(args: Route.ActionArgs) {
 
 export function meta({}: Route.MetaArgs) {
   return [
-    { title: '919 Events - Apply for Author' },
+    { title: pageTitle('Apply for Author') },
     { name: 'description', content: 'Apply to become an event author' },
   ]
 }
@@ -116,7 +117,7 @@ export default function ApplyAuthorPage() {
           <div className="max-w-2xl mb-6 p-4 bg-slate-800/80 border border-slate-700 rounded backdrop-blur-sm">
             <h2 className="text-xl font-semibold text-white mb-3">What is an Author?</h2>
             <p className="text-slate-300 mb-2">
-              Authors can submit and publish events immediately to the 919 Events platform.
+              Authors can submit and publish events immediately to the {SITE.name} platform.
               As an author, you'll have the ability to create, edit, and manage your own events.
             </p>
             <p className="text-slate-300">
@@ -165,7 +166,7 @@ export default function ApplyAuthorPage() {
                 required
                 rows={6}
                 className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none text-white"
-                placeholder="Tell us about your interest in organizing or promoting events in the 919 area..."
+                placeholder={`Tell us about your interest in organizing or promoting events in ${SITE.areaName}...`}
               />
             </div>
 
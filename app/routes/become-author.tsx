@@ -4,6 +4,7 @@ import { SignInButton } from '@clerk/react-router'
 import type { Route } from './+types/become-author'
 import { getUserRole } from '~/utils/roles.server'
 import ShaderBackground from '~/components/ShaderBackground'
+import { pageTitle, SITE } from '~/utils/site'
 
 export async function loader(args: Route.LoaderArgs) {
   const { userId } = await getAuth(args)
@@ -28,8 +29,8 @@ export async function loader(args: Route.LoaderArgs) {
 
 export function meta({}: Route.MetaArgs) {
   return [
-    { title: '919 Events - Become an Author' },
-    { name: 'description', content: 'Sign in to create events on 919 Events' },
+    { title: pageTitle('Become an Author') },
+    { name: 'description', content: `Sign in to create events on ${SITE.name}` },
   ]
 }
 
@@ -43,7 +44,7 @@ export default function BecomeAuthorPage() {
       <div className="relative z-10 pt-20 pb-8">
         <div className="container mx-auto px-4">
           <div className="max-w-2xl mx-auto text-center">
-            <h1 className="text-3xl font-bold mb-6 text-white">Create Events on 919 Events</h1>
+            <h1 className="text-3xl font-bold mb-6 text-white">Create Events on {SITE.name}</h1>
 
             <div className="mb-8 p-6 bg-slate-800/80 border border-slate-700 rounded-lg backdrop-blur-sm text-left">
               <h2 className="text-xl font-semibold text-white mb-4">How it works</h2>
@@ -0,0 +1,16 @@
+import type { Route } from './+types/calendar.category.$category'
+import { getCalendarFeedEvents } from '~/utils/events.server'
+import { buildCalendar, calendarFilename, calendarResponse } from '~/utils/ical.server'
+import { pageTitle } from '~/utils/site'
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const events = await getCalendarFeedEvents({ category: params.category })
+
+  const ics = buildCalendar({
+    name: pageTitle(params.category),
+    events,
+    baseUrl: new URL(request.url).origin,
+  })
+
+  return calendarResponse(ics, calendarFilename(params.category))
+}
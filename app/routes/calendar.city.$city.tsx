@@ -0,0 +1,16 @@
+import type { Route } from './+types/calendar.city.$city'
+import { getCalendarFeedEvents } from '~/utils/events.server'
+import { buildCalendar, calendarFilename, calendarResponse } from '~/utils/ical.server'
+import { pageTitle } from '~/utils/site'
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const events = await getCalendarFeedEvents({ city: params.city })
+
+  const ics = buildCalendar({
+    name: pageTitle(params.city),
+    events,
+    baseUrl: new URL(request.url).origin,
+  })
+
+  return calendarResponse(ics, calendarFilename(params.city))
+}
@@ -0,0 +1,16 @@
+import type { Route } from './+types/calendar.events'
+import { getCalendarFeedEvents } from '~/utils/events.server'
+import { buildCalendar, calendarResponse } from '~/utils/ical.server'
+import { SITE } from '~/utils/site'
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const events = await getCalendarFeedEvents()
+
+  const ics = buildCalendar({
+    name: SITE.name,
+    events,
+    baseUrl: new URL(request.url).origin,
+  })
+
+  return calendarResponse(ics, 'events.ics')
+}
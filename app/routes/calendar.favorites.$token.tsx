@@ -0,0 +1,29 @@
+import type { Route } from './+types/calendar.favorites.$token'
+import { getCalendarFeedEvents } from '~/utils/events.server'
+import { getUserIdForFeedToken } from '~/utils/calendar-feeds.server'
+import { getUserFavoriteEventIds } from '~/utils/votes.server'
+import { buildCalendar, calendarResponse } from '~/utils/ical.server'
+import { pageTitle } from '~/utils/site'
+
+/**
+ * A user's favorited events. Calendar apps can't sign in, so the feed is
+ * authorized by the private token in the URL instead of a session.
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const userId = await getUserIdForFeedToken(params.token)
+
+  if (!userId) {
+    throw new Response('Calendar feed not found', { status: 404 })
+  }
+
+  const favoriteEventIds = await getUserFavoriteEventIds(userId)
+  const events = await getCalendarFeedEvents({ eventIds: favoriteEventIds })
+
+  const ics = buildCalendar({
+    name: pageTitle('My Favorites'),
+    events,
+    baseUrl: new URL(request.url).origin,
+  })
+
+  return calendarResponse(ics, 'favorites.ics', { isPrivate: true })
+}
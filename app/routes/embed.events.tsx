@@ -0,0 +1,118 @@
+import { useEffect, useRef } from 'react'
+import { useLoaderData } from 'react-router'
+import type { Route } from './+types/embed.events'
+import { getPaginatedEvents } from '~/utils/events.server'
+import { EventCard } from '~/components/EventCard'
+import { parseWidgetOptions, WIDGET_RESIZE_MESSAGE } from '~/utils/widget'
+import { SITE } from '~/utils/site'
+
+// Rendered without the site header; see App in root.tsx
+export const handle = { embed: true }
+
+const CONTAINER_CLASSES = {
+  light: 'bg-white text-gray-900 border-gray-200',
+  dark: 'bg-slate-900 text-white border-slate-700',
+}
+
+/**
+ * GET /embed/events
+ *
+ * Compact event list for partner sites to show in an iframe, either directly
+ * or through /embed.js. Options are described by WidgetOptions.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  const options = parseWidgetOptions(new URL(request.url).searchParams)
+
+  const { events, totalCount } = await getPaginatedEvents(1, options.limit, {
+    city: options.city,
+    category: options.category,
+    venue: options.venue,
+    createdBy: options.author,
+  })
+
+  return { events, totalCount, options }
+}
+
+export function headers(_: Route.HeadersArgs) {
+  return {
+    // Any site may frame the widget
+    'Content-Security-Policy': 'frame-ancestors *',
+    'Cache-Control': 'public, max-age=300',
+  }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    { title: data?.options.title || SITE.name },
+    { name: 'robots', content: 'noindex' },
+  ]
+}
+
+export default function EmbedEvents() {
+  const { events, totalCount, options } = useLoaderData<typeof loader>()
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Tell the embedding page our height so it can size the iframe to fit
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || window.parent === window) return
+
+    const observer = new ResizeObserver(() => {
+      window.parent.postMessage(
+        { type: WIDGET_RESIZE_MESSAGE, height: Math.ceil(container.getBoundingClientRect().height) },
+        '*'
+      )
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const allEventsHref = options.category ? `/events?category=${encodeURIComponent(options.category)}` : '/events'
+
+  return (
+    <div ref={containerRef} className={`p-4 border rounded-lg ${CONTAINER_CLASSES[options.theme]}`}>
+      {options.title && (
+        <h2 className="text-xl font-bold mb-4">{options.title}</h2>
+      )}
+
+      {events.length === 0 ? (
+        <p className="text-sm opacity-70 py-6 text-center">No upcoming events</p>
+      ) : (
+        <div className="grid gap-3">
+          {events.map((event) => (
+            <EventCard
+              key={`${event.id}-${event.occurrenceDate}`}
+              event={options.images ? event : { ...event, imageUrl: undefined }}
+              theme={options.theme}
+              accentColor={options.accent}
+              compact={true}
+            >
+              <a
+                href={`/events/${event.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-3 py-1.5 text-sm text-white rounded hover:opacity-90 transition-opacity"
+                style={{ backgroundColor: options.accent }}
+              >
+                View Details
+              </a>
+            </EventCard>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center mt-4 text-sm">
+        {totalCount > events.length ? (
+          <a href={allEventsHref} target="_blank" rel="noopener noreferrer" style={{ color: options.accent }} className="hover:underline">
+            More events →
+          </a>
+        ) : (
+          <span />
+        )}
+        <a href="/" target="_blank" rel="noopener noreferrer" className="opacity-60 hover:opacity-100">
+          Powered by {SITE.name}
+        </a>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import type { Route } from './+types/embed.js'
+import { WIDGET_ATTRIBUTE, WIDGET_PARAMS, WIDGET_RESIZE_MESSAGE } from '~/utils/widget'
+
+/**
+ * GET /embed.js
+ *
+ * Loader script for partner sites. Replaces each
+ * <div data-events-widget data-city="Durham" ...></div> on the page with an
+ * iframe of /embed/events, and resizes the iframes to fit their content.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  const origin = new URL(request.url).origin
+
+  const script = `(function () {
+  var origin = ${JSON.stringify(origin)};
+  var params = ${JSON.stringify(WIDGET_PARAMS)};
+  var marker = ${JSON.stringify(WIDGET_ATTRIBUTE)};
+
+  function mount(el) {
+    var query = new URLSearchParams();
+    params.forEach(function (name) {
+      var value = el.getAttribute('data-' + name);
+      if (value) query.set(name, value);
+    });
+    var iframe = document.createElement('iframe');
+    iframe.src = origin + '/embed/events?' + query.toString();
+    iframe.title = el.getAttribute('data-title') || 'Upcoming events';
+    iframe.loading = 'lazy';
+    iframe.style.cssText = 'width:100%;height:480px;border:0;display:block;';
+    el.setAttribute(marker + '-mounted', '');
+    el.appendChild(iframe);
+  }
+
+  document.querySelectorAll('[' + marker + ']:not([' + marker + '-mounted])').forEach(mount);
+
+  if (window.__eventsWidgetResize) return;
+  window.__eventsWidgetResize = true;
+  window.addEventListener('message', function (event) {
+    if (event.origin !== origin || !event.data || event.data.type !== ${JSON.stringify(WIDGET_RESIZE_MESSAGE)}) return;
+    document.querySelectorAll('[' + marker + '] iframe').forEach(function (iframe) {
+      if (iframe.contentWindow === event.source) iframe.style.height = event.data.height + 'px';
+    });
+  });
+})();
+`
+
+  return new Response(script, {
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600',
+      'Access-Control-Allow-Origin': '*',
+    },
+  })
+}
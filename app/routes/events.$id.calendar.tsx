@@ -0,0 +1,19 @@
+import type { Route } from './+types/events.$id.calendar'
+import { getEventById } from '~/utils/events.server'
+import { buildCalendar, calendarFilename, calendarResponse } from '~/utils/ical.server'
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const event = await getEventById(params.id, { publicOnly: true })
+
+  if (!event) {
+    throw new Response('Event not found', { status: 404 })
+  }
+
+  const ics = buildCalendar({
+    name: event.title,
+    events: [event],
+    baseUrl: new URL(request.url).origin,
+  })
+
+  return calendarResponse(ics, calendarFilename(event.title), { download: true })
+}
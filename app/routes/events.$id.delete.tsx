@@ -21,7 +21,7 @@ export async function action(args: Route.ActionArgs) {
   }
 
   // Delete the event
-  await deleteEvent(eventId)
+  await deleteEvent(eventId, userId)
 
   return redirect('/my-events')
 }
@@ -4,8 +4,18 @@ import { getAuth } from '@clerk/react-router/server'
 import type { Route } from './+types/events.$id.edit'
 import { getEventById, updateEvent } from '~/utils/events.server'
 import { canUserModifyEvent } from '~/utils/permissions.server'
+import { canPublishWithoutReview, getSubmissionStatus } from '~/utils/moderation.server'
+import { getToday, parseSiteDateTime } from '~/utils/datetime'
+import type { EventStatus } from '~/types/moderation'
+import { getVenueById, resolveEventVenue } from '~/utils/venues.server'
 import { ImageUpload } from '~/components/ImageUpload'
-import { AddressLookup } from '~/components/AddressLookup'
+import { VenuePicker } from '~/components/VenuePicker'
+import { RecurrenceFields } from '~/components/RecurrenceFields'
+import { TimeFields } from '~/components/TimeFields'
+import { PublishFields } from '~/components/PublishFields'
+import { describeRecurrence, formatRRule, parseRecurrenceForm, parseRecurrenceText, parseRRule } from '~/utils/recurrence'
+import { parseTimesForm, structureTimes } from '~/utils/times'
+import { pageTitle } from '~/utils/site'
 
 export async function loader(args: Route.LoaderArgs) {
   const { userId } = await getAuth(args)
@@ -28,7 +38,10 @@ export async function loader(args: Route.LoaderArgs) {
     throw new Response('You do not have permission to edit this event', { status: 403 })
   }
 
-  return { event }
+  const venue = event.venueId ? await getVenueById(event.venueId) : null
+  const editsNeedReview = event.status === 'published' && !(await canPublishWithoutReview(userId, cookieHeader))
+
+  return { event, venue, editsNeedReview }
 }
 
 export async function action(args: Route.ActionArgs) {
@@ -53,17 +66,18 @@ export async function action(args: Route.ActionArgs) {
   const description = formData.get('description') as string
   const date = formData.get('date') as string
   const location = formData.get('location') as string
+  const venueId = formData.get('venueId') as string
   const address = formData.get('address') as string
   const city = formData.get('city') as string
   const region = formData.get('region') as string
   const latitude = formData.get('latitude') as string
   const longitude = formData.get('longitude') as string
   const cost = formData.get('cost') as string
-  const times = formData.get('times') as string
   const url = formData.get('url') as string
   const imageUrl = formData.get('imageUrl') as string
-  const recurrence = formData.get('recurrence') as string
-  const endDate = formData.get('endDate') as string
+  const { rule, exceptionDates, error: recurrenceError } = parseRecurrenceForm(formData)
+  const endDate = rule?.until
+  const { times, startTime, endTime, timeStatus, error: timesError } = parseTimesForm(formData)
 
   // Get all categories from form
   const categories: string[] = []
@@ -76,43 +90,76 @@ export async function action(args: Route.ActionArgs) {
     index++
   }
 
+  // Drafts only need a title; the rest is checked when the event is published
+  const existing = await getEventById(eventId)
+  const wasDraft = existing?.status === 'draft'
+  const isDraft = wasDraft && formData.get('intent') === 'draft'
+  const publishAtValue = formData.get('publishAt') as string
+  const publishAt = publishAtValue ? parseSiteDateTime(publishAtValue) : null
+
   // Validate required fields
-  if (!title || !description || !date || !location) {
+  if (!title) {
+    return {
+      error: 'Event title is required'
+    }
+  }
+
+  if (!isDraft && (!description || !date || !location)) {
     return {
       error: 'All required fields must be filled out'
     }
   }
 
-  // Validate dates are not in the past (using US Eastern Time)
-  const todayEastern = new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }))
-  todayEastern.setHours(0, 0, 0, 0)
-  const eventDate = new Date(date + 'T00:00:00')
+  if (recurrenceError) {
+    return {
+      error: recurrenceError
+    }
+  }
+
+  if (timesError) {
+    return {
+      error: timesError
+    }
+  }
+
+  // Validate dates are not in the past (in the site timezone). YYYY-MM-DD
+  // strings compare in date order
+  const today = getToday()
 
-  if (eventDate < todayEastern) {
+  if (!isDraft && date < today) {
     return {
       error: 'Event date cannot be in the past'
     }
   }
 
-  if (endDate) {
-    const eventEndDate = new Date(endDate + 'T00:00:00')
-    if (eventEndDate < todayEastern) {
+  if (endDate && !isDraft) {
+    if (endDate < today) {
       return {
         error: 'End date cannot be in the past'
       }
     }
-    if (eventEndDate < eventDate) {
+    if (endDate < date) {
       return {
         error: 'End date cannot be before the event start date'
       }
     }
   }
 
-  // Update the event
-  await updateEvent(eventId, {
-    title,
-    description,
-    date,
+  if (wasDraft && publishAtValue && !isDraft) {
+    if (!publishAt) {
+      return {
+        error: 'Invalid publish time'
+      }
+    }
+    if (publishAt <= new Date()) {
+      return {
+        error: 'Publish time must be in the future'
+      }
+    }
+  }
+
+  // Link the event to a venue, reusing its saved address and coordinates
+  const venueFields = await resolveEventVenue(venueId || null, {
     location,
     address: address || undefined,
     city: city || undefined,
@@ -120,36 +167,79 @@ export async function action(args: Route.ActionArgs) {
     coordinates: latitude && longitude
       ? { lat: parseFloat(latitude), lng: parseFloat(longitude) }
       : undefined,
+  }, userId)
+
+  // What readers see of the event, beyond when and where it is
+  const contentChanged = !!existing && (
+    title !== existing.title ||
+    description !== existing.description ||
+    location !== existing.location ||
+    (cost || '') !== (existing.cost || '') ||
+    (url || '') !== (existing.url || '') ||
+    (imageUrl || '') !== (existing.imageUrl || '') ||
+    categories.join('|') !== (existing.categories ?? []).join('|')
+  )
+
+  // Publishing a draft (unless it's scheduled), editing a rejected event or
+  // changing a published event's content submits it, for review if the author
+  // isn't trusted yet
+  let status: EventStatus | undefined
+  const scheduledAt = isDraft ? null : publishAt
+  if (wasDraft) {
+    status = isDraft || scheduledAt ? 'draft' : await getSubmissionStatus(userId, cookieHeader)
+  } else if (existing?.status === 'rejected' || (existing?.status === 'published' && contentChanged)) {
+    status = await getSubmissionStatus(userId, cookieHeader)
+  }
+
+  // Update the event
+  await updateEvent(eventId, {
+    title,
+    description,
+    date,
+    ...venueFields,
     cost: cost || undefined,
-    times: times || undefined,
+    times,
+    startTime,
+    endTime,
+    timeStatus,
     url: url || undefined,
     imageUrl: imageUrl || undefined,
-    recurrence: recurrence || undefined,
+    recurrence: rule ? describeRecurrence(rule) : undefined,
+    rrule: rule ? formatRRule(rule) : undefined,
+    exceptionDates: rule ? exceptionDates : undefined,
     endDate: endDate || undefined,
     categories: categories.length > 0 ? categories : undefined,
-  })
+    ...(status ? { status } : {}),
+    ...(wasDraft ? { publishAt: scheduledAt?.toISOString() } : {}),
+  }, userId)
 
   return redirect('/my-events')
 }
 
 export function meta({}: Route.MetaArgs) {
   return [
-    { title: '919 Events - Edit Event' },
+    { title: pageTitle('Edit Event') },
     { name: 'description', content: 'Edit your event' },
   ]
 }
 
 export default function EditEventPage() {
-  const { event } = useLoaderData<typeof loader>()
+  const { event, venue, editsNeedReview } = useLoaderData<typeof loader>()
   const navigate = useNavigate()
   const actionData = useActionData<typeof action>()
   const [categories, setCategories] = useState<string[]>(event.categories || [])
-  const [hasRecurrence, setHasRecurrence] = useState(!!event.recurrence)
   const [imageUrl, setImageUrl] = useState(event.imageUrl || '')
 
-  // Get today's date in US Eastern Time for min attribute
-  const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }))
-    .toISOString().split('T')[0]
+  // Events not yet migrated only have free-text times; pre-fill the inputs from them
+  const eventTimes = event.timeStatus ? event : structureTimes(event.times)
+
+  // Older events only have the free-text recurrence; pre-fill the builder from it
+  const recurrenceRule = event.rrule
+    ? parseRRule(event.rrule)
+    : event.recurrence ? parseRecurrenceText(event.recurrence, event.endDate) : null
+
+  // Today in the site timezone for min attribute
+  const today = getToday()
 
   const addCategory = () => {
     setCategories([...categories, ''])
@@ -167,7 +257,22 @@ export default function EditEventPage() {
 
   return (
     <main className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">Edit Event</h1>
+      <h1 className="text-3xl font-bold mb-6">{event.status === 'draft' ? 'Edit Draft' : 'Edit Event'}</h1>
+
+      {event.status === 'rejected' && (
+        <div className="max-w-2xl mb-4 p-4 bg-red-900/50 border border-red-700 rounded text-red-200">
+          <p className="font-semibold">This event was not approved.</p>
+          {event.reviewNotes && <p className="mt-1 whitespace-pre-wrap">{event.reviewNotes}</p>}
+          <p className="mt-2 text-sm">Saving your changes will resubmit it for review.</p>
+        </div>
+      )}
+
+      {editsNeedReview && (
+        <div className="max-w-2xl mb-4 p-4 bg-slate-800 border border-slate-600 rounded text-slate-300 text-sm">
+          Changes to the title, description, venue, cost, link, image or categories take the event off the
+          calendar until an admin approves them.
+        </div>
+      )}
 
       {actionData?.error && (
         <div className="max-w-2xl mb-4 p-4 bg-red-900/50 border border-red-700 rounded text-red-200">
@@ -247,75 +352,34 @@ export default function EditEventPage() {
             />
           </div>
 
-          <div>
-            <label htmlFor="times" className="block text-sm font-medium mb-2">
-              Times
-            </label>
-            <input
-              id="times"
-              name="times"
-              defaultValue={event.times}
-              className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
-              placeholder="6:00 PM - 8:00 PM"
-            />
-          </div>
-
-          <div>
-            <label htmlFor="recurrence" className="block text-sm font-medium mb-2">
-              Recurrence
-            </label>
-            <input
-              id="recurrence"
-              name="recurrence"
-              defaultValue={event.recurrence}
-              onChange={(e) => setHasRecurrence(e.target.value.trim() !== '')}
-              className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
-              placeholder="Every Monday, Weekly, etc."
-            />
-          </div>
+          <TimeFields
+            defaultStartTime={eventTimes.startTime}
+            defaultEndTime={eventTimes.endTime}
+            defaultAllDay={eventTimes.timeStatus === 'all-day'}
+            legacyTimes={eventTimes.timeStatus === 'unparseable' ? event.times : undefined}
+          />
 
-          {hasRecurrence && (
-            <div>
-              <label htmlFor="endDate" className="block text-sm font-medium mb-2">
-                End Date *
-              </label>
-              <input
-                id="endDate"
-                name="endDate"
-                type="date"
-                min={today}
-                defaultValue={event.endDate}
-                required
-                className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
-              />
-            </div>
-          )}
+          <RecurrenceFields
+            defaultRule={recurrenceRule}
+            defaultExceptionDates={event.exceptionDates}
+            minDate={today}
+          />
         </div>
 
         {/* Location */}
         <div className="space-y-4">
           <h2 className="text-xl font-semibold text-white border-b border-slate-700 pb-2">Location</h2>
 
-          <div>
-            <label htmlFor="location" className="block text-sm font-medium mb-2">
-              Venue Name *
-            </label>
-            <input
-              id="location"
-              name="location"
-              defaultValue={event.location}
-              required
-              className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none capitalize"
-              placeholder="The Frontier RTP"
-            />
-          </div>
-
-          <AddressLookup
-            defaultAddress={event.address}
-            defaultCity={event.city}
-            defaultRegion={event.region}
-            defaultLatitude={event.coordinates?.lat}
-            defaultLongitude={event.coordinates?.lng}
+          {/* Pre-fill the address fields only for events not linked to a venue */}
+          <VenuePicker
+            defaultVenue={venue}
+            defaultLocation={event.location}
+            defaultAddress={venue ? undefined : event.address}
+            defaultCity={venue ? undefined : event.city}
+            defaultRegion={venue ? undefined : event.region}
+            defaultLatitude={venue ? undefined : event.coordinates?.lat}
+            defaultLongitude={venue ? undefined : event.coordinates?.lng}
+            placeholder="The Frontier RTP"
           />
         </div>
 
@@ -374,13 +438,28 @@ export default function EditEventPage() {
           </div>
         </div>
 
+        {event.status === 'draft' && <PublishFields defaultPublishAt={event.publishAt} />}
+
         <div className="flex gap-4 pt-4">
           <button
             type="submit"
+            name="intent"
+            value="publish"
             className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
           >
-            Save Changes
+            {event.status === 'draft' ? 'Publish' : 'Save Changes'}
           </button>
+          {event.status === 'draft' && (
+            <button
+              type="submit"
+              name="intent"
+              value="draft"
+              formNoValidate
+              className="px-6 py-2 bg-slate-600 text-white rounded hover:bg-slate-500 transition-colors"
+            >
+              Save Draft
+            </button>
+          )}
           <button
             type="button"
             onClick={() => navigate('/my-events')}
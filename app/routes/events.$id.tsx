@@ -1,11 +1,18 @@
-import { useLoaderData, Link } from 'react-router'
+import { useEffect } from 'react'
+import { useLoaderData, useActionData, Form, Link, redirect } from 'react-router'
 import { getAuth } from '@clerk/react-router/server'
+import { toast } from 'sonner'
 import type { Route } from './+types/events.$id'
-import { getEventById } from '~/utils/events.server'
-import { canUserModifyEvent } from '~/utils/permissions.server'
-import { formatDate } from '~/utils/dateFormatter'
+import { changeEventSchedule, getEventById, OCCURRENCE_HORIZON_DAYS, type ScheduleChange } from '~/utils/events.server'
+import { canUserModifyEvent, canUserViewAuditLog } from '~/utils/permissions.server'
+import { addDays, formatDate, getToday } from '~/utils/datetime'
 import FavoriteButton from '~/components/FavoriteButton'
 import { prisma } from '~/utils/db.server'
+import { getEventOccurrences } from '~/utils/recurrence'
+import { formatTimeRange } from '~/utils/times'
+import { formatPriceRange } from '~/utils/cost'
+import { EVENT_STATUS_LABELS, LISTED_EVENT_STATUSES } from '~/types/moderation'
+import { pageTitle, SITE } from '~/utils/site'
 
 export async function loader(args: Route.LoaderArgs) {
   const { userId } = await getAuth(args)
@@ -17,11 +24,25 @@ export async function loader(args: Route.LoaderArgs) {
     throw new Response('Event not found', { status: 404 })
   }
 
+  // Upcoming dates for recurring events
+  const today = getToday()
+  const upcomingOccurrences = event.rrule
+    ? getEventOccurrences(event, today, addDays(today, OCCURRENCE_HORIZON_DAYS), 6)
+    : []
+
   // Check if user can edit this event
   let canEdit = false
+  let canViewHistory = false
   if (userId) {
     const cookieHeader = args.request.headers.get('Cookie')
     canEdit = await canUserModifyEvent(userId, eventId, cookieHeader)
+    canViewHistory = await canUserViewAuditLog(userId, cookieHeader)
+  }
+
+  // Unlisted events (drafts, pending, rejected) are only visible to their
+  // author and admins
+  if (!LISTED_EVENT_STATUSES.includes(event.status!) && !canEdit) {
+    throw new Response('Event not found', { status: 404 })
   }
 
   // Get vote count for this event
@@ -45,29 +66,98 @@ export async function loader(args: Route.LoaderArgs) {
 
   return {
     event,
+    origin: new URL(args.request.url).origin,
+    upcomingOccurrences,
     canEdit,
+    canViewHistory,
     voteCount,
     hasVoted,
     isAuthenticated: !!userId
   }
 }
 
+/**
+ * Cancel, postpone or reinstate the event
+ */
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const eventId = args.params.id
+  const canEdit = await canUserModifyEvent(userId, eventId, args.request.headers.get('Cookie'))
+  if (!canEdit) {
+    return { error: 'You do not have permission to change this event' }
+  }
+
+  const event = await getEventById(eventId)
+  if (!event || !LISTED_EVENT_STATUSES.includes(event.status!)) {
+    return { error: 'Only published events can be cancelled or postponed' }
+  }
+
+  const formData = await args.request.formData()
+  const status = formData.get('status') as string
+  const reason = (formData.get('reason') as string)?.trim() || undefined
+  const newDate = (formData.get('newDate') as string) || undefined
+
+  let change: ScheduleChange
+  if (status === 'cancelled') {
+    change = { status, reason }
+  } else if (status === 'postponed') {
+    if (newDate) {
+      const today = getToday()
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(newDate) || newDate < today) {
+        return { error: 'The new date must be today or later' }
+      }
+      if (event.rrule) {
+        return { error: 'Edit a recurring event to move its dates' }
+      }
+    }
+    change = { status, newDate, reason }
+  } else if (status === 'published') {
+    change = { status }
+  } else {
+    return { error: 'Invalid status' }
+  }
+
+  await changeEventSchedule(eventId, change, userId)
+
+  return {
+    success: status === 'cancelled'
+      ? 'Event cancelled'
+      : status === 'postponed' ? 'Event postponed' : 'Event reinstated',
+  }
+}
+
 export function meta({ data }: Route.MetaArgs) {
   if (!data?.event) {
     return [
-      { title: '919 Events - Event Not Found' },
+      { title: pageTitle('Event Not Found') },
       { name: 'description', content: 'Event not found' },
     ]
   }
 
   return [
-    { title: `${data.event.title} - 919 Events` },
+    { title: `${data.event.title} - ${SITE.name}` },
     { name: 'description', content: data.event.description },
   ]
 }
 
 export default function EventDetailPage() {
-  const { event, canEdit, voteCount, hasVoted, isAuthenticated } = useLoaderData<typeof loader>()
+  const { event, origin, upcomingOccurrences, canEdit, canViewHistory, voteCount, hasVoted, isAuthenticated } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+  const isListed = LISTED_EVENT_STATUSES.includes(event.status!)
+
+  useEffect(() => {
+    if (actionData?.error) {
+      toast.error(actionData.error)
+    }
+    if (actionData?.success) {
+      toast.success(actionData.success)
+    }
+  }, [actionData])
 
   return (
     <main className="container mx-auto px-4 py-8 max-w-4xl">
@@ -95,6 +185,40 @@ export default function EventDetailPage() {
         )}
 
         <div className="p-6 md:p-8">
+          {event.status === 'cancelled' && (
+            <div className="mb-6 p-4 bg-red-900/40 border border-red-700 rounded text-red-200">
+              <p className="text-lg font-bold">Cancelled</p>
+              <p className="text-sm mt-1">This event will not take place.</p>
+              {event.statusReason && <p className="text-sm mt-2 whitespace-pre-wrap">{event.statusReason}</p>}
+            </div>
+          )}
+
+          {event.status === 'postponed' && (
+            <div className="mb-6 p-4 bg-orange-900/40 border border-orange-700 rounded text-orange-200">
+              <p className="text-lg font-bold">Postponed</p>
+              <p className="text-sm mt-1">
+                {event.originalDate
+                  ? `Moved from ${formatDate(event.originalDate)} to ${formatDate(event.date)}.`
+                  : 'A new date will be announced.'}
+              </p>
+              {event.statusReason && <p className="text-sm mt-2 whitespace-pre-wrap">{event.statusReason}</p>}
+            </div>
+          )}
+
+          {!isListed && event.status && (
+            <div className="mb-6 p-4 bg-yellow-900/30 border border-yellow-700/50 rounded text-yellow-200">
+              <p className="font-semibold">{EVENT_STATUS_LABELS[event.status]}</p>
+              <p className="text-sm mt-1">
+                {event.status === 'pending'
+                  ? 'This event is waiting for an admin to review it and is not publicly listed yet.'
+                  : 'This event is not publicly listed.'}
+              </p>
+              {event.status === 'rejected' && event.reviewNotes && (
+                <p className="text-sm mt-2 whitespace-pre-wrap">Reviewer notes: {event.reviewNotes}</p>
+              )}
+            </div>
+          )}
+
           {/* Header */}
           <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-6">
             <div className="flex-1">
@@ -116,6 +240,15 @@ export default function EventDetailPage() {
 
             {/* Action buttons */}
             <div className="flex gap-3">
+              {isListed && (
+                <a
+                  href={`/events/${event.id}/calendar.ics`}
+                  download
+                  className="px-5 py-2.5 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors font-medium"
+                >
+                  Add to Calendar
+                </a>
+              )}
               {event.url && (
                 <a
                   href={event.url}
@@ -134,6 +267,14 @@ export default function EventDetailPage() {
                   Edit Event
                 </Link>
               )}
+              {canViewHistory && (
+                <Link
+                  to={`/admin/history?entityType=event&entityId=${event.id}`}
+                  className="px-5 py-2.5 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors font-medium"
+                >
+                  History
+                </Link>
+              )}
             </div>
           </div>
 
@@ -161,9 +302,9 @@ export default function EventDetailPage() {
                 </svg>
                 <h3 className="font-semibold text-white">Date & Time</h3>
               </div>
-              <p className="text-slate-300 text-lg">{formatDate(event.date)}</p>
-              {event.times && (
-                <p className="text-slate-400 mt-1">{event.times}</p>
+              <p className="text-slate-300 text-lg">{formatDate(upcomingOccurrences[0] || event.date)}</p>
+              {(formatTimeRange(event) || event.times) && (
+                <p className="text-slate-400 mt-1">{formatTimeRange(event) || event.times}</p>
               )}
               {event.recurrence && (
                 <p className="text-slate-400 mt-2">
@@ -172,6 +313,16 @@ export default function EventDetailPage() {
                   {event.endDate && ` (until ${formatDate(event.endDate)})`}
                 </p>
               )}
+              {upcomingOccurrences.length > 1 && (
+                <div className="mt-3">
+                  <p className="text-sm font-medium text-slate-300 mb-1">Upcoming dates</p>
+                  <ul className="text-slate-400 text-sm space-y-0.5">
+                    {upcomingOccurrences.map((date) => (
+                      <li key={date}>{formatDate(date)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
             {/* Location */}
@@ -183,7 +334,13 @@ export default function EventDetailPage() {
                 </svg>
                 <h3 className="font-semibold text-white">Location</h3>
               </div>
-              <p className="text-slate-300 text-lg">{event.location}</p>
+              {event.venueId ? (
+                <Link to={`/venues/${event.venueId}`} className="text-slate-300 text-lg hover:text-white hover:underline">
+                  {event.location}
+                </Link>
+              ) : (
+                <p className="text-slate-300 text-lg">{event.location}</p>
+              )}
               {event.address && (
                 <p className="text-slate-400 mt-1">{event.address}</p>
               )}
@@ -193,6 +350,14 @@ export default function EventDetailPage() {
                   {event.region && `, ${event.region}`}
                 </p>
               )}
+              {event.city && (
+                <a
+                  href={`${origin.replace(/^https?:/, 'webcal:')}/calendar/city/${encodeURIComponent(event.city)}/events.ics`}
+                  className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300 mt-2 mr-4 text-sm"
+                >
+                  📅 Subscribe to {event.city} events
+                </a>
+              )}
               {event.coordinates && (
                 <a
                   href={`https://www.google.com/maps/search/?api=1&query=${event.coordinates.lat},${event.coordinates.lng}`}
@@ -219,12 +384,28 @@ export default function EventDetailPage() {
               <span className={`inline-block px-3 py-1 rounded-full text-sm ${
                 !event.cost
                   ? 'bg-slate-600/30 text-slate-300'
-                  : event.cost.toLowerCase().includes('free')
+                  : event.isFree
                   ? 'bg-green-600/30 text-green-300'
                   : 'bg-yellow-600/30 text-yellow-300'
               }`}>
                 {event.cost || 'Not specified'}
               </span>
+              {formatPriceRange(event) && formatPriceRange(event) !== event.cost && (
+                <p className="text-slate-400 mt-2">{formatPriceRange(event)}</p>
+              )}
+              {(event.rsvpRequired || event.isDonation || event.isTicketed) && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {event.rsvpRequired && (
+                    <span className="px-2 py-0.5 bg-blue-600/30 text-blue-300 rounded text-xs">RSVP required</span>
+                  )}
+                  {event.isDonation && (
+                    <span className="px-2 py-0.5 bg-purple-600/30 text-purple-300 rounded text-xs">Donation based</span>
+                  )}
+                  {event.isTicketed && (
+                    <span className="px-2 py-0.5 bg-yellow-600/30 text-yellow-300 rounded text-xs">Ticketed</span>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* External Link */}
@@ -256,6 +437,75 @@ export default function EventDetailPage() {
             </div>
           </div>
 
+          {canEdit && isListed && (
+            <details className="border-t border-slate-700 pt-6 mt-6">
+              <summary className="text-xl font-semibold text-white cursor-pointer">
+                {event.status === 'published' ? 'Cancel or Postpone' : 'Change Status'}
+              </summary>
+              <p className="text-sm text-slate-400 mt-2">
+                Everyone who favorited this event ({voteCount}) will be notified.
+              </p>
+
+              {event.status !== 'published' && (
+                <Form method="post" className="mt-4">
+                  <input type="hidden" name="status" value="published" />
+                  <button
+                    type="submit"
+                    className="px-5 py-2.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+                  >
+                    Reinstate Event
+                  </button>
+                </Form>
+              )}
+
+              <Form method="post" className="space-y-4 mt-6 max-w-xl">
+                <div>
+                  <label htmlFor="status" className="block text-sm font-medium mb-2">Status</label>
+                  <select
+                    id="status"
+                    name="status"
+                    defaultValue={event.status === 'published' ? 'cancelled' : event.status}
+                    className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="cancelled">Cancelled</option>
+                    <option value="postponed">Postponed</option>
+                  </select>
+                </div>
+
+                {!event.rrule && (
+                  <div>
+                    <label htmlFor="newDate" className="block text-sm font-medium mb-2">New Date (postponed only)</label>
+                    <input
+                      id="newDate"
+                      name="newDate"
+                      type="date"
+                      className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
+                    />
+                    <p className="text-slate-400 text-xs mt-1">Leave blank if the new date is still to be announced.</p>
+                  </div>
+                )}
+
+                <div>
+                  <label htmlFor="reason" className="block text-sm font-medium mb-2">Reason</label>
+                  <textarea
+                    id="reason"
+                    name="reason"
+                    rows={2}
+                    defaultValue={event.statusReason}
+                    className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
+                    placeholder="Rained out, venue closed..."
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  className="px-5 py-2.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
+                >
+                  Update Status
+                </button>
+              </Form>
+            </details>
+          )}
         </div>
       </article>
     </main>
@@ -1,5 +1,7 @@
-import { useLoaderData, useNavigate, useNavigation } from 'react-router'
+import { useEffect } from 'react'
+import { redirect, useActionData, useLoaderData, useNavigate, useNavigation } from 'react-router'
 import { getAuth } from '@clerk/react-router/server'
+import { toast } from 'sonner'
 import type { Route } from './+types/events'
 import ShaderBackground from '~/components/ShaderBackground'
 import { useEventStore } from '~/stores'
@@ -7,7 +9,19 @@ import { getPaginatedEvents, getAllCategories } from '~/utils/events.server'
 import { getUserRole } from '~/utils/roles.server'
 import { getVoteCountsForEvents, getUserVotesForEvents, getUserFavoriteEventIds } from '~/utils/votes.server'
 import type { UserRole } from '~/types/roles'
-import EventsList from '~/components/EventsList'
+import EventsList, { type EventListFilters } from '~/components/EventsList'
+import type { TimeOfDay } from '~/utils/times'
+import { parsePriceParam } from '~/utils/cost'
+import type { EventSort } from '~/types/search'
+import { CalendarSubscribe } from '~/components/CalendarSubscribe'
+import { getOrCreateFeedToken } from '~/utils/calendar-feeds.server'
+import { geocodeAddress } from '~/utils/geocode.server'
+import { parseCoordinateParams, parseRadiusParam } from '~/utils/geo'
+import { SaveSearchButton } from '~/components/SaveSearchButton'
+import { describeSavedSearch, hasSavedSearchFilters, savedSearchFiltersFromParams } from '~/utils/saved-searches'
+import { feedAutodiscoveryLinks, feedQuery } from '~/utils/feeds'
+import { createSavedSearch, MAX_SAVED_SEARCHES } from '~/utils/saved-searches.server'
+import { pageTitle, SITE } from '~/utils/site'
 
 export async function loader(args: Route.LoaderArgs) {
   // Get page and filters from URL search params
@@ -15,10 +29,18 @@ export async function loader(args: Route.LoaderArgs) {
   const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10))
   const searchQuery = url.searchParams.get('search') || undefined
   const category = url.searchParams.get('category') || undefined
-  const priceFilter = (url.searchParams.get('price') as 'free' | 'paid' | 'all') || undefined
+  const minPrice = parsePriceParam(url.searchParams.get('minPrice'))
+  const maxPrice = parsePriceParam(url.searchParams.get('maxPrice'))
   const startDate = url.searchParams.get('startDate') || undefined
   const endDate = url.searchParams.get('endDate') || undefined
+  const timeOfDay = (url.searchParams.get('time') as TimeOfDay) || undefined
+  const startsAfter = url.searchParams.get('after') || undefined
+  // Search results are ranked by relevance unless the visitor asks for date order
+  const sort: EventSort = url.searchParams.get('sort') === 'date' ? 'date' : 'relevance'
   const showFavorites = url.searchParams.get('favorites') === 'true'
+  const nearAddress = url.searchParams.get('near') || undefined
+  const nearCoords = parseCoordinateParams(url.searchParams.get('lat'), url.searchParams.get('lng'))
+  const radius = parseRadiusParam(url.searchParams.get('radius'))
   const perPageParam = parseInt(url.searchParams.get('perPage') || '10', 10)
   const limit = [10, 25, 50, 100].includes(perPageParam) ? perPageParam : 10
 
@@ -34,18 +56,43 @@ export async function loader(args: Route.LoaderArgs) {
     favoriteEventIds = await getUserFavoriteEventIds(userId)
   }
 
+  // Location filter: "near me" sends coordinates, addresses are geocoded here
+  let nearPoint = nearCoords
+  let locationError: string | null = null
+  if (!nearPoint && nearAddress) {
+    try {
+      const result = await geocodeAddress(nearAddress)
+      if (result) {
+        nearPoint = { lat: result.latitude, lng: result.longitude }
+      } else {
+        locationError = `Couldn't find "${nearAddress}"`
+      }
+    } catch (error) {
+      console.error('Geocoding error:', error)
+      locationError = 'Location search is unavailable right now'
+    }
+  }
+
   // Build filters object
   const filters = {
     searchQuery,
     category,
-    priceFilter,
+    minPrice,
+    maxPrice,
     startDate,
     endDate,
+    timeOfDay,
+    startsAfter,
+    sort,
     favoriteEventIds,
+    near: nearPoint && { ...nearPoint, radiusMiles: radius },
   }
 
-  // Get paginated events from server storage with filters
-  const { events, totalCount } = await getPaginatedEvents(page, limit, filters)
+  // Get paginated events from server storage with filters. A location that
+  // couldn't be found matches nothing rather than silently being ignored
+  const { events, totalCount } = locationError
+    ? { events: [], totalCount: 0 }
+    : await getPaginatedEvents(page, limit, filters)
 
   // Get vote data
   const eventIds = events.map(e => e.id)
@@ -60,6 +107,13 @@ export async function loader(args: Route.LoaderArgs) {
     userRole = await getUserRole(userId, cookieHeader)
   }
 
+  // Private token for the user's favorites calendar feed
+  const favoritesFeedToken = userId ? await getOrCreateFeedToken(userId) : null
+
+  // Signed-in users can save any filtered listing as a search with alerts
+  const saveableFilters = savedSearchFiltersFromParams(url.searchParams)
+  const canSaveSearch = !!userId && hasSavedSearchFilters(saveableFilters)
+
   // Events now have createdByName already stamped on them from creation time
   return {
     events,
@@ -68,9 +122,18 @@ export async function loader(args: Route.LoaderArgs) {
     eventsPerPage: limit,
     searchQuery: searchQuery || '',
     category: category || '',
-    priceFilter: priceFilter || 'all',
+    minPrice: minPrice ?? null,
+    maxPrice: maxPrice ?? null,
     startDate: startDate || '',
     endDate: endDate || '',
+    timeOfDay: timeOfDay || '',
+    startsAfter: startsAfter || '',
+    near: nearAddress || '',
+    nearLat: nearCoords?.lat ?? null,
+    nearLng: nearCoords?.lng ?? null,
+    radius,
+    locationError,
+    sort,
     showFavorites,
     allCategories,
     currentUserId: userId || null,
@@ -78,13 +141,63 @@ export async function loader(args: Route.LoaderArgs) {
     voteCounts,
     userVotes: Array.from(userVotes),
     isAuthenticated: !!userId,
+    origin: url.origin,
+    favoritesFeedToken,
+    canSaveSearch,
+    suggestedSearchName: describeSavedSearch(saveableFilters),
   }
 }
 
-export function meta({}: Route.MetaArgs) {
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const formData = await args.request.formData()
+  const name = (formData.get('name') as string)?.trim()
+  if (!name) {
+    return { error: 'Give your search a name' }
+  }
+
+  // The form posts to the current URL, so its query string holds the filters
+  const filters = savedSearchFiltersFromParams(new URL(args.request.url).searchParams)
+  if (!hasSavedSearchFilters(filters)) {
+    return { error: 'Choose some filters before saving a search' }
+  }
+
+  // Alerts match by coordinates, so an address is resolved once here
+  if (filters.near && filters.lat === undefined) {
+    try {
+      const result = await geocodeAddress(filters.near)
+      if (!result) {
+        return { error: `Couldn't find "${filters.near}"` }
+      }
+      filters.lat = result.latitude
+      filters.lng = result.longitude
+    } catch (error) {
+      console.error('Geocoding error:', error)
+      return { error: 'Location search is unavailable right now' }
+    }
+  }
+
+  const saved = await createSavedSearch(userId, name, filters)
+  if (!saved) {
+    return { error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Remove one from your profile first.` }
+  }
+
+  return { success: `Saved "${name}". New matching events will show up in your notifications.` }
+}
+
+export function meta({ location }: Route.MetaArgs) {
+  // Feeds matching the current filters, for aggregators that read the page
+  const query = feedQuery(new URLSearchParams(location.search))
+
   return [
-    { title: '919 Events - List' },
-    { name: 'description', content: 'Browse upcoming events in the 919 area' },
+    { title: pageTitle('List') },
+    { name: 'description', content: `Browse upcoming events in ${SITE.areaName}` },
+    ...(query ? feedAutodiscoveryLinks(query).map((link) => ({ tagName: 'link' as const, ...link })) : []),
   ]
 }
 
@@ -96,9 +209,18 @@ export default function EventsPage() {
     eventsPerPage,
     searchQuery,
     category,
-    priceFilter,
+    minPrice,
+    maxPrice,
     startDate,
     endDate,
+    timeOfDay,
+    startsAfter,
+    near,
+    nearLat,
+    nearLng,
+    radius,
+    locationError,
+    sort,
     showFavorites,
     allCategories,
     currentUserId,
@@ -106,41 +228,51 @@ export default function EventsPage() {
     voteCounts,
     userVotes,
     isAuthenticated,
+    origin,
+    favoritesFeedToken,
+    canSaveSearch,
+    suggestedSearchName,
   } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
   const { selectEvent } = useEventStore()
   const navigate = useNavigate()
   const navigation = useNavigation()
 
+  useEffect(() => {
+    if (actionData?.error) {
+      toast.error(actionData.error)
+    }
+    if (actionData?.success) {
+      toast.success(actionData.success)
+    }
+  }, [actionData])
+
   const isLoading = navigation.state === 'loading'
 
-  const buildFilterParams = (filters: {
-    search?: string
-    category?: string
-    price?: 'free' | 'paid' | 'all'
-    startDate?: string
-    endDate?: string
-    favorites?: boolean
-  }, page: number = 1, perPage: number = eventsPerPage) => {
+  const buildFilterParams = (filters: EventListFilters, page: number = 1, perPage: number = eventsPerPage) => {
     const params = new URLSearchParams()
     params.set('page', page.toString())
     if (perPage !== 10) params.set('perPage', perPage.toString())
     if (filters.search) params.set('search', filters.search)
     if (filters.category) params.set('category', filters.category)
-    if (filters.price && filters.price !== 'all') params.set('price', filters.price)
+    if (filters.minPrice !== undefined) params.set('minPrice', filters.minPrice.toString())
+    if (filters.maxPrice !== undefined) params.set('maxPrice', filters.maxPrice.toString())
     if (filters.startDate) params.set('startDate', filters.startDate)
     if (filters.endDate) params.set('endDate', filters.endDate)
+    if (filters.timeOfDay) params.set('time', filters.timeOfDay)
+    if (filters.startsAfter) params.set('after', filters.startsAfter)
+    if (filters.sort && filters.sort !== 'relevance') params.set('sort', filters.sort)
     if (filters.favorites) params.set('favorites', 'true')
+    if (filters.near) params.set('near', filters.near)
+    if (filters.lat !== undefined && filters.lng !== undefined) {
+      params.set('lat', filters.lat.toString())
+      params.set('lng', filters.lng.toString())
+    }
+    if (filters.radius !== undefined) params.set('radius', filters.radius.toString())
     return params
   }
 
-  const handleFilterChange = (filters: {
-    search?: string
-    category?: string
-    price?: 'free' | 'paid' | 'all'
-    startDate?: string
-    endDate?: string
-    favorites?: boolean
-  }) => {
+  const handleFilterChange = (filters: EventListFilters) => {
     const params = buildFilterParams(filters, 1)
     navigate(`/events?${params.toString()}`)
   }
@@ -151,10 +283,20 @@ export default function EventsPage() {
     if (eventsPerPage !== 10) params.set('perPage', eventsPerPage.toString())
     if (searchQuery) params.set('search', searchQuery)
     if (category) params.set('category', category)
-    if (priceFilter && priceFilter !== 'all') params.set('price', priceFilter)
+    if (minPrice !== null) params.set('minPrice', minPrice.toString())
+    if (maxPrice !== null) params.set('maxPrice', maxPrice.toString())
     if (startDate) params.set('startDate', startDate)
     if (endDate) params.set('endDate', endDate)
+    if (timeOfDay) params.set('time', timeOfDay)
+    if (startsAfter) params.set('after', startsAfter)
+    if (sort !== 'relevance') params.set('sort', sort)
     if (showFavorites) params.set('favorites', 'true')
+    if (near) params.set('near', near)
+    if (nearLat !== null && nearLng !== null) {
+      params.set('lat', nearLat.toString())
+      params.set('lng', nearLng.toString())
+    }
+    if (near || nearLat !== null) params.set('radius', radius.toString())
     navigate(`/events?${params.toString()}`)
   }
 
@@ -162,10 +304,18 @@ export default function EventsPage() {
     const params = buildFilterParams({
       search: searchQuery || undefined,
       category: category || undefined,
-      price: priceFilter,
+      minPrice: minPrice ?? undefined,
+      maxPrice: maxPrice ?? undefined,
       startDate: startDate || undefined,
       endDate: endDate || undefined,
+      timeOfDay: timeOfDay || undefined,
+      startsAfter: startsAfter || undefined,
+      sort,
       favorites: showFavorites || undefined,
+      near: near || undefined,
+      lat: nearLat ?? undefined,
+      lng: nearLng ?? undefined,
+      radius: near || nearLat !== null ? radius : undefined,
     }, 1, perPage)
     navigate(`/events?${params.toString()}`)
   }
@@ -198,6 +348,14 @@ export default function EventsPage() {
 
       <div className="z-10 pt-20 pb-8">
         <div className="sticky container mx-auto px-4">
+          <div className="flex justify-end gap-2 mb-4">
+            {canSaveSearch && <SaveSearchButton suggestedName={suggestedSearchName} />}
+            <CalendarSubscribe
+              origin={origin}
+              category={category || undefined}
+              favoritesToken={favoritesFeedToken}
+            />
+          </div>
           <EventsList
             events={events}
             totalCount={totalCount}
@@ -206,9 +364,18 @@ export default function EventsPage() {
             allCategories={allCategories}
             searchQuery={searchQuery}
             category={category}
-            priceFilter={priceFilter}
+            minPrice={minPrice}
+            maxPrice={maxPrice}
             startDate={startDate}
             endDate={endDate}
+            timeOfDay={timeOfDay}
+            startsAfter={startsAfter}
+            near={near}
+            nearLat={nearLat}
+            nearLng={nearLng}
+            radius={radius}
+            locationError={locationError}
+            sort={sort}
             showFavorites={showFavorites}
             isLoading={isLoading}
             canEditEvent={canEditEvent}
@@ -218,11 +385,12 @@ export default function EventsPage() {
             onSelectEvent={(event) => selectEvent(event as any)}
             showFilters={true}
             showCreateButton={false}
+            enableLocationFilter={true}
             voteCounts={voteCounts}
             userVotes={userVotes}
             isAuthenticated={isAuthenticated}
             emptyStateMessage={
-              searchQuery || category || (priceFilter && priceFilter !== 'all') || startDate || endDate || showFavorites
+              searchQuery || category || minPrice !== null || maxPrice !== null || startDate || endDate || timeOfDay || startsAfter || showFavorites || near || nearLat !== null
                 ? 'No events match your current filters. Try adjusting your search criteria.'
                 : 'No events available at the moment.'
             }
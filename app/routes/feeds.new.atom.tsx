@@ -0,0 +1,6 @@
+import type { Route } from './+types/feeds.new.atom'
+import { feedResponse } from '~/utils/feeds.server'
+
+export async function loader({ request }: Route.LoaderArgs) {
+  return feedResponse(request, 'new', 'atom')
+}
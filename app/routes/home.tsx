@@ -1,10 +1,11 @@
 import type { Route } from "./+types/home";
 import { Splash } from "~/splash";
+import { SITE } from "~/utils/site";
 
 export function meta({}: Route.MetaArgs) {
   return [
-    { title: "919 Events" },
-    { name: "description", content: "Events in and around the 919 area code" },
+    { title: SITE.name },
+    { name: "description", content: SITE.description },
   ];
 }
 
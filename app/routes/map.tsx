@@ -1,12 +1,16 @@
-import { useState, useCallback, useMemo, useRef } from 'react'
-import { useLoaderData, useNavigate } from 'react-router'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { useFetcher, useLoaderData, useNavigate } from 'react-router'
 import Map, { Marker, Popup, NavigationControl, GeolocateControl, Source, Layer } from 'react-map-gl/mapbox'
 import type { MapRef } from 'react-map-gl/mapbox'
 import useSupercluster from 'use-supercluster'
 import type { Route } from './+types/map'
-import { getAllEvents } from '~/utils/events.server'
+import { distanceInMiles } from '~/utils/geo'
+import { addDays, getToday } from '~/utils/datetime'
 import EventRoutePanel from '~/components/EventRoutePanel'
+import { EventStatusBadge } from '~/components/EventCard'
 import type { RouteGeoJSON } from '~/types/directions'
+import type { EventStatus } from '~/types/moderation'
+import { pageTitle, SITE } from '~/utils/site'
 import 'mapbox-gl/dist/mapbox-gl.css'
 
 interface EventWithCoords {
@@ -17,68 +21,48 @@ interface EventWithCoords {
   latitude: number
   longitude: number
   date: string
+  occurrences: string[]
   times?: string
   cost?: string
   categories: string[]
   city?: string
   imageUrl?: string
+  status?: EventStatus
+  originalDate?: string
 }
 
 export async function loader(_args: Route.LoaderArgs) {
-  const events = await getAllEvents()
-
-  // Filter to only events with coordinates
-  const eventsWithCoords: EventWithCoords[] = events
-    .filter((e): e is typeof e & { coordinates: { lat: number; lng: number } } =>
-      e.coordinates !== undefined
-    )
-    .map(e => ({
-      id: e.id,
-      title: e.title,
-      description: e.description,
-      location: e.location,
-      latitude: e.coordinates!.lat,
-      longitude: e.coordinates!.lng,
-      date: e.date,
-      times: e.times,
-      cost: e.cost,
-      categories: e.categories || [],
-      city: e.city,
-      imageUrl: e.imageUrl,
-    }))
-
+  // Events are loaded per viewport from /api/events/geo once the map knows its bounds
   return {
-    events: eventsWithCoords,
     mapboxToken: process.env.VITE_MAPBOX_TOKEN || '',
   }
 }
 
 export function meta({}: Route.MetaArgs) {
   return [
-    { title: '919 Events - Map' },
-    { name: 'description', content: 'View events on a map in the 919 area' },
+    { title: pageTitle('Map') },
+    { name: 'description', content: `View events on a map in ${SITE.areaName}` },
   ]
 }
 
 export default function MapPage() {
-  const { events, mapboxToken } = useLoaderData<typeof loader>()
+  const { mapboxToken } = useLoaderData<typeof loader>()
   const navigate = useNavigate()
   const mapRef = useRef<MapRef>(null)
+  const eventsFetcher = useFetcher<{ events: EventWithCoords[] }>()
   const [selectedEvents, setSelectedEvents] = useState<EventWithCoords[]>([])
   const [activeTabIndex, setActiveTabIndex] = useState(0)
   const [isEventListExpanded, setIsEventListExpanded] = useState(false)
   const [userLocation, setUserLocation] = useState<{ longitude: number; latitude: number } | null>(null)
   const [viewState, setViewState] = useState({
-    longitude: -78.6382,
-    latitude: 35.7796,
-    zoom: 10,
+    longitude: SITE.map.longitude,
+    latitude: SITE.map.latitude,
+    zoom: SITE.map.zoom,
   })
   const TARGET_ZOOM = 12
 
-  // Get today's date in YYYY-MM-DD format for the date input
-  const today = useMemo(() => {
-    return new Date().toISOString().split('T')[0]
-  }, [])
+  // Today's date in the site timezone (YYYY-MM-DD) for the date input
+  const today = useMemo(() => getToday(), [])
 
   const [filterDate, setFilterDate] = useState(today)
 
@@ -92,23 +76,27 @@ export default function MapPage() {
     legs: { distance: number; duration: number }[]
   } | null>(null)
 
-  // Filter events to only show events on the selected date
-  const filteredEvents = useMemo(() => {
-    return events.filter(event => event.date === filterDate)
-  }, [events, filterDate])
-
-  // Calculate distance between two points using Haversine formula
-  const getDistance = useCallback((lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371 // Earth's radius in km
-    const dLat = (lat2 - lat1) * Math.PI / 180
-    const dLon = (lon2 - lon1) * Math.PI / 180
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    return R * c
-  }, [])
+  // Load events occurring on the selected date inside the visible map area
+  const loadViewportEvents = useCallback(() => {
+    const mapBounds = mapRef.current?.getMap().getBounds()
+    if (!mapBounds) return
+
+    const params = new URLSearchParams({
+      bbox: [mapBounds.getWest(), mapBounds.getSouth(), mapBounds.getEast(), mapBounds.getNorth()]
+        .map(value => value.toFixed(5))
+        .join(','),
+      from: filterDate,
+      to: filterDate,
+    })
+    eventsFetcher.load(`/api/events/geo?${params.toString()}`)
+  }, [filterDate, eventsFetcher.load])
+
+  // Reload when the date changes (panning and zooming reload on move end)
+  useEffect(() => {
+    loadViewportEvents()
+  }, [loadViewportEvents])
+
+  const filteredEvents = useMemo(() => eventsFetcher.data?.events ?? [], [eventsFetcher.data])
 
   // Group filtered events by city for the list display, sorted by proximity if user location available
   const eventsByCity = useMemo(() => {
@@ -121,12 +109,17 @@ export default function MapPage() {
       grouped[city].push(event)
     })
 
+    const distanceFromUser = (event: EventWithCoords) => distanceInMiles(
+      { lat: userLocation!.latitude, lng: userLocation!.longitude },
+      { lat: event.latitude, lng: event.longitude }
+    )
+
     // Calculate average distance for each city if user location is available
     const cityDistances: Record<string, number> = {}
     if (userLocation) {
       Object.entries(grouped).forEach(([city, cityEvents]) => {
         const avgDistance = cityEvents.reduce((sum, event) => {
-          return sum + getDistance(userLocation.latitude, userLocation.longitude, event.latitude, event.longitude)
+          return sum + distanceFromUser(event)
         }, 0) / cityEvents.length
         cityDistances[city] = avgDistance
       })
@@ -146,15 +139,13 @@ export default function MapPage() {
     if (userLocation) {
       sortedCities.forEach(city => {
         grouped[city].sort((a, b) => {
-          const distA = getDistance(userLocation.latitude, userLocation.longitude, a.latitude, a.longitude)
-          const distB = getDistance(userLocation.latitude, userLocation.longitude, b.latitude, b.longitude)
-          return distA - distB
+          return distanceFromUser(a) - distanceFromUser(b)
         })
       })
     }
 
     return sortedCities.map(city => ({ city, events: grouped[city] }))
-  }, [filteredEvents, userLocation, getDistance])
+  }, [filteredEvents, userLocation])
 
   // Group events by coordinates and create one point per unique location
   const points = useMemo(() => {
@@ -210,7 +201,8 @@ export default function MapPage() {
   }, [viewState.zoom])
 
   const formatDate = (dateStr: string, times?: string) => {
-    const dateFormatted = new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', {
+    const dateFormatted = new Date(dateStr + 'T00:00:00Z').toLocaleDateString('en-US', {
+      timeZone: 'UTC',
       weekday: 'short',
       month: 'short',
       day: 'numeric',
@@ -268,8 +260,10 @@ export default function MapPage() {
         ref={mapRef}
         {...viewState}
         onMove={evt => setViewState(evt.viewState)}
+        onMoveEnd={loadViewportEvents}
         onClick={() => setSelectedEvents([])}
         onLoad={() => {
+          loadViewportEvents()
           setTimeout(() => {
             mapRef.current?.easeTo({
               zoom: TARGET_ZOOM,
@@ -430,14 +424,19 @@ export default function MapPage() {
                         className="w-full h-32 object-cover rounded-md mb-2 -mt-1"
                       />
                     )}
-                    <h3 className="font-bold text-slate-200 text-lg mb-1">
+                    {(event.status === 'cancelled' || event.status === 'postponed') && (
+                      <div className="mb-1">
+                        <EventStatusBadge status={event.status} originalDate={event.originalDate} />
+                      </div>
+                    )}
+                    <h3 className={`font-bold text-slate-200 text-lg mb-1 ${event.status === 'cancelled' ? 'line-through' : ''}`}>
                       {event.title}
                     </h3>
                     <p className="text-slate-300 text-sm mb-2 line-clamp-2">
                       {event.description}
                     </p>
                     <div className="text-xs text-slate-400 space-y-1">
-                      <p>{formatDate(event.date, event.times)}</p>
+                      <p>{formatDate(filterDate, event.times)}</p>
                       <p>{event.location}</p>
                       {event.cost && (
                         <p className="font-medium text-emerald-400">
@@ -511,10 +510,7 @@ export default function MapPage() {
           <div className="flex items-center gap-1">
             <button
               onClick={() => {
-                const currentDate = new Date(filterDate + 'T00:00:00')
-                currentDate.setDate(currentDate.getDate() - 1)
-                const newDate = currentDate.toISOString().split('T')[0]
-                setFilterDate(newDate)
+                setFilterDate(addDays(filterDate, -1))
                 setSelectedEvents([])
                 setRouteData(null)
                 setRouteEvents([])
@@ -545,10 +541,7 @@ export default function MapPage() {
             />
             <button
               onClick={() => {
-                const currentDate = new Date(filterDate + 'T00:00:00')
-                currentDate.setDate(currentDate.getDate() + 1)
-                const newDate = currentDate.toISOString().split('T')[0]
-                setFilterDate(newDate)
+                setFilterDate(addDays(filterDate, 1))
                 setSelectedEvents([])
                 setRouteData(null)
                 setRouteEvents([])
@@ -587,7 +580,7 @@ export default function MapPage() {
           {isEventListExpanded && (
             <div className="border-t border-slate-600 max-h-64 overflow-y-auto">
               {filteredEvents.length === 0 ? (
-                <p className="px-4 py-3 text-slate-400 text-sm">No events on this date</p>
+                <p className="px-4 py-3 text-slate-400 text-sm">No events in this area on this date</p>
               ) : (
                 <div>
                   {userLocation && (
@@ -644,7 +637,7 @@ export default function MapPage() {
       <EventRoutePanel
         isOpen={isRoutePanelOpen}
         onClose={() => setIsRoutePanelOpen(false)}
-        events={filteredEvents}
+        date={filterDate}
         userLocation={userLocation}
         currentRouteEvents={routeEvents}
         currentRouteSummary={routeSummary}
@@ -1,12 +1,17 @@
-import { redirect, useLoaderData, useNavigate, useNavigation } from 'react-router'
+import { Link, redirect, useLoaderData, useNavigate, useNavigation } from 'react-router'
 import { getAuth } from '@clerk/react-router/server'
 import type { Route } from './+types/my-events'
-import { getPaginatedEventsByUser } from '~/utils/permissions.server'
-import { getAllCategories, deleteEvent } from '~/utils/events.server'
+import { canUserModifyEvent, getPaginatedEventsByUser } from '~/utils/permissions.server'
+import { getAllCategories, deleteEvent, getTrashedEvents, purgeEvent, restoreEvent, TRASH_RETENTION_DAYS } from '~/utils/events.server'
 import { getVoteCountsForEvents, getUserVotesForEvents } from '~/utils/votes.server'
 import ShaderBackground from '~/components/ShaderBackground'
-import EventsList from '~/components/EventsList'
+import EventsList, { type EventListFilters } from '~/components/EventsList'
+import { TrashList } from '~/components/TrashList'
+import type { TimeOfDay } from '~/utils/times'
+import { parsePriceParam } from '~/utils/cost'
+import type { EventSort } from '~/types/search'
 import { useEventStore } from '~/stores'
+import { pageTitle } from '~/utils/site'
 
 export async function action(args: Route.ActionArgs) {
   const { userId } = await getAuth(args)
@@ -16,6 +21,26 @@ export async function action(args: Route.ActionArgs) {
   }
 
   const formData = await args.request.formData()
+  const intent = formData.get('intent')
+  const cookieHeader = args.request.headers.get('Cookie')
+
+  // Restore or permanently delete an event from the trash
+  if (intent === 'restore' || intent === 'purge') {
+    const eventId = formData.get('eventId') as string
+    if (!eventId || !(await canUserModifyEvent(userId, eventId, cookieHeader))) {
+      throw new Response('You do not have permission to modify this event', { status: 403 })
+    }
+
+    if (intent === 'restore') {
+      await restoreEvent(eventId, userId)
+    } else {
+      await purgeEvent(eventId, userId)
+    }
+
+    return redirect(args.request.url)
+  }
+
+  // Bulk delete moves the selected events to the trash
   const eventIds = formData.get('eventIds')
 
   if (!eventIds || typeof eventIds !== 'string') {
@@ -27,7 +52,11 @@ export async function action(args: Route.ActionArgs) {
   let failedCount = 0
 
   for (const id of ids) {
-    const success = await deleteEvent(id)
+    if (!(await canUserModifyEvent(userId, id, cookieHeader))) {
+      failedCount++
+      continue
+    }
+    const success = await deleteEvent(id, userId)
     if (success) {
       deletedCount++
     } else {
@@ -50,9 +79,15 @@ export async function loader(args: Route.LoaderArgs) {
   const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10))
   const searchQuery = url.searchParams.get('search') || undefined
   const category = url.searchParams.get('category') || undefined
-  const priceFilter = (url.searchParams.get('price') as 'free' | 'paid' | 'all') || undefined
+  const minPrice = parsePriceParam(url.searchParams.get('minPrice'))
+  const maxPrice = parsePriceParam(url.searchParams.get('maxPrice'))
   const startDate = url.searchParams.get('startDate') || undefined
   const endDate = url.searchParams.get('endDate') || undefined
+  const timeOfDay = (url.searchParams.get('time') as TimeOfDay) || undefined
+  const startsAfter = url.searchParams.get('after') || undefined
+  // Search results are ranked by relevance unless the visitor asks for date order
+  const sort: EventSort = url.searchParams.get('sort') === 'date' ? 'date' : 'relevance'
+  const view = url.searchParams.get('view') === 'trash' ? 'trash' : 'events'
   const limit = 10
 
   // Get all available categories
@@ -62,9 +97,13 @@ export async function loader(args: Route.LoaderArgs) {
   const filters = {
     searchQuery,
     category,
-    priceFilter,
+    minPrice,
+    maxPrice,
     startDate,
     endDate,
+    timeOfDay,
+    startsAfter,
+    sort,
   }
 
   // Get paginated events from user
@@ -75,16 +114,25 @@ export async function loader(args: Route.LoaderArgs) {
   const voteCounts = await getVoteCountsForEvents(eventIds)
   const userVotes = await getUserVotesForEvents(userId, eventIds)
 
+  const trashedEvents = await getTrashedEvents({ createdBy: userId })
+
   return {
+    view,
+    trashedEvents,
+    trashRetentionDays: TRASH_RETENTION_DAYS,
     events,
     totalCount,
     currentPage: page,
     eventsPerPage: limit,
     searchQuery: searchQuery || '',
     category: category || '',
-    priceFilter: priceFilter || 'all',
+    minPrice: minPrice ?? null,
+    maxPrice: maxPrice ?? null,
     startDate: startDate || '',
     endDate: endDate || '',
+    timeOfDay: timeOfDay || '',
+    startsAfter: startsAfter || '',
+    sort,
     allCategories,
     voteCounts,
     userVotes: Array.from(userVotes),
@@ -94,22 +142,29 @@ export async function loader(args: Route.LoaderArgs) {
 
 export function meta({}: Route.MetaArgs) {
   return [
-    { title: '919 Events - My Events' },
+    { title: pageTitle('My Events') },
     { name: 'description', content: 'Manage your submitted events' },
   ]
 }
 
 export default function MyEventsPage() {
   const {
+    view,
+    trashedEvents,
+    trashRetentionDays,
     events,
     totalCount,
     currentPage,
     eventsPerPage,
     searchQuery,
     category,
-    priceFilter,
+    minPrice,
+    maxPrice,
     startDate,
     endDate,
+    timeOfDay,
+    startsAfter,
+    sort,
     allCategories,
     voteCounts,
     userVotes,
@@ -121,30 +176,22 @@ export default function MyEventsPage() {
 
   const isLoading = navigation.state === 'loading'
 
-  const buildFilterParams = (filters: {
-    search?: string
-    category?: string
-    price?: 'free' | 'paid' | 'all'
-    startDate?: string
-    endDate?: string
-  }, page: number = 1) => {
+  const buildFilterParams = (filters: EventListFilters, page: number = 1) => {
     const params = new URLSearchParams()
     params.set('page', page.toString())
     if (filters.search) params.set('search', filters.search)
     if (filters.category) params.set('category', filters.category)
-    if (filters.price && filters.price !== 'all') params.set('price', filters.price)
+    if (filters.minPrice !== undefined) params.set('minPrice', filters.minPrice.toString())
+    if (filters.maxPrice !== undefined) params.set('maxPrice', filters.maxPrice.toString())
     if (filters.startDate) params.set('startDate', filters.startDate)
     if (filters.endDate) params.set('endDate', filters.endDate)
+    if (filters.timeOfDay) params.set('time', filters.timeOfDay)
+    if (filters.startsAfter) params.set('after', filters.startsAfter)
+    if (filters.sort && filters.sort !== 'relevance') params.set('sort', filters.sort)
     return params
   }
 
-  const handleFilterChange = (filters: {
-    search?: string
-    category?: string
-    price?: 'free' | 'paid' | 'all'
-    startDate?: string
-    endDate?: string
-  }) => {
+  const handleFilterChange = (filters: EventListFilters) => {
     const params = buildFilterParams(filters, 1)
     navigate(`/my-events?${params.toString()}`)
   }
@@ -154,9 +201,13 @@ export default function MyEventsPage() {
     params.set('page', page.toString())
     if (searchQuery) params.set('search', searchQuery)
     if (category) params.set('category', category)
-    if (priceFilter && priceFilter !== 'all') params.set('price', priceFilter)
+    if (minPrice !== null) params.set('minPrice', minPrice.toString())
+    if (maxPrice !== null) params.set('maxPrice', maxPrice.toString())
     if (startDate) params.set('startDate', startDate)
     if (endDate) params.set('endDate', endDate)
+    if (timeOfDay) params.set('time', timeOfDay)
+    if (startsAfter) params.set('after', startsAfter)
+    if (sort !== 'relevance') params.set('sort', sort)
     navigate(`/my-events?${params.toString()}`)
   }
 
@@ -180,33 +231,73 @@ export default function MyEventsPage() {
 
       <div className="z-10 pt-20 pb-8">
         <div className="container sticky mx-auto px-4">
-          <EventsList
-            events={events}
-            totalCount={totalCount}
-            currentPage={currentPage}
-            eventsPerPage={eventsPerPage}
-            allCategories={allCategories}
-            searchQuery={searchQuery}
-            category={category}
-            priceFilter={priceFilter}
-            startDate={startDate}
-            endDate={endDate}
-            isLoading={isLoading}
-            canEditEvent={() => true}
-            onFilterChange={handleFilterChange}
-            onPageChange={handlePageChange}
-            onSelectEvent={(event) => selectEvent(event as any)}
-            showFilters={true}
-            showCreateButton={true}
-            createButtonHref="/submit"
-            emptyStateMessage="You haven't created any events yet."
-            emptyStateActionLabel="Create Your First Event"
-            emptyStateActionHref="/submit"
-            enableBulkDelete={true}
-            voteCounts={voteCounts}
-            userVotes={userVotes}
-            isAuthenticated={isAuthenticated}
-          />
+          <nav className="relative z-10 flex gap-2 mb-4 border-b border-slate-700">
+            {[
+              { id: 'events', label: 'Events', href: '/my-events', count: null },
+              { id: 'trash', label: 'Trash', href: '/my-events?view=trash', count: trashedEvents.length },
+            ].map((tab) => (
+              <Link
+                key={tab.id}
+                to={tab.href}
+                className={`px-6 py-3 font-medium whitespace-nowrap transition-colors border-b-2 ${
+                  view === tab.id
+                    ? 'border-blue-500 text-blue-400'
+                    : 'border-transparent text-slate-400 hover:text-slate-300'
+                }`}
+              >
+                {tab.label}
+                {tab.count !== null && tab.count > 0 && (
+                  <span className="ml-2 px-2 py-0.5 bg-blue-600/30 text-blue-300 rounded-full text-xs">
+                    {tab.count}
+                  </span>
+                )}
+              </Link>
+            ))}
+          </nav>
+
+          {view === 'trash' ? (
+            <div className="relative z-10 bg-slate-800/80 border border-slate-700 rounded backdrop-blur-sm p-6">
+              <h2 className="text-3xl font-bold text-white mb-2">Trash</h2>
+              <TrashList
+                events={trashedEvents}
+                retentionDays={trashRetentionDays}
+                isSubmitting={navigation.state !== 'idle'}
+              />
+            </div>
+          ) : (
+            <EventsList
+              events={events}
+              totalCount={totalCount}
+              currentPage={currentPage}
+              eventsPerPage={eventsPerPage}
+              allCategories={allCategories}
+              searchQuery={searchQuery}
+              category={category}
+              minPrice={minPrice}
+              maxPrice={maxPrice}
+              startDate={startDate}
+              endDate={endDate}
+              timeOfDay={timeOfDay}
+              startsAfter={startsAfter}
+              sort={sort}
+              isLoading={isLoading}
+              canEditEvent={() => true}
+              onFilterChange={handleFilterChange}
+              onPageChange={handlePageChange}
+              onSelectEvent={(event) => selectEvent(event as any)}
+              showFilters={true}
+              showCreateButton={true}
+              createButtonHref="/submit"
+              widgetHref="/my-events/widget"
+              emptyStateMessage="You haven't created any events yet."
+              emptyStateActionLabel="Create Your First Event"
+              emptyStateActionHref="/submit"
+              enableBulkDelete={true}
+              voteCounts={voteCounts}
+              userVotes={userVotes}
+              isAuthenticated={isAuthenticated}
+            />
+          )}
         </div>
       </div>
     </main>
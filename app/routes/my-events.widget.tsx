@@ -0,0 +1,265 @@
+import { useEffect, useRef, useState } from 'react'
+import { redirect, useLoaderData } from 'react-router'
+import { getAuth } from '@clerk/react-router/server'
+import { toast } from 'sonner'
+import type { Route } from './+types/my-events.widget'
+import { canUserCreateEvent } from '~/utils/permissions.server'
+import { getAllCategories } from '~/utils/events.server'
+import {
+  WIDGET_ATTRIBUTE,
+  WIDGET_DEFAULT_ACCENT,
+  WIDGET_DEFAULT_LIMIT,
+  WIDGET_MAX_LIMIT,
+  WIDGET_RESIZE_MESSAGE,
+  widgetSearchParams,
+  type WidgetOptions,
+} from '~/utils/widget'
+import { pageTitle } from '~/utils/site'
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const cookieHeader = args.request.headers.get('Cookie')
+  const canCreate = await canUserCreateEvent(userId, cookieHeader)
+  if (!canCreate) {
+    throw new Response('Only Authors and Admins can create widgets', { status: 403 })
+  }
+
+  return {
+    userId,
+    allCategories: await getAllCategories(),
+    origin: new URL(args.request.url).origin,
+  }
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: pageTitle('Embed Widget') },
+    { name: 'description', content: 'Show events on your own website' },
+  ]
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+}
+
+const inputClassName = 'w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none'
+
+export default function WidgetConfigurator() {
+  const { userId, allCategories, origin } = useLoaderData<typeof loader>()
+  const [onlyMine, setOnlyMine] = useState(true)
+  const [options, setOptions] = useState<WidgetOptions>({
+    theme: 'light',
+    accent: WIDGET_DEFAULT_ACCENT,
+    limit: WIDGET_DEFAULT_LIMIT,
+    images: true,
+  })
+  const [previewQuery, setPreviewQuery] = useState('')
+  const [previewHeight, setPreviewHeight] = useState(480)
+  const previewRef = useRef<HTMLIFrameElement>(null)
+
+  const update = (changes: Partial<WidgetOptions>) => setOptions((current) => ({ ...current, ...changes }))
+
+  const params = widgetSearchParams({ ...options, author: onlyMine ? userId : undefined })
+  const query = params.toString()
+
+  const scriptSnippet = [
+    `<div ${WIDGET_ATTRIBUTE}${Array.from(params, ([name, value]) => ` data-${name}="${escapeAttribute(value)}"`).join('')}></div>`,
+    `<script src="${origin}/embed.js" async></script>`,
+  ].join('\n')
+  const iframeSnippet = `<iframe src="${escapeAttribute(`${origin}/embed/events${query ? `?${query}` : ''}`)}" title="${escapeAttribute(options.title || 'Upcoming events')}" style="width:100%;height:${previewHeight}px;border:0" loading="lazy"></iframe>`
+
+  // Reload the preview once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewQuery(query), 400)
+    return () => clearTimeout(timer)
+  }, [query])
+
+  // The preview reports its height just like it does on partner sites
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source === previewRef.current?.contentWindow && event.data?.type === WIDGET_RESIZE_MESSAGE) {
+        setPreviewHeight(event.data.height)
+      }
+    }
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [])
+
+  const copy = async (snippet: string) => {
+    try {
+      await navigator.clipboard.writeText(snippet)
+      toast.success('Snippet copied')
+    } catch {
+      toast.error('Could not copy, please select the snippet and copy it manually')
+    }
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-2">Embed Widget</h1>
+      <p className="text-gray-400 mb-6">
+        Show upcoming events on your own website. Pick what to show, then paste a snippet into your page.
+      </p>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold text-white border-b border-slate-700 pb-2">Events</h2>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={onlyMine} onChange={(e) => setOnlyMine(e.target.checked)} />
+              Only events I submitted
+            </label>
+
+            <div>
+              <label htmlFor="category" className="block text-sm font-medium mb-2">Category</label>
+              <select
+                id="category"
+                value={options.category || ''}
+                onChange={(e) => update({ category: e.target.value || undefined })}
+                className={inputClassName}
+              >
+                <option value="">All categories</option>
+                {allCategories.map((category) => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="city" className="block text-sm font-medium mb-2">City</label>
+                <input
+                  id="city"
+                  type="text"
+                  value={options.city || ''}
+                  onChange={(e) => update({ city: e.target.value || undefined })}
+                  placeholder="Any city"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="venue" className="block text-sm font-medium mb-2">Venue</label>
+                <input
+                  id="venue"
+                  type="text"
+                  value={options.venue || ''}
+                  onChange={(e) => update({ venue: e.target.value || undefined })}
+                  placeholder="Any venue"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="limit" className="block text-sm font-medium mb-2">Number of events</label>
+              <input
+                id="limit"
+                type="number"
+                min={1}
+                max={WIDGET_MAX_LIMIT}
+                value={options.limit}
+                onChange={(e) => update({ limit: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), WIDGET_MAX_LIMIT) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold text-white border-b border-slate-700 pb-2">Appearance</h2>
+
+            <div>
+              <label htmlFor="title" className="block text-sm font-medium mb-2">Heading</label>
+              <input
+                id="title"
+                type="text"
+                value={options.title || ''}
+                onChange={(e) => update({ title: e.target.value || undefined })}
+                placeholder="e.g. Upcoming shows"
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="theme" className="block text-sm font-medium mb-2">Theme</label>
+                <select
+                  id="theme"
+                  value={options.theme}
+                  onChange={(e) => update({ theme: e.target.value === 'dark' ? 'dark' : 'light' })}
+                  className={inputClassName}
+                >
+                  <option value="light">Light</option>
+                  <option value="dark">Dark</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="accent" className="block text-sm font-medium mb-2">Accent color</label>
+                <input
+                  id="accent"
+                  type="color"
+                  value={options.accent}
+                  onChange={(e) => update({ accent: e.target.value.toLowerCase() })}
+                  className="w-full h-10 rounded bg-slate-800 border border-slate-700 cursor-pointer"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={options.images} onChange={(e) => update({ images: e.target.checked })} />
+              Show event images
+            </label>
+          </div>
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold text-white border-b border-slate-700 pb-2">Embed Code</h2>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm font-medium">Script (resizes to fit)</span>
+                <button
+                  type="button"
+                  onClick={() => copy(scriptSnippet)}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                >
+                  Copy
+                </button>
+              </div>
+              <pre className="p-3 rounded bg-slate-800 border border-slate-700 text-xs text-gray-200 whitespace-pre-wrap break-all">{scriptSnippet}</pre>
+            </div>
+
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm font-medium">Plain iframe (fixed height)</span>
+                <button
+                  type="button"
+                  onClick={() => copy(iframeSnippet)}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                >
+                  Copy
+                </button>
+              </div>
+              <pre className="p-3 rounded bg-slate-800 border border-slate-700 text-xs text-gray-200 whitespace-pre-wrap break-all">{iframeSnippet}</pre>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-xl font-semibold text-white border-b border-slate-700 pb-2 mb-4">Preview</h2>
+          <iframe
+            ref={previewRef}
+            src={`/embed/events${previewQuery ? `?${previewQuery}` : ''}`}
+            title="Widget preview"
+            className="w-full border-0 rounded-lg"
+            style={{ height: previewHeight }}
+          />
+        </div>
+      </div>
+    </main>
+  )
+}
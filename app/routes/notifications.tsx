@@ -0,0 +1,146 @@
+import { useEffect } from 'react'
+import { Form, Link, redirect, useActionData, useLoaderData, useNavigation } from 'react-router'
+import { getAuth } from '@clerk/react-router/server'
+import { toast } from 'sonner'
+import type { Route } from './+types/notifications'
+import {
+  getNotificationPreferences,
+  getNotifications,
+  markNotificationsRead,
+  updateNotificationPreferences,
+} from '~/utils/notifications.server'
+import type { NotificationPreferences, NotificationType } from '~/types/notification'
+import { formatDateTime } from '~/utils/datetime'
+import { pageTitle } from '~/utils/site'
+
+const TYPE_ICONS: Record<NotificationType, string> = {
+  event_reminder: '⏰',
+  event_updated: '✏️',
+  event_cancelled: '🚫',
+  event_postponed: '⏳',
+  event_reinstated: '✅',
+  saved_search_matches: '🔎',
+}
+
+const PREFERENCE_OPTIONS: { name: keyof NotificationPreferences; label: string; description: string }[] = [
+  { name: 'reminders', label: 'Reminders', description: 'The day before a favorited event' },
+  { name: 'updates', label: 'Updates', description: 'When the date, time, place, price or title of a favorited event changes' },
+  { name: 'cancellations', label: 'Cancellations', description: 'When a favorited event is cancelled, postponed or back on' },
+  { name: 'email', label: 'Email me too', description: 'Send these notifications and saved search alerts to your account email as well' },
+  { name: 'weeklyDigest', label: 'Weekly digest', description: 'A Thursday email with the top events coming up that weekend' },
+]
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  // Fetched before marking read so new ones are still highlighted on this visit
+  const [notifications, preferences] = await Promise.all([
+    getNotifications(userId),
+    getNotificationPreferences(userId),
+  ])
+  await markNotificationsRead(userId)
+
+  return { notifications, preferences }
+}
+
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const formData = await args.request.formData()
+  await updateNotificationPreferences(userId, {
+    reminders: formData.get('reminders') === 'on',
+    updates: formData.get('updates') === 'on',
+    cancellations: formData.get('cancellations') === 'on',
+    email: formData.get('email') === 'on',
+    weeklyDigest: formData.get('weeklyDigest') === 'on',
+  })
+
+  return { success: 'Notification settings saved' }
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: pageTitle('Notifications') },
+    { name: 'description', content: 'Updates about events you favorited' },
+  ]
+}
+
+export default function NotificationsPage() {
+  const { notifications, preferences } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+  const navigation = useNavigation()
+
+  useEffect(() => {
+    if (actionData?.success) {
+      toast.success(actionData.success)
+    }
+  }, [actionData])
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-3xl font-bold text-white mb-6">Notifications</h1>
+
+      {notifications.length === 0 ? (
+        <p className="text-slate-400">
+          No notifications yet. Favorite events or save a search to hear about changes and new events.
+        </p>
+      ) : (
+        <ul className="bg-slate-800/80 border border-slate-700 rounded-lg divide-y divide-slate-700">
+          {notifications.map((notification) => (
+            <li key={notification.id} className={`p-4 flex gap-3 ${notification.read ? '' : 'bg-blue-900/20'}`}>
+              <span className="text-xl" aria-hidden>{TYPE_ICONS[notification.type]}</span>
+              <div className="flex-1 min-w-0">
+                {notification.url ? (
+                  <Link to={notification.url} className="font-medium text-white hover:underline">
+                    {notification.title}
+                  </Link>
+                ) : (
+                  <p className="font-medium text-white">{notification.title}</p>
+                )}
+                {notification.body && <p className="text-slate-300 text-sm mt-1 whitespace-pre-line">{notification.body}</p>}
+                <p className="text-slate-500 text-xs mt-1">
+                  {formatDateTime(notification.createdAt)}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <section className="mt-10 bg-slate-800/80 border border-slate-700 rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Settings</h2>
+        <Form method="post" className="space-y-4">
+          {PREFERENCE_OPTIONS.map((option) => (
+            <label key={option.name} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                name={option.name}
+                defaultChecked={preferences[option.name]}
+                className="mt-1 rounded"
+              />
+              <span>
+                <span className="block font-medium text-white">{option.label}</span>
+                <span className="block text-sm text-slate-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+          <button
+            type="submit"
+            disabled={navigation.state === 'submitting'}
+            className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Save Settings
+          </button>
+        </Form>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,148 @@
+import { useEffect } from 'react'
+import { Form, Link, redirect, useActionData, useLoaderData } from 'react-router'
+import { getAuth } from '@clerk/react-router/server'
+import { toast } from 'sonner'
+import type { Route } from './+types/profile'
+import { deleteSavedSearch, getSavedSearches, setSavedSearchAlerts } from '~/utils/saved-searches.server'
+import { describeSavedSearch, savedSearchHref } from '~/utils/saved-searches'
+import { pageTitle } from '~/utils/site'
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const savedSearches = await getSavedSearches(userId)
+
+  return { savedSearches }
+}
+
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const formData = await args.request.formData()
+  const intent = formData.get('intent')
+  const savedSearchId = formData.get('savedSearchId') as string
+
+  if (intent === 'toggleAlerts') {
+    const alerts = formData.get('alerts') === 'true'
+    const updated = await setSavedSearchAlerts(savedSearchId, userId, alerts)
+    if (!updated) {
+      return { error: 'Saved search not found' }
+    }
+    return { success: alerts ? 'Alerts turned on' : 'Alerts turned off' }
+  }
+
+  if (intent === 'delete') {
+    const deleted = await deleteSavedSearch(savedSearchId, userId)
+    if (!deleted) {
+      return { error: 'Saved search not found' }
+    }
+    return { success: 'Saved search removed' }
+  }
+
+  return { error: 'Invalid action' }
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: pageTitle('Profile') },
+    { name: 'description', content: 'Your saved searches and notification settings' },
+  ]
+}
+
+export default function ProfilePage() {
+  const { savedSearches } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+
+  useEffect(() => {
+    if (actionData?.error) {
+      toast.error(actionData.error)
+    }
+    if (actionData?.success) {
+      toast.success(actionData.success)
+    }
+  }, [actionData])
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-3xl font-bold text-white mb-6">Profile</h1>
+
+      <div className="flex flex-wrap gap-3 mb-10">
+        <Link
+          to="/events?favorites=true"
+          className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm"
+        >
+          ♥ My Favorites
+        </Link>
+        <Link
+          to="/notifications"
+          className="px-4 py-2 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm"
+        >
+          🔔 Notification Settings
+        </Link>
+      </div>
+
+      <h2 className="text-2xl font-bold text-white mb-2">Saved Searches</h2>
+      <p className="text-slate-400 text-sm mb-4">
+        With alerts on, you'll get a notification when new events match a saved search.
+      </p>
+
+      {savedSearches.length === 0 ? (
+        <p className="text-slate-400">
+          No saved searches yet. Set some filters on the <Link to="/events" className="text-blue-400 hover:text-blue-300">events page</Link> and
+          choose Save Search.
+        </p>
+      ) : (
+        <ul className="bg-slate-800/80 border border-slate-700 rounded-lg divide-y divide-slate-700">
+          {savedSearches.map((search) => (
+            <li key={search.id} className="p-4 flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <Link to={savedSearchHref(search.filters)} className="font-medium text-white hover:underline">
+                  {search.name}
+                </Link>
+                <p className="text-slate-400 text-sm mt-0.5">{describeSavedSearch(search.filters)}</p>
+              </div>
+              <Form method="post">
+                <input type="hidden" name="intent" value="toggleAlerts" />
+                <input type="hidden" name="savedSearchId" value={search.id} />
+                <input type="hidden" name="alerts" value={(!search.alerts).toString()} />
+                <button
+                  type="submit"
+                  className={`px-3 py-1.5 rounded text-sm transition-colors ${
+                    search.alerts
+                      ? 'bg-blue-600/30 text-blue-300 hover:bg-blue-600/50'
+                      : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                  }`}
+                >
+                  {search.alerts ? '🔔 Alerts on' : '🔕 Alerts off'}
+                </button>
+              </Form>
+              <Form
+                method="post"
+                onSubmit={(e) => {
+                  if (!confirm(`Remove the saved search "${search.name}"?`)) e.preventDefault()
+                }}
+              >
+                <input type="hidden" name="intent" value="delete" />
+                <input type="hidden" name="savedSearchId" value={search.id} />
+                <button
+                  type="submit"
+                  className="px-3 py-1.5 rounded text-sm bg-red-600/30 text-red-300 hover:bg-red-600/50 transition-colors"
+                >
+                  Remove
+                </button>
+              </Form>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  )
+}
@@ -6,8 +6,17 @@ import { createClerkClient } from '@clerk/backend'
 import type { Route } from './+types/submit'
 import { createEvent } from '~/utils/events.server'
 import { canUserCreateEvent } from '~/utils/permissions.server'
+import { getSubmissionStatus } from '~/utils/moderation.server'
+import { formatDateTime, getToday, parseSiteDateTime } from '~/utils/datetime'
+import { resolveEventVenue } from '~/utils/venues.server'
 import { ImageUpload } from '~/components/ImageUpload'
-import { AddressLookup } from '~/components/AddressLookup'
+import { VenuePicker } from '~/components/VenuePicker'
+import { RecurrenceFields } from '~/components/RecurrenceFields'
+import { TimeFields } from '~/components/TimeFields'
+import { PublishFields } from '~/components/PublishFields'
+import { describeRecurrence, formatRRule, parseRecurrenceForm } from '~/utils/recurrence'
+import { parseTimesForm } from '~/utils/times'
+import { pageTitle, SITE } from '~/utils/site'
 
 const clerkClient = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY! })
 
@@ -44,17 +53,18 @@ export async function action(args: Route.ActionArgs) {
   const description = formData.get('description') as string
   const date = formData.get('date') as string
   const location = formData.get('location') as string
+  const venueId = formData.get('venueId') as string
   const address = formData.get('address') as string
   const city = formData.get('city') as string
   const region = formData.get('region') as string
   const latitude = formData.get('latitude') as string
   const longitude = formData.get('longitude') as string
   const cost = formData.get('cost') as string
-  const times = formData.get('times') as string
   const url = formData.get('url') as string
   const imageUrl = formData.get('imageUrl') as string
-  const recurrence = formData.get('recurrence') as string
-  const endDate = formData.get('endDate') as string
+  const { rule, exceptionDates, error: recurrenceError } = parseRecurrenceForm(formData)
+  const endDate = rule?.until
+  const { times, startTime, endTime, timeStatus, error: timesError } = parseTimesForm(formData)
 
   // Get all categories from form
   const categories: string[] = []
@@ -67,44 +77,76 @@ export async function action(args: Route.ActionArgs) {
     index++
   }
 
+  // Drafts only need a title; the rest is checked when the event is published
+  const isDraft = formData.get('intent') === 'draft'
+  const publishAtValue = formData.get('publishAt') as string
+  const publishAt = publishAtValue ? parseSiteDateTime(publishAtValue) : null
+
   // Validate required fields
-  if (!title || !description || !date || !location) {
+  if (!title) {
+    return {
+      error: 'Event title is required'
+    }
+  }
+
+  if (!isDraft && (!description || !date || !location)) {
     return {
       error: 'All required fields must be filled out'
     }
   }
 
-  // Validate dates are not in the past (using US Eastern Time)
-  const todayEastern = new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }))
-  todayEastern.setHours(0, 0, 0, 0)
-  const eventDate = new Date(date + 'T00:00:00')
+  if (recurrenceError) {
+    return {
+      error: recurrenceError
+    }
+  }
 
-  if (eventDate < todayEastern) {
+  if (timesError) {
+    return {
+      error: timesError
+    }
+  }
+
+  // Validate dates are not in the past (in the site timezone). YYYY-MM-DD
+  // strings compare in date order
+  const today = getToday()
+
+  if (!isDraft && date < today) {
     return {
       error: 'Event date cannot be in the past'
     }
   }
 
-  if (endDate) {
-    const eventEndDate = new Date(endDate + 'T00:00:00')
-    if (eventEndDate < todayEastern) {
+  if (endDate && !isDraft) {
+    if (endDate < today) {
       return {
         error: 'End date cannot be in the past'
       }
     }
-    if (eventEndDate < eventDate) {
+    if (endDate < date) {
       return {
         error: 'End date cannot be before the event start date'
       }
     }
   }
 
+  if (publishAtValue && !isDraft) {
+    if (!publishAt) {
+      return {
+        error: 'Invalid publish time'
+      }
+    }
+    if (publishAt <= new Date()) {
+      return {
+        error: 'Publish time must be in the future'
+      }
+    }
+  }
+
   // Create the event
   try {
-    await createEvent({
-      title,
-      description,
-      date,
+    // Link the event to a venue, reusing its saved address and coordinates
+    const venueFields = await resolveEventVenue(venueId || null, {
       location,
       address: address || undefined,
       city: city || undefined,
@@ -112,18 +154,48 @@ export async function action(args: Route.ActionArgs) {
       coordinates: latitude && longitude
         ? { lat: parseFloat(latitude), lng: parseFloat(longitude) }
         : undefined,
+    }, userId)
+
+    // Drafts and scheduled events stay private; new authors' events wait in
+    // the admin review queue
+    const scheduledAt = isDraft ? null : publishAt
+    const status = isDraft || scheduledAt
+      ? 'draft'
+      : await getSubmissionStatus(userId, args.request.headers.get('Cookie'))
+
+    await createEvent({
+      title,
+      description,
+      date,
+      ...venueFields,
       cost: cost || undefined,
-      times: times || undefined,
+      times,
+      startTime,
+      endTime,
+      timeStatus,
       url: url || undefined,
       imageUrl: imageUrl || undefined,
-      recurrence: recurrence || undefined,
+      recurrence: rule ? describeRecurrence(rule) : undefined,
+      rrule: rule ? formatRRule(rule) : undefined,
+      exceptionDates: rule ? exceptionDates : undefined,
       endDate: endDate || undefined,
       categories: categories.length > 0 ? categories : undefined,
       createdBy: userId,
       createdByName,
+      status,
+      publishAt: scheduledAt?.toISOString(),
     })
 
-    return { success: 'Event created successfully!' }
+    if (isDraft) {
+      return { success: 'Draft saved. Finish it from My Events.', redirectTo: '/my-events' }
+    }
+    if (scheduledAt) {
+      return { success: `Event scheduled to publish ${formatDateTime(scheduledAt)}`, redirectTo: '/my-events' }
+    }
+    if (status === 'pending') {
+      return { success: 'Event submitted for review. It will be listed once an admin approves it.', redirectTo: '/my-events' }
+    }
+    return { success: 'Event created successfully!', redirectTo: '/events' }
   } catch (error) {
     return { error: 'Failed to create event. Please try again.' }
   }
@@ -131,8 +203,8 @@ export async function action(args: Route.ActionArgs) {
 
 export function meta({}: Route.MetaArgs) {
   return [
-    { title: '919 Events - Submit Event' },
-    { name: 'description', content: 'Submit a new event to the 919 Events calendar' },
+    { title: pageTitle('Submit Event') },
+    { name: 'description', content: `Submit a new event to the ${SITE.name} calendar` },
   ]
 }
 
@@ -140,7 +212,6 @@ export default function SubmitPage() {
   const navigate = useNavigate()
   const actionData = useActionData<typeof action>()
   const [categories, setCategories] = useState<string[]>([])
-  const [hasRecurrence, setHasRecurrence] = useState(false)
   const [imageUrl, setImageUrl] = useState('')
 
   // Show toast notifications based on action results
@@ -151,13 +222,12 @@ export default function SubmitPage() {
 
     if (actionData?.success) {
       toast.success(actionData.success)
-      navigate('/events')
+      navigate('redirectTo' in actionData ? actionData.redirectTo : '/events')
     }
   }, [actionData, navigate])
 
-  // Get today's date in US Eastern Time for min attribute
-  const today = new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }))
-    .toISOString().split('T')[0]
+  // Today in the site timezone for min attribute
+  const today = getToday()
 
   const addCategory = () => {
     setCategories([...categories, ''])
@@ -245,66 +315,16 @@ export default function SubmitPage() {
             />
           </div>
 
-          <div>
-            <label htmlFor="times" className="block text-sm font-medium mb-2">
-              Times
-            </label>
-            <input
-              id="times"
-              name="times"
-              className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
-              placeholder="6:00 PM - 8:00 PM"
-            />
-          </div>
-
-          <div>
-            <label htmlFor="recurrence" className="block text-sm font-medium mb-2">
-              Recurrence
-            </label>
-            <input
-              id="recurrence"
-              name="recurrence"
-              onChange={(e) => setHasRecurrence(e.target.value.trim() !== '')}
-              className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
-              placeholder="Every Monday, Weekly, etc."
-            />
-          </div>
+          <TimeFields />
 
-          {hasRecurrence && (
-            <div>
-              <label htmlFor="endDate" className="block text-sm font-medium mb-2">
-                End Date *
-              </label>
-              <input
-                id="endDate"
-                name="endDate"
-                type="date"
-                min={today}
-                required
-                className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
-              />
-            </div>
-          )}
+          <RecurrenceFields minDate={today} />
         </div>
 
         {/* Location */}
         <div className="space-y-4">
           <h2 className="text-xl font-semibold text-white border-b border-slate-700 pb-2">Location</h2>
 
-          <div>
-            <label htmlFor="location" className="block text-sm font-medium mb-2">
-              Venue Name *
-            </label>
-            <input
-              id="location"
-              name="location"
-              required
-              className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none capitalize"
-              placeholder="Community Center"
-            />
-          </div>
-
-          <AddressLookup />
+          <VenuePicker />
         </div>
 
         {/* Additional Details */}
@@ -361,13 +381,26 @@ export default function SubmitPage() {
           </div>
         </div>
 
+        <PublishFields />
+
         <div className="flex gap-4 pt-4">
           <button
             type="submit"
+            name="intent"
+            value="publish"
             className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
           >
             Submit Event
           </button>
+          <button
+            type="submit"
+            name="intent"
+            value="draft"
+            formNoValidate
+            className="px-6 py-2 bg-slate-600 text-white rounded hover:bg-slate-500 transition-colors"
+          >
+            Save Draft
+          </button>
           <button
             type="button"
             onClick={() => navigate('/events')}
@@ -0,0 +1,55 @@
+import { Form, Link, useActionData } from 'react-router'
+import type { Route } from './+types/unsubscribe.$token'
+import { unsubscribeFromDigest } from '~/utils/notifications.server'
+import { pageTitle, SITE } from '~/utils/site'
+
+/**
+ * Unsubscribing takes a POST so link scanners opening the email don't do it
+ * by accident. Mail clients' one-click unsubscribe (RFC 8058) posts here too.
+ */
+export async function action({ params }: Route.ActionArgs) {
+  const unsubscribed = await unsubscribeFromDigest(params.token)
+  if (!unsubscribed) {
+    return { error: 'This unsubscribe link is no longer valid. You can change your email settings after signing in.' }
+  }
+  return { success: true }
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: pageTitle('Unsubscribe') },
+    { name: 'robots', content: 'noindex' },
+  ]
+}
+
+export default function UnsubscribePage() {
+  const actionData = useActionData<typeof action>()
+
+  return (
+    <main className="container mx-auto px-4 py-16 max-w-lg text-center">
+      <h1 className="text-3xl font-bold text-white mb-4">Weekly Digest</h1>
+
+      {actionData?.success ? (
+        <p className="text-slate-300">
+          You're unsubscribed and won't get the weekly digest anymore.
+        </p>
+      ) : actionData?.error ? (
+        <p className="text-red-300">{actionData.error}</p>
+      ) : (
+        <Form method="post" className="space-y-4">
+          <p className="text-slate-300">Stop receiving the "This weekend in {SITE.nickname}" email?</p>
+          <button
+            type="submit"
+            className="px-6 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+          >
+            Unsubscribe
+          </button>
+        </Form>
+      )}
+
+      <p className="text-slate-400 text-sm mt-8">
+        Manage all your notifications on the <Link to="/notifications" className="text-blue-400 hover:text-blue-300">notifications page</Link>.
+      </p>
+    </main>
+  )
+}
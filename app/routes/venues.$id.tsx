@@ -0,0 +1,269 @@
+import { useEffect } from 'react'
+import { Form, Link, redirect, useActionData, useLoaderData } from 'react-router'
+import { getAuth } from '@clerk/react-router/server'
+import { toast } from 'sonner'
+import type { Route } from './+types/venues.$id'
+import { getPaginatedEvents } from '~/utils/events.server'
+import { getVenueById, updateVenue } from '~/utils/venues.server'
+import { canUserEditVenue } from '~/utils/permissions.server'
+import { EventCard } from '~/components/EventCard'
+import { AddressLookup } from '~/components/AddressLookup'
+import { pageTitle, SITE } from '~/utils/site'
+
+// Upcoming events listed on a venue page
+const VENUE_EVENTS_LIMIT = 50
+
+export async function loader(args: Route.LoaderArgs) {
+  const { userId } = await getAuth(args)
+
+  const venue = await getVenueById(args.params.id)
+  if (!venue) {
+    throw new Response('Venue not found', { status: 404 })
+  }
+
+  const { events, totalCount } = await getPaginatedEvents(1, VENUE_EVENTS_LIMIT, { venueId: venue.id })
+
+  let canEdit = false
+  if (userId) {
+    canEdit = await canUserEditVenue(userId, args.request.headers.get('Cookie'))
+  }
+
+  return { venue, events, totalCount, canEdit }
+}
+
+export async function action(args: Route.ActionArgs) {
+  const { userId } = await getAuth(args)
+
+  if (!userId) {
+    return redirect('/')
+  }
+
+  const canEdit = await canUserEditVenue(userId, args.request.headers.get('Cookie'))
+  if (!canEdit) {
+    return { error: 'Only Admins can edit venues' }
+  }
+
+  const formData = await args.request.formData()
+  const name = (formData.get('name') as string)?.trim()
+  const address = formData.get('address') as string
+  const city = formData.get('city') as string
+  const region = formData.get('region') as string
+  const latitude = formData.get('latitude') as string
+  const longitude = formData.get('longitude') as string
+  const website = formData.get('website') as string
+  const accessibilityNotes = formData.get('accessibilityNotes') as string
+  const photos = ((formData.get('photos') as string) || '')
+    .split('\n')
+    .map((url) => url.trim())
+    .filter(Boolean)
+
+  if (!name) {
+    return { error: 'Venue name is required' }
+  }
+
+  await updateVenue(args.params.id, {
+    name,
+    address: address || undefined,
+    city: city || undefined,
+    region: region || undefined,
+    coordinates: latitude && longitude
+      ? { lat: parseFloat(latitude), lng: parseFloat(longitude) }
+      : undefined,
+    website: website || undefined,
+    accessibilityNotes: accessibilityNotes || undefined,
+    photos,
+  })
+
+  return { success: 'Venue updated' }
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data?.venue) {
+    return [
+      { title: pageTitle('Venue Not Found') },
+      { name: 'description', content: 'Venue not found' },
+    ]
+  }
+
+  return [
+    { title: `${data.venue.name} - ${SITE.name}` },
+    { name: 'description', content: `Upcoming events at ${data.venue.name}` },
+  ]
+}
+
+export default function VenuePage() {
+  const { venue, events, totalCount, canEdit } = useLoaderData<typeof loader>()
+  const actionData = useActionData<typeof action>()
+
+  useEffect(() => {
+    if (actionData?.error) {
+      toast.error(actionData.error)
+    }
+    if (actionData?.success) {
+      toast.success(actionData.success)
+    }
+  }, [actionData])
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <Link
+        to="/events"
+        className="inline-flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-6"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back to Events
+      </Link>
+
+      <article className="bg-slate-800/80 border border-slate-700 rounded-lg overflow-hidden mb-8">
+        {venue.photos.length > 0 && (
+          <div className={`grid gap-1 ${venue.photos.length > 1 ? 'grid-cols-2 md:grid-cols-3' : ''}`}>
+            {venue.photos.map((url, idx) => (
+              <img
+                key={url}
+                src={url}
+                alt={`${venue.name} photo ${idx + 1}`}
+                className={`w-full object-cover ${venue.photos.length > 1 ? 'h-40 md:h-48' : 'h-64 md:h-96'}`}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="p-6 md:p-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">{venue.name}</h1>
+          {venue.address && <p className="text-slate-300 text-lg">{venue.address}</p>}
+          {venue.city && (
+            <p className="text-slate-400">
+              {venue.city}
+              {venue.region && `, ${venue.region}`}
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-4 mt-3 text-sm">
+            {venue.coordinates && (
+              <a
+                href={`https://www.google.com/maps/search/?api=1&query=${venue.coordinates.lat},${venue.coordinates.lng}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-400 hover:text-blue-300"
+              >
+                Open in Google Maps
+              </a>
+            )}
+            {venue.website && (
+              <a
+                href={venue.website}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-400 hover:text-blue-300 break-all"
+              >
+                {venue.website}
+              </a>
+            )}
+          </div>
+
+          {venue.accessibilityNotes && (
+            <div className="bg-slate-900/50 rounded-lg p-4 mt-6">
+              <h2 className="font-semibold text-white mb-2">♿ Accessibility</h2>
+              <p className="text-slate-300 whitespace-pre-wrap">{venue.accessibilityNotes}</p>
+            </div>
+          )}
+        </div>
+      </article>
+
+      <h2 className="text-2xl font-bold text-white mb-4">
+        Upcoming Events {totalCount > 0 && <span className="text-slate-400 font-normal">({totalCount})</span>}
+      </h2>
+
+      {events.length === 0 ? (
+        <p className="text-slate-400">No upcoming events at this venue.</p>
+      ) : (
+        <div className="grid gap-6">
+          {events.map((event) => (
+            <EventCard key={`${event.id}-${event.occurrenceDate}`} event={event}>
+              <a
+                href={`/events/${event.id}`}
+                className="px-4 py-2 bg-slate-600 text-white rounded hover:bg-slate-500 transition-colors inline-block"
+              >
+                View Details
+              </a>
+            </EventCard>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        <details className="mt-10 bg-slate-800/80 border border-slate-700 rounded-lg p-6">
+          <summary className="text-xl font-semibold text-white cursor-pointer">Edit Venue</summary>
+          <p className="text-sm text-slate-400 mt-2">
+            Changes to the name and address are copied to every event at this venue.
+          </p>
+
+          <Form method="post" className="space-y-4 mt-6">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium mb-2">Name *</label>
+              <input
+                id="name"
+                name="name"
+                defaultValue={venue.name}
+                required
+                className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+
+            <AddressLookup
+              defaultAddress={venue.address}
+              defaultCity={venue.city}
+              defaultRegion={venue.region}
+              defaultLatitude={venue.coordinates?.lat}
+              defaultLongitude={venue.coordinates?.lng}
+            />
+
+            <div>
+              <label htmlFor="website" className="block text-sm font-medium mb-2">Website</label>
+              <input
+                id="website"
+                name="website"
+                type="url"
+                defaultValue={venue.website}
+                className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
+                placeholder="https://"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="accessibilityNotes" className="block text-sm font-medium mb-2">Accessibility Notes</label>
+              <textarea
+                id="accessibilityNotes"
+                name="accessibilityNotes"
+                rows={3}
+                defaultValue={venue.accessibilityNotes}
+                className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none"
+                placeholder="Step-free entrance, accessible restrooms, parking..."
+              />
+            </div>
+
+            <div>
+              <label htmlFor="photos" className="block text-sm font-medium mb-2">Photo URLs (one per line)</label>
+              <textarea
+                id="photos"
+                name="photos"
+                rows={3}
+                defaultValue={venue.photos.join('\n')}
+                className="w-full px-4 py-2 rounded bg-slate-800 border border-slate-700 focus:border-blue-500 focus:outline-none font-mono text-sm"
+              />
+            </div>
+
+            <button
+              type="submit"
+              className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              Save Venue
+            </button>
+          </Form>
+        </details>
+      )}
+    </main>
+  )
+}
@@ -2,6 +2,7 @@ import { useRef } from 'react'
 import ShaderBackground from '~/components/ShaderBackground'
 import { SignedIn } from '@clerk/react-router'
 import { useUserRole } from '~/hooks/useUserRole'
+import { SITE } from '~/utils/site'
 
 export function Splash() {
   const containerRef = useRef<HTMLDivElement>(null)
@@ -17,7 +18,7 @@ export function Splash() {
       <div className="absolute inset-0 flex items-center justify-center" ref={containerRef}>
         <div className="text-center text-white px-4">
           <h1 className="text-5xl font-bold mb-8 inline-flex items-center gap-3">
-            <span>919 Events</span>
+            <span>{SITE.name}</span>
           </h1>
           <div className="flex flex-wrap gap-4 justify-center max-w-2xl mx-auto">
             <a
@@ -1,10 +1,13 @@
 import { create } from 'zustand'
+import type { TimeStatus } from '~/utils/times'
+import type { EventStatus } from '~/types/moderation'
 
 export interface Event {
   id: string
   title: string
   description: string
   date: string
+  venueId?: string
   location: string
   coordinates?: {
     lat: number
@@ -13,15 +16,47 @@ export interface Event {
   imageUrl?: string
   categories?: string[]
   cost?: string
+  // Parsed from cost; priceMin is 0 when the event can be attended free
+  priceMin?: number
+  priceMax?: number
+  currency?: string
+  isFree?: boolean
+  isDonation?: boolean
+  rsvpRequired?: boolean
+  isTicketed?: boolean
   times?: string
+  startTime?: string // HH:MM, 24-hour
+  endTime?: string
+  timeStatus?: TimeStatus
+  startsAt?: string // ISO timestamp of the first occurrence's start (from date and times)
+  endsAt?: string
   address?: string
   url?: string
   region?: string
   recurrence?: string
+  rrule?: string
+  exceptionDates?: string[]
   endDate?: string
   city?: string
   createdBy: string
   createdByName?: string
+  status?: EventStatus
+  statusReason?: string // Why it was cancelled or postponed
+  originalDate?: string // Date before a postponed event was moved
+  reviewNotes?: string // Moderator's notes on a rejected event
+  publishAt?: string // ISO timestamp; a draft with one is scheduled to publish
+  listedAt?: string // ISO timestamp; when it last went public
+  source?: string // Imported events: where from, and the source's id for the event
+  externalId?: string
+  delistedAt?: string // ISO timestamp; the source stopped listing the event
+  createdAt?: string // ISO timestamp
+  updatedAt?: string // ISO timestamp
+  // Date of the occurrence this listing entry represents (recurring events)
+  occurrenceDate?: string
+  // Title and description snippet with search matches marked (search results only)
+  searchHighlight?: { title: string; snippet: string }
+  // Miles from the searched location (location-filtered results only)
+  distanceMiles?: number
 }
 
 interface EventStore {
@@ -0,0 +1,27 @@
+export type AuditEntityType = 'event' | 'user' | 'application'
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'merge' | 'role_change' | 'approve' | 'reject'
+
+// Values are stored as JSON, so dates are ISO strings
+export type AuditValue = string | number | boolean | null | AuditValue[] | { [key: string]: AuditValue }
+
+// A type rather than an interface so it can be stored as a Prisma JSON object
+export type FieldChange = {
+  from: AuditValue
+  to: AuditValue
+}
+
+// Changed fields only; created entities have every `from` null and deleted
+// ones every `to` null
+export type AuditChanges = Record<string, FieldChange>
+
+export interface AuditEntry {
+  id: string
+  entityType: AuditEntityType
+  entityId: string
+  action: AuditAction
+  actorId?: string
+  changes: AuditChanges
+  summary?: string
+  createdAt: string // ISO timestamp
+}
@@ -0,0 +1,29 @@
+import type { Event } from '~/stores/useEventStore'
+
+// Parts of an event an admin picks a side for when merging two copies
+export type MergeField = 'title' | 'description' | 'date' | 'times' | 'location' | 'imageUrl' | 'categories' | 'cost' | 'url'
+
+export const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'date', label: 'Date & recurrence' },
+  { field: 'times', label: 'Times' },
+  { field: 'location', label: 'Venue' },
+  { field: 'imageUrl', label: 'Image' },
+  { field: 'categories', label: 'Categories' },
+  { field: 'cost', label: 'Cost' },
+  { field: 'url', label: 'Link' },
+]
+
+export interface DuplicateEvent extends Event {
+  votes: number
+}
+
+// Two events on the same day that look like the same one
+export interface DuplicateCandidate {
+  events: [DuplicateEvent, DuplicateEvent] // Older first
+  score: number // 0-1, higher is more likely the same event
+  titleSimilarity: number // 0-1
+  sameVenue: boolean
+  distanceMiles?: number // When both have coordinates
+}
@@ -0,0 +1,75 @@
+import type { Event } from '~/stores/useEventStore'
+
+// Formats a source can be pulled in
+export type ConnectorType = 'vendor-json' | 'ical' | 'json-ld' | 'csv'
+
+export type IngestionSchedule = 'hourly' | 'daily' | 'weekly'
+
+export type IngestionRunStatus = 'running' | 'succeeded' | 'failed'
+
+/**
+ * An event as a source describes it. `externalId` is the source's own id for
+ * it, so pulling the source again updates the event instead of duplicating it.
+ */
+export type SourceEvent = Omit<Event, 'id' | 'createdBy'> & { externalId: string }
+
+// What importing one source event did
+export type UpsertOutcome = 'created' | 'updated' | 'unchanged' | 'skipped'
+
+export type UpsertCounts = Record<UpsertOutcome | 'failed', number>
+
+// File formats the admin bulk import reads
+export type ImportFormat = 'vendor-json' | 'csv'
+
+// An existing event an imported row may duplicate
+export interface ImportDuplicate {
+  id: string
+  title: string
+  date: string
+  location: string
+}
+
+/**
+ * One row of an import dry run: the event it would become, what importing
+ * it would do, and what's wrong with it. Rows with errors can't be imported.
+ */
+export interface ImportPreviewRow {
+  index: number // Position in the file, from 0
+  event?: SourceEvent // Missing when the row couldn't be read at all
+  action?: UpsertOutcome
+  changedFields: string[] // For updates
+  errors: string[]
+  warnings: string[]
+  duplicates: ImportDuplicate[]
+}
+
+export interface IngestionRun {
+  id: string
+  sourceId: string
+  sourceName: string
+  status: IngestionRunStatus
+  startedAt: string // ISO timestamp
+  finishedAt?: string // ISO timestamp
+  fetched: number
+  created: number
+  updated: number
+  unchanged: number
+  skipped: number // Already in the trash
+  failed: number
+  delisted: number // Upcoming events the source no longer lists
+  errors: string[]
+}
+
+export interface IngestionSource {
+  id: string
+  name: string
+  slug: string // Stored on imported events as their source
+  type: ConnectorType
+  url: string
+  schedule: IngestionSchedule
+  enabled: boolean
+  autoPublish: boolean // Otherwise new events wait in the review queue
+  lastRunAt?: string // ISO timestamp
+  lastRun?: IngestionRun
+  createdAt: string // ISO timestamp
+}
@@ -0,0 +1,34 @@
+// Long-running admin work, run in resumable steps by the jobs worker
+export type JobType = 'import' | 'dedupe' | 'geocode-backfill' | 'cleanup'
+
+// 'uploading' jobs are still receiving their input and aren't picked up yet
+export type JobStatus = 'uploading' | 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  import: 'Import',
+  dedupe: 'Remove duplicates',
+  'geocode-backfill': 'Geocode events',
+  cleanup: 'Cleanup',
+}
+
+// Jobs the worker will still pick up (or is running)
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['uploading', 'queued', 'running']
+
+export interface Job {
+  id: string
+  type: JobType
+  label: string // What it's working on, e.g. the import's file name
+  status: JobStatus
+  progress: number
+  total?: number
+  result: Record<string, number> // Running totals, e.g. created/updated counts
+  attempts: number // Failed steps so far
+  maxAttempts: number
+  logs: string[]
+  error?: string
+  createdBy?: string
+  createdAt: string // ISO timestamp
+  startedAt?: string // ISO timestamp
+  finishedAt?: string // ISO timestamp
+  updatedAt: string // ISO timestamp
+}
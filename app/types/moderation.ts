@@ -0,0 +1,17 @@
+// Lifecycle of an event. Published, cancelled and postponed events appear in
+// public listings, feeds and the API; the rest are visible to their author
+// and admins.
+export type EventStatus = 'draft' | 'pending' | 'published' | 'rejected' | 'cancelled' | 'postponed'
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  draft: 'Draft',
+  pending: 'Pending review',
+  published: 'Published',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+  postponed: 'Postponed',
+}
+
+// Cancelled and postponed events stay listed (with a badge) so people who
+// planned to go find out
+export const LISTED_EVENT_STATUSES: EventStatus[] = ['published', 'cancelled', 'postponed']
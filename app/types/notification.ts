@@ -0,0 +1,47 @@
+export type NotificationType =
+  | 'event_reminder'
+  | 'event_updated'
+  | 'event_cancelled'
+  | 'event_postponed'
+  | 'event_reinstated'
+  | 'saved_search_matches'
+
+export interface Notification {
+  id: string
+  type: NotificationType
+  title: string
+  body?: string
+  url?: string
+  eventId?: string
+  read: boolean
+  createdAt: string // ISO timestamp
+}
+
+export interface NotificationPreferences {
+  reminders: boolean // A favorited event is tomorrow
+  updates: boolean // A favorited event's details changed
+  cancellations: boolean // A favorited event was cancelled, postponed or reinstated
+  email: boolean // Also send enabled notifications by email
+  weeklyDigest: boolean // The "This weekend in ..." email
+}
+
+export type NotificationCategory = Exclude<keyof NotificationPreferences, 'email' | 'weeklyDigest'>
+
+// Saved search alerts have no category; they're switched on and off per search
+export const NOTIFICATION_CATEGORIES: Record<NotificationType, NotificationCategory | null> = {
+  event_reminder: 'reminders',
+  event_updated: 'updates',
+  event_cancelled: 'cancellations',
+  event_postponed: 'cancellations',
+  event_reinstated: 'cancellations',
+  saved_search_matches: null,
+}
+
+// Email is opt-in; in-app notifications are on until turned off
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  reminders: true,
+  updates: true,
+  cancellations: true,
+  email: false,
+  weeklyDigest: false,
+}
@@ -0,0 +1,17 @@
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+// Two-letter weekday codes as used by iCalendar RRULEs
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+export interface RecurrenceDay {
+  weekday: Weekday
+  ordinal?: number // Monthly only: 1 = first, 2 = second, -1 = last
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  byDay?: RecurrenceDay[]
+  until?: string // YYYY-MM-DD, inclusive
+  count?: number
+}
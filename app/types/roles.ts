@@ -8,4 +8,5 @@ export const USER_ROLES = {
 
 export interface RoleMetadata {
   role: UserRole
+  trusted?: boolean // Author's events skip the moderation queue
 }
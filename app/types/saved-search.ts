@@ -0,0 +1,27 @@
+import type { TimeOfDay } from '~/utils/times'
+
+// The /events filters a saved search remembers. Favorites, sort and paging
+// are left out since they don't change which events match.
+export interface SavedSearchFilters {
+  search?: string
+  category?: string
+  minPrice?: number
+  maxPrice?: number
+  startDate?: string
+  endDate?: string
+  timeOfDay?: TimeOfDay
+  startsAfter?: string // HH:MM
+  near?: string // Address as entered, for display and links
+  lat?: number // Resolved location used for matching
+  lng?: number
+  radius?: number // Miles
+}
+
+export interface SavedSearch {
+  id: string
+  name: string
+  filters: SavedSearchFilters
+  alerts: boolean
+  lastCheckedAt: string // ISO timestamp
+  createdAt: string // ISO timestamp
+}
@@ -0,0 +1,4 @@
+// Listing order; 'relevance' only applies when there is a search query and
+// 'distance' only when filtering by location. 'newest' puts the most recently
+// listed events first
+export type EventSort = 'date' | 'relevance' | 'distance' | 'newest'
@@ -0,0 +1,7 @@
+import type { Event } from '~/stores/useEventStore'
+
+export interface TrashedEvent extends Event {
+  deletedAt: string // ISO timestamp
+  deletedBy?: string
+  purgeDate: string // ISO timestamp; when the cleanup cron purges it
+}
@@ -0,0 +1,15 @@
+export interface Venue {
+  id: string
+  name: string
+  address?: string
+  city?: string
+  region?: string
+  coordinates?: {
+    lat: number
+    lng: number
+  }
+  website?: string
+  accessibilityNotes?: string
+  photos: string[]
+  eventCount?: number // Only set by venue search
+}
@@ -0,0 +1,18 @@
+import { createHash, randomBytes } from 'node:crypto'
+
+// Makes keys recognisable in logs and secret scanners
+const API_KEY_PREFIX = 'le_'
+
+// Characters of the key kept in the database for identifying it
+export const API_KEY_DISPLAY_LENGTH = 10
+
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+}
+
+/**
+ * Keys are stored hashed; a fast hash is fine since keys are long and random
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
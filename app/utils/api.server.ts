@@ -0,0 +1,219 @@
+import { createHash } from 'node:crypto'
+import type { Event } from '~/stores/useEventStore'
+import type { EventCursor } from './events.server'
+import type { RateLimitResult } from './rate-limit.server'
+import { eventTimestamps, SITE_TIMEZONE } from './datetime'
+
+export const API_DEFAULT_LIMIT = 20
+export const API_MAX_LIMIT = 100
+
+/**
+ * Public shape of an event in /api/v1. Field names are part of the API
+ * contract: add fields freely, but never rename or remove one within v1.
+ */
+export interface ApiEvent {
+  id: string
+  title: string
+  description: string
+  status: 'published' | 'cancelled' | 'postponed'
+  statusReason: string | null // Why it was cancelled or postponed
+  originalDate: string | null // Date before a postponed event was moved
+  url: string // Event page on this site
+  website: string | null // Organizer's link
+  date: string // YYYY-MM-DD; for recurring events, the listed occurrence
+  startTime: string | null // HH:MM, 24-hour, in `timezone`
+  endTime: string | null
+  allDay: boolean
+  timezone: string
+  startsAt: string | null // ISO timestamp of the listed occurrence's start; null when its time is unknown
+  endsAt: string | null
+  timesText: string | null // Free-text times as submitted
+  recurrence: {
+    rrule: string
+    text: string | null
+    firstDate: string
+    endDate: string | null
+    exceptionDates: string[]
+  } | null
+  venue: {
+    name: string
+    address: string | null
+    city: string | null
+    latitude: number | null
+    longitude: number | null
+  }
+  price: {
+    min: number | null
+    max: number | null
+    currency: string
+    isFree: boolean
+    isDonation: boolean
+    rsvpRequired: boolean
+    isTicketed: boolean
+    text: string | null // Free-text cost as submitted
+  }
+  categories: string[]
+  imageUrl: string | null
+  distanceMiles: number | null // Only set for lat/lng searches
+  updatedAt: string | null
+}
+
+function apiTimestamps(event: Event): Pick<ApiEvent, 'startsAt' | 'endsAt'> {
+  if (!event.startTime && event.timeStatus !== 'all-day') {
+    return { startsAt: null, endsAt: null }
+  }
+  const { startsAt, endsAt } = eventTimestamps({ ...event, date: event.occurrenceDate || event.date })
+  return { startsAt: startsAt.toISOString(), endsAt: endsAt?.toISOString() ?? null }
+}
+
+export function toApiEvent(event: Event, baseUrl: string): ApiEvent {
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    status: event.status === 'cancelled' || event.status === 'postponed' ? event.status : 'published',
+    statusReason: event.statusReason ?? null,
+    originalDate: event.originalDate ?? null,
+    url: `${baseUrl}/events/${event.id}`,
+    website: event.url ?? null,
+    date: event.occurrenceDate || event.date,
+    startTime: event.startTime ?? null,
+    endTime: event.endTime ?? null,
+    allDay: event.timeStatus === 'all-day',
+    timezone: SITE_TIMEZONE,
+    ...apiTimestamps(event),
+    timesText: event.times ?? null,
+    recurrence: event.rrule
+      ? {
+        rrule: event.rrule,
+        text: event.recurrence ?? null,
+        firstDate: event.date,
+        endDate: event.endDate ?? null,
+        exceptionDates: event.exceptionDates ?? [],
+      }
+      : null,
+    venue: {
+      name: event.location,
+      address: event.address ?? null,
+      city: event.city ?? null,
+      latitude: event.coordinates?.lat ?? null,
+      longitude: event.coordinates?.lng ?? null,
+    },
+    price: {
+      min: event.priceMin ?? null,
+      max: event.priceMax ?? null,
+      currency: event.currency || 'USD',
+      isFree: event.isFree ?? false,
+      isDonation: event.isDonation ?? false,
+      rsvpRequired: event.rsvpRequired ?? false,
+      isTicketed: event.isTicketed ?? false,
+      text: event.cost ?? null,
+    },
+    categories: event.categories ?? [],
+    imageUrl: event.imageUrl ?? null,
+    distanceMiles: event.distanceMiles !== undefined ? Math.round(event.distanceMiles * 100) / 100 : null,
+    updatedAt: event.updatedAt ?? null,
+  }
+}
+
+/**
+ * Cursors are opaque to consumers: base64url-encoded JSON of the position
+ */
+export function encodeCursor(cursor: EventCursor): string {
+  return Buffer.from(JSON.stringify([cursor.occurrenceDate, cursor.startTime, cursor.id])).toString('base64url')
+}
+
+export function decodeCursor(value: string): EventCursor | null {
+  try {
+    const [occurrenceDate, startTime, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    if (typeof occurrenceDate !== 'string' || typeof startTime !== 'string' || typeof id !== 'string') {
+      return null
+    }
+    return { occurrenceDate, startTime, id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Headers every API response carries: open CORS so partner sites can call
+ * the API from the browser, and the caller's rate-limit state
+ */
+function apiHeaders(rateLimit?: RateLimitResult): Headers {
+  const headers = new Headers({
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'X-API-Key, If-None-Match, If-Modified-Since',
+    'Access-Control-Expose-Headers': 'ETag, Last-Modified, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After',
+  })
+  if (rateLimit) {
+    headers.set('X-RateLimit-Limit', rateLimit.limit.toString())
+    headers.set('X-RateLimit-Remaining', rateLimit.remaining.toString())
+    headers.set('X-RateLimit-Reset', Math.ceil(rateLimit.reset.getTime() / 1000).toString())
+  }
+  return headers
+}
+
+export function apiError(status: number, message: string, rateLimit?: RateLimitResult): Response {
+  const headers = apiHeaders(rateLimit)
+  if (status === 429 && rateLimit) {
+    headers.set('Retry-After', Math.max(1, Math.ceil((rateLimit.reset.getTime() - Date.now()) / 1000)).toString())
+  }
+  return Response.json({ error: message }, { status, headers })
+}
+
+/**
+ * Answer a CORS preflight
+ */
+export function apiOptionsResponse(): Response {
+  const headers = apiHeaders()
+  headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS')
+  headers.set('Access-Control-Max-Age', '86400')
+  return new Response(null, { status: 204, headers })
+}
+
+/**
+ * JSON response with a content-hash ETag and (when known) Last-Modified.
+ * Returns 304 Not Modified when the request's validators still match.
+ */
+export function apiJsonResponse(
+  request: Request,
+  body: unknown,
+  { lastModified, rateLimit }: { lastModified?: Date | null; rateLimit?: RateLimitResult } = {}
+): Response {
+  const json = JSON.stringify(body)
+  const etag = `W/"${createHash('sha1').update(json).digest('base64url')}"`
+
+  const headers = apiHeaders(rateLimit)
+  headers.set('ETag', etag)
+  headers.set('Cache-Control', 'public, max-age=60')
+  // Rate-limit headers differ per consumer, so shared caches must not mix them
+  headers.set('Vary', 'X-API-Key')
+  if (lastModified) {
+    headers.set('Last-Modified', lastModified.toUTCString())
+  }
+
+  // If-None-Match takes precedence over If-Modified-Since (RFC 9110)
+  const ifNoneMatch = request.headers.get('If-None-Match')
+  const ifModifiedSince = request.headers.get('If-Modified-Since')
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(',').some((tag) => tag.trim() === etag || tag.trim() === '*')
+    : !!(ifModifiedSince && lastModified &&
+      Math.floor(lastModified.getTime() / 1000) <= Math.floor(new Date(ifModifiedSince).getTime() / 1000))
+
+  if (notModified) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  headers.set('Content-Type', 'application/json; charset=utf-8')
+  return new Response(json, { headers })
+}
+
+/**
+ * Latest updatedAt among the given events, for Last-Modified
+ */
+export function latestUpdate(events: Event[]): Date | null {
+  const timestamps = events
+    .map((event) => (event.updatedAt ? Date.parse(event.updatedAt) : NaN))
+    .filter((time) => Number.isFinite(time))
+  return timestamps.length > 0 ? new Date(Math.max(...timestamps)) : null
+}
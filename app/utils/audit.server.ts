@@ -0,0 +1,107 @@
+import { prisma } from './db.server'
+import type { AuditAction, AuditChanges, AuditEntityType, AuditEntry } from '~/types/audit'
+
+export const AUDIT_PAGE_SIZE = 50
+
+// Bookkeeping columns that change on every write, and timestamps derived from
+// date, times and status, which say nothing about the edit
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'startsAt', 'endsAt', 'listedAt'])
+
+function toComparable(value: unknown): string {
+  return JSON.stringify(value ?? null)
+}
+
+/**
+ * Field-level differences between two versions of a record. Pass null as
+ * `before` for a created record or as `after` for a deleted one.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges {
+  const changes: AuditChanges = {}
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue
+    const from = before?.[field] ?? null
+    const to = after?.[field] ?? null
+    if (toComparable(from) !== toComparable(to)) {
+      // Round-trip through JSON so dates are stored as ISO strings
+      changes[field] = JSON.parse(JSON.stringify({ from, to }))
+    }
+  }
+
+  return changes
+}
+
+interface AuditRecord {
+  entityType: AuditEntityType
+  entityId: string
+  action: AuditAction
+  actorId: string | null
+  changes?: AuditChanges
+  summary?: string
+}
+
+/**
+ * Append an entry to the audit log. Updates that changed nothing are skipped.
+ */
+export async function recordAudit({ entityType, entityId, action, actorId, changes = {}, summary }: AuditRecord): Promise<void> {
+  if (action === 'update' && Object.keys(changes).length === 0) return
+
+  await prisma.auditLog.create({
+    data: {
+      entityType,
+      entityId,
+      action,
+      actorId,
+      changes,
+      summary,
+    },
+  })
+}
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType
+  entityId?: string
+  actorId?: string
+}
+
+/**
+ * Audit entries matching the filters, newest first
+ */
+export async function getAuditLog(
+  filters: AuditLogFilters,
+  page: number = 1
+): Promise<{ entries: AuditEntry[]; totalCount: number }> {
+  const where = {
+    entityType: filters.entityType,
+    entityId: filters.entityId,
+    actorId: filters.actorId,
+  }
+
+  const [rows, totalCount] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * AUDIT_PAGE_SIZE,
+      take: AUDIT_PAGE_SIZE,
+    }),
+    prisma.auditLog.count({ where }),
+  ])
+
+  return {
+    entries: rows.map((row) => ({
+      id: row.id,
+      entityType: row.entityType as AuditEntityType,
+      entityId: row.entityId,
+      action: row.action as AuditAction,
+      actorId: row.actorId || undefined,
+      changes: row.changes as unknown as AuditChanges,
+      summary: row.summary || undefined,
+      createdAt: row.createdAt.toISOString(),
+    })),
+    totalCount,
+  }
+}
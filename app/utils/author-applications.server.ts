@@ -1,5 +1,6 @@
 import { prisma } from './db.server'
 import { updateUserRole } from './roles.server'
+import { diffFields, recordAudit } from './audit.server'
 
 export async function createAuthorApplication(data: {
   userId: string
@@ -32,6 +33,7 @@ export async function getAllApplications() {
 }
 
 export async function approveApplication(applicationId: string, adminUserId: string) {
+  const before = await prisma.authorApplication.findUnique({ where: { id: applicationId } })
   const app = await prisma.authorApplication.update({
     where: { id: applicationId },
     data: {
@@ -41,8 +43,17 @@ export async function approveApplication(applicationId: string, adminUserId: str
     }
   })
 
+  await recordAudit({
+    entityType: 'application',
+    entityId: app.id,
+    action: 'approve',
+    actorId: adminUserId,
+    changes: diffFields(before, app),
+    summary: app.fullName,
+  })
+
   // Update user role to author
-  await updateUserRole(app.userId, 'author')
+  await updateUserRole(app.userId, 'author', adminUserId)
 
   return app
 }
@@ -52,7 +63,8 @@ export async function rejectApplication(
   adminUserId: string,
   notes?: string
 ) {
-  return await prisma.authorApplication.update({
+  const before = await prisma.authorApplication.findUnique({ where: { id: applicationId } })
+  const app = await prisma.authorApplication.update({
     where: { id: applicationId },
     data: {
       status: 'rejected',
@@ -61,4 +73,15 @@ export async function rejectApplication(
       reviewNotes: notes
     }
   })
+
+  await recordAudit({
+    entityType: 'application',
+    entityId: app.id,
+    action: 'reject',
+    actorId: adminUserId,
+    changes: diffFields(before, app),
+    summary: app.fullName,
+  })
+
+  return app
 }
@@ -0,0 +1,33 @@
+import { randomBytes } from 'node:crypto'
+import { prisma } from './db.server'
+
+function generateToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+/**
+ * Get the user's favorites feed token, creating one on first use
+ */
+export async function getOrCreateFeedToken(userId: string): Promise<string> {
+  const existing = await prisma.calendarFeedToken.findUnique({
+    where: { userId }
+  })
+  if (existing) return existing.token
+
+  const created = await prisma.calendarFeedToken.upsert({
+    where: { userId },
+    update: {},
+    create: { userId, token: generateToken() }
+  })
+  return created.token
+}
+
+/**
+ * Resolve a feed token to the user it belongs to
+ */
+export async function getUserIdForFeedToken(token: string): Promise<string | null> {
+  const feedToken = await prisma.calendarFeedToken.findUnique({
+    where: { token }
+  })
+  return feedToken?.userId ?? null
+}
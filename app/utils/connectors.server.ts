@@ -0,0 +1,414 @@
+import type { ConnectorType, SourceEvent } from '~/types/ingestion'
+import type { ApiEvent } from './transformApiData'
+import { transformApiEvent } from './transformApiData'
+import { guessCsvMapping, parseCsvRecords, type CsvField, type CsvMapping } from './csv'
+import { addDays, toSiteDateTimeInput } from './datetime'
+import { describeRecurrence, formatRRule, parseRRule } from './recurrence'
+import { formatTimeRange, parseTimes, type StructuredTimes } from './times'
+
+/**
+ * Pulls events from one kind of external source. `fetch` downloads a source
+ * and splits it into raw records; `transform` turns one record into an event
+ * and throws when the record can't be used, so one bad record doesn't sink
+ * the rest.
+ */
+export interface SourceConnector<Raw = unknown> {
+  type: ConnectorType
+  label: string
+  description: string // Shown when adding a source
+  fetch(url: string): Promise<Raw[]>
+  transform(record: Raw, sourceUrl: string): SourceEvent
+}
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url, { headers: { 'User-Agent': 'LocalEventsIngest/1.0' } })
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status} ${response.statusText}`)
+  }
+  return response.text()
+}
+
+/**
+ * A wall-clock date and time, or a date alone for all-day values
+ */
+interface SiteDateTime {
+  date: string // YYYY-MM-DD
+  time?: string // HH:MM
+}
+
+function siteDateTimeFromInstant(instant: Date): SiteDateTime {
+  const [date, time] = toSiteDateTimeInput(instant).split('T')
+  return { date, time }
+}
+
+/**
+ * Times for an event starting at `start`, plus the end date when an all-day
+ * event runs over several days
+ */
+function scheduleFields(start: SiteDateTime, end?: SiteDateTime): StructuredTimes & { times?: string; endDate?: string } {
+  if (!start.time) {
+    // All day; `end` is the last day of an event running over several
+    const endDate = end && end.date > start.date ? end.date : undefined
+    return { timeStatus: 'all-day', times: 'All day', endDate }
+  }
+
+  const times: StructuredTimes = {
+    startTime: start.time,
+    // Ends on a later day only count when they finish by the next morning
+    endTime: end?.time && (end.date === start.date || end.date === addDays(start.date, 1)) ? end.time : undefined,
+    timeStatus: 'timed',
+  }
+  return { ...times, times: formatTimeRange(times) }
+}
+
+/**
+ * "Venue, 123 Main St, Durham, NC" → location "Venue", address the rest
+ */
+function splitLocation(value: string): { location: string; address?: string } {
+  const [location, ...rest] = value.split(',').map((part) => part.trim())
+  return { location, address: rest.length > 0 ? rest.join(', ') : undefined }
+}
+
+function requireField<T>(value: T | undefined | null | '', message: string): T {
+  if (value === undefined || value === null || value === '') throw new Error(message)
+  return value
+}
+
+// --- Vendor JSON (the original bulk upload format) ---
+
+export const vendorJsonConnector: SourceConnector<ApiEvent> = {
+  type: 'vendor-json',
+  label: 'Vendor JSON',
+  description: 'A JSON array of events in the vendor export format used by the bulk upload',
+  async fetch(url) {
+    const data = JSON.parse(await fetchText(url))
+    if (!Array.isArray(data)) throw new Error('Expected a JSON array of events')
+    return data
+  },
+  transform: transformApiEvent,
+}
+
+// --- iCalendar feeds ---
+
+interface IcsProperty {
+  value: string
+  params: Record<string, string>
+}
+
+// Properties of one VEVENT by name; most appear once
+type IcsEvent = Record<string, IcsProperty[]>
+
+/**
+ * Split an .ics file into its VEVENTs. Lines are unfolded first; nested
+ * components (alarms) are skipped.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const events: IcsEvent[] = []
+  let current: IcsEvent | null = null
+  let nested = 0
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {}
+    } else if (line === 'END:VEVENT') {
+      if (current) events.push(current)
+      current = null
+    } else if (current && line.startsWith('BEGIN:')) {
+      nested++
+    } else if (current && line.startsWith('END:')) {
+      nested--
+    } else if (current && nested === 0) {
+      const property = parseIcsLine(line)
+      if (property) (current[property.name] ??= []).push(property)
+    }
+  }
+
+  return events
+}
+
+function parseIcsLine(line: string): (IcsProperty & { name: string }) | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) return null
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';')
+  const params = Object.fromEntries(paramParts.map((part) => {
+    const [key, value = ''] = part.split('=')
+    return [key.toUpperCase(), value.replace(/^"|"$/g, '')]
+  }))
+  return { name: name.toUpperCase(), value: line.slice(colon + 1), params }
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+function icsText(event: IcsEvent, name: string): string | undefined {
+  const value = event[name]?.[0]?.value
+  return value ? unescapeIcsText(value).trim() || undefined : undefined
+}
+
+/**
+ * Read a DATE or DATE-TIME value. UTC values are converted to the site
+ * timezone; values with a TZID or none are taken as site wall-clock times,
+ * which holds for local event calendars.
+ */
+function icsDateTime(property: IcsProperty | undefined): SiteDateTime | undefined {
+  const match = property?.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return undefined
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  if (!hour) return { date: `${year}-${month}-${day}` }
+  if (utc) {
+    return siteDateTimeFromInstant(new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)))
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hour}:${minute}` }
+}
+
+export const icalConnector: SourceConnector<IcsEvent> = {
+  type: 'ical',
+  label: 'iCalendar feed',
+  description: 'An .ics calendar feed, e.g. a Google Calendar public address or a venue\'s calendar export',
+  async fetch(url) {
+    return parseIcs(await fetchText(url))
+  },
+  transform(record) {
+    const title = requireField(icsText(record, 'SUMMARY'), 'Event has no SUMMARY')
+    const start = requireField(icsDateTime(record.DTSTART?.[0]), `"${title}" has no valid DTSTART`)
+    const place = splitLocation(requireField(icsText(record, 'LOCATION'), `"${title}" has no LOCATION`))
+
+    // All-day DTEND is exclusive
+    let end = icsDateTime(record.DTEND?.[0])
+    if (end && !end.time) end = { date: addDays(end.date, -1) }
+
+    const [lat, lng] = (record.GEO?.[0]?.value ?? '').split(';').map(Number)
+    const rule = record.RRULE ? parseRRule(record.RRULE[0].value) : null
+    const schedule = scheduleFields(start, end)
+
+    return {
+      externalId: icsText(record, 'UID') ?? `${title}|${start.date}`,
+      title,
+      description: icsText(record, 'DESCRIPTION') ?? `${title} at ${place.location}`,
+      ...place,
+      coordinates: Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined,
+      date: start.date,
+      ...schedule,
+      url: icsText(record, 'URL'),
+      imageUrl: icsText(record, 'IMAGE'),
+      categories: record.CATEGORIES?.flatMap((property) => unescapeIcsText(property.value).split(',').map((c) => c.trim())).filter(Boolean),
+      ...(rule ? {
+        recurrence: describeRecurrence(rule),
+        rrule: formatRRule(rule),
+        endDate: rule.until,
+        exceptionDates: record.EXDATE
+          ?.flatMap((property) => property.value.split(','))
+          .map((value) => icsDateTime({ value, params: {} })?.date)
+          .filter((date): date is string => !!date),
+      } : {}),
+    }
+  },
+}
+
+// --- schema.org JSON-LD embedded in web pages ---
+
+type JsonLdNode = Record<string, any>
+
+function isEventNode(node: JsonLdNode): boolean {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']]
+  return types.some((type) => typeof type === 'string' && type.endsWith('Event'))
+}
+
+/**
+ * Every schema.org Event (or subtype, e.g. MusicEvent) in a page's
+ * `application/ld+json` scripts, including those inside @graph
+ */
+export function extractJsonLdEvents(html: string): JsonLdNode[] {
+  const events: JsonLdNode[] = []
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(visit)
+    if (!node || typeof node !== 'object') return
+    const record = node as JsonLdNode
+    if (isEventNode(record)) events.push(record)
+    if (record['@graph']) visit(record['@graph'])
+  }
+
+  for (const match of html.matchAll(/<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      visit(JSON.parse(match[1]))
+    } catch {
+      // Pages often carry malformed JSON-LD alongside good blocks
+    }
+  }
+  return events
+}
+
+/**
+ * Read a schema.org date or date-time. Values with an offset or Z are
+ * converted to the site timezone; those without are site wall-clock times.
+ */
+function jsonLdDateTime(value: unknown): SiteDateTime | undefined {
+  if (typeof value !== 'string') return undefined
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/)
+  if (!match) return undefined
+
+  const [, date, time, offset] = match
+  if (!time) return { date }
+  if (offset) return siteDateTimeFromInstant(new Date(value))
+  return { date, time }
+}
+
+function stripHtml(value: string): string {
+  return value.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+function firstOf<T>(value: T | T[] | undefined): T | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+function jsonLdPlace(value: unknown): { location: string; address?: string; city?: string; coordinates?: { lat: number; lng: number } } | undefined {
+  const place = firstOf(value as JsonLdNode | JsonLdNode[] | string | undefined)
+  if (!place) return undefined
+  if (typeof place === 'string') return splitLocation(place)
+  if (place['@type'] === 'VirtualLocation') return undefined
+
+  const address = place.address
+  const street = typeof address === 'string' ? address : address?.streetAddress
+  const lat = Number(place.geo?.latitude)
+  const lng = Number(place.geo?.longitude)
+
+  return {
+    location: place.name || street,
+    address: street,
+    city: typeof address === 'object' ? address?.addressLocality : undefined,
+    coordinates: Number.isFinite(lat) && Number.isFinite(lng) && place.geo ? { lat, lng } : undefined,
+  }
+}
+
+function jsonLdCost(offers: unknown): string | undefined {
+  const offer = firstOf(offers as JsonLdNode | JsonLdNode[] | undefined)
+  if (!offer || offer.price === undefined || offer.price === '') return undefined
+  const price = Number(offer.price)
+  if (price === 0) return 'Free'
+  return Number.isFinite(price) ? `$${price}` : String(offer.price)
+}
+
+export const jsonLdConnector: SourceConnector<JsonLdNode> = {
+  type: 'json-ld',
+  label: 'Web page (schema.org)',
+  description: 'A web page listing events with schema.org Event markup, as most ticketing and venue sites publish',
+  async fetch(url) {
+    return extractJsonLdEvents(await fetchText(url))
+  },
+  transform(record, sourceUrl) {
+    const title = requireField(typeof record.name === 'string' ? stripHtml(record.name) : undefined, 'Event has no name')
+    if (String(record.eventStatus ?? '').endsWith('EventCancelled')) {
+      throw new Error(`"${title}" is cancelled`)
+    }
+    const start = requireField(jsonLdDateTime(record.startDate), `"${title}" has no valid startDate`)
+    const place = requireField(jsonLdPlace(record.location), `"${title}" has no physical location`)
+    const image = firstOf(record.image as JsonLdNode | string | (JsonLdNode | string)[] | undefined)
+    const url = typeof record.url === 'string' ? new URL(record.url, sourceUrl).toString() : undefined
+
+    return {
+      externalId: record['@id'] || url || `${title}|${start.date}`,
+      title,
+      description: typeof record.description === 'string'
+        ? stripHtml(record.description)
+        : `${title} at ${place.location}`,
+      ...place,
+      date: start.date,
+      ...scheduleFields(start, jsonLdDateTime(record.endDate)),
+      url: url ?? sourceUrl,
+      imageUrl: typeof image === 'string' ? image : image?.url,
+      cost: jsonLdCost(record.offers),
+    }
+  },
+}
+
+// --- CSV ---
+
+/**
+ * Read a CSV field from the column it's mapped to
+ */
+function csvField(record: Record<string, string>, mapping: CsvMapping, field: CsvField): string | undefined {
+  const column = mapping[field]
+  return column ? record[column] || undefined : undefined
+}
+
+/**
+ * Accepts YYYY-MM-DD or US-style M/D/YYYY
+ */
+export function parseCsvDate(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (!match) return undefined
+  return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`
+}
+
+/**
+ * Turn a CSV row into an event, reading each field from the column `mapping`
+ * gives for it. Rows without an ID column are keyed by title, date and location.
+ */
+export function transformCsvRecord(record: Record<string, string>, mapping: CsvMapping): SourceEvent {
+  const title = requireField(csvField(record, mapping, 'title'), 'Row has no title')
+  const date = requireField(parseCsvDate(csvField(record, mapping, 'date')), `"${title}" has no valid date`)
+  const location = requireField(csvField(record, mapping, 'location'), `"${title}" has no location`)
+
+  // Separate start/end columns win over a combined times column
+  const startTime = csvField(record, mapping, 'startTime')
+  const endTime = csvField(record, mapping, 'endTime')
+  const times = startTime ? [startTime, endTime].filter(Boolean).join(' - ') : csvField(record, mapping, 'times')
+  const parsedTimes = parseTimes(times)
+  const schedule = parsedTimes && !parsedTimes.allDay
+    ? scheduleFields({ date, time: parsedTimes.start }, parsedTimes.end ? { date, time: parsedTimes.end } : undefined)
+    : { times }
+
+  const lat = Number(csvField(record, mapping, 'latitude'))
+  const lng = Number(csvField(record, mapping, 'longitude'))
+
+  return {
+    externalId: csvField(record, mapping, 'externalId') ?? `${title}|${date}|${location}`,
+    title,
+    description: csvField(record, mapping, 'description') ?? `${title} at ${location}`,
+    location,
+    address: csvField(record, mapping, 'address'),
+    city: csvField(record, mapping, 'city'),
+    coordinates: csvField(record, mapping, 'latitude') && Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined,
+    date,
+    endDate: parseCsvDate(csvField(record, mapping, 'endDate')),
+    ...schedule,
+    cost: csvField(record, mapping, 'cost'),
+    url: csvField(record, mapping, 'url'),
+    imageUrl: csvField(record, mapping, 'imageUrl'),
+    categories: csvField(record, mapping, 'categories')?.split(/[;,|]/).map((category) => category.trim()).filter(Boolean),
+  }
+}
+
+export const csvConnector: SourceConnector<Record<string, string>> = {
+  type: 'csv',
+  label: 'CSV',
+  description: 'A CSV file with a header row; columns such as title, date, start time, end time, location, address, city, cost, url, image and categories are recognized',
+  async fetch(url) {
+    return parseCsvRecords(await fetchText(url))
+  },
+  transform(record) {
+    return transformCsvRecord(record, guessCsvMapping(Object.keys(record)))
+  },
+}
+
+export const CONNECTORS: Record<ConnectorType, SourceConnector<any>> = {
+  'vendor-json': vendorJsonConnector,
+  ical: icalConnector,
+  'json-ld': jsonLdConnector,
+  csv: csvConnector,
+}
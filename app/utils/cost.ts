@@ -0,0 +1,120 @@
+export interface ParsedCost {
+  priceMin: number | null // Cheapest way in; 0 when the event can be attended free
+  priceMax: number | null
+  currency: string // ISO 4217
+  isFree: boolean
+  isDonation: boolean
+  rsvpRequired: boolean
+  isTicketed: boolean
+}
+
+// Upper end of the price-range filter; the top of the slider means "or more"
+export const PRICE_FILTER_MAX = 100
+export const PRICE_FILTER_STEP = 5
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+}
+
+const CURRENCY_NAMES: Record<string, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+}
+
+// "$10", "$ 10.50", "USD 10", "$15-20", "$15 - $20"
+const AMOUNT_PATTERN = /(?:([$€£])|\bUSD\s*)\s*(\d+(?:\.\d{1,2})?)(?:\s*(?:-|–|to)\s*[$€£]?\s*(\d+(?:\.\d{1,2})?))?/gi
+
+// A cost that is nothing but a number or range: "10", "0", "15-20"
+const BARE_AMOUNT_PATTERN = /^\s*(\d+(?:\.\d{1,2})?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d{1,2})?))?\s*$/
+
+// "free" as the price, not "free parking" or "gluten-free"
+const FREE_PATTERN = /(?<!-)\b(free|no cost|no charge|complimentary)\b(?!\s+(parking|food|drinks?|snacks|refreshments|beer|wifi|swag))/i
+const DONATION_PATTERN = /\b(donations?|suggested|pay what you (can|want|wish)|pwyc|by donation)\b/i
+const RSVP_PATTERN = /\b(rsvp|registration (is )?required|register|sign[\s-]?up required)\b/i
+const TICKET_PATTERN = /\b(tickets?|admission|at the door|advance|presale|cover)\b/i
+
+/**
+ * Parse the free-text `cost` field ("Free", "$10 - $25", "Free with RSVP, $10
+ * at door", "Suggested donation $5") into a price range and flags. Returns
+ * null when the cost is empty.
+ */
+export function parseCost(value: string | null | undefined): ParsedCost | null {
+  const text = value?.trim()
+  if (!text) return null
+
+  const amounts: number[] = []
+  let currency = 'USD'
+
+  const bare = text.match(BARE_AMOUNT_PATTERN)
+  if (bare) {
+    amounts.push(parseFloat(bare[1]))
+    if (bare[2]) amounts.push(parseFloat(bare[2]))
+  } else {
+    for (const match of text.matchAll(AMOUNT_PATTERN)) {
+      if (match[1]) currency = CURRENCY_SYMBOLS[match[1]] ?? currency
+      amounts.push(parseFloat(match[2]))
+      if (match[3]) amounts.push(parseFloat(match[3]))
+    }
+  }
+
+  const isDonation = DONATION_PATTERN.test(text)
+  // Donation-based events can be attended without paying
+  const isFree = FREE_PATTERN.test(text) || isDonation || (amounts.length > 0 && Math.min(...amounts) === 0)
+  const paidAmounts = amounts.filter((amount) => amount > 0)
+
+  let priceMin: number | null = null
+  let priceMax: number | null = null
+  if (isFree) {
+    priceMin = 0
+    priceMax = paidAmounts.length > 0 ? Math.max(...paidAmounts) : 0
+  } else if (paidAmounts.length > 0) {
+    priceMin = Math.min(...paidAmounts)
+    priceMax = Math.max(...paidAmounts)
+  }
+
+  return {
+    priceMin,
+    priceMax,
+    currency,
+    isFree,
+    isDonation,
+    rsvpRequired: RSVP_PATTERN.test(text),
+    isTicketed: TICKET_PATTERN.test(text) || (paidAmounts.length > 0 && !isDonation),
+  }
+}
+
+function formatAmount(amount: number, currency: string): string {
+  const symbol = CURRENCY_NAMES[currency] ?? `${currency} `
+  return `${symbol}${Number.isInteger(amount) ? amount : amount.toFixed(2)}`
+}
+
+/**
+ * Short price label for badges, e.g. "Free", "$10", "Free - $10", "$15 - $25".
+ * Returns null when the price is unknown.
+ */
+export function formatPriceRange(cost: {
+  priceMin?: number | null
+  priceMax?: number | null
+  currency?: string | null
+}): string | null {
+  if (cost.priceMin === null || cost.priceMin === undefined) return null
+
+  const currency = cost.currency || 'USD'
+  const min = cost.priceMin === 0 ? 'Free' : formatAmount(cost.priceMin, currency)
+  if (cost.priceMax === null || cost.priceMax === undefined || cost.priceMax === cost.priceMin) {
+    return min
+  }
+  return `${min} - ${formatAmount(cost.priceMax, currency)}`
+}
+
+/**
+ * Read a minPrice/maxPrice search param; invalid or negative values are ignored
+ */
+export function parsePriceParam(value: string | null): number | undefined {
+  if (!value) return undefined
+  const amount = parseFloat(value)
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined
+}
@@ -0,0 +1,114 @@
+/**
+ * Parse CSV text (RFC 4180: quoted fields may contain commas, quotes as "" and
+ * line breaks) into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  // Excel exports often start with a byte order mark
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+/**
+ * Parse CSV with a header row into one record per line, keyed by header
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+
+  const columns = header.map((name) => name.trim())
+  return rows.map((row) =>
+    Object.fromEntries(columns.map((column, i) => [column, (row[i] ?? '').trim()]))
+  )
+}
+
+/**
+ * Event fields a CSV column can be read into, with a label for the column
+ * mapping form and the header names recognized for each (compared
+ * case-insensitively, ignoring spaces, dashes and underscores)
+ */
+export const CSV_FIELDS = {
+  externalId: { label: 'ID', aliases: ['id', 'externalid', 'eventid', 'uid'] },
+  title: { label: 'Title', aliases: ['title', 'name', 'eventname'] },
+  description: { label: 'Description', aliases: ['description', 'details', 'summary'] },
+  date: { label: 'Date', aliases: ['date', 'startdate', 'eventdate'] },
+  endDate: { label: 'End date', aliases: ['enddate'] },
+  startTime: { label: 'Start time', aliases: ['starttime', 'start'] },
+  endTime: { label: 'End time', aliases: ['endtime', 'end'] },
+  times: { label: 'Times (free text)', aliases: ['times', 'time', 'hours'] },
+  location: { label: 'Location', aliases: ['location', 'venue', 'place'] },
+  address: { label: 'Address', aliases: ['address', 'streetaddress'] },
+  city: { label: 'City', aliases: ['city'] },
+  cost: { label: 'Cost', aliases: ['cost', 'price', 'admission'] },
+  url: { label: 'URL', aliases: ['url', 'link', 'website'] },
+  imageUrl: { label: 'Image URL', aliases: ['image', 'imageurl', 'photo'] },
+  categories: { label: 'Categories', aliases: ['categories', 'category', 'tags'] },
+  latitude: { label: 'Latitude', aliases: ['latitude', 'lat'] },
+  longitude: { label: 'Longitude', aliases: ['longitude', 'lng', 'lon'] },
+} as const
+
+export type CsvField = keyof typeof CSV_FIELDS
+
+// The column each field is read from
+export type CsvMapping = Partial<Record<CsvField, string>>
+
+/**
+ * Whether a value from a request body is a column mapping: known fields,
+ * each naming a column
+ */
+export function isCsvMapping(value: unknown): value is CsvMapping {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  return Object.entries(value).every(([field, column]) => field in CSV_FIELDS && typeof column === 'string')
+}
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '')
+}
+
+/**
+ * Map fields to columns by their recognized header names
+ */
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {}
+  for (const [field, { aliases }] of Object.entries(CSV_FIELDS) as [CsvField, (typeof CSV_FIELDS)[CsvField]][]) {
+    const column = headers.find((header) => (aliases as readonly string[]).includes(normalizeHeader(header)))
+    if (column) mapping[field] = column
+  }
+  return mapping
+}
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { eventTimestamps, getToday, siteDateTimeToInstant, toSiteDate } from './datetime'
+
+// The site is in America/New_York. In 2026 clocks spring forward at 2:00 on
+// March 8 and fall back at 2:00 on November 1.
+
+describe('siteDateTimeToInstant', () => {
+  it('converts standard and daylight time', () => {
+    expect(siteDateTimeToInstant('2026-01-15', '18:00').toISOString()).toBe('2026-01-15T23:00:00.000Z')
+    expect(siteDateTimeToInstant('2026-07-15', '18:00').toISOString()).toBe('2026-07-15T22:00:00.000Z')
+  })
+
+  it('defaults to midnight', () => {
+    expect(siteDateTimeToInstant('2026-07-15').toISOString()).toBe('2026-07-15T04:00:00.000Z')
+  })
+
+  it('moves a time skipped when clocks spring forward past the jump', () => {
+    // 2:30 doesn't exist that night; it becomes 3:30 daylight time
+    expect(siteDateTimeToInstant('2026-03-08', '02:30').toISOString()).toBe('2026-03-08T07:30:00.000Z')
+    expect(siteDateTimeToInstant('2026-03-08', '01:30').toISOString()).toBe('2026-03-08T06:30:00.000Z')
+    expect(siteDateTimeToInstant('2026-03-08', '03:30').toISOString()).toBe('2026-03-08T07:30:00.000Z')
+  })
+
+  it('takes the first of a time repeated when clocks fall back', () => {
+    // 1:30 happens twice that night, first in daylight time
+    expect(siteDateTimeToInstant('2026-11-01', '01:30').toISOString()).toBe('2026-11-01T05:30:00.000Z')
+    expect(siteDateTimeToInstant('2026-11-01', '02:30').toISOString()).toBe('2026-11-01T07:30:00.000Z')
+  })
+
+  it('puts a late evening on the next UTC day', () => {
+    expect(siteDateTimeToInstant('2026-07-15', '23:30').toISOString()).toBe('2026-07-16T03:30:00.000Z')
+    expect(siteDateTimeToInstant('2026-12-31', '23:30').toISOString()).toBe('2027-01-01T04:30:00.000Z')
+  })
+})
+
+describe('toSiteDate', () => {
+  it('gives the site date, not the UTC date', () => {
+    expect(toSiteDate('2026-07-16T03:30:00.000Z')).toBe('2026-07-15')
+    expect(toSiteDate('2026-07-16T04:00:00.000Z')).toBe('2026-07-16')
+    expect(toSiteDate(new Date('2027-01-01T04:30:00.000Z'))).toBe('2026-12-31')
+  })
+
+  it('round-trips a late evening', () => {
+    expect(toSiteDate(siteDateTimeToInstant('2026-07-15', '23:30'))).toBe('2026-07-15')
+  })
+})
+
+describe('getToday', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('is still yesterday in the evening after UTC midnight', () => {
+    vi.useFakeTimers({ now: new Date('2026-07-16T02:00:00.000Z') })
+    expect(getToday()).toBe('2026-07-15')
+  })
+
+  it('rolls over at midnight site time', () => {
+    vi.useFakeTimers({ now: new Date('2026-07-16T04:00:00.000Z') })
+    expect(getToday()).toBe('2026-07-16')
+  })
+})
+
+describe('eventTimestamps', () => {
+  it('spans the whole day without a start time', () => {
+    const { startsAt, endsAt } = eventTimestamps({ date: '2026-07-15' })
+    expect(startsAt.toISOString()).toBe('2026-07-15T04:00:00.000Z')
+    expect(endsAt?.toISOString()).toBe('2026-07-16T04:00:00.000Z')
+  })
+
+  it('spans 23 hours on the day clocks spring forward', () => {
+    const { startsAt, endsAt } = eventTimestamps({ date: '2026-03-08' })
+    expect(endsAt!.getTime() - startsAt.getTime()).toBe(23 * 60 * 60 * 1000)
+  })
+
+  it('has no end without an end time', () => {
+    const { startsAt, endsAt } = eventTimestamps({ date: '2026-07-15', startTime: '19:00', endTime: null })
+    expect(startsAt.toISOString()).toBe('2026-07-15T23:00:00.000Z')
+    expect(endsAt).toBeNull()
+  })
+
+  it('ends the next day when the end time is past midnight', () => {
+    const { startsAt, endsAt } = eventTimestamps({ date: '2026-07-15', startTime: '22:00', endTime: '01:00' })
+    expect(startsAt.toISOString()).toBe('2026-07-16T02:00:00.000Z')
+    expect(endsAt?.toISOString()).toBe('2026-07-16T05:00:00.000Z')
+  })
+
+  it('counts the extra hour when a late event runs through the fall-back', () => {
+    const { startsAt, endsAt } = eventTimestamps({ date: '2026-10-31', startTime: '22:00', endTime: '02:00' })
+    expect(startsAt.toISOString()).toBe('2026-11-01T02:00:00.000Z')
+    expect(endsAt?.toISOString()).toBe('2026-11-01T07:00:00.000Z')
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Dates and times in the site's timezone. Event dates are YYYY-MM-DD strings
+ * and times are "HH:MM", both wall-clock values in SITE_TIMEZONE; everything
+ * here gives the same answer on the server and in the browser, whatever
+ * timezone either runs in.
+ */
+
+import { SITE } from './site'
+
+// IANA timezone the site's events happen in
+export const SITE_TIMEZONE = SITE.timezone
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const SITE_PARTS = new Intl.DateTimeFormat('en-US', {
+  timeZone: SITE_TIMEZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+})
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+function siteParts(date: Date): Record<string, number> {
+  return Object.fromEntries(
+    SITE_PARTS.formatToParts(date)
+      .filter((part) => part.type !== 'literal')
+      .map((part) => [part.type, Number(part.value)])
+  )
+}
+
+// Milliseconds the site's wall-clock time is ahead of UTC at an instant
+function siteOffset(utcMs: number): number {
+  const p = siteParts(new Date(utcMs))
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - utcMs
+}
+
+function toUTCDate(date: string): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) in the site timezone at an instant
+ */
+export function toSiteDate(instant: Date | string): string {
+  const p = siteParts(new Date(instant))
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the site timezone
+ */
+export function getToday(): string {
+  return toSiteDate(new Date())
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date string.
+ * Works in UTC so the result never shifts with the server's timezone.
+ */
+export function addDays(date: string, days: number): string {
+  const d = toUTCDate(date)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+/**
+ * Day of the week of a YYYY-MM-DD date, 0 for Sunday
+ */
+export function dayOfWeek(date: string): number {
+  return toUTCDate(date).getUTCDay()
+}
+
+/**
+ * The instant a wall-clock date and time in the site timezone refers to.
+ * A time skipped when clocks spring forward resolves to the same clock reading
+ * after the jump (2:30 becomes 3:30); a time repeated when they fall back
+ * resolves to its first occurrence.
+ */
+export function siteDateTimeToInstant(date: string, time = '00:00'): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  // The offsets either side of any DST change that day
+  const offsetBefore = siteOffset(wallClock - DAY_MS)
+  const offsetAfter = siteOffset(wallClock + DAY_MS)
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter]
+    .filter((instant) => instant + siteOffset(instant) === wallClock)
+
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : wallClock - offsetBefore)
+}
+
+/**
+ * Parse a `datetime-local` value ("YYYY-MM-DDTHH:MM") entered in the site timezone
+ * @returns The instant it refers to, or null if the value is malformed
+ */
+export function parseSiteDateTime(value: string): Date | null {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})$/)
+  if (!match) return null
+  return siteDateTimeToInstant(match[1], match[2])
+}
+
+/**
+ * Format an instant as a `datetime-local` value in the site timezone
+ */
+export function toSiteDateTimeInput(value: Date | string): string {
+  const p = siteParts(new Date(value))
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`
+}
+
+/**
+ * Format a date string to "Month Day, Year" format
+ * @param dateString - Date string in YYYY-MM-DD format or ISO format
+ * @returns Formatted date string (e.g., "December 25, 2025")
+ */
+export function formatDate(dateString: string): string {
+  if (!dateString) return ''
+
+  // The date is already a calendar date, so format it as-is rather than as an instant
+  return toUTCDate(dateString).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+}
+
+/**
+ * Format an instant as e.g. "Dec 25, 2025, 6:00 PM" in the site timezone
+ */
+export function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('en-US', {
+    timeZone: SITE_TIMEZONE,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Start and end of an event as instants. Events without a start time span the
+ * whole day; an end time at or before the start time is taken to be after
+ * midnight, on the next day.
+ */
+export function eventTimestamps(event: {
+  date: string
+  startTime?: string | null
+  endTime?: string | null
+}): { startsAt: Date; endsAt: Date | null } {
+  if (!event.startTime) {
+    return {
+      startsAt: siteDateTimeToInstant(event.date),
+      endsAt: siteDateTimeToInstant(addDays(event.date, 1)),
+    }
+  }
+
+  const endDate = event.endTime && event.endTime <= event.startTime ? addDays(event.date, 1) : event.date
+  return {
+    startsAt: siteDateTimeToInstant(event.date, event.startTime),
+    endsAt: event.endTime ? siteDateTimeToInstant(endDate, event.endTime) : null,
+  }
+}
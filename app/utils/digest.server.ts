@@ -0,0 +1,223 @@
+import { prisma } from './db.server'
+import type { Event } from '~/stores/useEventStore'
+import { getEventsWithOccurrences } from './events.server'
+import { getVoteCountsForEvents } from './votes.server'
+import { getOrCreateUnsubscribeToken, getUserEmails } from './notifications.server'
+import { escapeHtml, sendEmail, siteUrl } from './email.server'
+import { addDays, dayOfWeek, formatDate, getToday } from './datetime'
+import { formatTimeRange } from './times'
+import { SITE } from './site'
+
+// Events in each digest
+export const DIGEST_EVENT_COUNT = 8
+
+// When ranking for a user, each of their favorite categories an event is in
+// counts as this many votes
+const FAVORITE_CATEGORY_WEIGHT = 5
+
+export interface DigestEntry {
+  event: Event
+  date: string // Occurrence inside the digest window
+  votes: number
+}
+
+export interface Digest {
+  from: string
+  to: string
+  entries: DigestEntry[]
+}
+
+/**
+ * The weekend a digest sent today covers: the coming Friday to Sunday, or
+ * the rest of the current weekend when it has already started
+ */
+export function getDigestWindow(today: string = getToday()): { from: string; to: string } {
+  const weekday = dayOfWeek(today)
+  if (weekday === 6) return { from: today, to: addDays(today, 1) }
+  if (weekday === 0) return { from: today, to: today }
+  const friday = addDays(today, 5 - weekday)
+  return { from: friday, to: addDays(friday, 2) }
+}
+
+/**
+ * Categories of the events each user favorited, with how many of them are in
+ * each category
+ */
+async function getFavoriteCategories(userIds: string[]): Promise<Map<string, Map<string, number>>> {
+  const votes = await prisma.vote.findMany({
+    where: { userId: { in: userIds } },
+    select: { userId: true, event: { select: { categories: true } } },
+  })
+
+  const byUser = new Map<string, Map<string, number>>()
+  for (const vote of votes) {
+    const counts = byUser.get(vote.userId) ?? new Map<string, number>()
+    for (const category of vote.event.categories) {
+      counts.set(category, (counts.get(category) ?? 0) + 1)
+    }
+    byUser.set(vote.userId, counts)
+  }
+  return byUser
+}
+
+/**
+ * Every event worth a mention in the window, with its vote count. Cancelled
+ * events and those postponed without a new date are left out.
+ */
+async function getDigestCandidates(window: { from: string; to: string }): Promise<DigestEntry[]> {
+  const events = (await getEventsWithOccurrences(window.from, window.to))
+    .filter((event) => event.status !== 'cancelled' && !(event.status === 'postponed' && !event.originalDate))
+  const voteCounts = await getVoteCountsForEvents(events.map((event) => event.id))
+
+  return events.map(({ occurrences, ...event }) => ({
+    event,
+    date: occurrences[0],
+    votes: voteCounts[event.id] ?? 0,
+  }))
+}
+
+/**
+ * The top DIGEST_EVENT_COUNT candidates by votes, boosted by the reader's
+ * favorite categories when known, then by date
+ */
+function rankDigestEntries(candidates: DigestEntry[], favoriteCategories?: Map<string, number>): DigestEntry[] {
+  const score = (entry: DigestEntry) =>
+    entry.votes + FAVORITE_CATEGORY_WEIGHT * (entry.event.categories ?? [])
+      .filter((category) => favoriteCategories?.has(category)).length
+
+  return [...candidates]
+    .sort((a, b) => score(b) - score(a) || a.date.localeCompare(b.date))
+    .slice(0, DIGEST_EVENT_COUNT)
+}
+
+/**
+ * Build the digest for the current window, personalized for a user if given
+ */
+export async function buildDigest(userId?: string): Promise<Digest> {
+  const window = getDigestWindow()
+  const candidates = await getDigestCandidates(window)
+  const favoriteCategories = userId ? (await getFavoriteCategories([userId])).get(userId) : undefined
+
+  return { ...window, entries: rankDigestEntries(candidates, favoriteCategories) }
+}
+
+function formatWindow(digest: Digest): string {
+  return digest.from === digest.to
+    ? formatDate(digest.from)
+    : `${formatDate(digest.from)} – ${formatDate(digest.to)}`
+}
+
+function entryDetails(entry: DigestEntry): string[] {
+  return [
+    [formatDate(entry.date), formatTimeRange(entry.event) ?? entry.event.times].filter(Boolean).join(', '),
+    entry.event.location,
+    entry.event.cost,
+  ].filter((detail): detail is string => !!detail)
+}
+
+/**
+ * The digest email in HTML and plain text
+ */
+export function renderDigestEmail(digest: Digest, unsubscribeUrl: string): { subject: string; text: string; html: string } {
+  const heading = `This weekend in ${SITE.nickname}`
+  const subject = `${heading} (${formatWindow(digest)})`
+  const eventsUrl = siteUrl(`/events?startDate=${digest.from}&endDate=${digest.to}`)
+  const settingsUrl = siteUrl('/notifications')
+
+  const text = [
+    heading,
+    formatWindow(digest),
+    ...digest.entries.map((entry) => [
+      entry.event.title + (entry.votes > 0 ? ` (♥ ${entry.votes})` : ''),
+      ...entryDetails(entry),
+      siteUrl(`/events/${entry.event.id}`),
+    ].join('\n')),
+    `See everything happening this weekend: ${eventsUrl}`,
+    `Change your email settings: ${settingsUrl}\nUnsubscribe from this digest: ${unsubscribeUrl}`,
+  ].join('\n\n')
+
+  const eventRows = digest.entries.map((entry) => `
+    <tr>
+      <td style="padding:12px 0;border-bottom:1px solid #e2e8f0">
+        <a href="${escapeHtml(siteUrl(`/events/${entry.event.id}`))}" style="font-size:16px;font-weight:600;color:#1d4ed8;text-decoration:none">${escapeHtml(entry.event.title)}</a>
+        ${entry.votes > 0 ? `<span style="color:#e11d48;font-size:13px">&nbsp;♥ ${entry.votes}</span>` : ''}
+        ${entryDetails(entry).map((detail) => `<div style="color:#475569;font-size:14px">${escapeHtml(detail)}</div>`).join('')}
+      </td>
+    </tr>`).join('')
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f1f5f9;font-family:Inter,Arial,sans-serif">
+    <table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+      <tr>
+        <td>
+          <h1 style="margin:0;font-size:24px;color:#0f172a">${escapeHtml(heading)}</h1>
+          <p style="margin:4px 0 16px;color:#64748b">${escapeHtml(formatWindow(digest))}</p>
+        </td>
+      </tr>${eventRows}
+      <tr>
+        <td style="padding-top:20px">
+          <a href="${escapeHtml(eventsUrl)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none">See everything this weekend</a>
+        </td>
+      </tr>
+      <tr>
+        <td style="padding-top:24px;color:#94a3b8;font-size:12px">
+          You're getting this because you signed up for the weekly digest.
+          <a href="${escapeHtml(settingsUrl)}" style="color:#94a3b8">Email settings</a> ·
+          <a href="${escapeHtml(unsubscribeUrl)}" style="color:#94a3b8">Unsubscribe</a>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`
+
+  return { subject, text, html }
+}
+
+/**
+ * Email the digest to every user who opted in, ranked for each of them.
+ * Nothing is sent when no events fall in the window. Returns how many
+ * digests were sent.
+ */
+export async function sendWeeklyDigest(): Promise<number> {
+  const subscribers = await prisma.notificationPreference.findMany({
+    where: { weeklyDigest: true },
+    select: { userId: true },
+  })
+  if (subscribers.length === 0) return 0
+
+  const window = getDigestWindow()
+  const candidates = await getDigestCandidates(window)
+  if (candidates.length === 0) return 0
+
+  const userIds = subscribers.map((subscriber) => subscriber.userId)
+  const [emails, favoriteCategories] = await Promise.all([
+    getUserEmails(userIds),
+    getFavoriteCategories(userIds),
+  ])
+
+  let sent = 0
+  for (const userId of userIds) {
+    const to = emails.get(userId)
+    if (!to) continue
+
+    const digest = { ...window, entries: rankDigestEntries(candidates, favoriteCategories.get(userId)) }
+    const unsubscribeUrl = siteUrl(`/unsubscribe/${await getOrCreateUnsubscribeToken(userId)}`)
+
+    try {
+      await sendEmail({
+        to,
+        ...renderDigestEmail(digest, unsubscribeUrl),
+        headers: {
+          'List-Unsubscribe': `<${unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      })
+      sent++
+    } catch (error) {
+      console.error(`[Digest] Failed to email ${userId}:`, error)
+    }
+  }
+
+  return sent
+}
@@ -0,0 +1,218 @@
+import { prisma } from './db.server'
+import type { Event } from '~/stores/useEventStore'
+import type { DuplicateCandidate, DuplicateEvent, MergeField } from '~/types/duplicates'
+import { deleteEvent, occurrenceWindowWhere, toEvent, updateEvent } from './events.server'
+import { recordAudit } from './audit.server'
+import { getVoteCountsForEvents } from './votes.server'
+import { distanceInMiles } from './geo'
+import { isSameVenueLocation, normalizeVenueName } from './venues'
+import { getToday } from './datetime'
+
+// Titles less alike than this are never the same event
+const MIN_TITLE_SIMILARITY = 0.5
+
+// Titles this alike are a match on their own; below it, the venue or
+// coordinates have to agree as well
+const STRONG_TITLE_SIMILARITY = 0.85
+
+// Events closer together than this are at the same place
+const NEARBY_MILES = 0.1
+
+// Candidate pairs returned per review, best matches first
+const MAX_DUPLICATE_CANDIDATES = 50
+
+export function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2)
+    counts.set(pair, (counts.get(pair) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * How alike two titles are, from 0 to 1 (Dice coefficient of their letter
+ * pairs), ignoring case and punctuation
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const first = normalizeTitle(a)
+  const second = normalizeTitle(b)
+  if (first === second) return 1
+  if (first.length < 2 || second.length < 2) return 0
+
+  const firstPairs = bigrams(first)
+  const secondPairs = bigrams(second)
+  let shared = 0
+  for (const [pair, count] of firstPairs) {
+    shared += Math.min(count, secondPairs.get(pair) ?? 0)
+  }
+  return (2 * shared) / (first.length - 1 + second.length - 1)
+}
+
+function sortedPair(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a]
+}
+
+/**
+ * Score two same-day events as possible copies of one another, or return
+ * null when they don't look alike enough
+ */
+function compareEvents(a: DuplicateEvent, b: DuplicateEvent): Omit<DuplicateCandidate, 'events'> | null {
+  const similarity = titleSimilarity(a.title, b.title)
+  if (similarity < MIN_TITLE_SIMILARITY) return null
+
+  const located = (event: Event) => ({ latitude: event.coordinates?.lat, longitude: event.coordinates?.lng })
+  const sameVenue = (!!a.venueId && a.venueId === b.venueId) ||
+    (normalizeVenueName(a.location) === normalizeVenueName(b.location) && isSameVenueLocation(located(a), located(b)))
+  const distanceMiles = a.coordinates && b.coordinates ? distanceInMiles(a.coordinates, b.coordinates) : undefined
+  const nearby = distanceMiles !== undefined && distanceMiles <= NEARBY_MILES
+
+  if (similarity < STRONG_TITLE_SIMILARITY && !sameVenue && !nearby) return null
+
+  return {
+    score: Math.min(1, similarity * 0.6 + (sameVenue ? 0.25 : 0) + (nearby ? 0.15 : 0)),
+    titleSimilarity: similarity,
+    sameVenue,
+    distanceMiles,
+  }
+}
+
+/**
+ * Pairs of upcoming events on the same date that look like the same event:
+ * alike titles, plus the same venue or nearby coordinates unless the titles
+ * are nearly identical. Pairs an admin dismissed are left out.
+ */
+export async function findDuplicateCandidates(limit = MAX_DUPLICATE_CANDIDATES): Promise<DuplicateCandidate[]> {
+  const [records, dismissals] = await Promise.all([
+    prisma.event.findMany({
+      where: { deletedAt: null, ...occurrenceWindowWhere(getToday()) },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.duplicateDismissal.findMany({ select: { eventId: true, otherId: true } }),
+  ])
+  const dismissed = new Set(dismissals.map((dismissal) => `${dismissal.eventId}|${dismissal.otherId}`))
+  const votes = await getVoteCountsForEvents(records.map((record) => record.id))
+
+  const byDate = new Map<string, DuplicateEvent[]>()
+  for (const record of records) {
+    const event = { ...toEvent(record), votes: votes[record.id] ?? 0 }
+    byDate.set(event.date, [...(byDate.get(event.date) ?? []), event])
+  }
+
+  const candidates: DuplicateCandidate[] = []
+  for (const events of byDate.values()) {
+    for (let i = 0; i < events.length; i++) {
+      for (let j = i + 1; j < events.length; j++) {
+        const [a, b] = [events[i], events[j]]
+        if (dismissed.has(sortedPair(a.id, b.id).join('|'))) continue
+        const match = compareEvents(a, b)
+        if (match) candidates.push({ events: [a, b], ...match })
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, limit)
+}
+
+/**
+ * Stop suggesting a pair as duplicates
+ */
+export async function dismissDuplicate(eventId: string, otherId: string, actorId: string): Promise<void> {
+  const [first, second] = sortedPair(eventId, otherId)
+  await prisma.duplicateDismissal.upsert({
+    where: { eventId_otherId: { eventId: first, otherId: second } },
+    create: { eventId: first, otherId: second, dismissedBy: actorId },
+    update: {},
+  })
+}
+
+// The Event fields each merge choice covers; they're taken together so the
+// survivor doesn't end up with one copy's venue name and the other's address
+const MERGE_FIELD_KEYS: Record<MergeField, (keyof Event)[]> = {
+  title: ['title'],
+  description: ['description'],
+  date: ['date', 'endDate', 'recurrence', 'rrule', 'exceptionDates'],
+  times: ['times', 'startTime', 'endTime', 'timeStatus'],
+  location: ['venueId', 'location', 'address', 'coordinates', 'city', 'region'],
+  imageUrl: ['imageUrl'],
+  categories: ['categories'],
+  cost: ['cost'],
+  url: ['url'],
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * Merge two copies of an event into `keepId`: fields listed in `fromOther`
+ * are copied over from the other event (unless it has nothing there), its
+ * votes are moved to the survivor (users who voted for both keep one vote)
+ * and it is moved to the trash. If only the other copy came from an
+ * ingestion source, the survivor takes over its source id so re-imports
+ * update it. Returns null when either event is missing or already trashed.
+ */
+export async function mergeEvents(
+  keepId: string,
+  otherId: string,
+  fromOther: MergeField[],
+  actorId: string | null
+): Promise<Event | null> {
+  if (keepId === otherId) return null
+  const [keep, other] = await Promise.all([
+    prisma.event.findUnique({ where: { id: keepId } }),
+    prisma.event.findUnique({ where: { id: otherId } }),
+  ])
+  if (!keep || !other || keep.deletedAt || other.deletedAt) return null
+
+  const otherEvent = toEvent(other)
+  const changes: Partial<Event> = {}
+  for (const field of new Set(fromOther)) {
+    const keys = MERGE_FIELD_KEYS[field]
+    if (!keys || keys.every((key) => isEmpty(otherEvent[key]))) continue
+    for (const key of keys) {
+      Object.assign(changes, { [key]: otherEvent[key] })
+    }
+  }
+
+  const keepVoters = await prisma.vote.findMany({ where: { eventId: keep.id }, select: { userId: true } })
+  const [moved] = await prisma.$transaction([
+    prisma.vote.updateMany({
+      where: { eventId: other.id, userId: { notIn: keepVoters.map((vote) => vote.userId) } },
+      data: { eventId: keep.id },
+    }),
+    prisma.vote.deleteMany({ where: { eventId: other.id } }),
+  ])
+
+  if (other.source && !keep.source) {
+    // The unique source id has to be freed before the survivor can take it
+    await prisma.$transaction([
+      prisma.event.update({ where: { id: other.id }, data: { source: null, externalId: null } }),
+      prisma.event.update({
+        where: { id: keep.id },
+        data: { source: other.source, externalId: other.externalId, delistedAt: other.delistedAt },
+      }),
+    ])
+  }
+
+  // Favoriters aren't notified: it's still the same event, only one copy of it fewer
+  const merged = Object.keys(changes).length > 0
+    ? await updateEvent(keep.id, changes, actorId, { notifyFavoriters: false })
+    : toEvent(keep)
+  await deleteEvent(other.id, actorId)
+
+  await recordAudit({
+    entityType: 'event',
+    entityId: keep.id,
+    action: 'merge',
+    actorId,
+    changes: { mergedEventId: { from: null, to: other.id }, votesMoved: { from: 0, to: moved.count } },
+    summary: `${keep.title} (merged with "${other.title}")`,
+  })
+
+  return merged
+}
@@ -0,0 +1,118 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { SITE } from './site'
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+  headers?: Record<string, string> // Extra headers, e.g. List-Unsubscribe
+}
+
+/**
+ * Delivers email. Pick one with EMAIL_TRANSPORT, or plug in another with
+ * setEmailTransport().
+ */
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage & { from: string }): Promise<void>
+}
+
+const DEFAULT_FROM = `${SITE.name} <notifications@localhost>`
+const DEFAULT_OUTBOX_DIR = '.outbox'
+
+/**
+ * Logs each email instead of sending it (development default)
+ */
+export const consoleTransport: EmailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`[Email] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`)
+  },
+}
+
+/**
+ * Writes each email to a `.eml` file so it can be opened in a mail client
+ */
+export function fileTransport(dir: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(dir, { recursive: true })
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40)
+      const headers = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        ...Object.entries(message.headers ?? {}).map(([name, value]) => `${name}: ${value}`),
+        'MIME-Version: 1.0',
+        `Content-Type: ${message.html ? 'text/html' : 'text/plain'}; charset=utf-8`,
+      ]
+      await writeFile(
+        path.join(dir, `${Date.now()}-${slug}.eml`),
+        `${headers.join('\r\n')}\r\n\r\n${message.html ?? message.text}`
+      )
+    },
+  }
+}
+
+/**
+ * Sends through the Resend HTTP API
+ */
+export function resendTransport(apiKey: string): EmailTransport {
+  return {
+    name: 'resend',
+    async send(message) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+      })
+      if (!response.ok) {
+        throw new Error(`Resend returned ${response.status}: ${await response.text()}`)
+      }
+    },
+  }
+}
+
+function createTransport(): EmailTransport {
+  switch (process.env.EMAIL_TRANSPORT) {
+    case 'file':
+      return fileTransport(process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR)
+    case 'resend':
+      if (!process.env.RESEND_API_KEY) {
+        throw new Error('RESEND_API_KEY is required when EMAIL_TRANSPORT=resend')
+      }
+      return resendTransport(process.env.RESEND_API_KEY)
+    default:
+      return consoleTransport
+  }
+}
+
+let transport: EmailTransport | null = null
+
+export function setEmailTransport(next: EmailTransport): void {
+  transport = next
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  transport ??= createTransport()
+  await transport.send({ ...message, from: process.env.EMAIL_FROM || DEFAULT_FROM })
+}
+
+/**
+ * Absolute URL for a site path, for links in emails
+ */
+export function siteUrl(pathname: string): string {
+  return new URL(pathname, process.env.SITE_URL || 'http://localhost:5173').toString()
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
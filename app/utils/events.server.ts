@@ -1,6 +1,116 @@
 import { prisma } from './db.server'
 import { del } from '@vercel/blob'
 import type { Event } from '~/stores/useEventStore'
+import type { EventSort } from '~/types/search'
+import type { TrashedEvent } from '~/types/trash'
+import type { SourceEvent, UpsertCounts, UpsertOutcome } from '~/types/ingestion'
+import { LISTED_EVENT_STATUSES, type EventStatus } from '~/types/moderation'
+import type { Event as EventRecord } from '../../prisma/generated/client.js'
+import { getEventOccurrences } from './recurrence'
+import { parseCost } from './cost'
+import { searchEvents, type SearchMatch, type SearchScope } from './search.server'
+import { boundingBoxForRadius, distanceInMiles, type BoundingBox } from './geo'
+import { formatTimeRange, structureTimes, TIME_OF_DAY_RANGES, type TimeOfDay, type TimeStatus } from './times'
+import { diffFields, recordAudit } from './audit.server'
+import { notifyEventFavoriters } from './notifications.server'
+import { addDays, eventTimestamps, formatDate, getToday } from './datetime'
+
+/**
+ * How far ahead recurring events are expanded when no end date is given
+ */
+export const OCCURRENCE_HORIZON_DAYS = 180
+
+/**
+ * Map a database row to the app's Event shape
+ */
+export function toEvent(event: EventRecord): Event {
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    date: event.date,
+    venueId: event.venueId || undefined,
+    location: event.location,
+    address: event.address || undefined,
+    coordinates: event.latitude && event.longitude
+      ? { lat: event.latitude, lng: event.longitude }
+      : undefined,
+    imageUrl: event.imageUrl || undefined,
+    categories: event.categories,
+    cost: event.cost || undefined,
+    priceMin: event.priceMin ?? undefined,
+    priceMax: event.priceMax ?? undefined,
+    currency: event.currency,
+    isFree: event.isFree,
+    isDonation: event.isDonation,
+    rsvpRequired: event.rsvpRequired,
+    isTicketed: event.isTicketed,
+    times: event.times || undefined,
+    startTime: event.startTime || undefined,
+    endTime: event.endTime || undefined,
+    timeStatus: (event.timeStatus as TimeStatus | null) || undefined,
+    startsAt: event.startsAt?.toISOString(),
+    endsAt: event.endsAt?.toISOString(),
+    url: event.url || undefined,
+    region: event.region || undefined,
+    recurrence: event.recurrence || undefined,
+    rrule: event.rrule || undefined,
+    exceptionDates: event.exceptionDates.length > 0 ? event.exceptionDates : undefined,
+    endDate: event.endDate || undefined,
+    city: event.city || undefined,
+    createdBy: event.createdBy,
+    createdByName: event.createdByName || undefined,
+    status: event.status as EventStatus,
+    statusReason: event.statusReason || undefined,
+    originalDate: event.originalDate || undefined,
+    reviewNotes: event.reviewNotes || undefined,
+    publishAt: event.publishAt?.toISOString(),
+    listedAt: event.listedAt?.toISOString(),
+    source: event.source || undefined,
+    externalId: event.externalId || undefined,
+    delistedAt: event.delistedAt?.toISOString(),
+    createdAt: event.createdAt.toISOString(),
+    updatedAt: event.updatedAt.toISOString(),
+  }
+}
+
+/**
+ * Where clause for events the public can see: published (or cancelled or
+ * postponed) and not in the trash
+ */
+export const PUBLIC_EVENT_WHERE = { status: { in: LISTED_EVENT_STATUSES }, deletedAt: null }
+
+function isListedStatus(status: string | null | undefined): boolean {
+  return !!status && LISTED_EVENT_STATUSES.includes(status as EventStatus)
+}
+
+/**
+ * Columns to write with a status change from `from` (null for a new event) to
+ * `to`: `listedAt` is stamped when the event goes public. Every write that
+ * sets an event's status spreads this in.
+ */
+export function listingChange(from: string | null, to: string | undefined): { listedAt?: Date } {
+  return isListedStatus(to) && !isListedStatus(from) ? { listedAt: new Date() } : {}
+}
+
+/**
+ * Where clause matching events with at least one possible occurrence on or
+ * after `from` (and on or before `to`, when given). One-off events are matched
+ * on `date`; recurring series only need to overlap the window and are expanded
+ * into concrete occurrences afterwards.
+ */
+export function occurrenceWindowWhere(from: string, to?: string) {
+  return {
+    OR: [
+      { rrule: null, date: to ? { gte: from, lte: to } : { gte: from } },
+      {
+        rrule: { not: null },
+        date: to ? { lte: to } : undefined,
+        OR: [{ endDate: null }, { endDate: { gte: from } }],
+      },
+    ],
+  }
+}
 
 /**
  * Delete a Vercel Blob image by URL.
@@ -25,53 +135,184 @@ export async function deleteBlobImage(url: string | null | undefined): Promise<v
 
 export async function getAllEvents(): Promise<Event[]> {
   const events = await prisma.event.findMany({
+    where: PUBLIC_EVENT_WHERE,
     orderBy: { date: 'asc' },
     cacheStrategy: { ttl: 30, swr: 60 }, // Cache for 30s, serve stale for 60s while revalidating
   })
 
-  return events.map((event) => ({
-    id: event.id,
-    title: event.title,
-    description: event.description,
-    date: event.date,
-    location: event.location,
-    address: event.address || undefined,
-    coordinates: event.latitude && event.longitude
-      ? { lat: event.latitude, lng: event.longitude }
-      : undefined,
-    imageUrl: event.imageUrl || undefined,
-    categories: event.categories,
-    cost: event.cost || undefined,
-    times: event.times || undefined,
-    url: event.url || undefined,
-    region: event.region || undefined,
-    recurrence: event.recurrence || undefined,
-    endDate: event.endDate || undefined,
-    city: event.city || undefined,
-    createdBy: event.createdBy,
-    createdByName: event.createdByName || undefined,
-  }))
+  return events.map(toEvent)
+}
+
+/**
+ * Structured price columns for a free-text cost (all unknown when empty)
+ */
+function costColumns(cost: string | null | undefined) {
+  return parseCost(cost) ?? {
+    priceMin: null,
+    priceMax: null,
+    currency: 'USD',
+    isFree: false,
+    isDonation: false,
+    rsvpRequired: false,
+    isTicketed: false,
+  }
+}
+
+/**
+ * Where clause for the price-range filter: events whose price range overlaps
+ * [minPrice, maxPrice]. A missing maxPrice means no upper limit. Events with
+ * an unknown price never match.
+ */
+export function priceRangeWhere(minPrice?: number, maxPrice?: number) {
+  const conditions: any[] = []
+
+  if (minPrice === undefined && maxPrice === undefined) return conditions
+
+  conditions.push({ priceMin: maxPrice !== undefined ? { not: null, lte: maxPrice } : { not: null } })
+  if (minPrice !== undefined && minPrice > 0) {
+    conditions.push({ priceMax: { gte: minPrice } })
+  }
+
+  return conditions
+}
+
+/**
+ * Where clause for the time-of-day filters. Events without a structured
+ * start time (all-day or unparseable) never match.
+ */
+export function startTimeWhere(timeOfDay?: TimeOfDay, startsAfter?: string) {
+  const conditions: any[] = []
+
+  if (timeOfDay && TIME_OF_DAY_RANGES[timeOfDay]) {
+    const { from, to } = TIME_OF_DAY_RANGES[timeOfDay]
+    conditions.push({ startTime: { gte: from, lt: to } })
+  }
+
+  if (startsAfter && /^\d{2}:\d{2}$/.test(startsAfter)) {
+    conditions.push({ startTime: { gte: startsAfter } })
+  }
+
+  return conditions
+}
+
+/**
+ * Circle for the "within X miles" filter
+ */
+export interface NearFilter {
+  lat: number
+  lng: number
+  radiusMiles: number
+}
+
+/**
+ * Where clause restricting events to a bounding box, served by the
+ * (latitude, longitude) index. Radius searches use the box around the circle
+ * and check exact distances with withinRadius afterwards.
+ */
+export function boundingBoxWhere(box?: BoundingBox) {
+  const conditions: any[] = []
+
+  if (box) {
+    conditions.push({
+      latitude: { gte: box.south, lte: box.north },
+      longitude: { gte: box.west, lte: box.east },
+    })
+  }
+
+  return conditions
+}
+
+/**
+ * Attach the distance from the filter's center, or return null when the
+ * event has no coordinates or falls outside the radius
+ */
+export function withinRadius<T extends Event>(event: T, near: NearFilter): T | null {
+  if (!event.coordinates) return null
+  const distanceMiles = distanceInMiles(near, event.coordinates)
+  return distanceMiles <= near.radiusMiles ? { ...event, distanceMiles } : null
 }
 
 interface EventFilters {
   searchQuery?: string
   category?: string
-  priceFilter?: 'free' | 'paid' | 'all'
+  city?: string
+  venue?: string // Location name, matched exactly but case-insensitively
+  venueId?: string
+  createdBy?: string // Author's user ID
+  minPrice?: number
+  maxPrice?: number
   startDate?: string
   endDate?: string
+  timeOfDay?: TimeOfDay
+  startsAfter?: string // HH:MM
   favoriteEventIds?: string[]
+  near?: NearFilter
+  bounds?: BoundingBox
+  sort?: EventSort
+  listedSince?: Date // Went public after this time
 }
 
-export async function getPaginatedEvents(
-  page: number = 1,
-  limit: number = 10,
-  filters: EventFilters = {}
-): Promise<{ events: Event[]; totalCount: number }> {
-  const skip = (page - 1) * limit
-  const { searchQuery, category, priceFilter, startDate, endDate, favoriteEventIds } = filters
+type ListedEvent = Event & { occurrenceDate: string }
+
+/**
+ * Position of a listing entry in date order, used as a pagination cursor
+ */
+export interface EventCursor {
+  occurrenceDate: string
+  startTime: string // '' for all-day and untimed events
+  id: string
+}
+
+/**
+ * Date order for listings: by occurrence date, then start time (all-day and
+ * untimed events first), then ID so the order is stable across requests
+ */
+function compareByDate(a: EventCursor, b: EventCursor): number {
+  return a.occurrenceDate.localeCompare(b.occurrenceDate) ||
+    a.startTime.localeCompare(b.startTime) ||
+    a.id.localeCompare(b.id)
+}
 
-  // Build dynamic where clause
-  const whereConditions: any[] = []
+export function toEventCursor(event: ListedEvent): EventCursor {
+  return { occurrenceDate: event.occurrenceDate, startTime: event.startTime || '', id: event.id }
+}
+
+/**
+ * Restrict a where clause to full-text search matches. `scope` should cover
+ * the where clause's own status, author and date filters, so the search's
+ * result limit is spent on events that can be listed. Returns the matches
+ * (for ranking and highlighting) or null when there is no query.
+ */
+export async function applySearch(
+  whereConditions: any[],
+  searchQuery?: string,
+  scope?: SearchScope
+): Promise<Map<string, SearchMatch> | null> {
+  if (!searchQuery) return null
+
+  const matches = await searchEvents(searchQuery, scope)
+  whereConditions.push({ id: { in: Array.from(matches.keys()) } })
+  return matches
+}
+
+/**
+ * Attach highlighted title/snippet to an event listed as a search result
+ */
+export function withSearchHighlight<T extends Event>(event: T, matches: Map<string, SearchMatch> | null): T {
+  const match = matches?.get(event.id)
+  return match ? { ...event, searchHighlight: { title: match.title, snippet: match.snippet } } : event
+}
+
+/**
+ * Every listing entry matching the filters, sorted. Recurring events can't be
+ * paginated in the database, so every match is fetched and placed at its next
+ * occurrence inside the window; callers page the result in memory.
+ */
+async function getListedEvents(filters: EventFilters): Promise<ListedEvent[]> {
+  const { searchQuery, category, city, venue, venueId, createdBy, minPrice, maxPrice, startDate, endDate, timeOfDay, startsAfter, favoriteEventIds, near, bounds, sort, listedSince } = filters
+
+  // Build dynamic where clause, starting from the publicly visible events
+  const whereConditions: any[] = [PUBLIC_EVENT_WHERE]
 
   // Favorites filter - only show events in the favoriteEventIds list
   if (favoriteEventIds !== undefined) {
@@ -80,30 +321,20 @@ export async function getPaginatedEvents(
     })
   }
 
-  // Always filter to show only upcoming events (today and later in US Eastern timezone)
-  // unless a specific startDate is provided
-  if (!startDate) {
-    const today = new Date().toLocaleDateString('en-CA', {
-      timeZone: 'America/New_York'
-    })
-    whereConditions.push({
-      date: { gte: today },
-    })
-  }
+  // Always filter to show only upcoming events (today and later in the site timezone)
+  // unless a specific startDate is provided. Recurring series are expanded up to
+  // endDate, or OCCURRENCE_HORIZON_DAYS ahead when no end is given
+  const windowStart = startDate || getToday()
+  const windowEnd = endDate || addDays(windowStart, OCCURRENCE_HORIZON_DAYS)
+  whereConditions.push(occurrenceWindowWhere(windowStart, endDate))
 
-  // Search query
-  if (searchQuery) {
-    whereConditions.push({
-      OR: [
-        { title: { contains: searchQuery, mode: 'insensitive' as const } },
-        { description: { contains: searchQuery, mode: 'insensitive' as const } },
-        { location: { contains: searchQuery, mode: 'insensitive' as const } },
-        { city: { contains: searchQuery, mode: 'insensitive' as const } },
-        { address: { contains: searchQuery, mode: 'insensitive' as const } },
-        { categories: { has: searchQuery } },
-      ],
-    })
-  }
+  // Full-text search
+  const searchMatches = await applySearch(whereConditions, searchQuery, {
+    statuses: LISTED_EVENT_STATUSES,
+    createdBy,
+    from: windowStart,
+    to: endDate,
+  })
 
   // Category filter
   if (category) {
@@ -112,80 +343,181 @@ export async function getPaginatedEvents(
     })
   }
 
-  // Price filter
-  if (priceFilter === 'free') {
-    whereConditions.push({
-      OR: [
-        { cost: { contains: 'free', mode: 'insensitive' as const } },
-        { cost: null },
-      ],
-    })
-  } else if (priceFilter === 'paid') {
-    whereConditions.push({
-      AND: [
-        { cost: { not: null } },
-        { cost: { not: { contains: 'free' }, mode: 'insensitive' as const } },
-      ],
-    })
+  // City, venue and author filters
+  if (city) {
+    whereConditions.push({ city: { equals: city, mode: 'insensitive' } })
   }
-
-  // Date range filter
-  if (startDate) {
-    whereConditions.push({
-      date: { gte: startDate },
-    })
+  if (venue) {
+    whereConditions.push({ location: { equals: venue, mode: 'insensitive' } })
   }
-  if (endDate) {
-    whereConditions.push({
-      date: { lte: endDate },
-    })
+  if (venueId) {
+    whereConditions.push({ venueId })
+  }
+  if (createdBy) {
+    whereConditions.push({ createdBy })
   }
 
+  if (listedSince) {
+    whereConditions.push({ listedAt: { gt: listedSince } })
+  }
+
+  // Price range filter
+  whereConditions.push(...priceRangeWhere(minPrice, maxPrice))
+
+  // Time-of-day filters
+  whereConditions.push(...startTimeWhere(timeOfDay, startsAfter))
+
+  // Location filters: coarse box in the database, exact radius below
+  whereConditions.push(...boundingBoxWhere(near && boundingBoxForRadius(near, near.radiusMiles)))
+  whereConditions.push(...boundingBoxWhere(bounds))
+
   const whereClause = whereConditions.length > 0 ? { AND: whereConditions } : {}
 
-  const [events, totalCount] = await Promise.all([
-    prisma.event.findMany({
-      where: whereClause,
-      orderBy: { date: 'asc' },
-      skip,
-      take: limit,
-      cacheStrategy: { ttl: 30, swr: 60 }, // Cache for 30s, serve stale for 60s while revalidating
-    }),
-    prisma.event.count({
-      where: whereClause,
-      cacheStrategy: { ttl: 30, swr: 60 },
-    }),
-  ])
+  const events = await prisma.event.findMany({
+    where: whereClause,
+    orderBy: { date: 'asc' },
+    cacheStrategy: { ttl: 30, swr: 60 }, // Cache for 30s, serve stale for 60s while revalidating
+  })
+
+  return events
+    .map((event) => {
+      const occurrenceDate = event.rrule
+        ? getEventOccurrences(event, windowStart, windowEnd, 1)[0]
+        : event.date
+      if (!occurrenceDate) return null
+      const listed = withSearchHighlight({ ...toEvent(event), occurrenceDate }, searchMatches)
+      return near ? withinRadius(listed, near) : listed
+    })
+    .filter((event): event is ListedEvent => event !== null)
+    .sort((a, b) =>
+      (sort === 'relevance' && searchMatches
+        ? searchMatches.get(b.id)!.rank - searchMatches.get(a.id)!.rank
+        : 0) ||
+      (sort === 'distance' && near
+        ? a.distanceMiles! - b.distanceMiles!
+        : 0) ||
+      (sort === 'newest' ? (b.listedAt ?? '').localeCompare(a.listedAt ?? '') : 0) ||
+      compareByDate(toEventCursor(a), toEventCursor(b))
+    )
+}
+
+export async function getPaginatedEvents(
+  page: number = 1,
+  limit: number = 10,
+  filters: EventFilters = {}
+): Promise<{ events: Event[]; totalCount: number }> {
+  const skip = (page - 1) * limit
+  const occurrences = await getListedEvents(filters)
 
   return {
-    events: events.map((event) => ({
-      id: event.id,
-      title: event.title,
-      description: event.description,
-      date: event.date,
-      location: event.location,
-      address: event.address || undefined,
-      coordinates: event.latitude && event.longitude
-        ? { lat: event.latitude, lng: event.longitude }
-        : undefined,
-      imageUrl: event.imageUrl || undefined,
-      categories: event.categories,
-      cost: event.cost || undefined,
-      times: event.times || undefined,
-      url: event.url || undefined,
-      region: event.region || undefined,
-      recurrence: event.recurrence || undefined,
-      endDate: event.endDate || undefined,
-      city: event.city || undefined,
-      createdBy: event.createdBy,
-      createdByName: event.createdByName || undefined,
-    })),
-    totalCount,
+    events: occurrences.slice(skip, skip + limit),
+    totalCount: occurrences.length,
+  }
+}
+
+/**
+ * Cursor-paginated listing in date order (any `sort` filter is ignored, since
+ * a cursor is a position in date order). Returns up to `limit` entries after
+ * `cursor`, or from the start when it is null.
+ */
+export async function getEventsAfterCursor(
+  cursor: EventCursor | null,
+  limit: number,
+  filters: EventFilters = {}
+): Promise<{ events: ListedEvent[]; nextCursor: EventCursor | null; totalCount: number }> {
+  const occurrences = await getListedEvents({ ...filters, sort: 'date' })
+  const remaining = cursor
+    ? occurrences.filter((event) => compareByDate(toEventCursor(event), cursor) > 0)
+    : occurrences
+  const events = remaining.slice(0, limit)
+
+  return {
+    events,
+    nextCursor: remaining.length > limit ? toEventCursor(events[events.length - 1]) : null,
+    totalCount: occurrences.length,
+  }
+}
+
+/**
+ * All events with at least one occurrence in [from, to], each carrying the
+ * list of its occurrence dates inside that window. Optionally limited to a
+ * bounding box (e.g. a map viewport) or a radius, in which case results are
+ * ordered nearest first.
+ */
+export async function getEventsWithOccurrences(
+  from: string,
+  to: string,
+  area: { bounds?: BoundingBox; near?: NearFilter } = {}
+): Promise<Array<Event & { occurrences: string[] }>> {
+  const { bounds, near } = area
+  const events = await prisma.event.findMany({
+    where: {
+      AND: [
+        PUBLIC_EVENT_WHERE,
+        occurrenceWindowWhere(from, to),
+        ...boundingBoxWhere(bounds),
+        ...boundingBoxWhere(near && boundingBoxForRadius(near, near.radiusMiles)),
+      ],
+    },
+    orderBy: { date: 'asc' },
+    cacheStrategy: { ttl: 30, swr: 60 }, // Cache for 30s, serve stale for 60s while revalidating
+  })
+
+  const withOccurrences = events
+    .map((event) => ({ ...toEvent(event), occurrences: getEventOccurrences(event, from, to) }))
+    .filter((event) => event.occurrences.length > 0)
+
+  if (!near) return withOccurrences
+
+  return withOccurrences
+    .map((event) => withinRadius(event, near))
+    .filter((event): event is NonNullable<typeof event> => event !== null)
+    .sort((a, b) => a.distanceMiles! - b.distanceMiles!)
+}
+
+/**
+ * How long past events stay in calendar feeds, so subscribers don't see
+ * events vanish from their calendar the day after they happen
+ */
+const CALENDAR_FEED_LOOKBACK_DAYS = 30
+
+/**
+ * Events for an iCalendar feed. Recurring series are returned whole (the
+ * feed carries their RRULE) rather than expanded into occurrences.
+ */
+export async function getCalendarFeedEvents(filters: {
+  category?: string
+  city?: string
+  eventIds?: string[]
+} = {}): Promise<Event[]> {
+  const today = getToday()
+  const whereConditions: any[] = [
+    PUBLIC_EVENT_WHERE,
+    occurrenceWindowWhere(addDays(today, -CALENDAR_FEED_LOOKBACK_DAYS)),
+  ]
+
+  if (filters.category) {
+    whereConditions.push({ categories: { has: filters.category } })
   }
+  if (filters.city) {
+    whereConditions.push({ city: { equals: filters.city, mode: 'insensitive' as const } })
+  }
+  if (filters.eventIds !== undefined) {
+    whereConditions.push({ id: { in: filters.eventIds } })
+  }
+
+  const events = await prisma.event.findMany({
+    where: { AND: whereConditions },
+    orderBy: { date: 'asc' },
+    cacheStrategy: { ttl: 30, swr: 60 }, // Cache for 30s, serve stale for 60s while revalidating
+  })
+
+  return events.map(toEvent)
 }
 
 export async function getAllCategories(): Promise<string[]> {
   const events = await prisma.event.findMany({
+    where: PUBLIC_EVENT_WHERE,
     select: { categories: true },
     cacheStrategy: { ttl: 60, swr: 120 }, // Cache for 60s, serve stale for 120s while revalidating
   })
@@ -198,44 +530,37 @@ export async function getAllCategories(): Promise<string[]> {
   return Array.from(categoriesSet).sort()
 }
 
-export async function getEventById(id: string): Promise<Event | null> {
+/**
+ * Look up an event. Events in the trash are treated as missing unless
+ * `includeDeleted` is set (e.g. so their owner can restore them), and
+ * unlisted ones (drafts, pending, rejected) when `publicOnly` is set (public
+ * feeds and the API).
+ */
+export async function getEventById(
+  id: string,
+  { includeDeleted = false, publicOnly = false }: { includeDeleted?: boolean; publicOnly?: boolean } = {}
+): Promise<Event | null> {
   const event = await prisma.event.findUnique({
     where: { id },
     cacheStrategy: { ttl: 30, swr: 60 }, // Cache for 30s, serve stale for 60s while revalidating
   })
 
-  if (!event) return null
+  if (!event || (event.deletedAt && !includeDeleted)) return null
+  if (publicOnly && !LISTED_EVENT_STATUSES.includes(event.status as EventStatus)) return null
 
-  return {
-    id: event.id,
-    title: event.title,
-    description: event.description,
-    date: event.date,
-    location: event.location,
-    address: event.address || undefined,
-    coordinates: event.latitude && event.longitude
-      ? { lat: event.latitude, lng: event.longitude }
-      : undefined,
-    imageUrl: event.imageUrl || undefined,
-    categories: event.categories,
-    cost: event.cost || undefined,
-    times: event.times || undefined,
-    url: event.url || undefined,
-    region: event.region || undefined,
-    recurrence: event.recurrence || undefined,
-    endDate: event.endDate || undefined,
-    city: event.city || undefined,
-    createdBy: event.createdBy,
-    createdByName: event.createdByName || undefined,
-  }
+  return toEvent(event)
 }
 
 export async function createEvent(eventData: Omit<Event, 'id'>): Promise<Event> {
+  // Bulk uploads and imports only carry free-text times
+  const structuredTimes = eventData.timeStatus ? eventData : structureTimes(eventData.times)
+
   const event = await prisma.event.create({
     data: {
       title: eventData.title,
       description: eventData.description,
       date: eventData.date,
+      venueId: eventData.venueId,
       location: eventData.location,
       address: eventData.address,
       latitude: eventData.coordinates?.lat,
@@ -243,95 +568,203 @@ export async function createEvent(eventData: Omit<Event, 'id'>): Promise<Event>
       imageUrl: eventData.imageUrl,
       categories: eventData.categories || [],
       cost: eventData.cost,
+      ...costColumns(eventData.cost),
       times: eventData.times,
+      startTime: structuredTimes.startTime,
+      endTime: structuredTimes.endTime,
+      timeStatus: structuredTimes.timeStatus,
+      ...eventTimestamps({ date: eventData.date, startTime: structuredTimes.startTime, endTime: structuredTimes.endTime }),
       url: eventData.url,
       region: eventData.region,
       recurrence: eventData.recurrence,
+      rrule: eventData.rrule,
+      exceptionDates: eventData.exceptionDates || [],
       endDate: eventData.endDate,
       city: eventData.city,
       createdBy: eventData.createdBy,
       createdByName: eventData.createdByName,
+      // Bulk uploads and imports are admin-run, so publish unless told otherwise
+      status: eventData.status ?? 'published',
+      ...listingChange(null, eventData.status ?? 'published'),
+      publishAt: eventData.publishAt ? new Date(eventData.publishAt) : undefined,
+      source: eventData.source,
+      externalId: eventData.externalId,
     }
   })
 
-  return {
-    id: event.id,
-    title: event.title,
-    description: event.description,
-    date: event.date,
-    location: event.location,
-    address: event.address || undefined,
-    coordinates: event.latitude && event.longitude
-      ? { lat: event.latitude, lng: event.longitude }
-      : undefined,
-    imageUrl: event.imageUrl || undefined,
-    categories: event.categories,
-    cost: event.cost || undefined,
-    times: event.times || undefined,
-    url: event.url || undefined,
-    region: event.region || undefined,
-    recurrence: event.recurrence || undefined,
-    endDate: event.endDate || undefined,
-    city: event.city || undefined,
-    createdBy: event.createdBy,
-    createdByName: event.createdByName || undefined,
-  }
+  await recordAudit({
+    entityType: 'event',
+    entityId: event.id,
+    action: 'create',
+    actorId: eventData.createdBy,
+    changes: diffFields(null, event),
+    summary: event.title,
+  })
+
+  return toEvent(event)
 }
 
-export async function updateEvent(id: string, eventData: Partial<Event>): Promise<Event | null> {
+/**
+ * Fields whose changes favoriters are told about, with how they're described
+ */
+const NOTIFIED_FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  date: 'date',
+  times: 'time',
+  startTime: 'time',
+  endTime: 'time',
+  location: 'location',
+  address: 'address',
+  cost: 'price',
+}
+
+/**
+ * Update an event, recording the changed fields against `actorId` in the
+ * audit log
+ */
+export async function updateEvent(
+  id: string,
+  eventData: Partial<Event>,
+  actorId: string | null,
+  { notifyFavoriters = true }: { notifyFavoriters?: boolean } = {}
+): Promise<Event | null> {
+  const before = await prisma.event.findUnique({ where: { id } })
+
+  // Recompute the timestamps from the merged date and times when any of them change
+  const rescheduled = before && ['date', 'startTime', 'endTime'].some((field) => field in eventData)
+  const timestamps = rescheduled
+    ? eventTimestamps({
+        date: eventData.date ?? before.date,
+        startTime: 'startTime' in eventData ? eventData.startTime : before.startTime,
+        endTime: 'endTime' in eventData ? eventData.endTime : before.endTime,
+      })
+    : {}
+
   const event = await prisma.event.update({
     where: { id },
     data: {
       title: eventData.title,
       description: eventData.description,
       date: eventData.date,
+      venueId: eventData.venueId,
       location: eventData.location,
       address: eventData.address,
       latitude: eventData.coordinates?.lat,
       longitude: eventData.coordinates?.lng,
       imageUrl: eventData.imageUrl,
       categories: eventData.categories,
-      cost: eventData.cost,
-      times: eventData.times,
+      // Like the recurrence fields below, cost and times are cleared when the
+      // key is present but undefined
+      cost: 'cost' in eventData ? eventData.cost ?? null : undefined,
+      ...('cost' in eventData ? costColumns(eventData.cost) : {}),
+      times: 'times' in eventData ? eventData.times ?? null : undefined,
+      startTime: 'startTime' in eventData ? eventData.startTime ?? null : undefined,
+      endTime: 'endTime' in eventData ? eventData.endTime ?? null : undefined,
+      timeStatus: 'timeStatus' in eventData ? eventData.timeStatus ?? null : undefined,
+      ...timestamps,
       url: eventData.url,
       region: eventData.region,
-      recurrence: eventData.recurrence,
-      endDate: eventData.endDate,
+      // Recurrence fields are cleared (not left untouched) when the key is
+      // present but undefined, so an event can be switched back to one-off
+      recurrence: 'recurrence' in eventData ? eventData.recurrence ?? null : undefined,
+      rrule: 'rrule' in eventData ? eventData.rrule ?? null : undefined,
+      exceptionDates: 'exceptionDates' in eventData ? eventData.exceptionDates ?? [] : undefined,
+      endDate: 'endDate' in eventData ? eventData.endDate ?? null : undefined,
       city: eventData.city,
+      status: eventData.status,
+      ...listingChange(before?.status ?? null, eventData.status),
+      statusReason: 'statusReason' in eventData ? eventData.statusReason ?? null : undefined,
+      originalDate: 'originalDate' in eventData ? eventData.originalDate ?? null : undefined,
+      publishAt: 'publishAt' in eventData
+        ? (eventData.publishAt ? new Date(eventData.publishAt) : null)
+        : undefined,
       // Preserve createdByName - don't update it
     }
   })
 
-  return {
-    id: event.id,
-    title: event.title,
-    description: event.description,
-    date: event.date,
-    location: event.location,
-    address: event.address || undefined,
-    coordinates: event.latitude && event.longitude
-      ? { lat: event.latitude, lng: event.longitude }
-      : undefined,
-    imageUrl: event.imageUrl || undefined,
-    categories: event.categories,
-    cost: event.cost || undefined,
-    times: event.times || undefined,
-    url: event.url || undefined,
-    region: event.region || undefined,
-    recurrence: event.recurrence || undefined,
-    endDate: event.endDate || undefined,
-    city: event.city || undefined,
-    createdBy: event.createdBy,
-    createdByName: event.createdByName || undefined,
+  const changes = diffFields(before, event)
+  await recordAudit({
+    entityType: 'event',
+    entityId: id,
+    action: 'update',
+    actorId,
+    changes,
+    summary: event.title,
+  })
+
+  // Status changes (publishing, cancelling...) send their own notifications
+  const isListed = LISTED_EVENT_STATUSES.includes(event.status as EventStatus) && !event.deletedAt
+  const changedDetails = [...new Set(
+    Object.keys(changes).filter((field) => field in NOTIFIED_FIELD_LABELS).map((field) => NOTIFIED_FIELD_LABELS[field])
+  )]
+  if (notifyFavoriters && isListed && before?.status === event.status && changedDetails.length > 0) {
+    await notifyEventFavoriters(id, {
+      type: 'event_updated',
+      title: `${event.title} has been updated`,
+      body: `Changed: ${changedDetails.join(', ')}.`,
+    })
   }
+
+  return toEvent(event)
 }
 
-export async function deleteEvent(id: string): Promise<boolean> {
+/**
+ * Move an event to the trash. It disappears from listings and feeds but can
+ * be restored until it is purged; its image is kept until then.
+ */
+export async function deleteEvent(id: string, actorId: string | null): Promise<boolean> {
   try {
-    // First fetch the event to get the imageUrl
-    const event = await prisma.event.findUnique({
+    const event = await prisma.event.update({
       where: { id },
-      select: { imageUrl: true }
+      data: { deletedAt: new Date(), deletedBy: actorId },
+    })
+
+    await recordAudit({
+      entityType: 'event',
+      entityId: id,
+      action: 'delete',
+      actorId,
+      summary: event.title,
+    })
+
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * Take an event back out of the trash
+ */
+export async function restoreEvent(id: string, actorId: string | null): Promise<boolean> {
+  try {
+    const event = await prisma.event.update({
+      where: { id },
+      data: { deletedAt: null, deletedBy: null },
+    })
+
+    await recordAudit({
+      entityType: 'event',
+      entityId: id,
+      action: 'restore',
+      actorId,
+      summary: event.title,
+    })
+
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * Permanently delete an event and its blob image
+ */
+export async function purgeEvent(id: string, actorId: string | null): Promise<boolean> {
+  try {
+    // First fetch the event to get the imageUrl, and its final state for the audit log
+    const event = await prisma.event.findUnique({
+      where: { id }
     })
 
     // Delete the database record
@@ -339,6 +772,15 @@ export async function deleteEvent(id: string): Promise<boolean> {
       where: { id }
     })
 
+    await recordAudit({
+      entityType: 'event',
+      entityId: id,
+      action: 'purge',
+      actorId,
+      changes: diffFields(event, null),
+      summary: event?.title,
+    })
+
     // Delete the blob image if it exists
     if (event?.imageUrl) {
       await deleteBlobImage(event.imageUrl)
@@ -350,21 +792,241 @@ export async function deleteEvent(id: string): Promise<boolean> {
   }
 }
 
-export async function bulkCreateEvents(events: Omit<Event, 'id'>[]): Promise<{ success: number; failed: number; errors: string[] }> {
-  let success = 0
-  let failed = 0
+/**
+ * Days an event stays in the trash before the cleanup cron purges it
+ */
+export const TRASH_RETENTION_DAYS = 30
+
+/**
+ * Events in the trash, most recently deleted first. Pass `createdBy` to
+ * limit them to one author's events.
+ */
+export async function getTrashedEvents(filters: { createdBy?: string } = {}): Promise<TrashedEvent[]> {
+  const events = await prisma.event.findMany({
+    where: { deletedAt: { not: null }, createdBy: filters.createdBy },
+    orderBy: { deletedAt: 'desc' },
+  })
+
+  return events.map((event) => ({
+    ...toEvent(event),
+    deletedAt: event.deletedAt!.toISOString(),
+    deletedBy: event.deletedBy || undefined,
+    purgeDate: new Date(event.deletedAt!.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  }))
+}
+
+/**
+ * Purge every event that has been in the trash longer than
+ * TRASH_RETENTION_DAYS. Returns how many events were purged.
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  const expired = await prisma.event.findMany({
+    where: { deletedAt: { lt: cutoff } },
+    select: { id: true },
+  })
+
+  let purged = 0
+  for (const { id } of expired) {
+    if (await purgeEvent(id, null)) purged++
+  }
+
+  return purged
+}
+
+export type ScheduleChange =
+  | { status: 'cancelled'; reason?: string }
+  | { status: 'postponed'; newDate?: string; reason?: string } // No new date: TBD
+  | { status: 'published' } // Back on as planned
+
+/**
+ * Cancel, postpone or reinstate an event and notify everyone who favorited
+ * it. Postponing to a new date moves the event, remembering the original date.
+ */
+export async function changeEventSchedule(id: string, change: ScheduleChange, actorId: string | null): Promise<Event | null> {
+  const event = await getEventById(id)
+  if (!event) return null
+
+  const moved = change.status === 'postponed' && change.newDate
+  const reason = change.status === 'published' ? undefined : change.reason
+  // Keys present but undefined are cleared: the reason always follows the
+  // change, and reinstating drops the original date
+  const updated = await updateEvent(id, {
+    status: change.status,
+    statusReason: reason,
+    ...(moved ? { date: change.newDate, originalDate: event.originalDate ?? event.date } : {}),
+    ...(change.status === 'published' ? { originalDate: undefined } : {}),
+  }, actorId, { notifyFavoriters: false })
+  if (!updated) return null
+
+  if (change.status === 'cancelled') {
+    await notifyEventFavoriters(id, {
+      type: 'event_cancelled',
+      title: `${event.title} has been cancelled`,
+      body: reason,
+    })
+  } else if (change.status === 'postponed') {
+    await notifyEventFavoriters(id, {
+      type: 'event_postponed',
+      title: moved
+        ? `${event.title} has moved to ${formatDate(updated.date)}`
+        : `${event.title} has been postponed`,
+      body: [moved ? null : 'A new date has not been set yet.', reason].filter(Boolean).join(' ') || undefined,
+    })
+  } else {
+    await notifyEventFavoriters(id, {
+      type: 'event_reinstated',
+      title: `${event.title} is back on`,
+      body: `It's happening on ${formatDate(updated.date)}.`,
+    })
+  }
+
+  return updated
+}
+
+// Reminders already sent within this window aren't repeated if the job re-runs
+const REMINDER_DEDUPE_HOURS = 20
+
+/**
+ * Remind favoriters of events happening tomorrow (site timezone). Cancelled
+ * events and those postponed without a new date are skipped. Returns how
+ * many reminders were sent.
+ */
+export async function sendEventReminders(): Promise<number> {
+  const tomorrow = addDays(getToday(), 1)
+  const events = await getEventsWithOccurrences(tomorrow, tomorrow)
+  const since = new Date(Date.now() - REMINDER_DEDUPE_HOURS * 60 * 60 * 1000)
+
+  let sent = 0
+  for (const event of events) {
+    if (event.status === 'cancelled' || (event.status === 'postponed' && !event.originalDate)) continue
+
+    const when = formatTimeRange(event) ?? event.times
+    sent += await notifyEventFavoriters(event.id, {
+      type: 'event_reminder',
+      title: `${event.title} is tomorrow`,
+      body: [when, event.location].filter(Boolean).join(' · ') || undefined,
+    }, { unlessNotifiedSince: since })
+  }
+
+  return sent
+}
+
+// Fields a source owns. Re-imports overwrite them; anything else (venue link,
+// status, review notes...) keeps whatever it was set to here.
+const SOURCE_FIELDS = [
+  'title', 'description', 'date', 'location', 'address', 'coordinates', 'imageUrl',
+  'categories', 'cost', 'times', 'startTime', 'endTime', 'timeStatus', 'url',
+  'region', 'recurrence', 'rrule', 'exceptionDates', 'endDate', 'city',
+] as const
+
+// Missing, null, empty strings and empty arrays all mean "no value"
+function sameSourceValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) =>
+    value === '' || (Array.isArray(value) && value.length === 0) ? null : value ?? null
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+}
+
+/**
+ * The fields an import of `eventData` would change on `existing`: only fields
+ * the source sent are compared. Free-text times are structured the way
+ * createEvent does, and times the source dropped are cleared.
+ */
+export function sourceEventChanges(existing: EventRecord, eventData: Omit<SourceEvent, 'externalId'>): Partial<Event> {
+  const incoming: Partial<Event> = eventData.timeStatus
+    ? eventData
+    : { ...eventData, startTime: undefined, endTime: undefined, timeStatus: undefined, ...structureTimes(eventData.times) }
+  const current = toEvent(existing)
+
+  return Object.fromEntries(
+    SOURCE_FIELDS
+      .filter((field) => field in incoming && !sameSourceValue(incoming[field], current[field]))
+      .map((field) => [field, incoming[field]])
+  )
+}
+
+/**
+ * Create the event a source knows as `externalId`, or update the one imported
+ * earlier. Only changed fields are written, so importing the same data twice
+ * changes nothing. Events since
+ * moved to the trash are skipped; `defaults` only apply to new events.
+ */
+export async function upsertSourceEvent(
+  source: string,
+  { externalId, ...eventData }: SourceEvent,
+  defaults: Pick<Event, 'createdBy' | 'createdByName' | 'status'>
+): Promise<UpsertOutcome> {
+  const existing = await prisma.event.findUnique({
+    where: { source_externalId: { source, externalId } },
+  })
+
+  if (!existing) {
+    await createEvent({ ...eventData, ...defaults, source, externalId })
+    return 'created'
+  }
+  if (existing.deletedAt) return 'skipped'
+
+  if (existing.delistedAt) {
+    await prisma.event.update({ where: { id: existing.id }, data: { delistedAt: null } })
+  }
+
+  const changes = sourceEventChanges(existing, eventData)
+  if (Object.keys(changes).length === 0) return 'unchanged'
+  await updateEvent(existing.id, changes, null)
+  return 'updated'
+}
+
+/**
+ * Upsert a batch of events from one source, counting what happened to each
+ */
+export async function bulkUpsertEvents(
+  source: string,
+  events: SourceEvent[],
+  defaults: Pick<Event, 'createdBy' | 'createdByName' | 'status'>
+): Promise<UpsertCounts & { errors: string[] }> {
+  const counts: UpsertCounts = { created: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0 }
   const errors: string[] = []
 
   for (const eventData of events) {
     try {
-      await createEvent(eventData)
-      success++
+      counts[await upsertSourceEvent(source, eventData, defaults)]++
     } catch (error) {
-      failed++
+      counts.failed++
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      errors.push(`Failed to create "${eventData.title}": ${errorMessage}`)
+      errors.push(`Failed to import "${eventData.title}": ${errorMessage}`)
     }
   }
 
-  return { success, failed, errors }
+  return { ...counts, errors }
+}
+
+/**
+ * Flag upcoming events from `source` that aren't in `listedExternalIds`, the
+ * ids of everything the source currently lists. They stay up, for an admin
+ * to check; events the source lists again are unflagged on their next
+ * upsert. Returns how many were newly flagged.
+ */
+export async function markDelistedSourceEvents(source: string, listedExternalIds: string[]): Promise<number> {
+  const { count } = await prisma.event.updateMany({
+    where: {
+      AND: [
+        { source, externalId: { notIn: listedExternalIds }, delistedAt: null, deletedAt: null },
+        occurrenceWindowWhere(getToday()),
+      ],
+    },
+    data: { delistedAt: new Date() },
+  })
+  return count
+}
+
+/**
+ * Events not in the trash whose source has stopped listing them, most
+ * recently delisted first
+ */
+export async function getDelistedEvents(): Promise<Event[]> {
+  const events = await prisma.event.findMany({
+    where: { delistedAt: { not: null }, deletedAt: null },
+    orderBy: { delistedAt: 'desc' },
+  })
+  return events.map(toEvent)
 }
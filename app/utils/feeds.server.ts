@@ -0,0 +1,192 @@
+import type { Event } from '~/stores/useEventStore'
+import { getPaginatedEvents } from './events.server'
+import { parsePriceParam } from './cost'
+import { formatDate } from './datetime'
+import { formatTimeRange } from './times'
+import type { FeedFormat, FeedKind } from './feeds'
+import { pageTitle, SITE } from './site'
+
+// Entries per feed
+const FEED_LIMIT = 50
+
+// How far back the new events feed looks
+const NEW_EVENTS_WINDOW_DAYS = 14
+
+const FEED_TITLES: Record<FeedKind, string> = {
+  upcoming: 'Upcoming events',
+  new: 'Newly added events',
+}
+
+interface FeedFilters {
+  search?: string
+  category?: string
+  city?: string
+  minPrice?: number
+  maxPrice?: number
+}
+
+function parseFeedFilters(params: URLSearchParams): FeedFilters {
+  return {
+    search: params.get('search') || undefined,
+    category: params.get('category') || undefined,
+    city: params.get('city') || undefined,
+    minPrice: parsePriceParam(params.get('minPrice')),
+    maxPrice: parsePriceParam(params.get('maxPrice')),
+  }
+}
+
+async function getFeedEvents(kind: FeedKind, filters: FeedFilters): Promise<Event[]> {
+  const { events } = await getPaginatedEvents(1, FEED_LIMIT, {
+    searchQuery: filters.search,
+    category: filters.category,
+    city: filters.city,
+    minPrice: filters.minPrice,
+    maxPrice: filters.maxPrice,
+    ...(kind === 'new'
+      ? { sort: 'newest' as const, listedSince: new Date(Date.now() - NEW_EVENTS_WINDOW_DAYS * 24 * 60 * 60 * 1000) }
+      : { sort: 'date' as const }),
+  })
+  return events
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function feedTitle(kind: FeedKind, filters: FeedFilters): string {
+  const scope = [filters.category, filters.city && `in ${filters.city}`, filters.search && `matching "${filters.search}"`]
+    .filter(Boolean)
+    .join(' ')
+  return pageTitle(`${FEED_TITLES[kind]}${scope ? ` (${scope})` : ''}`)
+}
+
+function imageType(url: string): string {
+  const extension = new URL(url, 'http://localhost').pathname.split('.').pop()?.toLowerCase()
+  switch (extension) {
+    case 'png': return 'image/png'
+    case 'gif': return 'image/gif'
+    case 'webp': return 'image/webp'
+    case 'avif': return 'image/avif'
+    default: return 'image/jpeg'
+  }
+}
+
+/**
+ * Plain-text summary of an event: when, where, price, then its description
+ */
+function entrySummary(event: Event): string {
+  const when = [
+    formatDate(event.occurrenceDate ?? event.date),
+    formatTimeRange(event) ?? event.times,
+  ].filter(Boolean).join(', ')
+  const status = event.status === 'cancelled' ? 'CANCELLED' : event.status === 'postponed' ? 'POSTPONED' : null
+
+  return [status, when, event.location, event.cost, event.description]
+    .filter(Boolean)
+    .join('\n')
+}
+
+interface FeedOptions {
+  kind: FeedKind
+  filters: FeedFilters
+  events: Event[]
+  baseUrl: string
+  feedUrl: string
+}
+
+function buildRss({ kind, filters, events, baseUrl, feedUrl }: FeedOptions): string {
+  const items = events.map((event) => {
+    const link = `${baseUrl}/events/${event.id}`
+    return [
+      '    <item>',
+      `      <title>${escapeXml(event.title)}</title>`,
+      `      <link>${escapeXml(link)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(link)}</guid>`,
+      `      <description>${escapeXml(entrySummary(event))}</description>`,
+      event.listedAt ? `      <pubDate>${new Date(event.listedAt).toUTCString()}</pubDate>` : null,
+      ...(event.categories ?? []).map((category) => `      <category>${escapeXml(category)}</category>`),
+      // RSS requires a length; 0 is the accepted value when it isn't known
+      event.imageUrl
+        ? `      <enclosure url="${escapeXml(event.imageUrl)}" length="0" type="${imageType(event.imageUrl)}" />`
+        : null,
+      '    </item>',
+    ].filter((line): line is string => line !== null).join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feedTitle(kind, filters))}</title>`,
+    `    <link>${escapeXml(`${baseUrl}/events`)}</link>`,
+    `    <description>${escapeXml(`${FEED_TITLES[kind]} in ${SITE.areaName}`)}</description>`,
+    '    <language>en-us</language>',
+    `    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+  ].join('\n')
+}
+
+function buildAtom({ kind, filters, events, baseUrl, feedUrl }: FeedOptions): string {
+  const updated = events
+    .map((event) => event.updatedAt)
+    .filter((timestamp): timestamp is string => !!timestamp)
+    .sort()
+    .pop() ?? new Date().toISOString()
+
+  const entries = events.map((event) => {
+    const link = `${baseUrl}/events/${event.id}`
+    return [
+      '  <entry>',
+      `    <title>${escapeXml(event.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(link)}" />`,
+      `    <id>${escapeXml(link)}</id>`,
+      event.listedAt ? `    <published>${event.listedAt}</published>` : null,
+      `    <updated>${event.updatedAt ?? event.createdAt ?? updated}</updated>`,
+      `    <author><name>${escapeXml(event.createdByName || SITE.name)}</name></author>`,
+      `    <summary type="text">${escapeXml(entrySummary(event))}</summary>`,
+      ...(event.categories ?? []).map((category) => `    <category term="${escapeXml(category)}" />`),
+      event.imageUrl
+        ? `    <link rel="enclosure" type="${imageType(event.imageUrl)}" href="${escapeXml(event.imageUrl)}" />`
+        : null,
+      '  </entry>',
+    ].filter((line): line is string => line !== null).join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(feedTitle(kind, filters))}</title>`,
+    `  <subtitle>${escapeXml(`${FEED_TITLES[kind]} in ${SITE.areaName}`)}</subtitle>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}" />`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(`${baseUrl}/events`)}" />`,
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <updated>${updated}</updated>`,
+    ...entries,
+    '</feed>',
+  ].join('\n')
+}
+
+/**
+ * Loader for the event feeds: filters come from the query string
+ */
+export async function feedResponse(request: Request, kind: FeedKind, format: FeedFormat): Promise<Response> {
+  const url = new URL(request.url)
+  const filters = parseFeedFilters(url.searchParams)
+  const events = await getFeedEvents(kind, filters)
+  const options = { kind, filters, events, baseUrl: url.origin, feedUrl: url.toString() }
+
+  return new Response(format === 'rss' ? buildRss(options) : buildAtom(options), {
+    headers: {
+      'Content-Type': `${format === 'rss' ? 'application/rss+xml' : 'application/atom+xml'}; charset=utf-8`,
+      'Cache-Control': 'public, max-age=900',
+    },
+  })
+}
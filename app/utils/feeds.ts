@@ -0,0 +1,33 @@
+import { pageTitle } from './site'
+
+export type FeedKind = 'upcoming' | 'new'
+export type FeedFormat = 'rss' | 'atom'
+
+// The /events query parameters feeds accept
+const FEED_FILTER_PARAMS = ['search', 'category', 'city', 'minPrice', 'maxPrice']
+
+/**
+ * Feed query string for the feed-relevant filters in an /events URL
+ */
+export function feedQuery(params: URLSearchParams): string {
+  const query = new URLSearchParams()
+  for (const name of FEED_FILTER_PARAMS) {
+    const value = params.get(name)
+    if (value) query.set(name, value)
+  }
+  const result = query.toString()
+  return result ? `?${result}` : ''
+}
+
+/**
+ * `<link rel="alternate">` autodiscovery tags for the event feeds, optionally
+ * filtered by a feed query string
+ */
+export function feedAutodiscoveryLinks(query: string = '') {
+  return [
+    { rel: 'alternate', type: 'application/rss+xml', title: pageTitle('Upcoming (RSS)'), href: `/feeds/upcoming.rss${query}` },
+    { rel: 'alternate', type: 'application/atom+xml', title: pageTitle('Upcoming (Atom)'), href: `/feeds/upcoming.atom${query}` },
+    { rel: 'alternate', type: 'application/rss+xml', title: pageTitle('New (RSS)'), href: `/feeds/new.rss${query}` },
+    { rel: 'alternate', type: 'application/atom+xml', title: pageTitle('New (Atom)'), href: `/feeds/new.atom${query}` },
+  ]
+}
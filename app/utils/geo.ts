@@ -0,0 +1,91 @@
+import type { Coordinate } from '~/types/directions'
+
+export interface BoundingBox {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+const EARTH_RADIUS_MILES = 3958.8
+const MILES_PER_DEGREE_LATITUDE = 69.0
+
+// Radii offered by the "within X miles" filter
+export const RADIUS_OPTIONS_MILES = [1, 5, 10, 25, 50]
+export const DEFAULT_RADIUS_MILES = 10
+export const MAX_RADIUS_MILES = 100
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180
+
+/**
+ * Great-circle distance between two points in miles (Haversine formula)
+ */
+export function distanceInMiles(from: Coordinate, to: Coordinate): number {
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2)
+  return EARTH_RADIUS_MILES * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Smallest bounding box containing the circle of `radiusMiles` around
+ * `center`. Used to narrow a radius search with the coordinate index before
+ * checking exact distances.
+ */
+export function boundingBoxForRadius(center: Coordinate, radiusMiles: number): BoundingBox {
+  const latDelta = radiusMiles / MILES_PER_DEGREE_LATITUDE
+  // Longitude degrees shrink towards the poles; clamp to avoid dividing by ~0
+  const lngDelta = radiusMiles / (MILES_PER_DEGREE_LATITUDE * Math.max(Math.cos(toRadians(center.lat)), 0.01))
+
+  return {
+    west: center.lng - lngDelta,
+    south: center.lat - latDelta,
+    east: center.lng + lngDelta,
+    north: center.lat + latDelta,
+  }
+}
+
+/**
+ * Read a `bbox=west,south,east,north` search param. Returns undefined when
+ * missing or malformed.
+ */
+export function parseBoundingBoxParam(value: string | null): BoundingBox | undefined {
+  if (!value) return undefined
+  const parts = value.split(',').map(Number)
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return undefined
+
+  const [west, south, east, north] = parts
+  if (south < -90 || north > 90 || south > north || west < -180 || east > 180 || west > east) {
+    return undefined
+  }
+  return { west, south, east, north }
+}
+
+/**
+ * Read a `lat`/`lng` pair of search params. Returns undefined when either is
+ * missing or out of range.
+ */
+export function parseCoordinateParams(lat: string | null, lng: string | null): Coordinate | undefined {
+  if (!lat || !lng) return undefined
+  const point = { lat: parseFloat(lat), lng: parseFloat(lng) }
+  if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng)) return undefined
+  if (point.lat < -90 || point.lat > 90 || point.lng < -180 || point.lng > 180) return undefined
+  return point
+}
+
+/**
+ * Read a `radius` search param in miles, falling back to the default and
+ * capped at MAX_RADIUS_MILES
+ */
+export function parseRadiusParam(value: string | null): number {
+  const radius = value ? parseFloat(value) : NaN
+  if (!Number.isFinite(radius) || radius <= 0) return DEFAULT_RADIUS_MILES
+  return Math.min(radius, MAX_RADIUS_MILES)
+}
+
+export function formatDistance(miles: number): string {
+  return miles < 0.1 ? 'Nearby' : `${miles.toFixed(1)} mi away`
+}
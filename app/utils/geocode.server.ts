@@ -0,0 +1,50 @@
+import { SITE } from './site'
+
+export interface GeocodeResult {
+  latitude: number
+  longitude: number
+  fullAddress: string
+}
+
+/**
+ * Forward-geocode an address with Mapbox, biased towards the site's region
+ * and limited to its bounding box.
+ * Returns null when nothing matches; throws when Mapbox isn't configured or
+ * the request fails.
+ */
+export async function geocodeAddress(query: string): Promise<GeocodeResult | null> {
+  const mapboxToken = process.env.VITE_MAPBOX_TOKEN
+  if (!mapboxToken) {
+    throw new Error('Mapbox token not configured')
+  }
+
+  const url = new URL('https://api.mapbox.com/search/geocode/v6/forward')
+  url.searchParams.set('q', query)
+  url.searchParams.set('access_token', mapboxToken)
+  url.searchParams.set('limit', '1')
+  const { proximity, bbox, country } = SITE.geocoding
+  url.searchParams.set('proximity', `${proximity.longitude},${proximity.latitude}`)
+  url.searchParams.set('bbox', [bbox.west, bbox.south, bbox.east, bbox.north].join(','))
+  url.searchParams.set('country', country)
+
+  const response = await fetch(url.toString())
+
+  if (!response.ok) {
+    throw new Error(`Mapbox API error: ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json()
+
+  if (!data.features || data.features.length === 0) {
+    return null
+  }
+
+  const feature = data.features[0]
+  const [longitude, latitude] = feature.geometry.coordinates
+
+  return {
+    latitude,
+    longitude,
+    fullAddress: feature.properties.full_address || feature.properties.name,
+  }
+}
@@ -0,0 +1,32 @@
+// Markers wrapped around search matches by ts_headline. Unlikely to appear in
+// event text, and rendered as <mark> elements rather than injected as HTML.
+export const HIGHLIGHT_START = '⟦'
+export const HIGHLIGHT_END = '⟧'
+
+export interface HighlightPart {
+  text: string
+  highlighted: boolean
+}
+
+/**
+ * Split marked-up text into plain and highlighted parts
+ */
+export function splitHighlights(value: string): HighlightPart[] {
+  const parts: HighlightPart[] = []
+  const pattern = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_END}`, 'gs')
+  let lastIndex = 0
+
+  for (const match of value.matchAll(pattern)) {
+    if (match.index! > lastIndex) {
+      parts.push({ text: value.slice(lastIndex, match.index), highlighted: false })
+    }
+    parts.push({ text: match[1], highlighted: true })
+    lastIndex = match.index! + match[0].length
+  }
+
+  if (lastIndex < value.length) {
+    parts.push({ text: value.slice(lastIndex), highlighted: false })
+  }
+
+  return parts
+}
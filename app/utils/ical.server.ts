@@ -0,0 +1,227 @@
+import type { Event } from '~/stores/useEventStore'
+import { addDays, siteDateTimeToInstant, SITE_TIMEZONE } from './datetime'
+import { structureTimes } from './times'
+import { SITE } from './site'
+
+const TIMEZONE = SITE_TIMEZONE
+const PRODID = `-//${SITE.name}//Event Calendar//EN`
+
+// US Eastern time with the DST rules in effect since 2007. Other site
+// timezones go without a VTIMEZONE; calendar clients resolve IANA TZIDs
+const EASTERN_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  'TZID:America/New_York',
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0500',
+  'TZOFFSETTO:-0400',
+  'TZNAME:EDT',
+  'DTSTART:19700308T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0400',
+  'TZOFFSETTO:-0500',
+  'TZNAME:EST',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+]
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function toICalDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+function toICalDateTime(date: string, time: string): string {
+  return `${toICalDate(date)}T${time.replace(':', '')}00`
+}
+
+function toUTCStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Our stored rules use a date-only UNTIL, but RFC 5545 requires a UTC
+ * date-time when DTSTART carries a time zone: use the last second of the
+ * UNTIL day in the site timezone.
+ */
+function toICalRRule(rrule: string, timed: boolean): string {
+  if (!timed) return rrule
+  return rrule.replace(/UNTIL=(\d{4})(\d{2})(\d{2})(?=;|$)/, (_, y, m, d) => {
+    const nextMidnight = siteDateTimeToInstant(addDays(`${y}-${m}-${d}`, 1))
+    return `UNTIL=${toUTCStamp(new Date(nextMidnight.getTime() - 1000))}`
+  })
+}
+
+function eventLines(event: Event, baseUrl: string, stamp: string): string[] {
+  // Events not yet migrated to structured times fall back to parsing the text
+  const { startTime, endTime } = event.timeStatus ? event : structureTimes(event.times)
+  const timed = !!startTime
+  const eventUrl = `${baseUrl}/events/${event.id}`
+  const lines: string[] = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@${new URL(baseUrl).host}`,
+    `DTSTAMP:${stamp}`,
+  ]
+
+  if (startTime) {
+    lines.push(`DTSTART;TZID=${TIMEZONE}:${toICalDateTime(event.date, startTime)}`)
+    if (endTime) {
+      // "10 PM - 1 AM" ends the following day
+      const endDate = endTime <= startTime ? addDays(event.date, 1) : event.date
+      lines.push(`DTEND;TZID=${TIMEZONE}:${toICalDateTime(endDate, endTime)}`)
+    }
+  } else {
+    // All-day (or unparseable times): DTEND is exclusive. One-off events can
+    // span several days via endDate; for recurring events endDate is the series end
+    const lastDay = !event.rrule && event.endDate && event.endDate > event.date ? event.endDate : event.date
+    lines.push(`DTSTART;VALUE=DATE:${toICalDate(event.date)}`)
+    lines.push(`DTEND;VALUE=DATE:${toICalDate(addDays(lastDay, 1))}`)
+  }
+
+  if (event.rrule) {
+    lines.push(`RRULE:${toICalRRule(event.rrule, timed)}`)
+    if (event.exceptionDates && event.exceptionDates.length > 0) {
+      lines.push(startTime
+        ? `EXDATE;TZID=${TIMEZONE}:${event.exceptionDates.map((date) => toICalDateTime(date, startTime)).join(',')}`
+        : `EXDATE;VALUE=DATE:${event.exceptionDates.map(toICalDate).join(',')}`
+      )
+    }
+  }
+
+  // Calendar apps strike through or hide cancelled events
+  if (event.status === 'cancelled') {
+    lines.push('STATUS:CANCELLED')
+  } else if (event.status === 'postponed' && !event.originalDate) {
+    lines.push('STATUS:TENTATIVE')
+  }
+
+  const titlePrefix = event.status === 'cancelled'
+    ? 'CANCELLED: '
+    : event.status === 'postponed' ? 'POSTPONED: ' : ''
+  lines.push(`SUMMARY:${escapeText(titlePrefix + event.title)}`)
+
+  const description = [
+    event.statusReason,
+    event.description,
+    event.times && !timed ? `Time: ${event.times}` : null,
+    event.cost ? `Cost: ${event.cost}` : null,
+    event.url ? `More info: ${event.url}` : null,
+  ].filter(Boolean).join('\n\n')
+  lines.push(`DESCRIPTION:${escapeText(description)}`)
+
+  const location = [
+    event.location,
+    event.address || [event.city, event.region].filter(Boolean).join(', '),
+  ].filter(Boolean).join(', ')
+  lines.push(`LOCATION:${escapeText(location)}`)
+
+  if (event.coordinates) {
+    lines.push(`GEO:${event.coordinates.lat};${event.coordinates.lng}`)
+  }
+
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${(event.categories ?? []).map(escapeText).join(',')}`)
+  }
+
+  lines.push(`URL:${eventUrl}`)
+  lines.push('END:VEVENT')
+
+  return lines
+}
+
+/**
+ * Build a VCALENDAR document for one or more events
+ */
+export function buildCalendar({
+  name,
+  events,
+  baseUrl,
+}: {
+  name: string
+  events: Event[]
+  baseUrl: string
+}): string {
+  const stamp = toUTCStamp(new Date())
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    // Hint for subscribing clients on how often to refresh
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...(TIMEZONE === 'America/New_York' ? EASTERN_VTIMEZONE : []),
+    ...events.flatMap((event) => eventLines(event, baseUrl, stamp)),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Wrap a calendar in a text/calendar response. Single-event exports are sent
+ * as downloads; feeds are served inline so calendar apps can subscribe.
+ */
+export function calendarResponse(
+  ics: string,
+  filename: string,
+  { download = false, isPrivate = false }: { download?: boolean; isPrivate?: boolean } = {}
+): Response {
+  return new Response(ics, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${filename}"`,
+      'Cache-Control': `${isPrivate ? 'private' : 'public'}, max-age=900`,
+    },
+  })
+}
+
+/**
+ * Turn a string into a safe .ics filename
+ */
+export function calendarFilename(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'events'}.ics`
+}
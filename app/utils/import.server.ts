@@ -0,0 +1,217 @@
+import { prisma } from './db.server'
+import type { ImportDuplicate, ImportFormat, ImportPreviewRow, SourceEvent } from '~/types/ingestion'
+import { guessCsvMapping, type CsvMapping } from './csv'
+import { transformCsvRecord } from './connectors.server'
+import { transformApiEvent, type ApiEvent } from './transformApiData'
+import { sourceEventChanges } from './events.server'
+import { normalizeTitle } from './duplicates.server'
+import { getToday } from './datetime'
+import { structureTimes } from './times'
+import { SITE } from './site'
+
+// Rows per preview request
+export const MAX_PREVIEW_ROWS = 200
+
+/**
+ * Turn one row of an uploaded file into an event. CSV rows are read through
+ * `mapping`, or by their recognized headers when there's none. Throws when
+ * the row can't be read.
+ */
+export function transformImportRecord(format: ImportFormat, record: unknown, mapping?: CsvMapping): SourceEvent {
+  if (!isRecord(record)) {
+    throw new Error('Row is not an object')
+  }
+  if (format === 'csv') {
+    const cells = readCsvCells(record)
+    return transformCsvRecord(cells, mapping ?? guessCsvMapping(Object.keys(cells)))
+  }
+  return transformApiEvent(readApiEvent(record))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value
+  return typeof value === 'number' ? String(value) : undefined
+}
+
+// CSV cells are text; anything else in a cell is left out
+function readCsvCells(record: Record<string, unknown>): Record<string, string> {
+  const cells: Record<string, string> = {}
+  for (const [column, value] of Object.entries(record)) {
+    const text = readText(value)
+    if (text !== undefined) cells[column] = text
+  }
+  return cells
+}
+
+/**
+ * A vendor JSON row, keeping only the fields that have the expected types.
+ * Throws when the date is missing, since nothing else can be read without it.
+ */
+function readApiEvent(record: Record<string, unknown>): ApiEvent {
+  const name = readText(record.name) ?? ''
+  const date = readText(record.date)
+  if (!date || Number.isNaN(new Date(date).getTime())) {
+    throw new Error(`"${name}" has no valid date`)
+  }
+
+  const { coordinates, categories, media_raw: media, listing } = record
+  return {
+    recId: readText(record.recId) ?? '',
+    name,
+    teaser: readText(record.teaser),
+    location: readText(record.location) ?? '',
+    coordinates: Array.isArray(coordinates) && coordinates.length === 2 && coordinates.every((n) => typeof n === 'number')
+      ? [coordinates[0], coordinates[1]]
+      : undefined,
+    date,
+    times: readText(record.times),
+    cost: readText(record.cost),
+    categories: Array.isArray(categories)
+      ? categories.filter(isRecord).flatMap(({ catName, catId }) => (typeof catName === 'string' ? [{ catName, catId: readText(catId) ?? '' }] : []))
+      : undefined,
+    media_raw: Array.isArray(media)
+      ? media.filter(isRecord).flatMap(({ mediaurl, sortorder, mediatype }) =>
+          typeof mediaurl === 'string' ? [{ mediaurl, sortorder: Number(sortorder) || 0, mediatype: readText(mediatype) ?? '' }] : [])
+      : undefined,
+    url: readText(record.url),
+    listing: isRecord(listing) ? { address1: readText(listing.address1), region: readText(listing.region) } : undefined,
+    recurrence: readText(record.recurrence),
+    endDate: readText(record.endDate),
+    city: readText(record.city),
+  }
+}
+
+function isValidDate(value: string | undefined): boolean {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  // Round-trip to catch dates like 2026-02-30
+  return new Date(`${value}T00:00:00Z`).toISOString().startsWith(value)
+}
+
+function isWebUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Problems with an imported event. Errors block the import; warnings are
+ * shown for the admin to judge.
+ */
+export function validateImportEvent(event: SourceEvent): { errors: string[]; warnings: string[] } {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  if (!event.title?.trim()) errors.push('Title is required')
+  if (!event.location?.trim()) errors.push('Location is required')
+  if (!isValidDate(event.date)) {
+    errors.push(`"${event.date}" is not a valid date`)
+  } else if (event.date < getToday() && !(event.rrule && (!event.endDate || event.endDate >= getToday()))) {
+    warnings.push('Date is in the past')
+  }
+
+  if (event.endDate !== undefined) {
+    if (!isValidDate(event.endDate)) errors.push(`"${event.endDate}" is not a valid end date`)
+    else if (event.endDate < event.date) errors.push('End date is before the start date')
+  }
+
+  // Anything but a web link (javascript:, data:...) is refused outright
+  if (event.url && !isWebUrl(event.url)) errors.push('URL must be an http(s) link')
+  if (event.imageUrl && !isWebUrl(event.imageUrl)) errors.push('Image URL must be an http(s) link')
+
+  if (!event.coordinates) {
+    warnings.push("No coordinates; it won't show on the map")
+  } else {
+    const { lat, lng } = event.coordinates
+    const { bbox } = SITE.geocoding
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      errors.push('Coordinates are out of range')
+    } else if (lng < bbox.west || lng > bbox.east || lat < bbox.south || lat > bbox.north) {
+      warnings.push(`Coordinates are outside ${SITE.areaName}`)
+    }
+  }
+
+  if (!event.timeStatus && structureTimes(event.times).timeStatus === 'unparseable') {
+    warnings.push(`Couldn't read the times "${event.times}"`)
+  }
+
+  return { errors, warnings }
+}
+
+/**
+ * Same day, and the same title (or one title containing the other)
+ */
+function looksLikeSameEvent(event: SourceEvent, other: ImportDuplicate): boolean {
+  if (event.date !== other.date) return false
+  const a = normalizeTitle(event.title)
+  const b = normalizeTitle(other.title)
+  if (a === b) return true
+  return Math.min(a.length, b.length) >= 8 && (a.includes(b) || b.includes(a))
+}
+
+/**
+ * Dry-run a chunk of an uploaded file: transform and validate each row, say
+ * whether importing it would create, update or leave an event alone, and
+ * warn about other events on the same day that look like the same one.
+ * Nothing is written. `startIndex` is the chunk's offset in the file.
+ */
+export async function previewImport(
+  source: string,
+  format: ImportFormat,
+  records: unknown[],
+  { mapping, startIndex = 0 }: { mapping?: CsvMapping; startIndex?: number } = {}
+): Promise<ImportPreviewRow[]> {
+  const rows: ImportPreviewRow[] = records.map((record, i) => {
+    const index = startIndex + i
+    try {
+      const event = transformImportRecord(format, record, mapping)
+      return { index, event, ...validateImportEvent(event), changedFields: [], duplicates: [] }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return { index, errors: [message], warnings: [], changedFields: [], duplicates: [] }
+    }
+  })
+
+  const events = rows.flatMap((row) => (row.event ? [row.event] : []))
+  const [imported, sameDay] = await Promise.all([
+    // Events this source imported before are updated, not duplicated
+    prisma.event.findMany({
+      where: { source, externalId: { in: events.map((event) => event.externalId) } },
+    }),
+    prisma.event.findMany({
+      where: { date: { in: [...new Set(events.map((event) => event.date))] }, deletedAt: null },
+      select: { id: true, title: true, date: true, location: true },
+    }),
+  ])
+  const importedByExternalId = new Map(imported.map((event) => [event.externalId, event]))
+
+  for (const row of rows) {
+    if (!row.event) continue
+    const { externalId, ...eventData } = row.event
+    const existing = importedByExternalId.get(externalId)
+
+    if (!existing) {
+      row.action = 'created'
+    } else if (existing.deletedAt) {
+      row.action = 'skipped'
+      row.warnings.push("Already imported and moved to the trash; it won't be re-imported")
+    } else {
+      row.changedFields = Object.keys(sourceEventChanges(existing, eventData))
+      row.action = row.changedFields.length > 0 ? 'updated' : 'unchanged'
+    }
+
+    row.duplicates = sameDay
+      .filter((other) => other.id !== existing?.id && looksLikeSameEvent(row.event!, other))
+      .map(({ id, title, date, location }) => ({ id, title, date, location }))
+    if (row.duplicates.length > 0) {
+      row.warnings.push('May already be listed')
+    }
+  }
+
+  return rows
+}
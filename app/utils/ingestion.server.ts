@@ -0,0 +1,192 @@
+import { prisma } from './db.server'
+import type {
+  ConnectorType,
+  IngestionRun,
+  IngestionRunStatus,
+  IngestionSchedule,
+  IngestionSource,
+  SourceEvent,
+  UpsertCounts,
+} from '~/types/ingestion'
+import type { IngestionRun as IngestionRunRecord, IngestionSource as IngestionSourceRecord } from '../../prisma/generated/client.js'
+import { CONNECTORS } from './connectors.server'
+import { bulkUpsertEvents, markDelistedSourceEvents } from './events.server'
+
+export const INGESTION_SCHEDULE_HOURS: Record<IngestionSchedule, number> = {
+  hourly: 1,
+  daily: 24,
+  weekly: 24 * 7,
+}
+
+// Errors kept per run; the count of failures is always exact
+const MAX_RUN_ERRORS = 50
+
+function toIngestionRun(run: IngestionRunRecord & { source: { name: string } }): IngestionRun {
+  return {
+    id: run.id,
+    sourceId: run.sourceId,
+    sourceName: run.source.name,
+    status: run.status as IngestionRunStatus,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString(),
+    fetched: run.fetched,
+    created: run.created,
+    updated: run.updated,
+    unchanged: run.unchanged,
+    skipped: run.skipped,
+    failed: run.failed,
+    delisted: run.delisted,
+    errors: run.errors,
+  }
+}
+
+function toIngestionSource(source: IngestionSourceRecord, lastRun?: IngestionRun): IngestionSource {
+  return {
+    id: source.id,
+    name: source.name,
+    slug: source.slug,
+    type: source.type as ConnectorType,
+    url: source.url,
+    schedule: source.schedule as IngestionSchedule,
+    enabled: source.enabled,
+    autoPublish: source.autoPublish,
+    lastRunAt: source.lastRunAt?.toISOString(),
+    lastRun,
+    createdAt: source.createdAt.toISOString(),
+  }
+}
+
+export async function getIngestionSources(): Promise<IngestionSource[]> {
+  const sources = await prisma.ingestionSource.findMany({
+    orderBy: { name: 'asc' as const },
+    include: { runs: { orderBy: { startedAt: 'desc' as const }, take: 1 } },
+  })
+  return sources.map(({ runs, ...source }) =>
+    toIngestionSource(source, runs[0] ? toIngestionRun({ ...runs[0], source }) : undefined)
+  )
+}
+
+export async function getRecentIngestionRuns(limit = 20): Promise<IngestionRun[]> {
+  const runs = await prisma.ingestionRun.findMany({
+    orderBy: { startedAt: 'desc' as const },
+    take: limit,
+    include: { source: { select: { name: true } } },
+  })
+  return runs.map(toIngestionRun)
+}
+
+export function slugifySourceName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+/**
+ * Add a source. Returns null when another source already has the same slug.
+ */
+export async function createIngestionSource(
+  data: { name: string; type: ConnectorType; url: string; schedule: IngestionSchedule; autoPublish: boolean },
+  createdBy: string
+): Promise<IngestionSource | null> {
+  const slug = slugifySourceName(data.name)
+  const existing = await prisma.ingestionSource.findUnique({ where: { slug } })
+  if (existing) return null
+
+  const source = await prisma.ingestionSource.create({
+    data: { ...data, slug, createdBy },
+  })
+  return toIngestionSource(source)
+}
+
+export async function setIngestionSourceEnabled(id: string, enabled: boolean): Promise<boolean> {
+  const { count } = await prisma.ingestionSource.updateMany({ where: { id }, data: { enabled } })
+  return count > 0
+}
+
+/**
+ * Remove a source and its run history. Events it imported are kept.
+ */
+export async function deleteIngestionSource(id: string): Promise<boolean> {
+  const { count } = await prisma.ingestionSource.deleteMany({ where: { id } })
+  return count > 0
+}
+
+/**
+ * Pull a source now: fetch it, transform each record and upsert the events,
+ * then flag upcoming events it no longer lists. The run is logged. A failed
+ * fetch fails the run; a bad record only counts as failed, but then nothing
+ * is flagged, since it may have been one of those events.
+ */
+export async function runIngestionSource(sourceId: string): Promise<IngestionRun | null> {
+  const source = await prisma.ingestionSource.findUnique({ where: { id: sourceId } })
+  if (!source) return null
+
+  const connector = CONNECTORS[source.type as ConnectorType]
+  const startedAt = new Date()
+  await prisma.ingestionSource.update({ where: { id: source.id }, data: { lastRunAt: startedAt } })
+  const run = await prisma.ingestionRun.create({ data: { sourceId: source.id, startedAt } })
+
+  const counts: UpsertCounts & { fetched: number; delisted: number } = {
+    fetched: 0, created: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0, delisted: 0,
+  }
+  const errors: string[] = []
+  let status: IngestionRunStatus = 'succeeded'
+
+  try {
+    if (!connector) throw new Error(`Unknown source type "${source.type}"`)
+    const records = await connector.fetch(source.url)
+    counts.fetched = records.length
+
+    const events: SourceEvent[] = []
+    let untransformed = 0
+    for (const [index, record] of records.entries()) {
+      try {
+        events.push(connector.transform(record, source.url))
+      } catch (error) {
+        untransformed++
+        errors.push(`Record ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    const { errors: upsertErrors, ...upserted } = await bulkUpsertEvents(source.slug, events, {
+      createdBy: source.createdBy,
+      createdByName: source.name,
+      status: source.autoPublish ? 'published' : 'pending',
+    })
+    Object.assign(counts, upserted, { failed: upserted.failed + untransformed })
+    errors.push(...upsertErrors)
+
+    if (untransformed === 0) {
+      counts.delisted = await markDelistedSourceEvents(source.slug, events.map((event) => event.externalId))
+    }
+  } catch (error) {
+    status = 'failed'
+    errors.unshift(error instanceof Error ? error.message : 'Unknown error')
+    console.error(`[Ingest] ${source.name} failed:`, error)
+  }
+
+  const finished = await prisma.ingestionRun.update({
+    where: { id: run.id },
+    data: { ...counts, status, errors: errors.slice(0, MAX_RUN_ERRORS), finishedAt: new Date() },
+    include: { source: { select: { name: true } } },
+  })
+  return toIngestionRun(finished)
+}
+
+/**
+ * Run every enabled source whose schedule says it's due
+ */
+export async function runDueIngestionSources(now = new Date()): Promise<IngestionRun[]> {
+  const sources = await prisma.ingestionSource.findMany({ where: { enabled: true } })
+  const due = sources.filter((source) => {
+    if (!source.lastRunAt) return true
+    const hours = INGESTION_SCHEDULE_HOURS[source.schedule as IngestionSchedule] ?? INGESTION_SCHEDULE_HOURS.daily
+    // A few minutes' slack so an hourly cron doesn't skip runs that started a little late
+    return now.getTime() - source.lastRunAt.getTime() >= hours * 60 * 60 * 1000 - 5 * 60 * 1000
+  })
+
+  const runs: IngestionRun[] = []
+  for (const source of due) {
+    const run = await runIngestionSource(source.id)
+    if (run) runs.push(run)
+  }
+  return runs
+}
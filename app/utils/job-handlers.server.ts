@@ -0,0 +1,333 @@
+import { prisma } from './db.server'
+import type { Job as JobRecord } from '../../prisma/generated/client.js'
+import type { ImportFormat, SourceEvent } from '~/types/ingestion'
+import type { JobType } from '~/types/jobs'
+import type { CsvMapping } from './csv'
+import {
+  bulkUpsertEvents,
+  deleteEvent,
+  markDelistedSourceEvents,
+  purgeExpiredTrash,
+  updateEvent,
+} from './events.server'
+import { transformImportRecord, validateImportEvent } from './import.server'
+import { mergeEvents } from './duplicates.server'
+import { geocodeAddress } from './geocode.server'
+import { purgeExpiredRateLimits } from './rate-limit.server'
+import { getLastOccurrence, parseRRule } from './recurrence'
+import { getToday } from './datetime'
+
+/**
+ * What one step of a job did. `cursor` is saved and handed back on the next
+ * step; `result` counts are added to the job's running totals.
+ */
+export interface JobStep {
+  done: boolean
+  cursor?: Record<string, unknown>
+  progress?: number
+  total?: number
+  result?: Record<string, number>
+}
+
+/**
+ * Runs the next step of a job. Steps should be small (seconds) and safe to
+ * repeat, since a step that throws is retried from the same cursor.
+ */
+export type JobHandler = (job: JobRecord, log: (message: string) => void) => Promise<JobStep>
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+// --- Imports ---
+
+export interface ImportJobPayload {
+  source: string // Slug events are matched under
+  format: ImportFormat
+  mapping?: CsvMapping
+  records: unknown[]
+  rows: number[] // Each record's position in the uploaded file, for messages
+  listedExternalIds?: string[] // Full exports: flag upcoming events missing from them
+}
+
+const IMPORT_ROWS_PER_STEP = 25
+
+const importHandler: JobHandler = async (job, log): Promise<JobStep> => {
+  const payload = job.payload as unknown as ImportJobPayload
+  const offset = (job.cursor as { offset?: number } | null)?.offset ?? 0
+  const records = payload.records.slice(offset, offset + IMPORT_ROWS_PER_STEP)
+
+  // Rows are validated again: the preview ran against the data as it was then
+  const events: SourceEvent[] = []
+  let invalid = 0
+  for (const [i, record] of records.entries()) {
+    const row = `Row ${(payload.rows[offset + i] ?? offset + i) + 1}`
+    try {
+      const event = transformImportRecord(payload.format, record, payload.mapping)
+      const { errors } = validateImportEvent(event)
+      if (errors.length > 0) {
+        invalid++
+        log(`${row} ("${event.title}"): ${errors.join('; ')}`)
+      } else {
+        events.push(event)
+      }
+    } catch (error) {
+      invalid++
+      log(`${row}: ${errorMessage(error)}`)
+    }
+  }
+
+  // New events are created by the admin who started the import; existing ones keep their author
+  const { errors, ...counts } = await bulkUpsertEvents(payload.source, events, { createdBy: job.createdBy ?? 'system' })
+  errors.forEach(log)
+
+  const next = offset + records.length
+  const result: Record<string, number> = { ...counts, failed: counts.failed + invalid }
+  log(`Rows ${offset + 1}-${next}: ${result.created} new, ${result.updated} updated, ${result.unchanged} unchanged, ${result.failed} failed`)
+
+  const done = next >= payload.records.length
+  if (done && payload.listedExternalIds) {
+    result.delisted = await markDelistedSourceEvents(payload.source, payload.listedExternalIds)
+    log(`Flagged ${result.delisted} upcoming events the source no longer lists`)
+  }
+
+  return { done, cursor: { offset: next }, progress: next, result }
+}
+
+// --- Duplicate removal ---
+
+const DEDUPE_EVENTS_PER_STEP = 25
+
+// Same fields as `npm run dedupe-events`: only exact copies count
+function duplicateKey(event: { title: string; date: string; description: string; location: string; times: string | null }): string {
+  return [
+    event.title.toLowerCase().trim(),
+    event.date,
+    event.description.toLowerCase().trim(),
+    event.location.toLowerCase().trim(),
+    (event.times || '').toLowerCase().trim(),
+  ].join('|')
+}
+
+/**
+ * First step finds exact copies (keeping the oldest of each), later steps
+ * merge them into it a batch at a time, so their votes carry over. With
+ * `dryRun` it only reports. Near-duplicates are left to the review screen.
+ */
+const dedupeHandler: JobHandler = async (job, log): Promise<JobStep> => {
+  const { dryRun = false } = job.payload as { dryRun?: boolean }
+  const cursor = job.cursor as { pending?: [string, string][] } | null
+
+  if (!cursor?.pending) {
+    const events = await prisma.event.findMany({
+      where: { deletedAt: null },
+      select: { id: true, title: true, date: true, description: true, location: true, times: true },
+      orderBy: { createdAt: 'asc' }, // Oldest first so we keep the original
+    })
+
+    const groups = new Map<string, typeof events>()
+    for (const event of events) {
+      const key = duplicateKey(event)
+      groups.set(key, [...(groups.get(key) ?? []), event])
+    }
+
+    // [kept id, duplicate id] pairs
+    const pending: [string, string][] = []
+    for (const [keep, ...duplicates] of groups.values()) {
+      if (duplicates.length === 0) continue
+      log(`"${keep.title}" (${keep.date}): keeping ${keep.id}, ${dryRun ? 'would merge' : 'merging'} ${duplicates.map((event) => event.id).join(', ')}`)
+      pending.push(...duplicates.map((event): [string, string] => [keep.id, event.id]))
+    }
+
+    log(`Scanned ${events.length} events: ${pending.length} duplicates`)
+    return {
+      done: dryRun || pending.length === 0,
+      cursor: { pending },
+      progress: 0,
+      total: pending.length,
+      result: { scanned: events.length, duplicates: pending.length },
+    }
+  }
+
+  const batch = cursor.pending.slice(0, DEDUPE_EVENTS_PER_STEP)
+  const remaining = cursor.pending.slice(DEDUPE_EVENTS_PER_STEP)
+  let merged = 0
+  for (const [keepId, duplicateId] of batch) {
+    if (await mergeEvents(keepId, duplicateId, [], job.createdBy)) merged++
+  }
+
+  return {
+    done: remaining.length === 0,
+    cursor: { pending: remaining },
+    progress: job.progress + batch.length,
+    result: { merged },
+  }
+}
+
+// --- Geocoding backfill ---
+
+const GEOCODE_EVENTS_PER_STEP = 10
+
+/**
+ * Look up coordinates for events without them, so they show on the map.
+ * Events are walked in id order; the cursor is the last one tried.
+ */
+const geocodeBackfillHandler: JobHandler = async (job, log): Promise<JobStep> => {
+  const { lastId } = (job.cursor as { lastId?: string } | null) ?? {}
+  const where = { deletedAt: null, OR: [{ latitude: null }, { longitude: null }] }
+
+  const total = job.total ?? await prisma.event.count({ where })
+  const events = await prisma.event.findMany({
+    where: { ...where, ...(lastId ? { id: { gt: lastId } } : {}) },
+    select: { id: true, title: true, location: true, address: true, city: true },
+    orderBy: { id: 'asc' },
+    take: GEOCODE_EVENTS_PER_STEP,
+  })
+
+  let geocoded = 0
+  let notFound = 0
+  for (const event of events) {
+    const query = [event.address || event.location, event.city].filter(Boolean).join(', ')
+    const match = await geocodeAddress(query)
+    if (!match) {
+      notFound++
+      log(`No match for "${event.title}" (${query})`)
+      continue
+    }
+    await updateEvent(
+      event.id,
+      { coordinates: { lat: match.latitude, lng: match.longitude } },
+      job.createdBy,
+      { notifyFavoriters: false }
+    )
+    geocoded++
+  }
+
+  return {
+    done: events.length < GEOCODE_EVENTS_PER_STEP,
+    cursor: { lastId: events.at(-1)?.id ?? lastId },
+    progress: job.progress + events.length,
+    total,
+    result: { geocoded, notFound },
+  }
+}
+
+// --- Cleanup ---
+
+const CLEANUP_EVENTS_PER_STEP = 100
+
+/**
+ * Compare two date strings in YYYY-MM-DD format.
+ * Returns true if dateStr is before compareDate.
+ */
+function isDateBefore(dateStr: string, compareDate: string): boolean {
+  // Parse dates explicitly to avoid string comparison issues
+  const [year1, month1, day1] = dateStr.split('-').map(Number)
+  const [year2, month2, day2] = compareDate.split('-').map(Number)
+
+  if (year1 !== year2) return year1 < year2
+  if (month1 !== month2) return month1 < month2
+  return day1 < day2
+}
+
+function isExpired(event: {
+  date: string
+  status: string
+  originalDate: string | null
+  rrule: string | null
+  recurrence: string | null
+  exceptionDates: string[]
+  endDate: string | null
+}, today: string): boolean {
+  // Postponed events waiting on a new date are kept until one is set
+  if (event.status === 'postponed' && !event.originalDate) {
+    return false
+  }
+
+  const rule = event.rrule ? parseRRule(event.rrule) : null
+  if (rule) {
+    // Structured rule: expired once its final occurrence has passed
+    const lastOccurrence = getLastOccurrence(event.date, rule, event.exceptionDates)
+    return lastOccurrence !== null && isDateBefore(lastOccurrence, today)
+  }
+
+  if (event.recurrence) {
+    // Recurring event: check endDate if it exists
+    if (event.endDate) {
+      return isDateBefore(event.endDate, today)
+    }
+    // Recurring events without endDate: don't auto-delete
+    // (they need manual cleanup or an endDate to be set)
+    return false
+  }
+
+  // Non-recurring event: check if date has passed
+  return isDateBefore(event.date, today)
+}
+
+/**
+ * Events that may have expired by `today`, narrowed in the database; the
+ * rest of the check (rules, postponements) is done by isExpired
+ */
+function expiryCandidateWhere(today: string) {
+  return {
+    deletedAt: null, // Trashed events are left to the trash retention window
+    // YYYY-MM-DD strings sort by date
+    OR: [
+      { rrule: null, recurrence: null, date: { lt: today } },
+      { rrule: null, recurrence: { not: null }, endDate: { lt: today } },
+      // A rule's last occurrence can't have passed before its first
+      { rrule: { not: null }, date: { lt: today } },
+    ],
+  }
+}
+
+/**
+ * First step purges old API rate-limit windows and events in the trash past
+ * the retention window; later steps walk the events that may have expired
+ * in id order and move those that have to the trash, a batch at a time.
+ * The cursor is the last event checked.
+ */
+const cleanupHandler: JobHandler = async (job, log): Promise<JobStep> => {
+  if (!job.cursor) {
+    const rateLimitsPurged = await purgeExpiredRateLimits()
+    const trashPurged = await purgeExpiredTrash()
+    log(`Purged ${rateLimitsPurged} expired API rate-limit windows and ${trashPurged} events from the trash`)
+    return { done: false, cursor: { phase: 'expired' }, result: { rateLimitsPurged, trashPurged } }
+  }
+
+  const { lastId } = job.cursor as { lastId?: string }
+  const today = getToday()
+  const where = expiryCandidateWhere(today)
+
+  const total = job.total ?? await prisma.event.count({ where })
+  const candidates = await prisma.event.findMany({
+    where: { ...where, ...(lastId ? { id: { gt: lastId } } : {}) },
+    orderBy: { id: 'asc' },
+    take: CLEANUP_EVENTS_PER_STEP,
+  })
+  const expiredEvents = candidates.filter((event) => isExpired(event, today))
+
+  // Expired events go to the trash like any other deletion, so they can be
+  // restored until the purge above removes them (and their images)
+  let trashed = 0
+  for (const event of expiredEvents) {
+    if (await deleteEvent(event.id, null)) trashed++
+  }
+  log(`Moved ${trashed} expired events to the trash (as of ${today})`)
+
+  return {
+    done: candidates.length < CLEANUP_EVENTS_PER_STEP,
+    cursor: { phase: 'expired', lastId: candidates.at(-1)?.id ?? lastId },
+    progress: job.progress + candidates.length,
+    total,
+    result: { trashed },
+  }
+}
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  import: importHandler,
+  dedupe: dedupeHandler,
+  'geocode-backfill': geocodeBackfillHandler,
+  cleanup: cleanupHandler,
+}
@@ -0,0 +1,292 @@
+import { prisma } from './db.server'
+import type { Job as JobRecord, Prisma } from '../../prisma/generated/client.js'
+import { ACTIVE_JOB_STATUSES, type Job, type JobStatus, type JobType } from '~/types/jobs'
+import { JOB_HANDLERS, type ImportJobPayload, type JobStep } from './job-handlers.server'
+
+// How long a worker holds a job between saves; a crashed worker's job is
+// picked up again once its lease runs out
+const LEASE_MS = 2 * 60 * 1000
+
+// Time one worker run spends on jobs, leaving headroom under the function timeout
+export const WORKER_BUDGET_MS = 50 * 1000
+
+// First retry waits this long, doubling after each further failure
+const RETRY_BACKOFF_MS = 60 * 1000
+
+// Log lines kept per job; the oldest are dropped
+const MAX_JOB_LOGS = 200
+
+// Rows an import accepts per upload request
+export const MAX_IMPORT_UPLOAD_ROWS = 500
+
+function toJob(job: JobRecord): Job {
+  return {
+    id: job.id,
+    type: job.type as JobType,
+    label: job.label,
+    status: job.status as JobStatus,
+    progress: job.progress,
+    total: job.total ?? undefined,
+    result: job.result as Record<string, number>,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    logs: job.logs,
+    error: job.error || undefined,
+    createdBy: job.createdBy || undefined,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString(),
+    finishedAt: job.finishedAt?.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  }
+}
+
+function logLine(message: string): string {
+  return `${new Date().toISOString()} ${message}`
+}
+
+export async function getRecentJobs(limit = 30): Promise<Job[]> {
+  const jobs = await prisma.job.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  })
+  return jobs.map(toJob)
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  const job = await prisma.job.findUnique({ where: { id } })
+  return job ? toJob(job) : null
+}
+
+export async function hasActiveJob(type: JobType): Promise<boolean> {
+  const count = await prisma.job.count({ where: { type, status: { in: ACTIVE_JOB_STATUSES } } })
+  return count > 0
+}
+
+/**
+ * Queue a job for the worker. Imports start as 'uploading' and are queued by
+ * their last appendImportRows call.
+ */
+export async function enqueueJob(
+  type: JobType,
+  { label = '', payload = {}, createdBy }: { label?: string; payload?: Record<string, unknown>; createdBy?: string | null } = {}
+): Promise<Job> {
+  const job = await prisma.job.create({
+    data: {
+      type,
+      label,
+      payload: payload as Prisma.InputJsonObject,
+      status: type === 'import' ? 'uploading' : 'queued',
+      createdBy,
+      logs: [logLine('Queued')],
+    },
+  })
+  return toJob(job)
+}
+
+/**
+ * Add a batch of rows to an import that's still uploading. With `final`, the
+ * import is queued for the worker. Returns null unless the job is an import
+ * still taking rows.
+ */
+export async function appendImportRows(
+  id: string,
+  { records, rows }: Pick<ImportJobPayload, 'records' | 'rows'>,
+  final: boolean
+): Promise<Job | null> {
+  const job = await prisma.job.findUnique({ where: { id } })
+  if (!job || job.type !== 'import' || job.status !== 'uploading') return null
+
+  const payload = job.payload as unknown as ImportJobPayload
+  const updated: ImportJobPayload = {
+    ...payload,
+    records: [...payload.records, ...records],
+    rows: [...payload.rows, ...rows],
+  }
+
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: 'uploading' },
+    data: {
+      payload: updated as unknown as Prisma.InputJsonObject,
+      ...(final && {
+        status: 'queued',
+        total: updated.records.length,
+        runAfter: new Date(),
+        logs: { push: logLine(`Uploaded ${updated.records.length} rows`) },
+      }),
+    },
+  })
+  return count > 0 ? { ...toJob(job), status: final ? 'queued' : 'uploading' } : null
+}
+
+/**
+ * Stop a job that hasn't finished. A step already running completes, but
+ * its progress isn't saved and no further steps run.
+ */
+export async function cancelJob(id: string): Promise<boolean> {
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: { in: ACTIVE_JOB_STATUSES } },
+    data: { status: 'cancelled', finishedAt: new Date(), lockedUntil: null, logs: { push: logLine('Cancelled') } },
+  })
+  return count > 0
+}
+
+/**
+ * Queue a failed or cancelled job again; it resumes from its last saved
+ * step. Imports cancelled before their upload finished can't be retried.
+ */
+export async function retryJob(id: string): Promise<boolean> {
+  const job = await prisma.job.findUnique({ where: { id } })
+  if (!job || (job.type === 'import' && job.total === null)) return false
+
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: { in: ['failed', 'cancelled'] } },
+    data: {
+      status: 'queued',
+      attempts: 0,
+      error: null,
+      runAfter: new Date(),
+      finishedAt: null,
+      logs: { push: logLine('Retried') },
+    },
+  })
+  return count > 0
+}
+
+/**
+ * Take the oldest job that's due, or whose worker died mid-step. A job whose
+ * lease ran out counts that as a failed attempt, and is failed instead of
+ * claimed once it has used up maxAttempts. Returns null when there's none,
+ * or another worker claimed it first.
+ */
+async function claimNextJob(): Promise<JobRecord | null> {
+  const now = new Date()
+  const candidate = await prisma.job.findFirst({
+    where: {
+      OR: [
+        { status: 'queued', runAfter: { lte: now } },
+        { status: 'running', lockedUntil: { lt: now } },
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+  if (!candidate) return null
+
+  // The step was cut off (the function crashed or timed out), so nothing recorded its failure
+  const abandoned = candidate.status === 'running'
+  const attempts = candidate.attempts + (abandoned ? 1 : 0)
+  const giveUp = abandoned && attempts >= candidate.maxAttempts
+  const message = 'Worker stopped mid-step'
+  if (abandoned) {
+    console.error(`[Jobs] ${candidate.type} job ${candidate.id}: ${message} (attempt ${attempts} of ${candidate.maxAttempts})`)
+  }
+
+  const claim = giveUp
+    ? { status: 'failed', attempts, error: message, finishedAt: now, lockedUntil: null }
+    : {
+      status: 'running',
+      attempts,
+      ...(abandoned && { error: message }),
+      lockedUntil: new Date(now.getTime() + LEASE_MS),
+      startedAt: candidate.startedAt ?? now,
+    }
+  const logs = abandoned
+    ? [...candidate.logs, logLine(giveUp ? `Failed: ${message}` : `${message}, retrying`)].slice(-MAX_JOB_LOGS)
+    : candidate.logs
+
+  // Only matches if nobody changed the job since we read it
+  const { count } = await prisma.job.updateMany({
+    where: { id: candidate.id, status: candidate.status, lockedUntil: candidate.lockedUntil },
+    data: abandoned ? { ...claim, logs } : claim,
+  })
+  if (count === 0) return null
+  // Move on to the next job, if any
+  if (giveUp) return claimNextJob()
+  return { ...candidate, ...claim, logs }
+}
+
+/**
+ * Record a failed step: retry after a backoff, or give up after maxAttempts
+ */
+async function failStep(job: JobRecord, error: unknown, logs: string[]): Promise<void> {
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  const attempts = job.attempts + 1
+  const giveUp = attempts >= job.maxAttempts
+  console.error(`[Jobs] ${job.type} job ${job.id} failed (attempt ${attempts} of ${job.maxAttempts}):`, error)
+
+  await prisma.job.updateMany({
+    where: { id: job.id, status: 'running' },
+    data: {
+      attempts,
+      error: message,
+      lockedUntil: null,
+      logs: [...job.logs, ...logs, logLine(giveUp ? `Failed: ${message}` : `Step failed, will retry: ${message}`)].slice(-MAX_JOB_LOGS),
+      ...(giveUp
+        ? { status: 'failed', finishedAt: new Date() }
+        : { status: 'queued', runAfter: new Date(Date.now() + RETRY_BACKOFF_MS * 2 ** (attempts - 1)) }),
+    },
+  })
+}
+
+/**
+ * Run a claimed job's steps until it finishes, fails, is cancelled or the
+ * worker runs out of time, saving after every step. A job left unfinished is
+ * queued again for the next worker run.
+ */
+async function runJob(job: JobRecord, deadline: number): Promise<void> {
+  const handler = JOB_HANDLERS[job.type as JobType]
+  let current = job
+
+  while (true) {
+    const logs: string[] = []
+    let step: JobStep
+    try {
+      if (!handler) throw new Error(`Unknown job type "${job.type}"`)
+      step = await handler(current, (message) => logs.push(logLine(message)))
+    } catch (error) {
+      await failStep(current, error, logs)
+      return
+    }
+
+    const result = { ...(current.result as Record<string, number>) }
+    for (const [key, value] of Object.entries(step.result ?? {})) {
+      result[key] = (result[key] ?? 0) + value
+    }
+    const outOfTime = Date.now() >= deadline
+
+    const data = {
+      ...(step.cursor !== undefined && { cursor: step.cursor as Prisma.InputJsonObject }),
+      result,
+      progress: step.progress ?? current.progress,
+      total: step.total ?? current.total,
+      logs: [...current.logs, ...logs].slice(-MAX_JOB_LOGS),
+      ...(step.done
+        ? { status: 'succeeded', finishedAt: new Date(), lockedUntil: null, error: null }
+        : outOfTime
+          ? { status: 'queued', lockedUntil: null }
+          : { lockedUntil: new Date(Date.now() + LEASE_MS) }),
+    }
+
+    // Only saved while the job is still ours; it may have been cancelled mid-step
+    const { count } = await prisma.job.updateMany({ where: { id: current.id, status: 'running' }, data })
+    if (count === 0 || step.done || outOfTime) return
+    current = { ...current, ...data } as JobRecord
+  }
+}
+
+/**
+ * Work through due jobs, oldest first, for up to `budgetMs`. Returns how
+ * many jobs it worked on.
+ */
+export async function runJobWorker(budgetMs = WORKER_BUDGET_MS): Promise<number> {
+  const deadline = Date.now() + budgetMs
+  let worked = 0
+
+  while (Date.now() < deadline) {
+    const job = await claimNextJob()
+    if (!job) break
+    await runJob(job, deadline)
+    worked++
+  }
+
+  return worked
+}
@@ -0,0 +1,141 @@
+import { prisma } from './db.server'
+import { isAdmin, isTrustedAuthor, setAuthorTrusted } from './roles.server'
+import { diffFields, recordAudit } from './audit.server'
+import { listingChange, toEvent, updateEvent } from './events.server'
+import type { Event } from '~/stores/useEventStore'
+import type { EventStatus } from '~/types/moderation'
+
+/**
+ * Published events after which an author is trusted automatically. Set
+ * MODERATION_TRUST_THRESHOLD=0 to publish every author's events immediately.
+ */
+const DEFAULT_TRUST_THRESHOLD = 3
+
+function getTrustThreshold(): number {
+  const threshold = parseInt(process.env.MODERATION_TRUST_THRESHOLD || '', 10)
+  return Number.isNaN(threshold) || threshold < 0 ? DEFAULT_TRUST_THRESHOLD : threshold
+}
+
+/**
+ * Whether a user's new events publish immediately: admins, authors marked
+ * trusted, and authors with enough published events skip the review queue
+ */
+export async function canPublishWithoutReview(userId: string, cookieHeader?: string | null): Promise<boolean> {
+  if (await isAdmin(userId, cookieHeader)) return true
+
+  const threshold = getTrustThreshold()
+  if (threshold === 0) return true
+
+  if (await isTrustedAuthor(userId)) return true
+
+  const publishedCount = await prisma.event.count({
+    where: { createdBy: userId, status: 'published', deletedAt: null },
+  })
+  return publishedCount >= threshold
+}
+
+/**
+ * Status for an event an author submits (or resubmits after a rejection)
+ */
+export async function getSubmissionStatus(userId: string, cookieHeader?: string | null): Promise<EventStatus> {
+  return await canPublishWithoutReview(userId, cookieHeader) ? 'published' : 'pending'
+}
+
+/**
+ * Events awaiting review, oldest first
+ */
+export async function getPendingEvents(): Promise<Event[]> {
+  const events = await prisma.event.findMany({
+    where: { status: 'pending', deletedAt: null },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return events.map(toEvent)
+}
+
+export async function approveEvent(
+  eventId: string,
+  adminUserId: string,
+  { trustAuthor = false }: { trustAuthor?: boolean } = {}
+) {
+  const before = await prisma.event.findUnique({ where: { id: eventId } })
+  const event = await prisma.event.update({
+    where: { id: eventId },
+    data: {
+      status: 'published',
+      ...listingChange(before?.status ?? null, 'published'),
+      reviewedAt: new Date(),
+      reviewedBy: adminUserId,
+      reviewNotes: null,
+    }
+  })
+
+  await recordAudit({
+    entityType: 'event',
+    entityId: event.id,
+    action: 'approve',
+    actorId: adminUserId,
+    changes: diffFields(before, event),
+    summary: event.title,
+  })
+
+  // Future events from this author publish without review
+  if (trustAuthor) {
+    await setAuthorTrusted(event.createdBy, true, adminUserId)
+  }
+
+  return toEvent(event)
+}
+
+export async function rejectEvent(
+  eventId: string,
+  adminUserId: string,
+  notes?: string
+) {
+  const before = await prisma.event.findUnique({ where: { id: eventId } })
+  const event = await prisma.event.update({
+    where: { id: eventId },
+    data: {
+      status: 'rejected',
+      reviewedAt: new Date(),
+      reviewedBy: adminUserId,
+      reviewNotes: notes
+    }
+  })
+
+  await recordAudit({
+    entityType: 'event',
+    entityId: event.id,
+    action: 'reject',
+    actorId: adminUserId,
+    changes: diffFields(before, event),
+    summary: event.title,
+  })
+
+  return toEvent(event)
+}
+
+/**
+ * Publish every draft whose publish time has passed. Authors who still need
+ * review have their events sent to the review queue instead.
+ */
+export async function publishScheduledEvents(): Promise<{ published: number; pending: number }> {
+  const due = await prisma.event.findMany({
+    where: { status: 'draft', publishAt: { lte: new Date() }, deletedAt: null },
+    select: { id: true, createdBy: true },
+  })
+
+  let published = 0
+  let pending = 0
+  for (const event of due) {
+    const status = await getSubmissionStatus(event.createdBy)
+    await updateEvent(event.id, { status, publishAt: undefined }, null)
+    if (status === 'published') {
+      published++
+    } else {
+      pending++
+    }
+  }
+
+  return { published, pending }
+}
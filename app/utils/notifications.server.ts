@@ -0,0 +1,231 @@
+import { randomBytes } from 'node:crypto'
+import { createClerkClient } from '@clerk/react-router/server'
+import { prisma } from './db.server'
+import { escapeHtml, sendEmail, siteUrl } from './email.server'
+import { SITE } from './site'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CATEGORIES,
+  type Notification,
+  type NotificationPreferences,
+  type NotificationType,
+} from '~/types/notification'
+
+const clerkClient = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY })
+
+const NOTIFICATIONS_LIMIT = 50
+
+// Clerk caps how many users one getUserList call returns
+const USER_LOOKUP_BATCH_SIZE = 100
+
+interface NewNotification {
+  type: NotificationType
+  title: string
+  body?: string
+  url?: string
+  eventId?: string
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const row = await prisma.notificationPreference.findUnique({ where: { userId } })
+  if (!row) return DEFAULT_NOTIFICATION_PREFERENCES
+
+  return {
+    reminders: row.reminders,
+    updates: row.updates,
+    cancellations: row.cancellations,
+    email: row.email,
+    weeklyDigest: row.weeklyDigest,
+  }
+}
+
+export async function updateNotificationPreferences(userId: string, preferences: NotificationPreferences): Promise<void> {
+  await prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, ...preferences },
+    update: preferences,
+  })
+}
+
+/**
+ * Get the user's unsubscribe token, creating one on first use
+ */
+export async function getOrCreateUnsubscribeToken(userId: string): Promise<string> {
+  const existing = await prisma.notificationPreference.findUnique({ where: { userId } })
+  if (existing?.unsubscribeToken) return existing.unsubscribeToken
+
+  const token = randomBytes(24).toString('base64url')
+  await prisma.notificationPreference.upsert({
+    where: { userId },
+    update: { unsubscribeToken: token },
+    create: { userId, ...DEFAULT_NOTIFICATION_PREFERENCES, unsubscribeToken: token },
+  })
+  return token
+}
+
+/**
+ * Turn off the weekly digest for the user an unsubscribe token belongs to.
+ * Returns false if the token is unknown.
+ */
+export async function unsubscribeFromDigest(token: string): Promise<boolean> {
+  const result = await prisma.notificationPreference.updateMany({
+    where: { unsubscribeToken: token },
+    data: { weeklyDigest: false },
+  })
+  return result.count > 0
+}
+
+/**
+ * Primary email addresses for the given users, keyed by user ID
+ */
+export async function getUserEmails(userIds: string[]): Promise<Map<string, string>> {
+  const emails = new Map<string, string>()
+
+  for (let i = 0; i < userIds.length; i += USER_LOOKUP_BATCH_SIZE) {
+    const batch = userIds.slice(i, i + USER_LOOKUP_BATCH_SIZE)
+    const { data: users } = await clerkClient.users.getUserList({ userId: batch, limit: batch.length })
+    for (const user of users) {
+      const address = user.emailAddresses.find((email) => email.id === user.primaryEmailAddressId)
+        ?? user.emailAddresses[0]
+      if (address) emails.set(user.id, address.emailAddress)
+    }
+  }
+
+  return emails
+}
+
+function notificationEmail(notification: NewNotification) {
+  const link = notification.url ? siteUrl(notification.url) : null
+  const linkLabel = notification.eventId ? 'View the event' : `View on ${SITE.name}`
+  const settings = siteUrl('/notifications')
+
+  return {
+    subject: notification.title,
+    text: [
+      notification.title,
+      notification.body,
+      link && `${linkLabel}: ${link}`,
+      `Change which notifications you get: ${settings}`,
+    ].filter(Boolean).join('\n\n'),
+    html: `<h2>${escapeHtml(notification.title)}</h2>`
+      + (notification.body ? `<p style="white-space:pre-line">${escapeHtml(notification.body)}</p>` : '')
+      + (link ? `<p><a href="${escapeHtml(link)}">${linkLabel}</a></p>` : '')
+      + `<p style="color:#64748b;font-size:12px"><a href="${escapeHtml(settings)}">Change which notifications you get</a></p>`,
+  }
+}
+
+/**
+ * Deliver a notification to users, respecting each user's preferences. Email
+ * failures are logged rather than thrown so they never undo the change that
+ * triggered the notification. Returns how many users were notified.
+ */
+export async function notifyUsers(userIds: string[], notification: NewNotification): Promise<number> {
+  if (userIds.length === 0) return 0
+
+  const category = NOTIFICATION_CATEGORIES[notification.type]
+  const savedPreferences = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds } },
+  })
+  const preferencesByUser = new Map(savedPreferences.map((row) => [row.userId, row]))
+
+  const recipients = category
+    ? userIds.filter((userId) => (preferencesByUser.get(userId) ?? DEFAULT_NOTIFICATION_PREFERENCES)[category])
+    : userIds
+  if (recipients.length === 0) return 0
+
+  await prisma.notification.createMany({
+    data: recipients.map((userId) => ({ userId, ...notification })),
+  })
+
+  const emailRecipients = recipients.filter((userId) =>
+    (preferencesByUser.get(userId) ?? DEFAULT_NOTIFICATION_PREFERENCES).email
+  )
+  if (emailRecipients.length > 0) {
+    try {
+      const emails = await getUserEmails(emailRecipients)
+      const message = notificationEmail(notification)
+      for (const to of emails.values()) {
+        await sendEmail({ to, ...message })
+      }
+    } catch (error) {
+      console.error(`[Notifications] Failed to email ${notification.type}:`, error)
+    }
+  }
+
+  return recipients.length
+}
+
+/**
+ * Notify everyone who favorited an event. Pass `unlessNotifiedSince` to skip
+ * users who already got a notification of the same type for the event since
+ * then, so re-running a scheduled job doesn't repeat itself.
+ */
+export async function notifyEventFavoriters(
+  eventId: string,
+  notification: Omit<NewNotification, 'url' | 'eventId'>,
+  options: { unlessNotifiedSince?: Date } = {}
+): Promise<number> {
+  const votes = await prisma.vote.findMany({
+    where: { eventId },
+    select: { userId: true },
+  })
+
+  let userIds = votes.map((vote) => vote.userId)
+
+  if (options.unlessNotifiedSince && userIds.length > 0) {
+    const alreadyNotified = await prisma.notification.findMany({
+      where: { eventId, type: notification.type, createdAt: { gte: options.unlessNotifiedSince } },
+      select: { userId: true },
+    })
+    const skip = new Set(alreadyNotified.map((row) => row.userId))
+    userIds = userIds.filter((userId) => !skip.has(userId))
+  }
+
+  return notifyUsers(userIds, { ...notification, eventId, url: `/events/${eventId}` })
+}
+
+function toNotification(row: {
+  id: string
+  type: string
+  title: string
+  body: string | null
+  url: string | null
+  eventId: string | null
+  readAt: Date | null
+  createdAt: Date
+}): Notification {
+  return {
+    id: row.id,
+    type: row.type as NotificationType,
+    title: row.title,
+    body: row.body || undefined,
+    url: row.url || undefined,
+    eventId: row.eventId || undefined,
+    read: row.readAt !== null,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+/**
+ * A user's most recent notifications, newest first
+ */
+export async function getNotifications(userId: string, limit: number = NOTIFICATIONS_LIMIT): Promise<Notification[]> {
+  const rows = await prisma.notification.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  })
+
+  return rows.map(toNotification)
+}
+
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+  return prisma.notification.count({ where: { userId, readAt: null } })
+}
+
+export async function markNotificationsRead(userId: string): Promise<void> {
+  await prisma.notification.updateMany({
+    where: { userId, readAt: null },
+    data: { readAt: new Date() },
+  })
+}
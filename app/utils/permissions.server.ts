@@ -1,7 +1,9 @@
-import { getEventById } from './events.server'
+import { applySearch, getEventById, priceRangeWhere, startTimeWhere, toEvent, withSearchHighlight } from './events.server'
 import type { Event } from '~/stores/useEventStore'
 import { prisma } from './db.server'
 import { getUserRole, isAdmin } from './roles.server'
+import type { TimeOfDay } from './times'
+import type { EventSort } from '~/types/search'
 
 /**
  * Check if a user can edit/delete an event
@@ -18,7 +20,7 @@ export async function canUserModifyEvent(userId: string, eventId: string, cookie
   // Authors can only modify their own events
   const role = await getUserRole(userId, cookieHeader)
   if (role === 'author') {
-    const event = await getEventById(eventId)
+    const event = await getEventById(eventId, { includeDeleted: true })
     if (!event) {
       return false
     }
@@ -54,44 +56,60 @@ export async function canUserManageAuthors(userId: string, cookieHeader?: string
   return await isAdmin(userId, cookieHeader)
 }
 
+/**
+ * Check if a user can edit venue details
+ * Only Admins can edit venues, since a venue is shared by many authors' events
+ */
+export async function canUserEditVenue(userId: string, cookieHeader?: string | null): Promise<boolean> {
+  return await isAdmin(userId, cookieHeader)
+}
+
+/**
+ * Check if a user can view the audit log
+ * Only Admins can see who changed what
+ */
+export async function canUserViewAuditLog(userId: string, cookieHeader?: string | null): Promise<boolean> {
+  return await isAdmin(userId, cookieHeader)
+}
+
+/**
+ * Check if a user can preview the weekly digest email
+ * Only Admins can preview emails before they go out
+ */
+export async function canUserPreviewDigest(userId: string, cookieHeader?: string | null): Promise<boolean> {
+  return await isAdmin(userId, cookieHeader)
+}
+
+/**
+ * Check if a user can review and merge duplicate events
+ * Only Admins can merge, since it combines different authors' events
+ */
+export async function canUserMergeEvents(userId: string, cookieHeader?: string | null): Promise<boolean> {
+  return await isAdmin(userId, cookieHeader)
+}
+
 /**
  * Get all events created by a specific user
  */
 export async function getEventsByUser(userId: string): Promise<Event[]> {
   const events = await prisma.event.findMany({
-    where: { createdBy: userId },
+    where: { createdBy: userId, deletedAt: null },
     orderBy: { createdAt: 'desc' }
   })
 
-  return events.map((event) => ({
-    id: event.id,
-    title: event.title,
-    description: event.description,
-    date: event.date,
-    location: event.location,
-    address: event.address || undefined,
-    coordinates: event.latitude && event.longitude
-      ? { lat: event.latitude, lng: event.longitude }
-      : undefined,
-    imageUrl: event.imageUrl || undefined,
-    categories: event.categories,
-    cost: event.cost || undefined,
-    times: event.times || undefined,
-    url: event.url || undefined,
-    region: event.region || undefined,
-    recurrence: event.recurrence || undefined,
-    endDate: event.endDate || undefined,
-    city: event.city || undefined,
-    createdBy: event.createdBy,
-  }))
+  return events.map(toEvent)
 }
 
 interface EventFilters {
   searchQuery?: string
   category?: string
-  priceFilter?: 'free' | 'paid' | 'all'
+  minPrice?: number
+  maxPrice?: number
   startDate?: string
   endDate?: string
+  timeOfDay?: TimeOfDay
+  startsAfter?: string
+  sort?: EventSort
 }
 
 /**
@@ -104,26 +122,16 @@ export async function getPaginatedEventsByUser(
   filters: EventFilters = {}
 ): Promise<{ events: Event[]; totalCount: number }> {
   const skip = (page - 1) * limit
-  const { searchQuery, category, priceFilter, startDate, endDate } = filters
+  const { searchQuery, category, minPrice, maxPrice, startDate, endDate, timeOfDay, startsAfter, sort } = filters
 
   // Build dynamic where clause (same as getPaginatedEvents but with userId filter)
   const whereConditions: any[] = [
-    { createdBy: userId }  // Only show user's events
+    { createdBy: userId },  // Only show user's events
+    { deletedAt: null },    // Trashed events are listed separately
   ]
 
-  // Search query
-  if (searchQuery) {
-    whereConditions.push({
-      OR: [
-        { title: { contains: searchQuery, mode: 'insensitive' as const } },
-        { description: { contains: searchQuery, mode: 'insensitive' as const } },
-        { location: { contains: searchQuery, mode: 'insensitive' as const } },
-        { city: { contains: searchQuery, mode: 'insensitive' as const } },
-        { address: { contains: searchQuery, mode: 'insensitive' as const } },
-        { categories: { has: searchQuery } },
-      ],
-    })
-  }
+  // Full-text search
+  const searchMatches = await applySearch(whereConditions, searchQuery, { createdBy: userId, from: startDate, to: endDate })
 
   // Category filter
   if (category) {
@@ -132,22 +140,8 @@ export async function getPaginatedEventsByUser(
     })
   }
 
-  // Price filter
-  if (priceFilter === 'free') {
-    whereConditions.push({
-      OR: [
-        { cost: { contains: 'free', mode: 'insensitive' as const } },
-        { cost: null },
-      ],
-    })
-  } else if (priceFilter === 'paid') {
-    whereConditions.push({
-      AND: [
-        { cost: { not: null } },
-        { cost: { not: { contains: 'free', mode: 'insensitive' as const } } },
-      ],
-    })
-  }
+  // Price range filter
+  whereConditions.push(...priceRangeWhere(minPrice, maxPrice))
 
   // Date range filter
   if (startDate) {
@@ -161,8 +155,24 @@ export async function getPaginatedEventsByUser(
     })
   }
 
+  // Time-of-day filters
+  whereConditions.push(...startTimeWhere(timeOfDay, startsAfter))
+
   const whereClause = whereConditions.length > 0 ? { AND: whereConditions } : {}
 
+  // Relevance order comes from the search ranking, so page in memory
+  if (sort === 'relevance' && searchMatches) {
+    const events = await prisma.event.findMany({ where: whereClause })
+    const ranked = events
+      .map((event) => withSearchHighlight(toEvent(event), searchMatches))
+      .sort((a, b) => searchMatches.get(b.id)!.rank - searchMatches.get(a.id)!.rank)
+
+    return {
+      events: ranked.slice(skip, skip + limit),
+      totalCount: ranked.length,
+    }
+  }
+
   const [events, totalCount] = await Promise.all([
     prisma.event.findMany({
       where: whereClause,
@@ -174,27 +184,7 @@ export async function getPaginatedEventsByUser(
   ])
 
   return {
-    events: events.map((event) => ({
-      id: event.id,
-      title: event.title,
-      description: event.description,
-      date: event.date,
-      location: event.location,
-      address: event.address || undefined,
-      coordinates: event.latitude && event.longitude
-        ? { lat: event.latitude, lng: event.longitude }
-        : undefined,
-      imageUrl: event.imageUrl || undefined,
-      categories: event.categories,
-      cost: event.cost || undefined,
-      times: event.times || undefined,
-      url: event.url || undefined,
-      region: event.region || undefined,
-      recurrence: event.recurrence || undefined,
-      endDate: event.endDate || undefined,
-      city: event.city || undefined,
-      createdBy: event.createdBy,
-    })),
+    events: events.map((event) => withSearchHighlight(toEvent(event), searchMatches)),
     totalCount,
   }
 }
@@ -0,0 +1,78 @@
+import { prisma } from './db.server'
+import { hashApiKey } from './api-keys'
+
+// Requests per hour for consumers without an API key, counted per IP address
+export const ANONYMOUS_RATE_LIMIT = 60
+
+const WINDOW_MS = 60 * 60 * 1000
+
+// Rate-limit windows older than this are deleted by the cleanup cron
+const RATE_LIMIT_RETENTION_MS = 24 * WINDOW_MS
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  reset: Date // When the current window ends
+}
+
+/**
+ * Read the API key from the X-API-Key header, or the `api_key` query param
+ * for consumers that can't set headers (e.g. plain links)
+ */
+export function getApiKeyFromRequest(request: Request): string | null {
+  return request.headers.get('X-API-Key') || new URL(request.url).searchParams.get('api_key')
+}
+
+function getClientIp(request: Request): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    request.headers.get('x-real-ip') ||
+    'unknown'
+}
+
+/**
+ * Count a public API request against its consumer's hourly limit. Requests
+ * with a key are limited per key; anonymous requests per IP address. Returns
+ * null when the request carries a key that is unknown or revoked.
+ */
+export async function consumeRateLimit(request: Request): Promise<RateLimitResult | null> {
+  const key = getApiKeyFromRequest(request)
+
+  let bucket: string
+  let limit: number
+  if (key) {
+    // Not cached, so a revoked key stops working at once
+    const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } })
+    if (!apiKey || apiKey.revokedAt) return null
+
+    bucket = `key:${apiKey.id}`
+    limit = apiKey.rateLimit
+  } else {
+    bucket = `ip:${getClientIp(request)}`
+    limit = ANONYMOUS_RATE_LIMIT
+  }
+
+  const windowStart = new Date(Math.floor(Date.now() / WINDOW_MS) * WINDOW_MS)
+  const { count } = await prisma.apiRateLimit.upsert({
+    where: { bucket_windowStart: { bucket, windowStart } },
+    create: { bucket, windowStart, count: 1 },
+    update: { count: { increment: 1 } },
+  })
+
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    reset: new Date(windowStart.getTime() + WINDOW_MS),
+  }
+}
+
+/**
+ * Delete rate-limit windows that can no longer affect any request
+ */
+export async function purgeExpiredRateLimits(): Promise<number> {
+  const result = await prisma.apiRateLimit.deleteMany({
+    where: { windowStart: { lt: new Date(Date.now() - RATE_LIMIT_RETENTION_MS) } },
+  })
+  return result.count
+}
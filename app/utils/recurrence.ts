@@ -0,0 +1,414 @@
+import { addDays } from './datetime'
+import type { RecurrenceDay, RecurrenceFrequency, RecurrenceRule, Weekday } from '~/types/recurrence'
+
+// Indexed by Date#getUTCDay()
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+
+// Upper bound on generated periods so a malformed rule can never spin forever
+const MAX_PERIODS = 5000
+
+function toUTCDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate()
+}
+
+/**
+ * Dates within a month matching a BYDAY list, e.g. [{ weekday: 'FR', ordinal: 1 }]
+ * for "first Friday". Without an ordinal every matching weekday is returned.
+ */
+function monthlyByDayDates(year: number, monthIndex: number, byDay: RecurrenceDay[]): string[] {
+  const total = daysInMonth(year, monthIndex)
+  const dates: string[] = []
+
+  for (const { weekday, ordinal } of byDay) {
+    const matches: number[] = []
+    for (let day = 1; day <= total; day++) {
+      if (WEEKDAYS[new Date(Date.UTC(year, monthIndex, day)).getUTCDay()] === weekday) {
+        matches.push(day)
+      }
+    }
+
+    const selected = ordinal
+      ? [ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]]
+      : matches
+
+    selected
+      .filter((day): day is number => day !== undefined)
+      .forEach((day) => dates.push(toISODate(new Date(Date.UTC(year, monthIndex, day)))))
+  }
+
+  return dates.sort()
+}
+
+/**
+ * Yield candidate dates for a rule in ascending order, starting at `start`.
+ * Stops once a whole period lies beyond `horizon`.
+ */
+function* candidateDates(start: string, rule: RecurrenceRule, horizon: string): Generator<string> {
+  const startDate = toUTCDate(start)
+  const interval = Math.max(1, rule.interval || 1)
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const step = period * interval
+    let dates: string[]
+
+    switch (rule.frequency) {
+      case 'DAILY': {
+        dates = [addDays(start, step)]
+        break
+      }
+      case 'WEEKLY': {
+        // Weeks start on Monday (iCalendar's default WKST)
+        const weekStart = addDays(start, -((startDate.getUTCDay() + 6) % 7) + step * 7)
+        if (weekStart > horizon) return
+        const weekdays = rule.byDay?.length
+          ? rule.byDay.map((d) => d.weekday)
+          : [WEEKDAYS[startDate.getUTCDay()]]
+        dates = weekdays
+          .map((weekday) => addDays(weekStart, (WEEKDAYS.indexOf(weekday) + 6) % 7))
+          .sort()
+        break
+      }
+      case 'MONTHLY': {
+        const monthStart = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() + step, 1))
+        if (toISODate(monthStart) > horizon) return
+        const year = monthStart.getUTCFullYear()
+        const monthIndex = monthStart.getUTCMonth()
+        if (rule.byDay?.length) {
+          dates = monthlyByDayDates(year, monthIndex, rule.byDay)
+        } else {
+          // Months without the start's day of month (e.g. the 31st) are skipped
+          const day = startDate.getUTCDate()
+          dates = day <= daysInMonth(year, monthIndex)
+            ? [toISODate(new Date(Date.UTC(year, monthIndex, day)))]
+            : []
+        }
+        break
+      }
+      case 'YEARLY': {
+        const year = startDate.getUTCFullYear() + step
+        if (`${year}-01-01` > horizon) return
+        const monthIndex = startDate.getUTCMonth()
+        const day = startDate.getUTCDate()
+        dates = day <= daysInMonth(year, monthIndex)
+          ? [toISODate(new Date(Date.UTC(year, monthIndex, day)))]
+          : []
+        break
+      }
+    }
+
+    for (const date of dates) {
+      if (date > horizon) return
+      if (date >= start) yield date
+    }
+  }
+}
+
+interface ExpandOptions {
+  from: string
+  to: string
+  exceptionDates?: string[]
+  limit?: number
+}
+
+/**
+ * Expand a recurrence rule into concrete YYYY-MM-DD occurrences within [from, to].
+ * COUNT is applied before exception dates are removed, matching RFC 5545.
+ */
+export function expandOccurrences(start: string, rule: RecurrenceRule, options: ExpandOptions): string[] {
+  const { from, to, exceptionDates = [], limit } = options
+  const excluded = new Set(exceptionDates)
+  const horizon = rule.until && rule.until < to ? rule.until : to
+  const occurrences: string[] = []
+  let index = 0
+
+  for (const date of candidateDates(start, rule, horizon)) {
+    if (rule.count && index >= rule.count) break
+    index++
+
+    if (date < from || excluded.has(date)) continue
+    occurrences.push(date)
+    if (limit && occurrences.length >= limit) break
+  }
+
+  return occurrences
+}
+
+/**
+ * The final occurrence of a bounded rule (UNTIL or COUNT), or null when the
+ * rule repeats forever.
+ */
+export function getLastOccurrence(start: string, rule: RecurrenceRule, exceptionDates: string[] = []): string | null {
+  if (!rule.until && !rule.count) return null
+
+  const occurrences = expandOccurrences(start, rule, {
+    from: start,
+    to: rule.until || '9999-12-31',
+    exceptionDates,
+  })
+  return occurrences[occurrences.length - 1] ?? null
+}
+
+export interface RecurringEventLike {
+  date: string
+  rrule?: string | null
+  exceptionDates?: string[] | null
+}
+
+/**
+ * Occurrences of an event within [from, to]. One-off events yield their own
+ * date when it falls inside the window.
+ */
+export function getEventOccurrences(event: RecurringEventLike, from: string, to: string, limit?: number): string[] {
+  const rule = event.rrule ? parseRRule(event.rrule) : null
+
+  if (!rule) {
+    return event.date >= from && event.date <= to ? [event.date] : []
+  }
+
+  return expandOccurrences(event.date, rule, {
+    from,
+    to,
+    exceptionDates: event.exceptionDates ?? [],
+    limit,
+  })
+}
+
+/**
+ * Parse an RRULE value such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=SA;UNTIL=20261231".
+ * Returns null for anything we can't expand.
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const parts = new Map<string, string>()
+  value
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .forEach((part) => {
+      const [key, val] = part.split('=')
+      if (key && val) parts.set(key.trim().toUpperCase(), val.trim().toUpperCase())
+    })
+
+  const frequency = parts.get('FREQ') as RecurrenceFrequency | undefined
+  if (!frequency || !FREQUENCIES.includes(frequency)) return null
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Math.max(1, parseInt(parts.get('INTERVAL') || '1', 10) || 1),
+  }
+
+  const byDay = parts.get('BYDAY')
+  if (byDay) {
+    const days = byDay.split(',').map((entry) => {
+      const match = entry.match(/^([+-]?\d+)?(MO|TU|WE|TH|FR|SA|SU)$/)
+      if (!match) return null
+      const day: RecurrenceDay = { weekday: match[2] as Weekday }
+      if (match[1]) day.ordinal = parseInt(match[1], 10)
+      return day
+    })
+    if (days.some((day) => day === null)) return null
+    rule.byDay = days as RecurrenceDay[]
+  }
+
+  const until = parts.get('UNTIL')
+  if (until) {
+    const match = until.match(/^(\d{4})(\d{2})(\d{2})/)
+    if (!match) return null
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`
+  }
+
+  const count = parts.get('COUNT')
+  if (count) {
+    const parsed = parseInt(count, 10)
+    if (parsed > 0) rule.count = parsed
+  }
+
+  return rule
+}
+
+/**
+ * Serialize a rule to an RRULE value (without the "RRULE:" prefix).
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`)
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  return parts.join(';')
+}
+
+const ORDINAL_NAMES: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+}
+
+const UNIT_NAMES: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Saturday" or
+ * "Monthly on the first Friday".
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = UNIT_NAMES[rule.frequency]
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map((d) =>
+      d.ordinal ? `the ${ORDINAL_NAMES[d.ordinal] ?? `#${d.ordinal}`} ${WEEKDAY_NAMES[d.weekday]}` : WEEKDAY_NAMES[d.weekday]
+    )
+    text += ` on ${days.join(', ')}`
+  }
+
+  if (rule.count) {
+    text += ` (${rule.count} times)`
+  }
+
+  return text
+}
+
+const TEXT_ORDINALS: Record<string, number> = {
+  first: 1,
+  '1st': 1,
+  second: 2,
+  '2nd': 2,
+  third: 3,
+  '3rd': 3,
+  fourth: 4,
+  '4th': 4,
+  last: -1,
+}
+
+/**
+ * Best-effort parse of the legacy free-text `recurrence` field
+ * ("Every Friday", "Weekly", "First Saturday of the month", ...).
+ */
+export function parseRecurrenceText(text: string, until?: string): RecurrenceRule | null {
+  const normalized = text.toLowerCase().trim()
+  if (!normalized) return null
+
+  const weekdays = (Object.entries(WEEKDAY_NAMES) as [Weekday, string][])
+    .filter(([, name]) => new RegExp(`\\b${name.toLowerCase()}s?\\b`).test(normalized))
+    .map(([weekday]) => weekday)
+
+  const interval = /\b(every other|biweekly|bi-weekly)\b/.test(normalized) ? 2 : 1
+  let rule: RecurrenceRule | null = null
+
+  const ordinalMatch = normalized.match(/\b(first|1st|second|2nd|third|3rd|fourth|4th|last)\b/)
+  if (ordinalMatch && weekdays.length > 0) {
+    rule = {
+      frequency: 'MONTHLY',
+      interval: 1,
+      byDay: weekdays.map((weekday) => ({ weekday, ordinal: TEXT_ORDINALS[ordinalMatch[1]] })),
+    }
+  } else if (weekdays.length > 0) {
+    rule = { frequency: 'WEEKLY', interval, byDay: weekdays.map((weekday) => ({ weekday })) }
+  } else if (/\b(daily|every day|each day)\b/.test(normalized)) {
+    rule = { frequency: 'DAILY', interval: 1 }
+  } else if (/\b(weekly|every week|biweekly|bi-weekly|every other week)\b/.test(normalized)) {
+    rule = { frequency: 'WEEKLY', interval }
+  } else if (/\b(monthly|every month)\b/.test(normalized)) {
+    rule = { frequency: 'MONTHLY', interval: 1 }
+  } else if (/\b(yearly|annually|every year)\b/.test(normalized)) {
+    rule = { frequency: 'YEARLY', interval: 1 }
+  }
+
+  if (rule && until) {
+    rule.until = until
+  }
+
+  return rule
+}
+
+/**
+ * Read the recurrence builder fields (see RecurrenceFields) from a submitted form.
+ */
+export function parseRecurrenceForm(formData: FormData): {
+  rule: RecurrenceRule | null
+  exceptionDates: string[]
+  error?: string
+} {
+  const exceptionDates: string[] = []
+  let index = 0
+  while (formData.has(`exceptionDate-${index}`)) {
+    const value = (formData.get(`exceptionDate-${index}`) as string).trim()
+    if (value) exceptionDates.push(value)
+    index++
+  }
+
+  const frequency = formData.get('recurrenceFrequency') as RecurrenceFrequency | ''
+  if (!frequency) {
+    return { rule: null, exceptionDates: [] }
+  }
+  if (!FREQUENCIES.includes(frequency)) {
+    return { rule: null, exceptionDates, error: 'Invalid recurrence frequency' }
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Math.max(1, parseInt((formData.get('recurrenceInterval') as string) || '1', 10) || 1),
+  }
+
+  if (frequency === 'WEEKLY') {
+    const days = formData.getAll('recurrenceByDay') as Weekday[]
+    if (days.length > 0) {
+      rule.byDay = days.map((weekday) => ({ weekday }))
+    }
+  }
+
+  if (frequency === 'MONTHLY' && formData.get('recurrenceMonthlyMode') === 'weekday') {
+    const ordinal = parseInt(formData.get('recurrenceOrdinal') as string, 10)
+    const weekday = formData.get('recurrenceWeekday') as Weekday
+    if (!ordinal || !WEEKDAYS.includes(weekday)) {
+      return { rule: null, exceptionDates, error: 'Choose which weekday of the month the event repeats on' }
+    }
+    rule.byDay = [{ weekday, ordinal }]
+  }
+
+  const ends = formData.get('recurrenceEnds') as string
+  if (ends === 'until') {
+    const until = formData.get('endDate') as string
+    if (!until) {
+      return { rule: null, exceptionDates, error: 'End date is required for repeating events that end on a date' }
+    }
+    rule.until = until
+  } else if (ends === 'count') {
+    const count = parseInt(formData.get('recurrenceCount') as string, 10)
+    if (!count || count < 1) {
+      return { rule: null, exceptionDates, error: 'Number of occurrences must be at least 1' }
+    }
+    rule.count = count
+  }
+
+  return { rule, exceptionDates }
+}
@@ -1,5 +1,6 @@
 import type { UserRole } from '~/types/roles'
 import { createClerkClient } from '@clerk/backend'
+import { diffFields, recordAudit } from './audit.server'
 
 const clerkClient = createClerkClient({ secretKey: process.env.CLERK_SECRET_KEY })
 
@@ -24,10 +25,56 @@ export async function getUserRole(userId: string, cookieHeader?: string | null):
   return actualRole
 }
 
-export async function updateUserRole(userId: string, role: UserRole): Promise<void> {
+/**
+ * Change a user's role, recording the change against `actorId` in the audit log
+ */
+export async function updateUserRole(userId: string, role: UserRole, actorId: string | null): Promise<void> {
+  const user = await clerkClient.users.getUser(userId)
+  const previousRole = (user.publicMetadata?.role as UserRole) || 'user'
+
   await clerkClient.users.updateUserMetadata(userId, {
     publicMetadata: { role }
   })
+
+  await recordAudit({
+    entityType: 'user',
+    entityId: userId,
+    action: 'role_change',
+    actorId,
+    changes: diffFields({ role: previousRole }, { role }),
+    summary: user.username || user.fullName || user.emailAddresses[0]?.emailAddress || undefined,
+  })
+}
+
+/**
+ * Whether an author has been marked trusted, so their events skip the
+ * moderation queue
+ */
+export async function isTrustedAuthor(userId: string): Promise<boolean> {
+  const user = await clerkClient.users.getUser(userId)
+  return user.publicMetadata?.trusted === true
+}
+
+/**
+ * Mark an author as trusted (or not), recording the change against `actorId`
+ * in the audit log
+ */
+export async function setAuthorTrusted(userId: string, trusted: boolean, actorId: string | null): Promise<void> {
+  const user = await clerkClient.users.getUser(userId)
+  const wasTrusted = user.publicMetadata?.trusted === true
+
+  await clerkClient.users.updateUserMetadata(userId, {
+    publicMetadata: { trusted }
+  })
+
+  await recordAudit({
+    entityType: 'user',
+    entityId: userId,
+    action: 'role_change',
+    actorId,
+    changes: diffFields({ trusted: wasTrusted }, { trusted }),
+    summary: user.username || user.fullName || user.emailAddresses[0]?.emailAddress || undefined,
+  })
 }
 
 export async function isAdmin(userId: string, cookieHeader?: string | null): Promise<boolean> {
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Event as EventRecord } from '../../prisma/generated/client.js'
+
+// An in-memory stand-in for the event and saved search tables, with just
+// enough of Prisma's where clauses for the queries these paths make
+const db = vi.hoisted(() => {
+  type Row = Record<string, unknown>
+
+  function compare(value: unknown, op: string, operand: unknown): boolean {
+    switch (op) {
+      case 'in': return (operand as unknown[]).includes(value)
+      case 'not': return operand === null ? value !== null && value !== undefined : value !== operand
+      case 'gt': return value != null && (value as number) > (operand as number)
+      case 'gte': return value != null && (value as number) >= (operand as number)
+      case 'lt': return value != null && (value as number) < (operand as number)
+      case 'lte': return value != null && (value as number) <= (operand as number)
+      default: throw new Error(`Unsupported operator ${op}`)
+    }
+  }
+
+  function matches(row: Row, where: Row): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) return true
+      if (key === 'AND') return (condition as Row[]).every((part) => matches(row, part))
+      if (key === 'OR') return (condition as Row[]).some((part) => matches(row, part))
+      const value = row[key] ?? null
+      if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+        return value === condition
+      }
+      return Object.entries(condition).every(([op, operand]) => operand === undefined || compare(value, op, operand))
+    })
+  }
+
+  function table(rows: Row[]) {
+    return {
+      rows,
+      findMany: async ({ where = {} }: { where?: Row } = {}) => rows.filter((row) => matches(row, where)),
+      findUnique: async ({ where }: { where: { id: string } }) => rows.find((row) => row.id === where.id) ?? null,
+      update: async ({ where, data }: { where: { id: string }; data: Row }) => {
+        const row = rows.find((candidate) => candidate.id === where.id)
+        if (!row) throw new Error(`No row ${where.id}`)
+        for (const [key, value] of Object.entries(data)) {
+          if (value !== undefined) row[key] = value
+        }
+        row.updatedAt = new Date()
+        return row
+      },
+      count: async ({ where = {} }: { where?: Row } = {}) => rows.filter((row) => matches(row, where)).length,
+    }
+  }
+
+  return { event: table([]), savedSearch: table([]) }
+})
+
+vi.mock('./db.server', () => ({ prisma: db }))
+vi.mock('@vercel/blob', () => ({ del: vi.fn() }))
+vi.mock('./search.server', () => ({ searchEvents: vi.fn() }))
+vi.mock('./audit.server', () => ({ diffFields: () => ({}), recordAudit: vi.fn() }))
+vi.mock('./roles.server', () => ({ isAdmin: async () => false, isTrustedAuthor: async () => false, setAuthorTrusted: vi.fn() }))
+vi.mock('./notifications.server', () => ({ notifyUsers: vi.fn(), notifyEventFavoriters: vi.fn() }))
+
+const { sendSavedSearchAlerts } = await import('./saved-searches.server')
+const { getSubmissionStatus, publishScheduledEvents } = await import('./moderation.server')
+const { updateEvent } = await import('./events.server')
+const { notifyUsers } = await import('./notifications.server')
+
+const NOW = new Date('2026-06-01T12:00:00.000Z')
+const LAST_CHECKED = new Date('2026-05-31T13:00:00.000Z')
+const LONG_AGO = new Date('2026-05-01T12:00:00.000Z')
+
+function eventRow(overrides: Partial<EventRecord>): EventRecord {
+  return {
+    id: 'event',
+    title: 'Jazz night',
+    description: 'Live jazz',
+    date: '2026-06-20',
+    venueId: null,
+    location: 'The Pinhook',
+    address: null,
+    latitude: null,
+    longitude: null,
+    imageUrl: null,
+    categories: [],
+    cost: null,
+    priceMin: null,
+    priceMax: null,
+    currency: 'USD',
+    isFree: false,
+    isDonation: false,
+    rsvpRequired: false,
+    isTicketed: false,
+    times: null,
+    startTime: '20:00',
+    endTime: null,
+    timeStatus: 'timed',
+    startsAt: null,
+    endsAt: null,
+    url: null,
+    region: null,
+    recurrence: null,
+    rrule: null,
+    exceptionDates: [],
+    endDate: null,
+    city: 'Durham',
+    createdBy: 'author',
+    createdByName: null,
+    status: 'draft',
+    statusReason: null,
+    originalDate: null,
+    reviewedAt: null,
+    reviewedBy: null,
+    reviewNotes: null,
+    listedAt: null,
+    publishAt: null,
+    createdAt: LONG_AGO,
+    updatedAt: LONG_AGO,
+    deletedAt: null,
+    deletedBy: null,
+    source: null,
+    externalId: null,
+    delistedAt: null,
+    ...overrides,
+  } as EventRecord
+}
+
+describe('sendSavedSearchAlerts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW })
+    vi.stubEnv('MODERATION_TRUST_THRESHOLD', '0') // Every author publishes without review
+    db.event.rows.splice(0)
+    db.savedSearch.rows.splice(0)
+    vi.mocked(notifyUsers).mockClear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+  })
+
+  it('alerts on drafts published since the last check, however they were published', async () => {
+    db.event.rows.push(
+      eventRow({ id: 'scheduled', title: 'Scheduled jazz', publishAt: new Date('2026-06-01T11:00:00.000Z') }),
+      eventRow({ id: 'draft', title: 'Drafted jazz' }),
+      eventRow({ id: 'old', title: 'Old jazz', status: 'published', listedAt: LONG_AGO })
+    )
+    db.savedSearch.rows.push({
+      id: 'search',
+      userId: 'reader',
+      name: 'Jazz',
+      filters: {},
+      alerts: true,
+      lastCheckedAt: LAST_CHECKED,
+    })
+
+    // The publish cron, and an author publishing a draft from the edit page
+    await publishScheduledEvents()
+    await updateEvent('draft', { status: await getSubmissionStatus('author'), publishAt: undefined }, 'author')
+
+    expect(await sendSavedSearchAlerts()).toBe(1)
+    expect(notifyUsers).toHaveBeenCalledWith(['reader'], expect.objectContaining({
+      title: '2 new events for "Jazz"',
+      body: expect.stringContaining('Scheduled jazz'),
+    }))
+    const { body } = vi.mocked(notifyUsers).mock.calls[0][1]
+    expect(body).toContain('Drafted jazz')
+    expect(body).not.toContain('Old jazz')
+  })
+
+  it('keeps the listing time when a public event is edited', async () => {
+    db.event.rows.push(eventRow({ id: 'old', status: 'published', listedAt: LONG_AGO }))
+
+    await updateEvent('old', { status: 'cancelled' }, 'author')
+
+    expect(db.event.rows[0].listedAt).toEqual(LONG_AGO)
+  })
+})
@@ -0,0 +1,127 @@
+import { prisma } from './db.server'
+import type { Prisma } from '../../prisma/generated/client.js'
+import type { SavedSearch, SavedSearchFilters } from '~/types/saved-search'
+import { getPaginatedEvents } from './events.server'
+import { notifyUsers } from './notifications.server'
+import { savedSearchHref } from './saved-searches'
+import { formatDate } from './datetime'
+import { DEFAULT_RADIUS_MILES } from './geo'
+
+export const MAX_SAVED_SEARCHES = 20
+
+// Events named in an alert; the rest are summed up as "and N more"
+const DIGEST_EVENT_LIMIT = 5
+
+function toSavedSearch(row: {
+  id: string
+  name: string
+  filters: Prisma.JsonValue
+  alerts: boolean
+  lastCheckedAt: Date
+  createdAt: Date
+}): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    filters: row.filters as SavedSearchFilters,
+    alerts: row.alerts,
+    lastCheckedAt: row.lastCheckedAt.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
+  const rows = await prisma.savedSearch.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  })
+  return rows.map(toSavedSearch)
+}
+
+/**
+ * Save a filter set for a user. Returns null if they already have
+ * MAX_SAVED_SEARCHES saved.
+ */
+export async function createSavedSearch(
+  userId: string,
+  name: string,
+  filters: SavedSearchFilters
+): Promise<SavedSearch | null> {
+  const count = await prisma.savedSearch.count({ where: { userId } })
+  if (count >= MAX_SAVED_SEARCHES) return null
+
+  const row = await prisma.savedSearch.create({
+    // Undefined filters are dropped by JSON serialization
+    data: { userId, name, filters: filters as Prisma.InputJsonObject },
+  })
+  return toSavedSearch(row)
+}
+
+export async function setSavedSearchAlerts(id: string, userId: string, alerts: boolean): Promise<boolean> {
+  const result = await prisma.savedSearch.updateMany({
+    where: { id, userId },
+    data: { alerts },
+  })
+  return result.count > 0
+}
+
+export async function deleteSavedSearch(id: string, userId: string): Promise<boolean> {
+  const result = await prisma.savedSearch.deleteMany({ where: { id, userId } })
+  return result.count > 0
+}
+
+function toEventFilters(filters: SavedSearchFilters) {
+  return {
+    searchQuery: filters.search,
+    category: filters.category,
+    minPrice: filters.minPrice,
+    maxPrice: filters.maxPrice,
+    startDate: filters.startDate,
+    endDate: filters.endDate,
+    timeOfDay: filters.timeOfDay,
+    startsAfter: filters.startsAfter,
+    near: filters.lat !== undefined && filters.lng !== undefined
+      ? { lat: filters.lat, lng: filters.lng, radiusMiles: filters.radius ?? DEFAULT_RADIUS_MILES }
+      : undefined,
+    sort: 'date' as const,
+  }
+}
+
+/**
+ * Send each saved search with alerts on a digest of the upcoming events that
+ * match it and were listed since it was last checked. Returns how many
+ * digests were sent.
+ */
+export async function sendSavedSearchAlerts(): Promise<number> {
+  const searches = await prisma.savedSearch.findMany({ where: { alerts: true } })
+
+  let sent = 0
+  for (const search of searches) {
+    const checkedAt = new Date()
+    const filters = search.filters as SavedSearchFilters
+    const { events, totalCount } = await getPaginatedEvents(1, DIGEST_EVENT_LIMIT, {
+      ...toEventFilters(filters),
+      listedSince: search.lastCheckedAt,
+    })
+
+    if (totalCount > 0) {
+      const lines = events.map((event) => `• ${event.title} (${formatDate(event.occurrenceDate ?? event.date)})`)
+      if (totalCount > events.length) lines.push(`…and ${totalCount - events.length} more`)
+
+      await notifyUsers([search.userId], {
+        type: 'saved_search_matches',
+        title: `${totalCount} new event${totalCount === 1 ? '' : 's'} for "${search.name}"`,
+        body: lines.join('\n'),
+        url: savedSearchHref(filters),
+      })
+      sent++
+    }
+
+    await prisma.savedSearch.update({
+      where: { id: search.id },
+      data: { lastCheckedAt: checkedAt },
+    })
+  }
+
+  return sent
+}
@@ -0,0 +1,84 @@
+import type { SavedSearchFilters } from '~/types/saved-search'
+import { parsePriceParam } from './cost'
+import { formatDate } from './datetime'
+import { parseCoordinateParams, parseRadiusParam } from './geo'
+import { TIME_OF_DAY_RANGES, formatTime, type TimeOfDay } from './times'
+
+/**
+ * The saveable filters in an /events query string
+ */
+export function savedSearchFiltersFromParams(params: URLSearchParams): SavedSearchFilters {
+  const timeOfDay = params.get('time') as TimeOfDay | null
+  const coords = parseCoordinateParams(params.get('lat'), params.get('lng'))
+  const near = params.get('near') || undefined
+
+  return {
+    search: params.get('search') || undefined,
+    category: params.get('category') || undefined,
+    minPrice: parsePriceParam(params.get('minPrice')),
+    maxPrice: parsePriceParam(params.get('maxPrice')),
+    startDate: params.get('startDate') || undefined,
+    endDate: params.get('endDate') || undefined,
+    timeOfDay: timeOfDay && TIME_OF_DAY_RANGES[timeOfDay] ? timeOfDay : undefined,
+    startsAfter: params.get('after') || undefined,
+    near,
+    lat: coords?.lat,
+    lng: coords?.lng,
+    radius: near || coords ? parseRadiusParam(params.get('radius')) : undefined,
+  }
+}
+
+export function hasSavedSearchFilters(filters: SavedSearchFilters): boolean {
+  return Object.values(filters).some((value) => value !== undefined)
+}
+
+/**
+ * /events link that re-runs a saved search
+ */
+export function savedSearchHref(filters: SavedSearchFilters): string {
+  const params = new URLSearchParams()
+  if (filters.search) params.set('search', filters.search)
+  if (filters.category) params.set('category', filters.category)
+  if (filters.minPrice !== undefined) params.set('minPrice', filters.minPrice.toString())
+  if (filters.maxPrice !== undefined) params.set('maxPrice', filters.maxPrice.toString())
+  if (filters.startDate) params.set('startDate', filters.startDate)
+  if (filters.endDate) params.set('endDate', filters.endDate)
+  if (filters.timeOfDay) params.set('time', filters.timeOfDay)
+  if (filters.startsAfter) params.set('after', filters.startsAfter)
+  // An address is geocoded again by /events; browser locations only have coordinates
+  if (filters.near) {
+    params.set('near', filters.near)
+  } else if (filters.lat !== undefined && filters.lng !== undefined) {
+    params.set('lat', filters.lat.toString())
+    params.set('lng', filters.lng.toString())
+  }
+  if (filters.radius !== undefined) params.set('radius', filters.radius.toString())
+  const query = params.toString()
+  return query ? `/events?${query}` : '/events'
+}
+
+/**
+ * One-line summary of a saved search's filters, e.g. "Music · Under $20 · Evening"
+ */
+export function describeSavedSearch(filters: SavedSearchFilters): string {
+  const parts: string[] = []
+  if (filters.search) parts.push(`"${filters.search}"`)
+  if (filters.category) parts.push(filters.category)
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined) {
+    parts.push(`$${filters.minPrice}–$${filters.maxPrice}`)
+  } else if (filters.maxPrice !== undefined) {
+    parts.push(filters.maxPrice === 0 ? 'Free' : `Under $${filters.maxPrice}`)
+  } else if (filters.minPrice !== undefined) {
+    parts.push(`$${filters.minPrice}+`)
+  }
+  if (filters.startDate || filters.endDate) {
+    const from = filters.startDate ? formatDate(filters.startDate) : 'Today'
+    parts.push(filters.endDate ? `${from} – ${formatDate(filters.endDate)}` : `From ${from}`)
+  }
+  if (filters.timeOfDay) parts.push(TIME_OF_DAY_RANGES[filters.timeOfDay].label)
+  if (filters.startsAfter) parts.push(`After ${formatTime(filters.startsAfter)}`)
+  if (filters.radius !== undefined) {
+    parts.push(`Within ${filters.radius} mi of ${filters.near || 'my location'}`)
+  }
+  return parts.join(' · ') || 'All events'
+}
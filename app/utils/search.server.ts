@@ -0,0 +1,103 @@
+import { prisma } from './db.server'
+import { Prisma } from '../../prisma/generated/client.js'
+import type { EventStatus } from '~/types/moderation'
+import { HIGHLIGHT_END, HIGHLIGHT_START } from './highlight'
+
+export interface SearchMatch {
+  rank: number
+  title: string // Title with matches wrapped in highlight markers
+  snippet: string // Best-matching description fragments, highlighted
+}
+
+/**
+ * Events a search may return; trashed events never are. Applied before the
+ * result limit, so matches outside the scope can't crowd out those inside it.
+ */
+export interface SearchScope {
+  statuses?: EventStatus[]
+  createdBy?: string
+  from?: string // Events with an occurrence on or after this date (YYYY-MM-DD)
+  to?: string // ...and on or before this one
+}
+
+// Highest-ranked matches considered per search
+const MAX_SEARCH_RESULTS = 500
+
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`
+const SNIPPET_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=12, ShortWord=2, MaxFragments=2, FragmentDelimiter=" … "`
+
+/**
+ * Turn user input into a prefix-matching tsquery string, e.g.
+ * "jazz fest" → "jazz:* & fest:*". Returns null when nothing searchable remains.
+ */
+export function toPrefixQuery(query: string): string | null {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+
+  if (terms.length === 0) return null
+  return terms.map((term) => `${term}:*`).join(' & ')
+}
+
+// The scope as SQL; the date window matches occurrenceWindowWhere in events.server.ts
+function scopeConditions({ statuses, createdBy, from, to }: SearchScope): Prisma.Sql[] {
+  const conditions = [Prisma.sql`e."deletedAt" IS NULL`]
+  if (statuses) {
+    conditions.push(statuses.length > 0 ? Prisma.sql`e.status IN (${Prisma.join(statuses)})` : Prisma.sql`false`)
+  }
+  if (createdBy) {
+    conditions.push(Prisma.sql`e."createdBy" = ${createdBy}`)
+  }
+  if (from) {
+    conditions.push(Prisma.sql`(
+      (e.rrule IS NULL AND e.date >= ${from})
+      OR (e.rrule IS NOT NULL AND (e."endDate" IS NULL OR e."endDate" >= ${from}))
+    )`)
+  }
+  if (to) {
+    conditions.push(Prisma.sql`e.date <= ${to}`)
+  }
+  return conditions
+}
+
+/**
+ * Full-text search over title, categories, location, city and description
+ * (weighted in that order), with prefix matching and trigram similarity so
+ * small typos in titles, venues and cities still match. Returns matches keyed
+ * by event ID; callers apply their own filters on top.
+ */
+export async function searchEvents(query: string, scope: SearchScope = {}): Promise<Map<string, SearchMatch>> {
+  const tsquery = toPrefixQuery(query)
+  if (!tsquery) return new Map()
+
+  const text = query.trim()
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; rank: number; title: string; snippet: string }>>`
+    WITH q AS (SELECT to_tsquery('english', ${tsquery}) AS query)
+    SELECT
+      e.id,
+      (
+        ts_rank_cd(e."searchVector", q.query, 32)
+        + 0.5 * greatest(
+          word_similarity(${text}, e.title),
+          word_similarity(${text}, e.location),
+          word_similarity(${text}, coalesce(e.city, ''))
+        )
+      )::float8 AS rank,
+      ts_headline('english', e.title, q.query, ${TITLE_HEADLINE_OPTIONS}) AS title,
+      ts_headline('english', e.description, q.query, ${SNIPPET_HEADLINE_OPTIONS}) AS snippet
+    FROM "Event" e, q
+    WHERE (
+      e."searchVector" @@ q.query
+      OR ${text} <% e.title
+      OR ${text} <% e.location
+      OR ${text} <% e.city -- Bare columns, so their trigram indexes are used
+    )
+      AND ${Prisma.join(scopeConditions(scope), ' AND ')}
+    ORDER BY rank DESC
+    LIMIT ${MAX_SEARCH_RESULTS}
+  `
+
+  return new Map(rows.map(({ id, ...match }) => [id, match]))
+}
@@ -0,0 +1,71 @@
+import type { BoundingBox } from './geo'
+
+/**
+ * Everything that ties a deployment to one metro area: branding, where the
+ * map opens, how addresses are geocoded and the timezone events are in.
+ */
+export interface SiteConfig {
+  name: string // Branding, e.g. page titles, feeds and emails
+  areaName: string // Completes "events in ...", e.g. "the 919 area"
+  nickname: string // Completes "This weekend in ...", e.g. "the 919"
+  description: string // Home page meta description
+  timezone: string // IANA timezone event dates and times are in
+  exampleCity: string // Placeholder for city fields
+  map: {
+    longitude: number
+    latitude: number
+    zoom: number
+  }
+  geocoding: {
+    state: string // Appended to address lookups, e.g. "NC"
+    country: string // ISO 3166-1 alpha-2
+    // Matches near this point rank first
+    proximity: { longitude: number; latitude: number }
+    // Matches outside this box are dropped
+    bbox: BoundingBox
+  }
+}
+
+/**
+ * Metros this codebase can run for, keyed by VITE_SITE_REGION. To launch
+ * another metro, add an entry here.
+ */
+export const SITE_REGIONS: Record<string, SiteConfig> = {
+  triangle: {
+    name: '919 Events',
+    areaName: 'the 919 area',
+    nickname: 'the 919',
+    description: 'Events in and around the 919 area code',
+    timezone: 'America/New_York',
+    exampleCity: 'Raleigh',
+    map: { longitude: -78.6382, latitude: 35.7796, zoom: 10 },
+    geocoding: {
+      state: 'NC',
+      country: 'US',
+      proximity: { longitude: -78.6382, latitude: 35.7796 },
+      bbox: { west: -79.6, south: 35.3, east: -78.0, north: 36.5 },
+    },
+  },
+}
+
+const DEFAULT_REGION = 'triangle'
+
+// Vite inlines VITE_ variables into both bundles; scripts run under tsx only
+// have process.env
+const regionKey: string =
+  import.meta.env?.VITE_SITE_REGION ||
+  (typeof process !== 'undefined' ? process.env.VITE_SITE_REGION : undefined) ||
+  DEFAULT_REGION
+
+if (!SITE_REGIONS[regionKey]) {
+  throw new Error(`Unknown VITE_SITE_REGION "${regionKey}" (expected one of: ${Object.keys(SITE_REGIONS).join(', ')})`)
+}
+
+export const SITE: SiteConfig = SITE_REGIONS[regionKey]
+
+/**
+ * Page title for a section of the site, e.g. "919 Events - Map"
+ */
+export function pageTitle(section: string): string {
+  return `${SITE.name} - ${section}`
+}
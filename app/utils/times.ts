@@ -0,0 +1,157 @@
+export interface ParsedTimes {
+  start?: string // HH:MM, 24-hour
+  end?: string // HH:MM, 24-hour
+  allDay: boolean
+}
+
+// How an event's times were recorded: at specific times, all day, or as
+// free text the parser couldn't understand (kept for display only)
+export type TimeStatus = 'timed' | 'all-day' | 'unparseable'
+
+export interface StructuredTimes {
+  startTime?: string
+  endTime?: string
+  timeStatus?: TimeStatus
+}
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening'
+
+// Start-time ranges for the time-of-day filter, [from, to)
+export const TIME_OF_DAY_RANGES: Record<TimeOfDay, { label: string; from: string; to: string }> = {
+  morning: { label: 'Morning (before noon)', from: '00:00', to: '12:00' },
+  afternoon: { label: 'Afternoon (noon - 5 PM)', from: '12:00', to: '17:00' },
+  evening: { label: 'Evening (after 5 PM)', from: '17:00', to: '24:00' },
+}
+
+const ALL_DAY_PATTERN = /\b(all[\s-]?day|all day long)\b/i
+
+// "6", "6:30", "6pm", "6:30 p.m.", "18:00", "noon", "midnight"
+const TIME_PATTERN = /(noon|midnight|(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?)/i
+
+function parseTime(value: string): { hours: number; minutes: number; meridiem?: 'am' | 'pm' } | null {
+  const match = value.trim().match(new RegExp(`^${TIME_PATTERN.source}$`, 'i'))
+  if (!match) return null
+
+  const word = match[1].toLowerCase()
+  if (word === 'noon') return { hours: 12, minutes: 0, meridiem: 'pm' }
+  if (word === 'midnight') return { hours: 0, minutes: 0, meridiem: 'am' }
+
+  const hours = parseInt(match[2], 10)
+  const minutes = match[3] ? parseInt(match[3], 10) : 0
+  if (hours > 23 || minutes > 59) return null
+
+  const meridiem = match[4]?.toLowerCase().startsWith('p') ? 'pm' : match[4] ? 'am' : undefined
+  if (meridiem && (hours < 1 || hours > 12)) return null
+
+  return { hours, minutes, meridiem }
+}
+
+function to24Hour(time: { hours: number; minutes: number; meridiem?: 'am' | 'pm' }): string {
+  let hours = time.hours
+  if (time.meridiem === 'pm' && hours < 12) hours += 12
+  if (time.meridiem === 'am' && hours === 12) hours = 0
+  return `${String(hours).padStart(2, '0')}:${String(time.minutes).padStart(2, '0')}`
+}
+
+/**
+ * Parse the free-text `times` field ("6:00 PM - 8:00 PM", "6-8pm", "Noon",
+ * "All day") into 24-hour start/end times. Returns null when nothing
+ * recognizable is found.
+ */
+export function parseTimes(value: string | null | undefined): ParsedTimes | null {
+  if (!value) return null
+  const text = value.trim()
+  if (!text) return null
+
+  if (ALL_DAY_PATTERN.test(text)) {
+    return { allDay: true }
+  }
+
+  const [startText, endText, ...rest] = text.split(/\s*(?:-|–|—|\bto\b|\buntil\b)\s*/i)
+  if (rest.length > 0) return null
+
+  const start = parseTime(startText)
+  if (!start) return null
+
+  const end = endText ? parseTime(endText) : null
+  if (endText && !end) return null
+
+  // "6 - 8 PM": the start borrows the end's meridiem, unless that would put it after the end
+  if (end && !start.meridiem && end.meridiem) {
+    start.meridiem = end.meridiem
+    if (to24Hour(start) > to24Hour(end)) {
+      start.meridiem = end.meridiem === 'pm' ? 'am' : 'pm'
+    }
+  }
+
+  // A bare "6" with no meridiem and no 24-hour hint is most likely evening
+  if (!start.meridiem && start.hours >= 1 && start.hours <= 11 && !startText.includes(':')) {
+    start.meridiem = 'pm'
+  }
+  if (end && !end.meridiem && end.hours >= 1 && end.hours <= 11 && !endText.includes(':')) {
+    end.meridiem = start.meridiem ?? 'pm'
+  }
+
+  return {
+    start: to24Hour(start),
+    end: end ? to24Hour(end) : undefined,
+    allDay: false,
+  }
+}
+
+/**
+ * Format a 24-hour HH:MM time for display, e.g. "18:30" → "6:30 PM"
+ */
+export function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  const meridiem = hours >= 12 ? 'PM' : 'AM'
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12
+  return `${displayHours}:${String(minutes).padStart(2, '0')} ${meridiem}`
+}
+
+/**
+ * Format structured times for display, e.g. "6:00 PM - 8:00 PM" or "All day"
+ */
+export function formatTimeRange(times: StructuredTimes): string | undefined {
+  if (times.timeStatus === 'all-day') return 'All day'
+  if (!times.startTime) return undefined
+  return times.endTime
+    ? `${formatTime(times.startTime)} - ${formatTime(times.endTime)}`
+    : formatTime(times.startTime)
+}
+
+/**
+ * Derive the structured time columns from a free-text `times` value
+ */
+export function structureTimes(value: string | null | undefined): StructuredTimes {
+  if (!value?.trim()) return {}
+
+  const parsed = parseTimes(value)
+  if (!parsed) return { timeStatus: 'unparseable' }
+  if (parsed.allDay) return { timeStatus: 'all-day' }
+
+  return { startTime: parsed.start, endTime: parsed.end, timeStatus: 'timed' }
+}
+
+/**
+ * Read the start/end time inputs and "all day" checkbox from an event form.
+ * Returns the structured fields plus a display string for `times`.
+ */
+export function parseTimesForm(formData: FormData): StructuredTimes & { times?: string; error?: string } {
+  if (formData.get('allDay') === 'on') {
+    return { timeStatus: 'all-day', times: 'All day' }
+  }
+
+  const startTime = (formData.get('startTime') as string) || undefined
+  const endTime = (formData.get('endTime') as string) || undefined
+
+  if (!startTime) {
+    if (endTime) return { error: 'Please enter a start time' }
+    // Unparseable legacy text is kept until the author sets real times
+    const legacyTimes = (formData.get('legacyTimes') as string) || undefined
+    return legacyTimes ? { timeStatus: 'unparseable', times: legacyTimes } : {}
+  }
+
+  const times: StructuredTimes = { startTime, endTime, timeStatus: 'timed' }
+  return { ...times, times: formatTimeRange(times) }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { transformApiEvent, type ApiEvent } from './transformApiData'
+
+// The vendor sends dates as the last instant of the day in local time, which
+// in the evening is already the next day in UTC
+const apiEvent: ApiEvent = {
+  recId: '1234',
+  name: 'Farmers market',
+  location: 'Durham Central Park',
+  coordinates: [35.9988, -78.8995],
+  date: '2026-07-11T03:59:59.000Z', // July 10, 11:59 PM in Durham
+}
+
+describe('transformApiEvent', () => {
+  it('keys the event by recId', () => {
+    expect(transformApiEvent(apiEvent).externalId).toBe('1234')
+    expect(() => transformApiEvent({ ...apiEvent, recId: '' })).toThrow('"Farmers market" has no recId')
+  })
+
+  it('reads the date in the site timezone', () => {
+    expect(transformApiEvent(apiEvent).date).toBe('2026-07-10')
+  })
+
+  it('reads a late-evening end date in the site timezone', () => {
+    const event = transformApiEvent({
+      ...apiEvent,
+      recurrence: 'Every Friday',
+      endDate: '2026-08-29T03:59:59.000Z', // August 28, 11:59 PM
+    })
+
+    expect(event.endDate).toBe('2026-08-28')
+    // The series ends on the last Friday, not the Saturday after
+    expect(event.rrule).toContain('UNTIL=20260828')
+  })
+
+  it('takes coordinates from the [lat, lng] pair', () => {
+    expect(transformApiEvent(apiEvent).coordinates).toEqual({ lat: 35.9988, lng: -78.8995 })
+  })
+})
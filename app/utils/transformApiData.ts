@@ -1,9 +1,13 @@
+import { formatRRule, parseRecurrenceText } from './recurrence'
+import { toSiteDate } from './datetime'
+import type { SourceEvent } from '~/types/ingestion'
+
 export interface ApiEvent {
   recId: string
   name: string
   teaser?: string
   location: string
-  coordinates: [number, number]
+  coordinates?: [number, number]
   date: string
   times?: string
   cost?: string
@@ -19,57 +23,42 @@ export interface ApiEvent {
   city?: string
 }
 
-interface TransformedEvent {
-  id: string
-  title: string
-  description: string
-  location: string
-  coordinates?: {
-    lat: number
-    lng: number
-  }
-  date: string
-  imageUrl?: string
-  categories?: string[]
-  cost?: string
-  times?: string
-  address?: string
-  url?: string
-  region?: string
-  recurrence?: string
-  endDate?: string
-  city?: string
-  createdBy: string
-}
-
 /**
- * Transforms API event data into the app's event format
+ * Transforms API event data into the app's event format, keyed by the
+ * vendor's recId so re-uploads update events instead of duplicating them.
+ * Throws when the event has no recId.
  */
-export function transformApiEvent(apiEvent: ApiEvent): TransformedEvent {
+export function transformApiEvent(apiEvent: ApiEvent): SourceEvent {
+  if (apiEvent.recId === undefined || apiEvent.recId === null || apiEvent.recId === '') {
+    throw new Error(`"${apiEvent.name}" has no recId`)
+  }
+
   // Extract latitude and longitude from coordinates array
-  const [lat, lng] = apiEvent.coordinates
+  const [lat, lng] = apiEvent.coordinates ?? [NaN, NaN]
 
   // Get the first image URL if available
   const imageUrl = apiEvent.media_raw?.[0]?.mediaurl
 
-  // Extract and adjust the date (subtract 1 day)
-  // The API sends dates that are logged a day after the actual event
-  const apiDate = new Date(apiEvent.date)
-  apiDate.setDate(apiDate.getDate() - 1)
-  const formattedDate = apiDate.toISOString().split('T')[0]
+  // The API sends the date as the last instant of the event's day in local
+  // time (e.g. "2025-12-23T04:59:59.000Z" for Dec 22), so read it in the site timezone
+  const formattedDate = toSiteDate(apiEvent.date)
 
   // Extract category names
   const categories = apiEvent.categories?.map(cat => cat.catName) || []
 
+  const endDate = apiEvent.endDate ? toSiteDate(apiEvent.endDate) : undefined
+
+  // Turn the free-text recurrence ("Every Saturday") into a structured rule when we can
+  const rule = apiEvent.recurrence ? parseRecurrenceText(apiEvent.recurrence, endDate) : null
+
   return {
-    id: apiEvent.recId,
+    externalId: String(apiEvent.recId),
     title: apiEvent.name,
     description: apiEvent.teaser || `${apiEvent.name} at ${apiEvent.location}`,
     location: apiEvent.location,
-    coordinates: {
-      lat,
-      lng
-    },
+    coordinates: Number.isFinite(lat) && Number.isFinite(lng)
+      ? { lat, lng }
+      : undefined,
     date: formattedDate,
     imageUrl,
     categories,
@@ -79,15 +68,15 @@ export function transformApiEvent(apiEvent: ApiEvent): TransformedEvent {
     url: apiEvent.url,
     region: apiEvent.listing?.region,
     recurrence: apiEvent.recurrence,
-    endDate: apiEvent.endDate,
+    rrule: rule ? formatRRule(rule) : undefined,
+    endDate,
     city: apiEvent.city,
-    createdBy: 'system'
   }
 }
 
 /**
  * Transforms an array of API events
  */
-export function transformApiEvents(apiEvents: ApiEvent[]): TransformedEvent[] {
+export function transformApiEvents(apiEvents: ApiEvent[]): SourceEvent[] {
   return apiEvents.map(transformApiEvent)
 }
@@ -0,0 +1,200 @@
+import { prisma } from './db.server'
+import type { Event } from '~/stores/useEventStore'
+import type { Venue } from '~/types/venue'
+import type { Venue as VenueRecord } from '../../prisma/generated/client.js'
+import { isSameVenueLocation, normalizeVenueName } from './venues'
+
+// Shortest query the venue picker searches for
+const MIN_VENUE_QUERY_LENGTH = 2
+
+/**
+ * Map a database row to the app's Venue shape
+ */
+// The columns toVenue reads
+const VENUE_SELECT = {
+  id: true,
+  name: true,
+  address: true,
+  city: true,
+  region: true,
+  latitude: true,
+  longitude: true,
+  website: true,
+  accessibilityNotes: true,
+  photos: true,
+} as const
+
+export function toVenue(venue: Pick<VenueRecord, keyof typeof VENUE_SELECT>): Venue {
+  return {
+    id: venue.id,
+    name: venue.name,
+    address: venue.address || undefined,
+    city: venue.city || undefined,
+    region: venue.region || undefined,
+    coordinates: venue.latitude != null && venue.longitude != null
+      ? { lat: venue.latitude, lng: venue.longitude }
+      : undefined,
+    website: venue.website || undefined,
+    accessibilityNotes: venue.accessibilityNotes || undefined,
+    photos: venue.photos,
+  }
+}
+
+/**
+ * The event fields copied from a venue
+ */
+type EventVenueFields = Pick<Event, 'venueId' | 'location' | 'address' | 'city' | 'region' | 'coordinates'>
+
+function eventFieldsFromVenue(venue: Venue): EventVenueFields {
+  return {
+    venueId: venue.id,
+    location: venue.name,
+    address: venue.address,
+    city: venue.city,
+    region: venue.region,
+    coordinates: venue.coordinates,
+  }
+}
+
+/**
+ * Venues whose name or address contains the query, busiest first
+ */
+export async function searchVenues(query: string, limit: number = 8): Promise<Venue[]> {
+  const trimmed = query.trim()
+  if (trimmed.length < MIN_VENUE_QUERY_LENGTH) return []
+
+  const normalized = normalizeVenueName(trimmed)
+  const venues = await prisma.venue.findMany({
+    where: {
+      OR: [
+        { name: { contains: trimmed, mode: 'insensitive' as const } },
+        { address: { contains: trimmed, mode: 'insensitive' as const } },
+        ...(normalized ? [{ normalizedName: { contains: normalized } }] : []),
+      ],
+    },
+    select: { ...VENUE_SELECT, _count: { select: { events: true } } },
+    orderBy: [{ events: { _count: 'desc' as const } }, { name: 'asc' as const }],
+    take: limit,
+    cacheStrategy: { ttl: 30, swr: 60 }, // Cache for 30s, serve stale for 60s while revalidating
+  })
+
+  return venues.map((venue) => ({ ...toVenue(venue), eventCount: venue._count.events }))
+}
+
+export async function getVenueById(id: string): Promise<Venue | null> {
+  const venue = await prisma.venue.findUnique({
+    where: { id },
+    cacheStrategy: { ttl: 30, swr: 60 }, // Cache for 30s, serve stale for 60s while revalidating
+  })
+
+  return venue ? toVenue(venue) : null
+}
+
+/**
+ * The venue for a location typed into the event form: an existing venue with
+ * the same name nearby, or a new one. Details the existing venue lacks (e.g.
+ * coordinates) are filled in from the form.
+ */
+async function findOrCreateVenue(details: Omit<EventVenueFields, 'venueId'>, createdBy: string): Promise<Venue> {
+  const normalizedName = normalizeVenueName(details.location)
+  const location = { latitude: details.coordinates?.lat, longitude: details.coordinates?.lng }
+
+  const candidates = await prisma.venue.findMany({
+    where: { normalizedName },
+    orderBy: { createdAt: 'asc' },
+  })
+  const existing = candidates.find((venue) => isSameVenueLocation(venue, location))
+
+  if (existing) {
+    const missing = {
+      address: existing.address ? undefined : details.address,
+      city: existing.city ? undefined : details.city,
+      region: existing.region ? undefined : details.region,
+      latitude: existing.latitude ?? location.latitude,
+      longitude: existing.longitude ?? location.longitude,
+    }
+    const needsUpdate = missing.address || missing.city || missing.region ||
+      (existing.latitude == null && missing.latitude != null)
+    return toVenue(needsUpdate
+      ? await prisma.venue.update({ where: { id: existing.id }, data: missing })
+      : existing)
+  }
+
+  const venue = await prisma.venue.create({
+    data: {
+      name: details.location.trim(),
+      normalizedName,
+      address: details.address,
+      city: details.city,
+      region: details.region,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      createdBy,
+    },
+  })
+
+  return toVenue(venue)
+}
+
+/**
+ * Venue fields for an event being saved. A venue picked in the form wins over
+ * the typed location fields; otherwise the typed location is matched to (or
+ * becomes) a venue. An empty location (a draft) is left without a venue.
+ */
+export async function resolveEventVenue(
+  venueId: string | null,
+  details: Omit<EventVenueFields, 'venueId'>,
+  userId: string
+): Promise<EventVenueFields> {
+  const picked = venueId ? await getVenueById(venueId) : null
+  if (picked) return eventFieldsFromVenue(picked)
+  if (!details.location.trim()) return { ...details, venueId: undefined }
+
+  return eventFieldsFromVenue(await findOrCreateVenue(details, userId))
+}
+
+export interface VenueUpdate {
+  name: string
+  address?: string
+  city?: string
+  region?: string
+  coordinates?: { lat: number; lng: number }
+  website?: string
+  accessibilityNotes?: string
+  photos: string[]
+}
+
+/**
+ * Update a venue and copy its new details onto all of its events
+ */
+export async function updateVenue(id: string, data: VenueUpdate): Promise<Venue> {
+  const venue = toVenue(await prisma.venue.update({
+    where: { id },
+    data: {
+      name: data.name,
+      normalizedName: normalizeVenueName(data.name),
+      address: data.address ?? null,
+      city: data.city ?? null,
+      region: data.region ?? null,
+      latitude: data.coordinates?.lat ?? null,
+      longitude: data.coordinates?.lng ?? null,
+      website: data.website ?? null,
+      accessibilityNotes: data.accessibilityNotes ?? null,
+      photos: data.photos,
+    },
+  }))
+
+  await prisma.event.updateMany({
+    where: { venueId: id },
+    data: {
+      location: venue.name,
+      address: venue.address ?? null,
+      city: venue.city ?? null,
+      region: venue.region ?? null,
+      latitude: venue.coordinates?.lat ?? null,
+      longitude: venue.coordinates?.lng ?? null,
+    },
+  })
+
+  return venue
+}
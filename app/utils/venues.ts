@@ -0,0 +1,119 @@
+import { distanceInMiles } from './geo'
+
+// Locations with the same name further apart than this are different venues
+// (e.g. two branches of a library)
+const SAME_VENUE_MAX_MILES = 0.5
+
+/**
+ * Reduce a venue name to the form used for matching, so "The Pinhook",
+ * "pinhook" and "Pinhook!" are the same venue
+ */
+export function normalizeVenueName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '')
+}
+
+interface MaybeLocated {
+  latitude?: number | null
+  longitude?: number | null
+}
+
+/**
+ * Whether two same-named places are the same venue: true unless both have
+ * coordinates and they are far apart
+ */
+export function isSameVenueLocation(a: MaybeLocated, b: MaybeLocated): boolean {
+  if (a.latitude == null || a.longitude == null || b.latitude == null || b.longitude == null) {
+    return true
+  }
+  return distanceInMiles(
+    { lat: a.latitude, lng: a.longitude },
+    { lat: b.latitude, lng: b.longitude }
+  ) <= SAME_VENUE_MAX_MILES
+}
+
+export interface VenueLocation extends MaybeLocated {
+  id: string // Event ID
+  location: string
+  address?: string | null
+  city?: string | null
+  region?: string | null
+}
+
+export interface VenueCluster {
+  name: string
+  normalizedName: string
+  address?: string
+  city?: string
+  region?: string
+  latitude?: number
+  longitude?: number
+  eventIds: string[]
+}
+
+// The value given most often, ignoring blanks; ties go to the first seen
+function mostCommon(values: (string | null | undefined)[]): string | undefined {
+  const counts = new Map<string, number>()
+  for (const value of values) {
+    const trimmed = value?.trim()
+    if (trimmed) counts.set(trimmed, (counts.get(trimmed) || 0) + 1)
+  }
+  let best: string | undefined
+  let bestCount = 0
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/**
+ * Group event locations into venues. Locations match when their names
+ * normalize the same and isSameVenueLocation holds. Each venue takes the most common
+ * spelling of each field among its events.
+ */
+export function clusterVenueLocations(locations: VenueLocation[]): VenueCluster[] {
+  const groups: { normalizedName: string; members: VenueLocation[] }[] = []
+  const groupsByName = new Map<string, typeof groups>()
+
+  for (const location of locations) {
+    const normalizedName = normalizeVenueName(location.location)
+    if (!normalizedName) continue
+
+    const candidates = groupsByName.get(normalizedName) || []
+    const match = candidates.find((group) => {
+      const located = group.members.find((member) => member.latitude != null && member.longitude != null)
+      return !located || isSameVenueLocation(location, located)
+    })
+
+    if (match) {
+      match.members.push(location)
+    } else {
+      const group = { normalizedName, members: [location] }
+      groups.push(group)
+      groupsByName.set(normalizedName, [...candidates, group])
+    }
+  }
+
+  return groups.map(({ normalizedName, members }) => {
+    const located = members.find((member) => member.latitude != null && member.longitude != null)
+    return {
+      name: mostCommon(members.map((member) => member.location))!,
+      normalizedName,
+      address: mostCommon(members.map((member) => member.address)),
+      city: mostCommon(members.map((member) => member.city)),
+      region: mostCommon(members.map((member) => member.region)),
+      latitude: located?.latitude ?? undefined,
+      longitude: located?.longitude ?? undefined,
+      eventIds: members.map((member) => member.id),
+    }
+  })
+}
@@ -0,0 +1,66 @@
+import type { EventCardTheme } from '~/components/EventCard'
+
+export const WIDGET_DEFAULT_LIMIT = 5
+export const WIDGET_MAX_LIMIT = 20
+export const WIDGET_DEFAULT_ACCENT = '#2563eb'
+
+// postMessage type the widget sends its parent page when its height changes
+export const WIDGET_RESIZE_MESSAGE = 'events-widget:resize'
+
+// Attribute marking the elements embed.js turns into widgets
+export const WIDGET_ATTRIBUTE = 'data-events-widget'
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{6})$/i
+
+/**
+ * Options for the embeddable events widget, carried as query params on
+ * /embed/events and as data-* attributes by the embed.js loader
+ */
+export interface WidgetOptions {
+  city?: string
+  category?: string
+  venue?: string
+  author?: string // User ID of the event submitter
+  theme: EventCardTheme
+  accent: string // #rrggbb
+  limit: number
+  images: boolean
+  title?: string
+}
+
+// Param names, in the order snippets list them
+export const WIDGET_PARAMS = ['city', 'category', 'venue', 'author', 'theme', 'accent', 'limit', 'images', 'title'] as const
+
+export function parseWidgetOptions(params: URLSearchParams): WidgetOptions {
+  const limit = parseInt(params.get('limit') || '', 10)
+  const accent = HEX_COLOR_PATTERN.exec(params.get('accent') || '')
+
+  return {
+    city: params.get('city')?.trim() || undefined,
+    category: params.get('category')?.trim() || undefined,
+    venue: params.get('venue')?.trim() || undefined,
+    author: params.get('author')?.trim() || undefined,
+    theme: params.get('theme') === 'dark' ? 'dark' : 'light',
+    accent: accent ? `#${accent[1].toLowerCase()}` : WIDGET_DEFAULT_ACCENT,
+    limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), WIDGET_MAX_LIMIT) : WIDGET_DEFAULT_LIMIT,
+    images: params.get('images') !== 'false',
+    title: params.get('title')?.trim() || undefined,
+  }
+}
+
+/**
+ * Query params for the given options, leaving out defaults to keep snippets short
+ */
+export function widgetSearchParams(options: WidgetOptions): URLSearchParams {
+  const params = new URLSearchParams()
+  if (options.city) params.set('city', options.city)
+  if (options.category) params.set('category', options.category)
+  if (options.venue) params.set('venue', options.venue)
+  if (options.author) params.set('author', options.author)
+  if (options.theme !== 'light') params.set('theme', options.theme)
+  if (options.accent !== WIDGET_DEFAULT_ACCENT) params.set('accent', options.accent)
+  if (options.limit !== WIDGET_DEFAULT_LIMIT) params.set('limit', options.limit.toString())
+  if (!options.images) params.set('images', 'false')
+  if (options.title) params.set('title', options.title)
+  return params
+}
@@ -23,7 +23,13 @@ async function main() {
       longitude: -78.8734,
       categories: ['Technology', 'Networking'],
       cost: 'Free',
+      priceMin: 0,
+      priceMax: 0,
+      isFree: true,
       times: '6:00 PM - 8:00 PM',
+      startTime: '18:00',
+      endTime: '20:00',
+      timeStatus: 'timed',
       city: 'Durham',
       region: 'Research Triangle Park',
       createdBy: 'system',
@@ -41,10 +47,17 @@ async function main() {
       longitude: -78.6382,
       categories: ['Food', 'Music'],
       cost: 'Free',
+      priceMin: 0,
+      priceMax: 0,
+      isFree: true,
       times: '11:00 AM - 2:00 PM',
+      startTime: '11:00',
+      endTime: '14:00',
+      timeStatus: 'timed',
       city: 'Raleigh',
       region: 'Downtown Raleigh',
-      recurrence: 'Every Friday',
+      recurrence: 'Every week on Friday',
+      rrule: 'FREQ=WEEKLY;BYDAY=FR',
       createdBy: 'system',
     }
   })
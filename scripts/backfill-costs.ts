@@ -0,0 +1,75 @@
+import 'dotenv/config'
+import { PrismaClient } from '../prisma/generated/client.js'
+import { PrismaPg } from '@prisma/adapter-pg'
+import { formatPriceRange, parseCost } from '../app/utils/cost'
+
+const adapter = new PrismaPg({ connectionString: process.env.PRISMA_POSTGRESQL_URL! })
+const prisma = new PrismaClient({ adapter })
+
+async function main() {
+  console.log('💲 Parsing free-text costs into price ranges...\n')
+
+  const events = await prisma.event.findMany({
+    where: { cost: { not: null } },
+    select: {
+      id: true,
+      title: true,
+      cost: true,
+    },
+  })
+
+  console.log(`Found ${events.length} events with a cost\n`)
+
+  const updates: { id: string; data: NonNullable<ReturnType<typeof parseCost>> }[] = []
+  const unpriced: typeof events = []
+
+  for (const event of events) {
+    const parsed = parseCost(event.cost)
+    if (!parsed) continue
+
+    if (parsed.priceMin === null) {
+      unpriced.push(event)
+    } else {
+      const flags = [
+        parsed.isDonation && 'donation',
+        parsed.rsvpRequired && 'RSVP',
+        parsed.isTicketed && 'ticketed',
+      ].filter(Boolean).join(', ')
+      console.log(`✓ "${event.title}": "${event.cost}" → ${formatPriceRange(parsed)}${flags ? ` (${flags})` : ''}`)
+    }
+
+    // Rows without a price still get their flags (e.g. "RSVP required")
+    updates.push({ id: event.id, data: parsed })
+  }
+
+  if (unpriced.length > 0) {
+    console.log(`\n⚠️  No price found in ${unpriced.length} costs (these won't match the price filter):`)
+    for (const event of unpriced) {
+      console.log(`   ${event.id}  "${event.title}": "${event.cost}"`)
+    }
+  }
+
+  if (process.argv.includes('--dry-run')) {
+    console.log(`\n🔍 DRY RUN: Would update ${updates.length} events`)
+    console.log('   Run without --dry-run to apply the changes')
+    return
+  }
+
+  for (const { id, data } of updates) {
+    await prisma.event.update({
+      where: { id },
+      data,
+    })
+  }
+
+  console.log(`\n✅ Updated ${updates.length} events`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
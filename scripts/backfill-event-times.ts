@@ -0,0 +1,64 @@
+import 'dotenv/config'
+import { PrismaClient } from '../prisma/generated/client.js'
+import { PrismaPg } from '@prisma/adapter-pg'
+import { eventTimestamps, SITE_TIMEZONE } from '../app/utils/datetime'
+
+const adapter = new PrismaPg({ connectionString: process.env.PRISMA_POSTGRESQL_URL! })
+const prisma = new PrismaClient({ adapter })
+
+// Fills in startsAt/endsAt from each event's date and times. Safe to re-run,
+// e.g. after changing the site timezone: only events whose timestamps differ
+// are updated.
+async function main() {
+  console.log(`🕒 Computing event start and end timestamps in ${SITE_TIMEZONE}...\n`)
+
+  const events = await prisma.event.findMany({
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      startTime: true,
+      endTime: true,
+      startsAt: true,
+      endsAt: true,
+    },
+  })
+
+  console.log(`Found ${events.length} events\n`)
+
+  const updates: { id: string; startsAt: Date; endsAt: Date | null }[] = []
+
+  for (const event of events) {
+    const { startsAt, endsAt } = eventTimestamps(event)
+    if (event.startsAt?.getTime() === startsAt.getTime() && (event.endsAt?.getTime() ?? null) === (endsAt?.getTime() ?? null)) {
+      continue
+    }
+
+    console.log(`✓ "${event.title}": ${event.date} ${event.startTime ?? 'all day'} → ${startsAt.toISOString()}${endsAt ? ` - ${endsAt.toISOString()}` : ''}`)
+    updates.push({ id: event.id, startsAt, endsAt })
+  }
+
+  if (process.argv.includes('--dry-run')) {
+    console.log(`\n🔍 DRY RUN: Would update ${updates.length} events`)
+    console.log('   Run without --dry-run to apply the changes')
+    return
+  }
+
+  for (const { id, ...data } of updates) {
+    await prisma.event.update({
+      where: { id },
+      data,
+    })
+  }
+
+  console.log(`\n✅ Updated ${updates.length} events`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,56 @@
+import 'dotenv/config'
+import { PrismaClient } from '../prisma/generated/client.js'
+import { PrismaPg } from '@prisma/adapter-pg'
+import { LISTED_EVENT_STATUSES } from '../app/types/moderation'
+
+const adapter = new PrismaPg({ connectionString: process.env.PRISMA_POSTGRESQL_URL! })
+const prisma = new PrismaClient({ adapter })
+
+// Fills in listedAt for public events from before the column existed: the
+// time they were approved, or created when they were never reviewed. Safe to
+// re-run: only events without one are updated.
+async function main() {
+  console.log('📅 Filling in when public events were listed...\n')
+
+  const events = await prisma.event.findMany({
+    where: { status: { in: LISTED_EVENT_STATUSES }, listedAt: null },
+    select: {
+      id: true,
+      title: true,
+      createdAt: true,
+      reviewedAt: true,
+    },
+  })
+
+  console.log(`Found ${events.length} public events without a listing time\n`)
+
+  const updates = events.map((event) => {
+    const listedAt = event.reviewedAt ?? event.createdAt
+    console.log(`✓ "${event.title}" → ${listedAt.toISOString()}`)
+    return { id: event.id, listedAt }
+  })
+
+  if (process.argv.includes('--dry-run')) {
+    console.log(`\n🔍 DRY RUN: Would update ${updates.length} events`)
+    console.log('   Run without --dry-run to apply the changes')
+    return
+  }
+
+  for (const { id, ...data } of updates) {
+    await prisma.event.update({
+      where: { id },
+      data,
+    })
+  }
+
+  console.log(`\n✅ Updated ${updates.length} events`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
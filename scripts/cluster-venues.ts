@@ -0,0 +1,106 @@
+import 'dotenv/config'
+import { PrismaClient } from '../prisma/generated/client.js'
+import { PrismaPg } from '@prisma/adapter-pg'
+import { clusterVenueLocations, isSameVenueLocation } from '../app/utils/venues'
+
+const adapter = new PrismaPg({ connectionString: process.env.PRISMA_POSTGRESQL_URL! })
+const prisma = new PrismaClient({ adapter })
+
+// Links events without a venue to venues, creating venues by clustering the
+// events' location strings. Safe to re-run, e.g. after a bulk upload.
+async function main() {
+  console.log('📍 Clustering event locations into venues...\n')
+
+  const events = await prisma.event.findMany({
+    where: { venueId: null },
+    select: {
+      id: true,
+      location: true,
+      address: true,
+      city: true,
+      region: true,
+      latitude: true,
+      longitude: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  console.log(`Found ${events.length} events without a venue\n`)
+  if (events.length === 0) return
+
+  const clusters = clusterVenueLocations(events)
+  const venues = await prisma.venue.findMany()
+  const isDryRun = process.argv.includes('--dry-run')
+
+  let created = 0
+  let linked = 0
+
+  for (const cluster of clusters) {
+    const spellings = new Set(
+      events.filter((event) => cluster.eventIds.includes(event.id)).map((event) => event.location.trim())
+    )
+    let venue = venues.find((candidate) =>
+      candidate.normalizedName === cluster.normalizedName && isSameVenueLocation(candidate, cluster)
+    )
+
+    console.log(`${venue ? '🔗' : '🆕'} "${venue?.name ?? cluster.name}" ← ${cluster.eventIds.length} event(s)`)
+    if (spellings.size > 1) {
+      console.log(`   Merged spellings: ${Array.from(spellings).map((name) => `"${name}"`).join(', ')}`)
+    }
+
+    if (isDryRun) {
+      if (!venue) created++
+      linked += cluster.eventIds.length
+      continue
+    }
+
+    if (!venue) {
+      venue = await prisma.venue.create({
+        data: {
+          name: cluster.name,
+          normalizedName: cluster.normalizedName,
+          address: cluster.address,
+          city: cluster.city,
+          region: cluster.region,
+          latitude: cluster.latitude,
+          longitude: cluster.longitude,
+        },
+      })
+      venues.push(venue)
+      created++
+    }
+
+    // Events take the venue's canonical spelling and coordinates, keeping
+    // their own values for anything the venue lacks
+    const result = await prisma.event.updateMany({
+      where: { id: { in: cluster.eventIds } },
+      data: {
+        venueId: venue.id,
+        location: venue.name,
+        address: venue.address ?? undefined,
+        city: venue.city ?? undefined,
+        region: venue.region ?? undefined,
+        latitude: venue.latitude ?? undefined,
+        longitude: venue.longitude ?? undefined,
+      },
+    })
+    linked += result.count
+  }
+
+  if (isDryRun) {
+    console.log(`\n🔍 DRY RUN: Would create ${created} venues and link ${linked} events`)
+    console.log('   Run without --dry-run to apply the changes')
+    return
+  }
+
+  console.log(`\n✅ Created ${created} venues and linked ${linked} events`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,60 @@
+import 'dotenv/config'
+import { PrismaClient } from '../prisma/generated/client.js'
+import { PrismaPg } from '@prisma/adapter-pg'
+import { API_KEY_DISPLAY_LENGTH, generateApiKey, hashApiKey } from '../app/utils/api-keys'
+
+const adapter = new PrismaPg({ connectionString: process.env.PRISMA_POSTGRESQL_URL! })
+const prisma = new PrismaClient({ adapter })
+
+// Usage: npm run create-api-key -- "Partner name" [--limit=5000]
+//        npm run create-api-key -- --revoke=le_AbCdEfG
+async function main() {
+  const args = process.argv.slice(2)
+  const option = (name: string) => args.find((arg) => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+  const revokePrefix = option('revoke')
+  if (revokePrefix) {
+    const result = await prisma.apiKey.updateMany({
+      where: { keyPrefix: revokePrefix, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+    console.log(result.count > 0 ? `✅ Revoked ${result.count} key(s) starting with ${revokePrefix}` : `❌ No active key starts with ${revokePrefix}`)
+    return
+  }
+
+  const name = args.find((arg) => !arg.startsWith('--'))
+  if (!name) {
+    console.error('❌ Usage: npm run create-api-key -- "Partner name" [--limit=5000]')
+    process.exit(1)
+  }
+
+  const limitOption = option('limit')
+  const rateLimit = limitOption ? parseInt(limitOption, 10) : undefined
+  if (rateLimit !== undefined && !(rateLimit > 0)) {
+    console.error('❌ --limit must be a positive number of requests per hour')
+    process.exit(1)
+  }
+
+  const key = generateApiKey()
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name,
+      keyHash: hashApiKey(key),
+      keyPrefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+      rateLimit,
+    },
+  })
+
+  console.log(`🔑 API key for "${apiKey.name}" (${apiKey.rateLimit} requests/hour):\n`)
+  console.log(`   ${key}\n`)
+  console.log('   This is the only time the key is shown. Send it with requests as the X-API-Key header.')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
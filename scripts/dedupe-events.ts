@@ -68,6 +68,7 @@ async function main() {
   console.log(`Found ${duplicateGroups.length} groups of duplicate events:\n`)
 
   const idsToDelete: string[] = []
+  const keptIds = new Map<string, string>() // Duplicate ID -> the ID kept in its place
 
   for (const [, events] of duplicateGroups) {
     // Keep the first (oldest) event, mark the rest for deletion
@@ -79,6 +80,7 @@ async function main() {
     for (const dup of duplicates) {
       console.log(`   Deleting: ${dup.id} (created ${dup.createdAt.toISOString()})`)
       idsToDelete.push(dup.id)
+      keptIds.set(dup.id, keep.id)
     }
     console.log()
   }
@@ -103,6 +105,22 @@ async function main() {
 
   await new Promise((resolve) => setTimeout(resolve, 5000))
 
+  // Move votes to the kept copy first, so deleting doesn't lose them
+  // (users who voted for both copies keep their one vote)
+  console.log('🗳️  Moving votes to the kept events...')
+
+  let votesMoved = 0
+  for (const [duplicateId, keepId] of keptIds) {
+    const keepVoters = await prisma.vote.findMany({ where: { eventId: keepId }, select: { userId: true } })
+    const moved = await prisma.vote.updateMany({
+      where: { eventId: duplicateId, userId: { notIn: keepVoters.map((vote) => vote.userId) } },
+      data: { eventId: keepId },
+    })
+    votesMoved += moved.count
+  }
+
+  console.log(`   Moved ${votesMoved} votes`)
+
   // Delete duplicates
   console.log('🗑️  Deleting duplicates...')
 
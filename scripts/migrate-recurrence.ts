@@ -0,0 +1,74 @@
+import 'dotenv/config'
+import { PrismaClient } from '../prisma/generated/client.js'
+import { PrismaPg } from '@prisma/adapter-pg'
+import { formatRRule, parseRecurrenceText } from '../app/utils/recurrence'
+
+const adapter = new PrismaPg({ connectionString: process.env.PRISMA_POSTGRESQL_URL! })
+const prisma = new PrismaClient({ adapter })
+
+async function main() {
+  console.log('🔁 Converting free-text recurrence into structured rules...\n')
+
+  const events = await prisma.event.findMany({
+    where: {
+      recurrence: { not: null },
+      rrule: null,
+    },
+    select: {
+      id: true,
+      title: true,
+      recurrence: true,
+      endDate: true,
+    },
+  })
+
+  console.log(`Found ${events.length} events with unstructured recurrence\n`)
+
+  const updates: { id: string; rrule: string }[] = []
+  const unparsed: typeof events = []
+
+  for (const event of events) {
+    // Older rows may carry a full timestamp in endDate
+    const until = event.endDate?.split('T')[0]
+    const rule = parseRecurrenceText(event.recurrence!, until)
+
+    if (rule) {
+      const rrule = formatRRule(rule)
+      console.log(`✓ "${event.title}": "${event.recurrence}" → ${rrule}`)
+      updates.push({ id: event.id, rrule })
+    } else {
+      unparsed.push(event)
+    }
+  }
+
+  if (unparsed.length > 0) {
+    console.log(`\n⚠️  Could not parse ${unparsed.length} recurrence values (edit these by hand):`)
+    for (const event of unparsed) {
+      console.log(`   ${event.id}  "${event.title}": "${event.recurrence}"`)
+    }
+  }
+
+  if (process.argv.includes('--dry-run')) {
+    console.log(`\n🔍 DRY RUN: Would update ${updates.length} events`)
+    console.log('   Run without --dry-run to apply the changes')
+    return
+  }
+
+  for (const { id, rrule } of updates) {
+    await prisma.event.update({
+      where: { id },
+      data: { rrule },
+    })
+  }
+
+  console.log(`\n✅ Updated ${updates.length} events`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,81 @@
+import 'dotenv/config'
+import { PrismaClient } from '../prisma/generated/client.js'
+import { PrismaPg } from '@prisma/adapter-pg'
+import { structureTimes } from '../app/utils/times'
+import { eventTimestamps } from '../app/utils/datetime'
+
+const adapter = new PrismaPg({ connectionString: process.env.PRISMA_POSTGRESQL_URL! })
+const prisma = new PrismaClient({ adapter })
+
+async function main() {
+  console.log('🕒 Converting free-text times into structured start/end times...\n')
+
+  const events = await prisma.event.findMany({
+    where: {
+      times: { not: null },
+      timeStatus: null,
+    },
+    select: {
+      id: true,
+      title: true,
+      date: true,
+      times: true,
+    },
+  })
+
+  console.log(`Found ${events.length} events with unstructured times\n`)
+
+  const updates: { id: string; startTime?: string; endTime?: string; timeStatus: string; startsAt: Date; endsAt: Date | null }[] = []
+  const unparsed: typeof events = []
+  let allDay = 0
+
+  for (const event of events) {
+    const { startTime, endTime, timeStatus } = structureTimes(event.times)
+    if (!timeStatus) continue
+
+    if (timeStatus === 'unparseable') {
+      unparsed.push(event)
+    } else if (timeStatus === 'all-day') {
+      allDay++
+      console.log(`✓ "${event.title}": "${event.times}" → all day`)
+    } else {
+      console.log(`✓ "${event.title}": "${event.times}" → ${startTime}${endTime ? `-${endTime}` : ''}`)
+    }
+
+    // Unparseable rows are flagged too, so they are not retried on every run
+    updates.push({ id: event.id, startTime, endTime, timeStatus, ...eventTimestamps({ date: event.date, startTime, endTime }) })
+  }
+
+  console.log(`\n📊 ${updates.length - unparsed.length - allDay} timed, ${allDay} all day, ${unparsed.length} unparseable`)
+
+  if (unparsed.length > 0) {
+    console.log(`\n⚠️  Could not parse ${unparsed.length} times values (edit these by hand):`)
+    for (const event of unparsed) {
+      console.log(`   ${event.id}  "${event.title}": "${event.times}"`)
+    }
+  }
+
+  if (process.argv.includes('--dry-run')) {
+    console.log(`\n🔍 DRY RUN: Would update ${updates.length} events`)
+    console.log('   Run without --dry-run to apply the changes')
+    return
+  }
+
+  for (const { id, ...data } of updates) {
+    await prisma.event.update({
+      where: { id },
+      data,
+    })
+  }
+
+  console.log(`\n✅ Updated ${updates.length} events`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,104 @@
+import 'dotenv/config'
+import { PrismaClient } from '../prisma/generated/client.js'
+import { PrismaPg } from '@prisma/adapter-pg'
+
+const adapter = new PrismaPg({ connectionString: process.env.PRISMA_POSTGRESQL_URL! })
+const prisma = new PrismaClient({ adapter })
+
+// Safe to re-run: every statement is idempotent
+const STATEMENTS: { label: string; sql: string }[] = [
+  {
+    label: 'pg_trgm extension',
+    sql: `CREATE EXTENSION IF NOT EXISTS pg_trgm`,
+  },
+  {
+    label: 'searchVector column',
+    sql: `ALTER TABLE "Event" ADD COLUMN IF NOT EXISTS "searchVector" tsvector`,
+  },
+  {
+    // Title matches outrank category, venue and city matches, which outrank the description
+    label: 'search vector trigger function',
+    sql: `
+      CREATE OR REPLACE FUNCTION event_search_vector_update() RETURNS trigger AS $$
+      BEGIN
+        NEW."searchVector" :=
+          setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+          setweight(to_tsvector('english', array_to_string(NEW.categories, ' ')), 'B') ||
+          setweight(to_tsvector('english', coalesce(NEW.location, '')), 'B') ||
+          setweight(to_tsvector('english', coalesce(NEW.city, '')), 'B') ||
+          setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+        RETURN NEW;
+      END
+      $$ LANGUAGE plpgsql`,
+  },
+  {
+    label: 'drop previous search vector trigger',
+    sql: `DROP TRIGGER IF EXISTS event_search_vector_trigger ON "Event"`,
+  },
+  {
+    label: 'search vector trigger',
+    sql: `
+      CREATE TRIGGER event_search_vector_trigger
+      BEFORE INSERT OR UPDATE OF title, description, location, city, categories ON "Event"
+      FOR EACH ROW EXECUTE FUNCTION event_search_vector_update()`,
+  },
+  {
+    label: 'full-text index',
+    sql: `CREATE INDEX IF NOT EXISTS "Event_searchVector_idx" ON "Event" USING GIN ("searchVector")`,
+  },
+  {
+    label: 'title trigram index',
+    sql: `CREATE INDEX IF NOT EXISTS "Event_title_idx" ON "Event" USING GIN (title gin_trgm_ops)`,
+  },
+  {
+    label: 'location trigram index',
+    sql: `CREATE INDEX IF NOT EXISTS "Event_location_idx" ON "Event" USING GIN (location gin_trgm_ops)`,
+  },
+  {
+    label: 'city trigram index',
+    sql: `CREATE INDEX IF NOT EXISTS "Event_city_trgm_idx" ON "Event" USING GIN (city gin_trgm_ops)`,
+  },
+]
+
+async function main() {
+  console.log('🔎 Setting up full-text search...\n')
+
+  if (process.argv.includes('--dry-run')) {
+    for (const { label, sql } of STATEMENTS) {
+      console.log(`-- ${label}\n${sql.trim()};\n`)
+    }
+    console.log('🔍 DRY RUN: No changes made')
+    console.log('   Run without --dry-run to apply the changes')
+    return
+  }
+
+  // The trigram index in schema.prisma needs pg_trgm, so on a fresh database
+  // this runs once before `db:push` and again afterwards
+  const [{ exists }] = await prisma.$queryRawUnsafe<{ exists: boolean }[]>(
+    `SELECT to_regclass('"Event"') IS NOT NULL AS exists`
+  )
+  if (!exists) {
+    await prisma.$executeRawUnsafe(STATEMENTS[0].sql)
+    console.log(`✓ ${STATEMENTS[0].label}`)
+    console.log('\n⚠️  Event table not found. Run `npm run db:push`, then run this script again.')
+    return
+  }
+
+  for (const { label, sql } of STATEMENTS) {
+    await prisma.$executeRawUnsafe(sql)
+    console.log(`✓ ${label}`)
+  }
+
+  // Touching the title fires the trigger, filling the vector for existing rows
+  const updated = await prisma.$executeRawUnsafe(`UPDATE "Event" SET title = title WHERE "searchVector" IS NULL`)
+  console.log(`\n✅ Indexed ${updated} existing events`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })